@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "NoShowStrike" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "userId" TEXT NOT NULL,
+    "battleId" TEXT NOT NULL,
+
+    CONSTRAINT "NoShowStrike_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "NoShowStrike_userId_expiresAt_idx" ON "NoShowStrike"("userId", "expiresAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "NoShowStrike_battleId_userId_key" ON "NoShowStrike"("battleId", "userId");
+
+-- AddForeignKey
+ALTER TABLE "NoShowStrike" ADD CONSTRAINT "NoShowStrike_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "NoShowStrike" ADD CONSTRAINT "NoShowStrike_battleId_fkey" FOREIGN KEY ("battleId") REFERENCES "Battle"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,34 @@
+-- CreateEnum
+CREATE TYPE "StakeLedgerType" AS ENUM ('LOCK', 'RELEASE', 'PAYOUT', 'RAKE');
+
+-- CreateTable
+CREATE TABLE "StakeLedgerEntry" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "key" TEXT NOT NULL,
+    "type" "StakeLedgerType" NOT NULL,
+    "amount" DECIMAL(20,6) NOT NULL,
+    "battleId" TEXT NOT NULL,
+    "userId" TEXT,
+    "battleResultId" TEXT,
+
+    CONSTRAINT "StakeLedgerEntry_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "StakeLedgerEntry_key_key" ON "StakeLedgerEntry"("key");
+
+-- CreateIndex
+CREATE INDEX "StakeLedgerEntry_battleId_idx" ON "StakeLedgerEntry"("battleId");
+
+-- CreateIndex
+CREATE INDEX "StakeLedgerEntry_userId_idx" ON "StakeLedgerEntry"("userId");
+
+-- AddForeignKey
+ALTER TABLE "StakeLedgerEntry" ADD CONSTRAINT "StakeLedgerEntry_battleId_fkey" FOREIGN KEY ("battleId") REFERENCES "Battle"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "StakeLedgerEntry" ADD CONSTRAINT "StakeLedgerEntry_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "StakeLedgerEntry" ADD CONSTRAINT "StakeLedgerEntry_battleResultId_fkey" FOREIGN KEY ("battleResultId") REFERENCES "BattleResult"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,34 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "gamesPlayed" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "ratingDeviation" DOUBLE PRECISION NOT NULL DEFAULT 350;
+
+-- CreateTable
+CREATE TABLE "RatingChange" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "userId" TEXT NOT NULL,
+    "battleId" TEXT NOT NULL,
+    "rank" INTEGER NOT NULL,
+    "ratingBefore" INTEGER NOT NULL,
+    "ratingAfter" INTEGER NOT NULL,
+    "delta" INTEGER NOT NULL,
+    "expectedScore" DOUBLE PRECISION NOT NULL,
+    "actualScore" DOUBLE PRECISION NOT NULL,
+    "kFactor" INTEGER,
+    "deviationBefore" DOUBLE PRECISION,
+    "deviationAfter" DOUBLE PRECISION,
+
+    CONSTRAINT "RatingChange_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "RatingChange_userId_createdAt_idx" ON "RatingChange"("userId", "createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RatingChange_battleId_userId_key" ON "RatingChange"("battleId", "userId");
+
+-- AddForeignKey
+ALTER TABLE "RatingChange" ADD CONSTRAINT "RatingChange_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RatingChange" ADD CONSTRAINT "RatingChange_battleId_fkey" FOREIGN KEY ("battleId") REFERENCES "Battle"("id") ON DELETE CASCADE ON UPDATE CASCADE;
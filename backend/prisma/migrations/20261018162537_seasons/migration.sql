@@ -0,0 +1,56 @@
+-- CreateEnum
+CREATE TYPE "SeasonStatus" AS ENUM ('ACTIVE', 'ENDED');
+
+-- CreateEnum
+CREATE TYPE "RankTier" AS ENUM ('BRONZE', 'SILVER', 'GOLD', 'PLATINUM', 'DIAMOND', 'MASTER', 'LEGEND');
+
+-- CreateTable
+CREATE TABLE "Season" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "number" INTEGER NOT NULL,
+    "name" TEXT NOT NULL,
+    "status" "SeasonStatus" NOT NULL DEFAULT 'ACTIVE',
+    "startsAt" TIMESTAMP(3) NOT NULL,
+    "endsAt" TIMESTAMP(3) NOT NULL,
+    "endedAt" TIMESTAMP(3),
+
+    CONSTRAINT "Season_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "SeasonStanding" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "seasonId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "rankPoints" INTEGER NOT NULL DEFAULT 0,
+    "tier" "RankTier" NOT NULL DEFAULT 'BRONZE',
+    "battlesPlayed" INTEGER NOT NULL DEFAULT 0,
+    "wins" INTEGER NOT NULL DEFAULT 0,
+    "winStreak" INTEGER NOT NULL DEFAULT 0,
+    "bestWinStreak" INTEGER NOT NULL DEFAULT 0,
+    "finalRank" INTEGER,
+    "finalElo" INTEGER,
+
+    CONSTRAINT "SeasonStanding_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Season_number_key" ON "Season"("number");
+
+-- CreateIndex
+CREATE INDEX "Season_status_idx" ON "Season"("status");
+
+-- CreateIndex
+CREATE INDEX "SeasonStanding_seasonId_rankPoints_idx" ON "SeasonStanding"("seasonId", "rankPoints");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SeasonStanding_seasonId_userId_key" ON "SeasonStanding"("seasonId", "userId");
+
+-- AddForeignKey
+ALTER TABLE "SeasonStanding" ADD CONSTRAINT "SeasonStanding_seasonId_fkey" FOREIGN KEY ("seasonId") REFERENCES "Season"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SeasonStanding" ADD CONSTRAINT "SeasonStanding_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
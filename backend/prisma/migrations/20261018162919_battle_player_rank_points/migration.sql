@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "BattlePlayer" ADD COLUMN     "rankPoints" INTEGER;
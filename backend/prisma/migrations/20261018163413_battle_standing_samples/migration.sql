@@ -0,0 +1,24 @@
+-- AlterTable
+ALTER TABLE "BattlePlayer" ADD COLUMN     "startAccountValue" DECIMAL(20,6);
+
+-- CreateTable
+CREATE TABLE "BattleStandingSample" (
+    "id" TEXT NOT NULL,
+    "sampledAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "battleId" TEXT NOT NULL,
+    "slot" INTEGER NOT NULL,
+    "userId" TEXT NOT NULL,
+    "rank" INTEGER NOT NULL,
+    "accountValue" DECIMAL(20,6) NOT NULL,
+    "pnl" DECIMAL(20,6) NOT NULL,
+    "roi" DECIMAL(20,6) NOT NULL,
+    "forfeited" BOOLEAN NOT NULL DEFAULT false,
+
+    CONSTRAINT "BattleStandingSample_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "BattleStandingSample_battleId_sampledAt_idx" ON "BattleStandingSample"("battleId", "sampledAt");
+
+-- AddForeignKey
+ALTER TABLE "BattleStandingSample" ADD CONSTRAINT "BattleStandingSample_battleId_fkey" FOREIGN KEY ("battleId") REFERENCES "Battle"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,46 @@
+-- CreateEnum
+CREATE TYPE "ChatMessageType" AS ENUM ('USER', 'SYSTEM');
+
+-- CreateTable
+CREATE TABLE "BattleChatMessage" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "battleId" TEXT NOT NULL,
+    "type" "ChatMessageType" NOT NULL DEFAULT 'USER',
+    "userId" TEXT,
+    "content" TEXT NOT NULL,
+    "deletedAt" TIMESTAMP(3),
+    "deletedById" TEXT,
+
+    CONSTRAINT "BattleChatMessage_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "BattleChatMute" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "battleId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "mutedById" TEXT NOT NULL,
+    "expiresAt" TIMESTAMP(3),
+
+    CONSTRAINT "BattleChatMute_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "BattleChatMessage_battleId_createdAt_idx" ON "BattleChatMessage"("battleId", "createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "BattleChatMute_battleId_userId_key" ON "BattleChatMute"("battleId", "userId");
+
+-- AddForeignKey
+ALTER TABLE "BattleChatMessage" ADD CONSTRAINT "BattleChatMessage_battleId_fkey" FOREIGN KEY ("battleId") REFERENCES "Battle"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BattleChatMessage" ADD CONSTRAINT "BattleChatMessage_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BattleChatMute" ADD CONSTRAINT "BattleChatMute_battleId_fkey" FOREIGN KEY ("battleId") REFERENCES "Battle"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BattleChatMute" ADD CONSTRAINT "BattleChatMute_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
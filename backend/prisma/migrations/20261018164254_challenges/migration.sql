@@ -0,0 +1,39 @@
+-- CreateEnum
+CREATE TYPE "ChallengeStatus" AS ENUM ('PENDING', 'ACCEPTED', 'CANCELLED', 'EXPIRED');
+
+-- CreateTable
+CREATE TABLE "Challenge" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "code" TEXT NOT NULL,
+    "creatorId" TEXT NOT NULL,
+    "inviteeId" TEXT,
+    "stake" DECIMAL(20,6) NOT NULL,
+    "durationMs" INTEGER NOT NULL,
+    "allowedAssets" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "status" "ChallengeStatus" NOT NULL DEFAULT 'PENDING',
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "acceptedAt" TIMESTAMP(3),
+    "battleId" TEXT,
+
+    CONSTRAINT "Challenge_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Challenge_code_key" ON "Challenge"("code");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Challenge_battleId_key" ON "Challenge"("battleId");
+
+-- CreateIndex
+CREATE INDEX "Challenge_creatorId_status_idx" ON "Challenge"("creatorId", "status");
+
+-- AddForeignKey
+ALTER TABLE "Challenge" ADD CONSTRAINT "Challenge_creatorId_fkey" FOREIGN KEY ("creatorId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Challenge" ADD CONSTRAINT "Challenge_inviteeId_fkey" FOREIGN KEY ("inviteeId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Challenge" ADD CONSTRAINT "Challenge_battleId_fkey" FOREIGN KEY ("battleId") REFERENCES "Battle"("id") ON DELETE SET NULL ON UPDATE CASCADE;
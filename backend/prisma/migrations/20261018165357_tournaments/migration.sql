@@ -0,0 +1,119 @@
+-- CreateEnum
+CREATE TYPE "TournamentFormat" AS ENUM ('SINGLE_ELIMINATION', 'SWISS');
+
+-- CreateEnum
+CREATE TYPE "TournamentStatus" AS ENUM ('REGISTRATION', 'RUNNING', 'FINISHED', 'CANCELLED');
+
+-- CreateEnum
+CREATE TYPE "TournamentMatchStatus" AS ENUM ('PENDING', 'LIVE', 'FINISHED', 'BYE');
+
+-- DropIndex
+DROP INDEX "BattlePredictionChoice_battleId_battlePredictionQuestionId_outcome_key";
+
+-- AlterTable
+ALTER TABLE "BattlePredictionQuestion" ADD COLUMN     "tournamentId" TEXT,
+ALTER COLUMN "battleId" DROP NOT NULL;
+
+-- AlterTable
+ALTER TABLE "BattlePredictionChoice" ADD COLUMN     "tournamentId" TEXT,
+ALTER COLUMN "battleId" DROP NOT NULL;
+
+-- AlterTable
+ALTER TABLE "BattlePredictionOrder" ADD COLUMN     "tournamentId" TEXT,
+ALTER COLUMN "battleId" DROP NOT NULL;
+
+-- CreateTable
+CREATE TABLE "Tournament" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "name" TEXT NOT NULL,
+    "format" "TournamentFormat" NOT NULL,
+    "status" "TournamentStatus" NOT NULL DEFAULT 'REGISTRATION',
+    "stake" DECIMAL(20,6) NOT NULL,
+    "durationMs" INTEGER NOT NULL,
+    "allowedAssets" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "minPlayers" INTEGER NOT NULL DEFAULT 2,
+    "maxPlayers" INTEGER NOT NULL,
+    "rounds" INTEGER,
+    "currentRound" INTEGER NOT NULL DEFAULT 0,
+    "registrationOpensAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "startsAt" TIMESTAMP(3) NOT NULL,
+    "startedAt" TIMESTAMP(3),
+    "endedAt" TIMESTAMP(3),
+    "championId" TEXT,
+    "metadata" JSONB,
+
+    CONSTRAINT "Tournament_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "TournamentEntrant" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "tournamentId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "seed" INTEGER,
+    "eloSnapshot" INTEGER,
+    "points" INTEGER NOT NULL DEFAULT 0,
+    "eliminatedInRound" INTEGER,
+    "finalRank" INTEGER,
+
+    CONSTRAINT "TournamentEntrant_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "TournamentMatch" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "tournamentId" TEXT NOT NULL,
+    "round" INTEGER NOT NULL,
+    "position" INTEGER NOT NULL,
+    "status" "TournamentMatchStatus" NOT NULL DEFAULT 'PENDING',
+    "playerOneId" TEXT NOT NULL,
+    "playerTwoId" TEXT,
+    "winnerId" TEXT,
+    "battleId" TEXT,
+
+    CONSTRAINT "TournamentMatch_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Tournament_status_startsAt_idx" ON "Tournament"("status", "startsAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TournamentEntrant_tournamentId_userId_key" ON "TournamentEntrant"("tournamentId", "userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TournamentMatch_battleId_key" ON "TournamentMatch"("battleId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TournamentMatch_tournamentId_round_position_key" ON "TournamentMatch"("tournamentId", "round", "position");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "BattlePredictionChoice_battlePredictionQuestionId_outcome_key" ON "BattlePredictionChoice"("battlePredictionQuestionId", "outcome");
+
+-- AddForeignKey
+ALTER TABLE "Tournament" ADD CONSTRAINT "Tournament_championId_fkey" FOREIGN KEY ("championId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TournamentEntrant" ADD CONSTRAINT "TournamentEntrant_tournamentId_fkey" FOREIGN KEY ("tournamentId") REFERENCES "Tournament"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TournamentEntrant" ADD CONSTRAINT "TournamentEntrant_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TournamentMatch" ADD CONSTRAINT "TournamentMatch_tournamentId_fkey" FOREIGN KEY ("tournamentId") REFERENCES "Tournament"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TournamentMatch" ADD CONSTRAINT "TournamentMatch_battleId_fkey" FOREIGN KEY ("battleId") REFERENCES "Battle"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BattlePredictionQuestion" ADD CONSTRAINT "BattlePredictionQuestion_tournamentId_fkey" FOREIGN KEY ("tournamentId") REFERENCES "Tournament"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BattlePredictionChoice" ADD CONSTRAINT "BattlePredictionChoice_tournamentId_fkey" FOREIGN KEY ("tournamentId") REFERENCES "Tournament"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BattlePredictionOrder" ADD CONSTRAINT "BattlePredictionOrder_tournamentId_fkey" FOREIGN KEY ("tournamentId") REFERENCES "Tournament"("id") ON DELETE CASCADE ON UPDATE CASCADE;
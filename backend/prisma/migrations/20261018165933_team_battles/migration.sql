@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Battle" ADD COLUMN     "teamSize" INTEGER;
+
+-- AlterTable
+ALTER TABLE "BattlePlayer" ADD COLUMN     "team" INTEGER;
@@ -0,0 +1,27 @@
+-- CreateEnum
+CREATE TYPE "OrderRequestStatus" AS ENUM ('PENDING', 'COMPLETED', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "OrderRequest" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "userId" TEXT NOT NULL,
+    "idempotencyKey" TEXT NOT NULL,
+    "endpoint" TEXT NOT NULL,
+    "cloid" TEXT NOT NULL,
+    "status" "OrderRequestStatus" NOT NULL DEFAULT 'PENDING',
+    "response" JSONB,
+    "error" TEXT,
+
+    CONSTRAINT "OrderRequest_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "OrderRequest_userId_cloid_idx" ON "OrderRequest"("userId", "cloid");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "OrderRequest_userId_idempotencyKey_key" ON "OrderRequest"("userId", "idempotencyKey");
+
+-- AddForeignKey
+ALTER TABLE "OrderRequest" ADD CONSTRAINT "OrderRequest_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,16 @@
+-- AlterTable
+ALTER TABLE "Battle" ADD COLUMN     "predictionVolume" DECIMAL(38,18) NOT NULL DEFAULT 0;
+
+-- Backfill from the prediction questions of existing battles
+UPDATE "Battle" b
+SET "predictionVolume" = q."volume"
+FROM (
+    SELECT "battleId", SUM("volume") AS "volume"
+    FROM "BattlePredictionQuestion"
+    WHERE "battleId" IS NOT NULL
+    GROUP BY "battleId"
+) q
+WHERE q."battleId" = b."id";
+
+-- CreateIndex
+CREATE INDEX "Battle_status_predictionVolume_id_idx" ON "Battle"("status", "predictionVolume", "id");
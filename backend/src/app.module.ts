@@ -4,9 +4,11 @@ import { ThrottlerModule } from '@nestjs/throttler';
 
 import {
   appConfig,
+  battleConfig,
   chainConfig,
   databaseConfig,
   jwtConfig,
+  seasonConfig,
   throttleConfig,
 } from './config';
 import { appEnvSchema } from './config/validation/app.schema';
@@ -28,6 +30,9 @@ import { EventEmitterModule } from '@nestjs/event-emitter';
 // Engines modules
 import { BattleModule } from './modules/battle/battle.module';
 import { TestBattleModule } from './modules/battle/test/test-battle.module';
+import { SeasonModule } from './modules/season/season.module';
+import { TournamentModule } from './modules/tournament/tournament.module';
+import { LeaderboardModule } from './modules/leaderboard/leaderboard.module';
 import { getRedisConnection } from './shared/utils/redis';
 
 // DEPRECATED: Solana/Drift modules - commented out for EVM/Hypercore migration
@@ -39,7 +44,15 @@ import { getRedisConnection } from './shared/utils/redis';
     // Configuration
     ConfigModule.forRoot({
       isGlobal: true,
-      load: [appConfig, chainConfig, databaseConfig, jwtConfig, throttleConfig],
+      load: [
+        appConfig,
+        battleConfig,
+        chainConfig,
+        databaseConfig,
+        jwtConfig,
+        seasonConfig,
+        throttleConfig,
+      ],
       envFilePath: ['.env', '.env.local'],
       validationSchema: appEnvSchema,
     }),
@@ -74,11 +87,14 @@ import { getRedisConnection } from './shared/utils/redis';
     // Engines modules
     // Battle / Match modules
     BattleModule,
+    SeasonModule,
+    TournamentModule,
     ...(process.env.NODE_ENV !== 'production' ? [TestBattleModule] : []),
 
     // Feature modules
     AuthModule,
     UsersModule,
+    LeaderboardModule,
     HealthModule,
     PredictionMarketModule,
 
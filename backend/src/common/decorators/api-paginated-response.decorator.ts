@@ -1,9 +1,13 @@
-import { applyDecorators, Type } from '@nestjs/common';
+import { applyDecorators, SetMetadata, Type } from '@nestjs/common';
 import { ApiExtraModels, ApiOkResponse, getSchemaPath } from '@nestjs/swagger';
 import { IPaginatedResponse } from '../interfaces';
 
+// read by TransformInterceptor: the handler returns { data, meta, ... } to put next to `success`
+export const IS_PAGINATED_KEY = 'isPaginated';
+
 export const ApiPaginatedResponse = <TModel extends Type<any>>(model: TModel) => {
   return applyDecorators(
+    SetMetadata(IS_PAGINATED_KEY, true),
     ApiExtraModels(model),
     ApiOkResponse({
       description: 'Paginated list of items',
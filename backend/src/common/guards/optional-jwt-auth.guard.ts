@@ -0,0 +1,18 @@
+import { Injectable } from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+import { IAuthUser } from '../interfaces';
+
+/**
+ * Authenticates the request when a valid access token is sent, but lets
+ * anonymous requests through with `request.user` unset.
+ * Uses the trading strategy so queued and playing users are recognized too.
+ */
+@Injectable()
+export class OptionalJwtAuthGuard extends AuthGuard('jwt-trading') {
+  handleRequest<TUser = IAuthUser>(
+    _err: unknown,
+    user: TUser | false,
+  ): TUser | undefined {
+    return user || undefined;
+  }
+}
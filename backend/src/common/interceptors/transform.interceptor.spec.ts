@@ -0,0 +1,46 @@
+import { CallHandler, ExecutionContext } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { lastValueFrom, of } from 'rxjs';
+import { ApiPaginatedResponse } from '../decorators/api-paginated-response.decorator';
+import { TransformInterceptor } from './transform.interceptor';
+
+class Entry {}
+
+class ExampleController {
+  @ApiPaginatedResponse(Entry)
+  paginated() {}
+
+  plain() {}
+}
+
+describe('TransformInterceptor', () => {
+  const interceptor = new TransformInterceptor(new Reflector());
+  const page = { data: [{ id: 1 }], meta: { page: 1 }, me: null };
+
+  const run = (handler: keyof ExampleController) => {
+    const context = {
+      switchToHttp: () => ({ getRequest: () => ({ url: '/example' }) }),
+      getHandler: () => ExampleController.prototype[handler],
+      getClass: () => ExampleController,
+    } as unknown as ExecutionContext;
+    const next: CallHandler = { handle: () => of(page) };
+
+    return lastValueFrom(interceptor.intercept(context, next));
+  };
+
+  it('puts the meta of a paginated route next to its data', async () => {
+    await expect(run('paginated')).resolves.toMatchObject({
+      success: true,
+      data: page.data,
+      meta: page.meta,
+      me: null,
+    });
+  });
+
+  it('wraps any other { data, meta } result as is', async () => {
+    const response = await run('plain');
+
+    expect(response.data).toEqual(page);
+    expect(response).not.toHaveProperty('meta');
+  });
+});
@@ -4,27 +4,40 @@ import {
   ExecutionContext,
   CallHandler,
 } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
 import { Observable } from 'rxjs';
 import { map } from 'rxjs/operators';
 import { IApiResponse } from '../interfaces';
+import { IS_PAGINATED_KEY } from '../decorators/api-paginated-response.decorator';
 
 @Injectable()
 export class TransformInterceptor<T>
   implements NestInterceptor<T, IApiResponse<T>>
 {
+  constructor(private readonly reflector: Reflector) {}
+
   intercept(
     context: ExecutionContext,
     next: CallHandler,
   ): Observable<IApiResponse<T>> {
     const request = context.switchToHttp().getRequest();
-    
+    const paginated = this.reflector.getAllAndOverride<boolean>(
+      IS_PAGINATED_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+
     return next.handle().pipe(
-      map((data) => ({
-        success: true,
-        data,
-        timestamp: new Date().toISOString(),
-        path: request.url,
-      })),
+      map((data) => {
+        const response = {
+          success: true,
+          timestamp: new Date().toISOString(),
+          path: request.url,
+        };
+
+        // routes marked with @ApiPaginatedResponse keep their meta next to data
+        return paginated ? { ...response, ...data } : { ...response, data };
+      }),
     );
   }
 }
+
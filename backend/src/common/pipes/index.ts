@@ -1 +1,2 @@
 export * from './parse-uuid.pipe';
+export * from './ws-validation.pipe';
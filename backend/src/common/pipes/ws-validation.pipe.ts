@@ -0,0 +1,52 @@
+import {
+  Injectable,
+  ValidationError,
+  ValidationPipe,
+  ValidationPipeOptions,
+} from '@nestjs/common';
+import { WsException } from '@nestjs/websockets';
+
+/**
+ * ValidationPipe for WebSocket gateways.
+ * Same options as the global HTTP pipe, but rejects with a WsException whose
+ * error is `{ code: 'VALIDATION_FAILED', message, errors }`.
+ */
+@Injectable()
+export class WsValidationPipe extends ValidationPipe {
+  constructor(options: ValidationPipeOptions = {}) {
+    super({
+      whitelist: true,
+      forbidNonWhitelisted: true,
+      transform: true,
+      ...options,
+      exceptionFactory: (errors) => {
+        const flattened = WsValidationPipe.flatten(errors);
+        const [first] = Object.values(flattened).flat();
+
+        return new WsException({
+          code: 'VALIDATION_FAILED',
+          message: first ?? 'Validation failed',
+          errors: flattened,
+        });
+      },
+    });
+  }
+
+  private static flatten(
+    errors: ValidationError[],
+    parent = '',
+  ): Record<string, string[]> {
+    return errors.reduce<Record<string, string[]>>((acc, error) => {
+      const path = parent ? `${parent}.${error.property}` : error.property;
+
+      if (error.constraints) {
+        acc[path] = Object.values(error.constraints);
+      }
+      if (error.children?.length) {
+        Object.assign(acc, WsValidationPipe.flatten(error.children, path));
+      }
+
+      return acc;
+    }, {});
+  }
+}
@@ -8,4 +8,7 @@ export const appConfig = registerAs('app', () => ({
   corsOrigin: process.env.CORS_ORIGIN || '*',
   logLevel: process.env.LOG_LEVEL || 'debug',
   logDir: process.env.LOG_DIR || 'logs',
+  // Commit of the running build, attached to battle results for traceability
+  commitHash:
+    process.env.GIT_COMMIT_SHA || process.env.VERCEL_GIT_COMMIT_SHA || '',
 }));
@@ -0,0 +1,31 @@
+import { registerAs } from '@nestjs/config';
+import {
+  RatingConfig,
+  RatingSystem,
+} from '@/modules/battle/types/rating.types';
+
+export const battleConfig = registerAs('battle', () => ({
+  // Platform fee taken from the stake pot on payout, in basis points
+  rakeBps: parseInt(process.env.BATTLE_RAKE_BPS || '500', 10),
+
+  // How often live PnL of STARTED battles is sampled and broadcast
+  standingsIntervalMs: parseInt(
+    process.env.BATTLE_STANDINGS_INTERVAL_MS || '5000',
+    10,
+  ),
+
+  // How long a private challenge can be accepted
+  challengeTtlMs: parseInt(process.env.BATTLE_CHALLENGE_TTL_MS || '900000', 10),
+
+  // Multiplayer rating update applied when a battle finishes
+  rating: {
+    system: (process.env.BATTLE_RATING_SYSTEM || 'elo') as RatingSystem,
+    kFactorProvisional: 40,
+    kFactor: 20,
+    kFactorElite: 10,
+    provisionalGames: 30,
+    eliteRating: 2400,
+    maxDeviation: 350,
+    minDeviation: 30,
+  } satisfies RatingConfig,
+}));
@@ -1,6 +1,8 @@
 export * from './app.config';
+export * from './battle.config';
 export * from './chain.config';
 export * from './database.config';
 export * from './indexer.config';
 export * from './jwt.config';
+export * from './season.config';
 export * from './throttle.config';
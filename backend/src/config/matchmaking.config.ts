@@ -8,4 +8,16 @@ export const matchmakingConfig: MatchmakingConfig = {
   expandPerSecond: 15,
   forceMatchAfterSec: 15,
   fairnessWindowMs: 2000,
+  stakeTiers: [0, 10, 100, 1_000, 10_000],
+  stakeTierExpandAfterSec: 30,
+  maxStakeTierGap: 1,
+  readyTimeoutMs: parseInt(process.env.BATTLE_READY_TIMEOUT_MS || '30000', 10),
+  disconnectGraceMs: parseInt(
+    process.env.BATTLE_DISCONNECT_GRACE_MS || '30000',
+    10,
+  ),
+  noShowStrikeTtlMs: parseInt(
+    process.env.BATTLE_NO_SHOW_STRIKE_TTL_MS || '86400000',
+    10,
+  ),
 };
@@ -0,0 +1,28 @@
+import { registerAs } from '@nestjs/config';
+import { RankTier } from '@prisma/client';
+
+export const seasonConfig = registerAs('season', () => ({
+  // Length of a season, the next one starts when the previous ends
+  durationDays: parseInt(process.env.SEASON_DURATION_DAYS || '30', 10),
+
+  // Soft reset at season end: elo = eloResetBase + (elo - eloResetBase) × eloResetFactor
+  eloResetBase: 1000,
+  eloResetFactor: parseFloat(process.env.SEASON_ELO_RESET_FACTOR || '0.5'),
+
+  // Rank points per battle
+  placementPoints: 25, // winner, scaled down linearly to 0 for the last place
+  participationPoints: 5, // not granted on forfeit
+  streakBonusPoints: 5, // per consecutive win after the first
+  maxStreakBonusPoints: 25,
+
+  // Minimum season rank points of each tier, ascending
+  tiers: [
+    { tier: RankTier.BRONZE, minPoints: 0 },
+    { tier: RankTier.SILVER, minPoints: 100 },
+    { tier: RankTier.GOLD, minPoints: 250 },
+    { tier: RankTier.PLATINUM, minPoints: 500 },
+    { tier: RankTier.DIAMOND, minPoints: 900 },
+    { tier: RankTier.MASTER, minPoints: 1400 },
+    { tier: RankTier.LEGEND, minPoints: 2000 },
+  ],
+}));
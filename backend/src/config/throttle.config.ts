@@ -3,4 +3,7 @@ import { registerAs } from '@nestjs/config';
 export const throttleConfig = registerAs('throttle', () => ({
   ttl: parseInt(process.env.THROTTLE_TTL || '60', 10),
   limit: parseInt(process.env.THROTTLE_LIMIT || '100', 10),
+  // battle chat: max messages per user per window (seconds)
+  chatTtl: parseInt(process.env.THROTTLE_CHAT_TTL || '10', 10),
+  chatLimit: parseInt(process.env.THROTTLE_CHAT_LIMIT || '5', 10),
 }));
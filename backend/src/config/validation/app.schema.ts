@@ -12,6 +12,7 @@ export const appEnvSchema = Joi.object({
     .valid('error', 'warn', 'info', 'http', 'verbose', 'debug', 'silly')
     .default('debug'),
   LOG_DIR: Joi.string().default('logs'),
+  GIT_COMMIT_SHA: Joi.string().hex().allow('').optional(),
 
   DATABASE_URL: Joi.string().uri().required(),
 
@@ -25,6 +26,7 @@ export const appEnvSchema = Joi.object({
     .valid('testnet', 'mainnet')
     .default('testnet'),
   HYPERLIQUID_RPC_URL: Joi.string().uri().required(),
+  HYPERLIQUID_META_TTL_MS: Joi.number().integer().min(1000).default(60000),
 
   CHAIN_CURRENT: Joi.string()
     .valid('evm-local', 'arbitrum-mainnet', 'arbitrum-sepolia')
@@ -42,8 +44,21 @@ export const appEnvSchema = Joi.object({
   EVM_B_SCORE: Joi.string().default('1000000000000000000'),
   EVM_FEE_BPS: Joi.number().integer().min(0).default(200),
 
+  BATTLE_READY_TIMEOUT_MS: Joi.number().integer().min(1000).default(30000),
+  BATTLE_DISCONNECT_GRACE_MS: Joi.number().integer().min(0).default(30000),
+  BATTLE_NO_SHOW_STRIKE_TTL_MS: Joi.number().integer().min(0).default(86400000),
+  BATTLE_RAKE_BPS: Joi.number().integer().min(0).max(10000).default(500),
+  BATTLE_STANDINGS_INTERVAL_MS: Joi.number().integer().min(1000).default(5000),
+  BATTLE_CHALLENGE_TTL_MS: Joi.number().integer().min(60000).default(900000),
+  BATTLE_RATING_SYSTEM: Joi.string().valid('elo', 'glicko').default('elo'),
+
+  SEASON_DURATION_DAYS: Joi.number().integer().min(1).default(30),
+  SEASON_ELO_RESET_FACTOR: Joi.number().min(0).max(1).default(0.5),
+
   THROTTLE_TTL: Joi.number().integer().min(1).default(60),
   THROTTLE_LIMIT: Joi.number().integer().min(1).default(100),
+  THROTTLE_CHAT_TTL: Joi.number().integer().min(1).default(10),
+  THROTTLE_CHAT_LIMIT: Joi.number().integer().min(1).default(5),
 
   TEST_EVM_PRIVATE_KEY: Joi.string().optional(),
   TEST_EVM_ADDRESS: Joi.string().optional(),
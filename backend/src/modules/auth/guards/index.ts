@@ -1 +1,3 @@
 export * from './jwt-auth.guard';
+export * from './jwt-trading-auth.guard';
+export * from './ws-jwt-auth.guard';
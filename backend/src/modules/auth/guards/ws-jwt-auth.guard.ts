@@ -0,0 +1,132 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  Injectable,
+  Logger,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { WsException } from '@nestjs/websockets';
+import { UserStatus } from '@prisma/client';
+import { Socket } from 'socket.io';
+import { IS_PUBLIC_KEY } from '../../../common/decorators/public.decorator';
+import { AuthService } from '../auth.service';
+import { Payload } from '../auth.interface';
+
+/**
+ * JwtAuthGuard counterpart for Socket.IO gateways.
+ * The access token is verified on connection (`authenticate`) and again on
+ * every message, so a token expiring mid-session stops being accepted.
+ */
+@Injectable()
+export class WsJwtAuthGuard implements CanActivate {
+  private readonly logger = new Logger(WsJwtAuthGuard.name);
+
+  constructor(
+    private readonly authService: AuthService,
+    private readonly reflector: Reflector,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const isPublic = this.reflector.getAllAndOverride<boolean>(IS_PUBLIC_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+
+    if (isPublic) {
+      return true;
+    }
+
+    const client = context.switchToWs().getClient<Socket>();
+    const token = client.data.token as string | undefined;
+
+    if (!token) {
+      throw new WsException({
+        code: 'UNAUTHORIZED',
+        message: 'Invalid or missing token',
+      });
+    }
+
+    const payload = await this.authService
+      .validateAccessToken(token)
+      .catch(() => null);
+
+    if (!payload || payload.sub !== client.data.userId) {
+      throw new WsException({
+        code: 'UNAUTHORIZED',
+        message: 'Invalid or expired token',
+      });
+    }
+
+    return true;
+  }
+
+  /**
+   * Verifies the handshake token and attaches the user to `client.data`.
+   * The token is read from `auth.token`, or from a Bearer `Authorization` header.
+   */
+  async authenticate(client: Socket): Promise<Payload> {
+    const token = this.extractToken(client);
+
+    if (!token) {
+      throw new WsException({
+        code: 'UNAUTHORIZED',
+        message: 'Invalid or missing token',
+      });
+    }
+
+    const payload = await this.authService
+      .validateAccessToken(token)
+      .catch((error) => {
+        this.logger.debug(`Socket token rejected: ${error?.message}`);
+        return null;
+      });
+
+    if (!payload) {
+      throw new WsException({
+        code: 'UNAUTHORIZED',
+        message: 'Invalid or expired token',
+      });
+    }
+
+    // unlike HTTP, players queuing or in a battle (PENDING / IN_BATTLE) must stay connected
+    const user = await this.authService
+      .getProfile(payload.sub)
+      .catch(() => null);
+
+    if (
+      !user ||
+      user.status === UserStatus.INACTIVE ||
+      user.status === UserStatus.SUSPENDED
+    ) {
+      throw new WsException({
+        code: 'UNAUTHORIZED',
+        message: 'User not found or inactive',
+      });
+    }
+
+    const authUser: Payload = {
+      id: payload.sub,
+      walletAddress: payload.walletAddress,
+    };
+
+    client.data.token = token;
+    client.data.user = authUser;
+    client.data.userId = authUser.id;
+
+    return authUser;
+  }
+
+  private extractToken(client: Socket): string | undefined {
+    const fromAuth = client.handshake.auth?.token;
+    if (typeof fromAuth === 'string' && fromAuth) {
+      return fromAuth.replace(/^Bearer\s+/i, '');
+    }
+
+    const header = client.handshake.headers?.authorization;
+    if (header?.startsWith('Bearer ')) {
+      return header.slice('Bearer '.length);
+    }
+
+    return undefined;
+  }
+}
@@ -0,0 +1,48 @@
+import { Injectable, UnauthorizedException } from '@nestjs/common';
+import { PassportStrategy } from '@nestjs/passport';
+import { ExtractJwt, Strategy } from 'passport-jwt';
+import { ConfigService } from '@nestjs/config';
+import { UserStatus } from '@prisma/client';
+import { UsersService } from '../../users/users.service';
+import { JwtPayload, Payload } from '../auth.interface';
+
+/**
+ * JwtStrategy for the trading routes only: a queued (PENDING) or playing
+ * (IN_BATTLE) user keeps access to them, since battles are traded through them.
+ * Every other route still requires an ACTIVE user.
+ */
+const TRADING_STATUSES: UserStatus[] = [
+  UserStatus.ACTIVE,
+  UserStatus.PENDING,
+  UserStatus.IN_BATTLE,
+];
+
+@Injectable()
+export class JwtTradingStrategy extends PassportStrategy(
+  Strategy,
+  'jwt-trading',
+) {
+  constructor(
+    private configService: ConfigService,
+    private usersService: UsersService,
+  ) {
+    super({
+      jwtFromRequest: ExtractJwt.fromAuthHeaderAsBearerToken(),
+      ignoreExpiration: false,
+      secretOrKey: configService.get('jwt.secret'),
+    });
+  }
+
+  async validate(payload: JwtPayload): Promise<Payload> {
+    const user = await this.usersService.findById(payload.sub);
+
+    if (!user || !TRADING_STATUSES.includes(user.status)) {
+      throw new UnauthorizedException('User not found or inactive');
+    }
+
+    return {
+      id: payload.sub,
+      walletAddress: payload.walletAddress,
+    };
+  }
+}
@@ -2,21 +2,83 @@ import { Module } from '@nestjs/common';
 import { EventsGateway } from '@/modules/battle/gateway/battle.gateway';
 import { BattleService } from './services/battle.service';
 import { BattlePredictionController } from './controllers/battle-prediction.controller';
+import { BattleController } from './controllers/battle.controller';
+import { BattleQueryService } from './services/battle-query.service';
+import { BattleStandingsService } from './services/battle-standings.service';
+import { BattleChatService } from './services/battle-chat.service';
+import { BattleChallengeService } from './services/battle-challenge.service';
+import { ChallengeController } from './controllers/challenge.controller';
 import { BattlePlayerService } from './services/battle-player.service';
+import { BattlePartyService } from './services/battle-party.service';
 import { BattleLifecycleService } from './services/battle-lifecylce.service';
 import { PredictionMarketModule } from '@/modules/prediction-market/prediction-market.module';
 import { BattleRealtimeService } from './services/battle-realtime.service';
+import { BattleMetricsService } from './services/battle-metrics.service';
+import { BattleEscrowService } from './services/battle-escrow.service';
+import { HypercoreModule } from '@/modules/hypercore/hypercore.module';
+import { AuthModule } from '@/modules/auth/auth.module';
+import { SeasonModule } from '@/modules/season/season.module';
+import { WsJwtAuthGuard } from '@/modules/auth/guards/ws-jwt-auth.guard';
+import { BullModule } from '@nestjs/bullmq';
+import { BATTLE_TIMER_QUEUE } from './constants/battle-queue.constants';
+import { BattleTimerService } from './services/battle-timer.service';
+import { BattleTimerProcessor } from './processors/battle-timer.processor';
+import { MatchmakingService } from './matchmaking/matchmaking.service';
+import { MatchmakingEvents } from './events/matchmaking.event';
+import { BattleDomainEvents } from './events/battle-domain.event';
+import { MarketEvents } from './events/market.event';
+import { matchmakingConfig } from '@/config/matchmaking.config';
 
 @Module({
-  imports: [PredictionMarketModule],
+  imports: [
+    PredictionMarketModule,
+    HypercoreModule,
+    AuthModule,
+    SeasonModule,
+    BullModule.registerQueue({
+      name: BATTLE_TIMER_QUEUE,
+      defaultJobOptions: {
+        attempts: 5,
+        backoff: { type: 'exponential', delay: 5000 },
+        removeOnComplete: true,
+        removeOnFail: false,
+      },
+    }),
+  ],
   providers: [
     BattleLifecycleService,
     BattleRealtimeService,
+    BattleMetricsService,
+    BattleEscrowService,
+    BattleQueryService,
+    BattleStandingsService,
+    BattleChatService,
+    BattleChallengeService,
+    BattlePartyService,
+    BattleTimerService,
+    BattleTimerProcessor,
+    MatchmakingService,
+    MatchmakingEvents,
+    BattleDomainEvents,
+    MarketEvents,
+    { provide: 'MATCHMAKING_CONFIG', useValue: matchmakingConfig },
     BattlePlayerService,
     BattleService,
     EventsGateway,
+    WsJwtAuthGuard,
+  ],
+  controllers: [
+    BattlePredictionController,
+    BattleController,
+    ChallengeController,
+  ],
+  exports: [
+    BattleService,
+    BattleLifecycleService,
+    BattlePlayerService,
+    BattleRealtimeService,
+    BattleEscrowService,
+    MatchmakingService,
   ],
-  controllers: [BattlePredictionController],
-  exports: [BattleService, BattleLifecycleService, BattlePlayerService],
 })
 export class BattleModule {}
@@ -0,0 +1,4 @@
+/**
+ * Queue holding delayed battle lifecycle jobs (timers).
+ */
+export const BATTLE_TIMER_QUEUE = 'battle-timer-queue';
@@ -0,0 +1,14 @@
+// Bounds of the battle duration a player can ask for when queuing
+export const MIN_BATTLE_DURATION_MS = 5 * 60 * 1000; // 5 minutes
+export const MAX_BATTLE_DURATION_MS = 24 * 60 * 60 * 1000; // 24 hours
+
+// Max number of assets a player can restrict a battle to
+export const MAX_BATTLE_ASSETS = 10;
+
+// Team battles: 2v2 or 3v3, a party fills at most one team
+export const TEAM_SIZES = [2, 3];
+export const MAX_PARTY_SIZE = Math.max(...TEAM_SIZES);
+
+// Battle chat
+export const MAX_CHAT_MESSAGE_LENGTH = 280;
+export const MAX_CHAT_MUTE_MS = 24 * 60 * 60 * 1000; // 24 hours
@@ -0,0 +1,94 @@
+import { Controller, Get, Param, ParseUUIDPipe, Query } from '@nestjs/common';
+import { ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { BattleQueryService } from '../services/battle-query.service';
+import { BattleStandingsService } from '../services/battle-standings.service';
+import { BattleChatService } from '../services/battle-chat.service';
+import {
+  BattleDetailDto,
+  BattleListResponseDto,
+  ListBattlesQueryDto,
+} from '../dto/battle-browser.dto';
+import { StandingsSnapshotDto } from '../dto/battle-standings.dto';
+import {
+  ChatHistoryQueryDto,
+  ChatHistoryResponseDto,
+} from '../dto/battle-chat.dto';
+
+/**
+ * Public battle browser.
+ * Read-only and public (no auth required) so spectators can find battles
+ * to watch and bet on.
+ */
+@ApiTags('Battles')
+@Controller('battles')
+export class BattleController {
+  constructor(
+    private readonly battleQuery: BattleQueryService,
+    private readonly standings: BattleStandingsService,
+    private readonly chat: BattleChatService,
+  ) {}
+
+  /**
+   * GET /battles?status=STARTED&sort=VOLUME&cursor=...&limit=20
+   *
+   * Lists battles, optionally filtered by status (WAITING | STARTED | FINISHED),
+   * sorted by prediction volume or start time, most first.
+   * Follow `nextCursor` to get the next page.
+   */
+  @Get()
+  @ApiOperation({ summary: 'List battles' })
+  async listBattles(
+    @Query() query: ListBattlesQueryDto,
+  ): Promise<BattleListResponseDto> {
+    return this.battleQuery.listBattles(query);
+  }
+
+  /**
+   * GET /battles/:battleId
+   *
+   * Returns the battle with:
+   * - players
+   * - standings (live while STARTED, from the result once FINISHED)
+   * - prediction markets with spot prices
+   * - results
+   */
+  @Get(':battleId')
+  @ApiOperation({ summary: 'Get a battle with standings, markets and results' })
+  @ApiResponse({ status: 404, description: 'Battle not found' })
+  async getBattle(
+    @Param('battleId', ParseUUIDPipe) battleId: string,
+  ): Promise<BattleDetailDto> {
+    return this.battleQuery.getBattleDetail(battleId);
+  }
+
+  /**
+   * GET /battles/:battleId/standings
+   *
+   * Live PnL samples of the battle, oldest first (same shape as the
+   * `battle.standings` socket event), to draw the curve before joining the stream.
+   */
+  @Get(':battleId/standings')
+  @ApiOperation({ summary: 'Get the live PnL series of a battle' })
+  @ApiResponse({ status: 404, description: 'Battle not found' })
+  async getStandings(
+    @Param('battleId', ParseUUIDPipe) battleId: string,
+  ): Promise<StandingsSnapshotDto[]> {
+    return this.standings.getSeries(battleId);
+  }
+
+  /**
+   * GET /battles/:battleId/chat?cursor=...&limit=50
+   *
+   * Chat history, latest messages first page; each page is oldest first.
+   * Follow `nextCursor` to load older messages.
+   */
+  @Get(':battleId/chat')
+  @ApiOperation({ summary: 'Get the chat history of a battle' })
+  @ApiResponse({ status: 404, description: 'Battle not found' })
+  async getChat(
+    @Param('battleId', ParseUUIDPipe) battleId: string,
+    @Query() query: ChatHistoryQueryDto,
+  ): Promise<ChatHistoryResponseDto> {
+    return this.chat.getHistory(battleId, query);
+  }
+}
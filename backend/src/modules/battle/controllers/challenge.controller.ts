@@ -0,0 +1,79 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { JwtAuthGuard } from '@/common/guards/jwt-auth.guard';
+import { CurrentUser } from '@/common/decorators/current-user.decorator';
+import { Public } from '@/common/decorators/public.decorator';
+import { IAuthUser } from '@/common/interfaces';
+import { BattleChallengeService } from '../services/battle-challenge.service';
+import { ChallengeDto, CreateChallengeDto } from '../dto/battle-challenge.dto';
+
+/**
+ * Private challenges, shared as `code` (e.g. `/challenge/<code>` on the frontend).
+ */
+@ApiTags('Challenges')
+@Controller('challenges')
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth()
+export class ChallengeController {
+  constructor(private readonly challenges: BattleChallengeService) {}
+
+  @Post()
+  @ApiOperation({ summary: 'Create a private challenge' })
+  async create(
+    @CurrentUser() user: IAuthUser,
+    @Body() dto: CreateChallengeDto,
+  ): Promise<ChallengeDto> {
+    return this.challenges.create(user.id, dto);
+  }
+
+  /**
+   * Public so the invite link can be previewed before logging in.
+   */
+  @Get(':code')
+  @Public()
+  @ApiOperation({ summary: 'Get a challenge by its code' })
+  @ApiResponse({ status: 404, description: 'Challenge not found' })
+  async get(@Param('code') code: string): Promise<ChallengeDto> {
+    return this.challenges.getByCode(code);
+  }
+
+  /**
+   * Creates the battle; both players then receive `battle.created` on the
+   * battle socket and ready up as usual.
+   */
+  @Post(':code/accept')
+  @ApiOperation({ summary: 'Accept a challenge and start its battle' })
+  @ApiResponse({
+    status: 409,
+    description: 'Challenge closed or a player is busy',
+  })
+  @ApiResponse({ status: 410, description: 'Challenge expired' })
+  async accept(
+    @CurrentUser() user: IAuthUser,
+    @Param('code') code: string,
+  ): Promise<ChallengeDto> {
+    return this.challenges.accept(code, user.id);
+  }
+
+  @Delete(':code')
+  @ApiOperation({ summary: 'Cancel a pending challenge (creator only)' })
+  async cancel(
+    @CurrentUser() user: IAuthUser,
+    @Param('code') code: string,
+  ): Promise<ChallengeDto> {
+    return this.challenges.cancel(code, user.id);
+  }
+}
@@ -0,0 +1,123 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { BattleStatus } from '@prisma/client';
+import { IsIn, IsInt, IsOptional, IsString, Max, Min } from 'class-validator';
+import { MarketStateDto } from './battle-prediction.dto';
+
+export enum BattleSort {
+  /** Total prediction market volume, highest first */
+  VOLUME = 'VOLUME',
+  /** Start time (creation time while WAITING), most recent first */
+  START_TIME = 'START_TIME',
+}
+
+/** Battle statuses exposed by the public battle browser */
+export const BROWSABLE_BATTLE_STATUSES = [
+  BattleStatus.WAITING,
+  BattleStatus.STARTED,
+  BattleStatus.FINISHED,
+] as const;
+
+/**
+ * Query of GET /battles
+ */
+export class ListBattlesQueryDto {
+  @ApiPropertyOptional({ enum: BROWSABLE_BATTLE_STATUSES })
+  @IsOptional()
+  @IsIn(BROWSABLE_BATTLE_STATUSES)
+  status?: (typeof BROWSABLE_BATTLE_STATUSES)[number];
+
+  @ApiPropertyOptional({ enum: BattleSort, default: BattleSort.START_TIME })
+  @IsOptional()
+  @IsIn(Object.values(BattleSort))
+  sort: BattleSort = BattleSort.START_TIME;
+
+  /** `nextCursor` of the previous page */
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  cursor?: string;
+
+  @ApiPropertyOptional({ minimum: 1, maximum: 50, default: 20 })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(50)
+  limit: number = 20;
+}
+
+export class BattlePlayerSummaryDto {
+  userId: string;
+  name: string | null;
+  avatar: string | null;
+  slot: number;
+  /** 1 or 2 in a team battle, null in a free-for-all */
+  team: number | null;
+  status: string;
+  /** USD stake as decimal string */
+  stake: string;
+  eloSnapshot: number;
+}
+
+export class BattleSummaryDto {
+  id: string;
+  status: BattleStatus;
+  createdAt: Date;
+  startedAt: Date | null;
+  endedAt: Date | null;
+  intendedDurationMs: number;
+  allowedAssets: string[];
+  /** Players per team (2v2, 3v3), null in a free-for-all */
+  teamSize: number | null;
+  players: BattlePlayerSummaryDto[];
+  /** Total prediction market volume (WAD integer as decimal string) */
+  predictionVolume: string;
+}
+
+export class BattleListResponseDto {
+  items: BattleSummaryDto[];
+  /** Pass as `cursor` to get the next page, null on the last page */
+  nextCursor: string | null;
+}
+
+/**
+ * Position of one player in a battle, from live metrics while STARTED
+ * and from the stored result once FINISHED.
+ */
+export class BattleStandingDto {
+  /** Team rank in a team battle, shared by teammates */
+  rank: number;
+  slot: number;
+  team: number | null;
+  userId: string;
+  /** USD */
+  pnl: number;
+  /** % of stake */
+  roi: number;
+  /** USD traded notional, 0 until the battle is finished */
+  volume: number;
+  /** % of closing fills in profit, 0 until the battle is finished */
+  winRate: number;
+  forfeited: boolean;
+}
+
+export class BattleResultSummaryDto {
+  id: string;
+  createdAt: Date;
+  description: string;
+  dataHash: string;
+  /** Winner slot - 1 (team battles: winning team - 1) */
+  outcome: number;
+  /** null in a team battle */
+  winnerUserId: string | null;
+  /** Team battles only */
+  winnerTeam: number | null;
+}
+
+export class BattleDetailDto extends BattleSummaryDto {
+  /** Empty while WAITING */
+  standings: BattleStandingDto[];
+  /** When the standings were computed (last sample while STARTED) */
+  standingsAt: Date | null;
+  markets: MarketStateDto[];
+  results: BattleResultSummaryDto[];
+}
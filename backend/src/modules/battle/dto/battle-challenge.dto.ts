@@ -0,0 +1,76 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { ChallengeStatus } from '@prisma/client';
+import {
+  ArrayMaxSize,
+  ArrayNotEmpty,
+  ArrayUnique,
+  IsArray,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  IsPositive,
+  IsString,
+  IsUUID,
+  Max,
+  Min,
+} from 'class-validator';
+import {
+  MAX_BATTLE_ASSETS,
+  MAX_BATTLE_DURATION_MS,
+  MIN_BATTLE_DURATION_MS,
+} from '../constants/battle.constants';
+
+/**
+ * Body of POST /challenges
+ */
+export class CreateChallengeDto {
+  /** USD amount each player puts at stake */
+  @ApiProperty({ example: 25 })
+  @IsNumber({ allowNaN: false, allowInfinity: false, maxDecimalPlaces: 6 })
+  @IsPositive()
+  stake: number;
+
+  @ApiProperty({
+    minimum: MIN_BATTLE_DURATION_MS,
+    maximum: MAX_BATTLE_DURATION_MS,
+    example: 3600000,
+  })
+  @IsInt()
+  @Min(MIN_BATTLE_DURATION_MS)
+  @Max(MAX_BATTLE_DURATION_MS)
+  durationMs: number;
+
+  /** Coins tradable in the battle, any coin when omitted */
+  @ApiPropertyOptional({ type: [String], example: ['BTC', 'ETH'] })
+  @IsOptional()
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayMaxSize(MAX_BATTLE_ASSETS)
+  @ArrayUnique()
+  @IsString({ each: true })
+  assets?: string[];
+
+  /** Only this user may accept; anyone with the code when omitted */
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsUUID()
+  inviteeId?: string;
+}
+
+export class ChallengeDto {
+  id: string;
+  /** Shareable code, used in the invite link */
+  code: string;
+  status: ChallengeStatus;
+  creatorId: string;
+  creatorName: string | null;
+  inviteeId: string | null;
+  /** USD stake of each player, decimal string */
+  stake: string;
+  durationMs: number;
+  allowedAssets: string[];
+  expiresAt: Date;
+  createdAt: Date;
+  /** Set once accepted */
+  battleId: string | null;
+}
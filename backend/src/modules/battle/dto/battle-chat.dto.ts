@@ -0,0 +1,94 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { ChatMessageType } from '@prisma/client';
+import {
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import {
+  MAX_CHAT_MESSAGE_LENGTH,
+  MAX_CHAT_MUTE_MS,
+} from '../constants/battle.constants';
+
+/**
+ * Payload of `battle.chat.send`
+ */
+export class SendChatMessageDto {
+  @IsUUID()
+  battleId: string;
+
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(MAX_CHAT_MESSAGE_LENGTH)
+  content: string;
+}
+
+/**
+ * Payload of `battle.chat.delete` (moderators)
+ */
+export class DeleteChatMessageDto {
+  @IsUUID()
+  messageId: string;
+}
+
+/**
+ * Payload of `battle.chat.mute` (moderators)
+ */
+export class MuteChatUserDto {
+  @IsUUID()
+  battleId: string;
+
+  @IsUUID()
+  userId: string;
+
+  /** Mute duration, until the battle is over when omitted */
+  @IsOptional()
+  @IsInt()
+  @Min(1000)
+  @Max(MAX_CHAT_MUTE_MS)
+  durationMs?: number;
+}
+
+/**
+ * Query of GET /battles/:battleId/chat
+ */
+export class ChatHistoryQueryDto {
+  /** `nextCursor` of the previous page (older messages) */
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsUUID()
+  cursor?: string;
+
+  @ApiPropertyOptional({ minimum: 1, maximum: 100, default: 50 })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit: number = 50;
+}
+
+/**
+ * A chat message, also the payload of `battle.chat.message`
+ */
+export class ChatMessageDto {
+  id: string;
+  battleId: string;
+  type: ChatMessageType;
+  /** Author, or the player a SYSTEM message is about */
+  userId: string | null;
+  name: string | null;
+  content: string;
+  createdAt: Date;
+}
+
+export class ChatHistoryResponseDto {
+  /** Oldest first */
+  items: ChatMessageDto[];
+  /** Cursor of the next (older) page, null on the first message */
+  nextCursor: string | null;
+}
@@ -13,4 +13,6 @@ export class CreateBattleResultDto {
   metrics: BattleMetricDto[];
   outcome: number;
   questionId: string;
+  forfeitedSlots?: number[]; // players who left mid-battle, ranked last
+  teams?: { slot: number; team: number }[]; // team battles: team of every slot, `outcome` is then the winning team - 1
 }
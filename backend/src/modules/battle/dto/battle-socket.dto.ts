@@ -0,0 +1,98 @@
+import {
+  ArrayMaxSize,
+  ArrayNotEmpty,
+  ArrayUnique,
+  IsArray,
+  IsIn,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  IsPositive,
+  IsString,
+  IsUUID,
+  Max,
+  Min,
+} from 'class-validator';
+import {
+  MAX_BATTLE_ASSETS,
+  MAX_BATTLE_DURATION_MS,
+  MIN_BATTLE_DURATION_MS,
+  TEAM_SIZES,
+} from '../constants/battle.constants';
+
+/**
+ * Payload of `battle.queue`
+ */
+export class QueueBattleDto {
+  /** USD amount the player puts at stake */
+  @IsNumber({ allowNaN: false, allowInfinity: false, maxDecimalPlaces: 6 })
+  @IsPositive()
+  stake: number;
+
+  /** Coins the player wants the battle to be traded on (e.g. BTC, ETH) */
+  @IsOptional()
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayMaxSize(MAX_BATTLE_ASSETS)
+  @ArrayUnique()
+  @IsString({ each: true })
+  assets?: string[];
+
+  /** Requested battle duration in milliseconds */
+  @IsOptional()
+  @IsInt()
+  @Min(MIN_BATTLE_DURATION_MS)
+  @Max(MAX_BATTLE_DURATION_MS)
+  durationMs?: number;
+
+  /** Players per team for a team battle (2v2, 3v3), free-for-all when omitted */
+  @IsOptional()
+  @IsIn(TEAM_SIZES)
+  teamSize?: number;
+}
+
+/**
+ * Payload of the events targeting a battle the player is in
+ * (`battle.ready`, `battle.finished`)
+ */
+export class BattleActionDto {
+  @IsUUID()
+  battleId: string;
+}
+
+export class ReadyBattleDto extends BattleActionDto {}
+
+export class FinishBattleDto extends BattleActionDto {}
+
+/**
+ * Payload of `battle.watch` / `battle.unwatch` (spectators, any battle)
+ */
+export class WatchBattleDto extends BattleActionDto {}
+
+/**
+ * Payload of `party.join`
+ */
+export class JoinPartyDto {
+  @IsUUID()
+  partyId: string;
+}
+
+/**
+ * Payload of `tournament.watch` / `tournament.unwatch` (bracket updates)
+ */
+export class WatchTournamentDto {
+  @IsUUID()
+  tournamentId: string;
+}
+
+/**
+ * Payload of `battle.error`, also returned as the acknowledgement of a rejected message
+ */
+export class BattleErrorDto {
+  /** Client event that was rejected */
+  event: string;
+  code: string;
+  message: string;
+  /** Validation errors, by property path */
+  errors?: Record<string, string[]>;
+}
@@ -0,0 +1,27 @@
+/**
+ * Live position of one player, sampled from their Hyperliquid account value.
+ */
+export class LiveStandingDto {
+  /** Team rank in a team battle, shared by teammates */
+  rank: number;
+  slot: number;
+  team: number | null;
+  userId: string;
+  /** USD */
+  accountValue: number;
+  /** USD, change of account value since the battle started */
+  pnl: number;
+  /** % of stake */
+  roi: number;
+  forfeited: boolean;
+}
+
+/**
+ * Payload of the `battle.standings` socket event, and one point of the
+ * GET /battles/:battleId/standings series.
+ */
+export class StandingsSnapshotDto {
+  battleId: string;
+  sampledAt: Date;
+  standings: LiveStandingDto[];
+}
@@ -1,2 +1,7 @@
 export * from './battle-result.dto';
 export * from './battle-prediction.dto';
+export * from './battle-socket.dto';
+export * from './battle-browser.dto';
+export * from './battle-standings.dto';
+export * from './battle-chat.dto';
+export * from './battle-challenge.dto';
@@ -11,7 +11,9 @@ export class BattleDomainEvents {
 
   @OnEvent(EVENTS.MATCH_FOUND)
   async onMatch(event: MatchFoundEvent) {
-    await this.lifecycle.handleMatch(event.match);
+    await this.lifecycle
+      .handleMatch(event.match)
+      .catch((error) => this.lifecycle.handleMatchFailed(event.match, error));
   }
 
   @OnEvent(EVENTS.PLAYER_READY)
@@ -24,6 +26,16 @@ export class BattleDomainEvents {
     await this.lifecycle.handlePlayerFinished(event.battleId, event.userId);
   }
 
+  @OnEvent(EVENTS.PLAYER_CONNECTED)
+  async onConnected(event: Pick<BattlePlayerEvent, 'userId'>) {
+    await this.lifecycle.handlePlayerConnected(event.userId);
+  }
+
+  @OnEvent(EVENTS.PLAYER_DISCONNECTED)
+  async onDisconnected(event: BattlePlayerEvent) {
+    await this.lifecycle.handlePlayerDisconnected(event.battleId, event.userId);
+  }
+
   @OnEvent(EVENTS.PLAYER_LEFT)
   async onLeft(event: BattlePlayerEvent) {
     await this.lifecycle.handlePlayerLeft(event.battleId, event.userId);
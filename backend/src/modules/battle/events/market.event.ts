@@ -0,0 +1,26 @@
+import { Injectable } from '@nestjs/common';
+import { OnEvent } from '@nestjs/event-emitter';
+import { PredictionMarketService } from '@/modules/prediction-market/services/prediction-market.service';
+import { PREDICTION_MARKET_EVENTS } from '@/modules/prediction-market/constants/events.constants';
+import { MarketUpdatedEvent } from '@/modules/prediction-market/types/prediction-market.type';
+import { EVENTS } from '../gateway/events.constant';
+import { BattleRealtimeService } from '../services/battle-realtime.service';
+
+@Injectable()
+export class MarketEvents {
+  constructor(
+    private readonly predictionMarket: PredictionMarketService,
+    private readonly realtime: BattleRealtimeService,
+  ) {}
+
+  @OnEvent(PREDICTION_MARKET_EVENTS.MARKET_UPDATED)
+  async onMarketUpdated(event: MarketUpdatedEvent) {
+    if (!event.battleId) return; // tournament market
+
+    const markets = await this.predictionMarket.getMarketsByBattle(
+      event.battleId,
+    );
+
+    this.realtime.emitToBattle(event.battleId, EVENTS.BATTLE_MARKETS, markets);
+  }
+}
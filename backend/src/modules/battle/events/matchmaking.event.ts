@@ -1,15 +1,31 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Injectable } from '@nestjs/common';
 import { OnEvent } from '@nestjs/event-emitter';
 import { EVENTS } from '../gateway/events.constant';
 import { MatchmakingService } from '../matchmaking/matchmaking.service';
+import { PlayerQueueEvent } from '../types/battle-player.types';
+import { BattleRealtimeService } from '../services/battle-realtime.service';
+import { LoggerService } from '@/shared/logger/logger.service';
 
 @Injectable()
 export class MatchmakingEvents {
-  constructor(private readonly matchmaking: MatchmakingService) {}
+  constructor(
+    private readonly matchmaking: MatchmakingService,
+    private readonly realtime: BattleRealtimeService,
+    private readonly logger: LoggerService,
+  ) {}
 
+  // the queue message was already acknowledged, a rejection is sent as battle.error
   @OnEvent(EVENTS.PLAYER_QUEUE)
-  async onPlayerQueue(payload: { userId: string; stake: number }) {
-    await this.matchmaking.addToQueue(payload.userId, payload.stake);
+  async onPlayerQueue(payload: PlayerQueueEvent) {
+    await this.matchmaking.addToQueue(payload).catch((error) => {
+      this.logger.warn(
+        `Queue rejected for user ${payload.userId}: ${error instanceof Error ? error.message : error}`,
+      );
+
+      for (const userId of payload.party?.userIds ?? [payload.userId]) {
+        this.realtime.emitError(userId, EVENTS.BATTLE_QUEUE, error);
+      }
+    });
   }
 
   @OnEvent(EVENTS.PLAYER_DEQUEUE)
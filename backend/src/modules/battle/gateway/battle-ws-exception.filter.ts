@@ -0,0 +1,41 @@
+import { ArgumentsHost, Catch, ExceptionFilter } from '@nestjs/common';
+import { Socket } from 'socket.io';
+import { LoggerService } from '@/shared/logger/logger.service';
+import { BattleErrorDto } from '../dto/battle-socket.dto';
+import { EVENTS } from './events.constant';
+import { toBattleError } from '../utils/battle-error.util';
+
+/**
+ * Turns every rejected battle message into a structured `battle.error`.
+ * The error is emitted to the caller and, when the client sent the message
+ * with an acknowledgement callback, also returned as `{ ok: false, error }`.
+ */
+@Catch()
+export class BattleWsExceptionFilter implements ExceptionFilter {
+  constructor(private readonly logger: LoggerService) {}
+
+  catch(exception: unknown, host: ArgumentsHost) {
+    const ws = host.switchToWs();
+    const client = ws.getClient<Socket>();
+    // socket.io handler args: [client, data, ack?, pattern]
+    const ack = host.getArgByIndex(2);
+
+    const error: BattleErrorDto = {
+      event: ws.getPattern(),
+      ...toBattleError(exception),
+    };
+
+    if (error.code === 'INTERNAL_ERROR') {
+      this.logger.error(
+        `Battle socket ${error.event} failed for user ${client.data.userId}`,
+        exception instanceof Error ? exception.stack : String(exception),
+      );
+    }
+
+    client.emit(EVENTS.BATTLE_ERROR, error);
+
+    if (typeof ack === 'function') {
+      ack({ ok: false, error });
+    }
+  }
+}
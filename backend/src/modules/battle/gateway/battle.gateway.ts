@@ -1,4 +1,4 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Injectable, UseFilters, UseGuards, UsePipes } from '@nestjs/common';
 import { EventEmitter2 } from '@nestjs/event-emitter';
 import {
   ConnectedSocket,
@@ -8,16 +8,40 @@ import {
   SubscribeMessage,
   WebSocketGateway,
   WebSocketServer,
+  WsException,
 } from '@nestjs/websockets';
 import { Server, Socket } from 'socket.io';
 import { EVENTS } from './events.constant';
 import { LoggerService } from '@/shared/logger/logger.service';
+import { WsJwtAuthGuard } from '@/modules/auth/guards/ws-jwt-auth.guard';
+import { WsValidationPipe } from '@/common/pipes/ws-validation.pipe';
+import { BattleWsExceptionFilter } from './battle-ws-exception.filter';
+import {
+  FinishBattleDto,
+  JoinPartyDto,
+  QueueBattleDto,
+  ReadyBattleDto,
+  WatchBattleDto,
+  WatchTournamentDto,
+} from '../dto/battle-socket.dto';
+import {
+  DeleteChatMessageDto,
+  MuteChatUserDto,
+  SendChatMessageDto,
+} from '../dto/battle-chat.dto';
+import { PlayerQueueEvent } from '../types/battle-player.types';
+import { BattleChatService } from '../services/battle-chat.service';
+import { BattlePartyService } from '../services/battle-party.service';
+import { BattleParty, PartyUpdatedEvent } from '../types/battle-party.types';
 
 @WebSocketGateway({
   cors: { origin: '*' },
   namespace: '/battle',
 })
 @Injectable()
+@UseGuards(WsJwtAuthGuard)
+@UsePipes(new WsValidationPipe())
+@UseFilters(BattleWsExceptionFilter)
 export class EventsGateway implements OnGatewayConnection, OnGatewayDisconnect {
   @WebSocketServer()
   server!: Server;
@@ -25,15 +49,28 @@ export class EventsGateway implements OnGatewayConnection, OnGatewayDisconnect {
   constructor(
     private readonly eventEmitter: EventEmitter2,
     private readonly logger: LoggerService,
+    private readonly wsAuth: WsJwtAuthGuard,
+    private readonly chat: BattleChatService,
+    private readonly parties: BattlePartyService,
   ) {}
 
   async handleConnection(client: Socket) {
-    const { userId } = client.handshake.auth;
-    if (!userId) return client.disconnect();
+    // userId is derived from the access token, never trusted from the client
+    const user = await this.wsAuth.authenticate(client).catch((error) => {
+      this.logger.warn(
+        `Socket ${client.id} rejected: ${error instanceof Error ? error.message : error}`,
+      );
+      return null;
+    });
 
-    client.data.userId = userId;
+    if (!user) return client.disconnect();
+
+    const userId = user.id;
     client.join(this.getUserRoom(userId));
 
+    // puts the user back into an ongoing battle, if any
+    this.eventEmitter.emit(EVENTS.PLAYER_CONNECTED, { userId });
+
     this.logger.log(`Client connected: ${userId} (socket id: ${client.id})`);
   }
 
@@ -41,17 +78,39 @@ export class EventsGateway implements OnGatewayConnection, OnGatewayDisconnect {
     const userId = client.data.userId;
     const battleId = client.data.battleId;
 
+    // the socket already left its rooms, refresh the counts it was part of
+    for (const watched of this.getWatched(client)) {
+      await this.emitSpectatorCount(watched);
+    }
+
     if (!userId || !battleId) return;
 
-    this.eventEmitter.emit(EVENTS.PLAYER_LEFT, { userId, battleId });
+    // not a leave yet, the player gets a grace period to reconnect
+    this.eventEmitter.emit(EVENTS.PLAYER_DISCONNECTED, { userId, battleId });
     this.logger.log(`Client disconnected: ${userId} (socket id: ${client.id})`);
   }
 
   @SubscribeMessage(EVENTS.BATTLE_QUEUE)
-  async joinQueue(@ConnectedSocket() client: Socket) {
+  async joinQueue(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() data: QueueBattleDto,
+  ) {
+    const userId = client.data.userId;
+
+    // the leader queues the whole party
+    const party = this.parties.getByMember(userId);
+    if (party) this.parties.assertCanQueue(party, userId, data.teamSize);
+
     this.eventEmitter.emit(EVENTS.PLAYER_QUEUE, {
-      userId: client.data.userId,
-    });
+      userId,
+      stake: data.stake,
+      assets: data.assets,
+      durationMs: data.durationMs,
+      teamSize: data.teamSize,
+      ...(party && { party: { id: party.id, userIds: [...party.members] } }),
+    } satisfies PlayerQueueEvent);
+
+    return { ok: true };
   }
 
   @SubscribeMessage(EVENTS.BATTLE_DEQUEUE)
@@ -59,22 +118,260 @@ export class EventsGateway implements OnGatewayConnection, OnGatewayDisconnect {
     this.eventEmitter.emit(EVENTS.PLAYER_DEQUEUE, {
       userId: client.data.userId,
     });
+
+    return { ok: true };
   }
 
   @SubscribeMessage(EVENTS.BATTLE_READY)
-  async ready(@ConnectedSocket() client: Socket, @MessageBody() data: any) {
+  async ready(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() data: ReadyBattleDto,
+  ) {
+    this.assertPlayerOf(client, data.battleId);
+
     this.eventEmitter.emit(EVENTS.PLAYER_READY, {
       battleId: data.battleId,
       userId: client.data.userId,
     });
+
+    return { ok: true };
   }
 
   @SubscribeMessage(EVENTS.BATTLE_FINISHED)
-  async finished(@ConnectedSocket() client: Socket, @MessageBody() data: any) {
+  async finished(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() data: FinishBattleDto,
+  ) {
+    this.assertPlayerOf(client, data.battleId);
+
     this.eventEmitter.emit(EVENTS.PLAYER_FINISHED, {
       battleId: data.battleId,
       userId: client.data.userId,
     });
+
+    return { ok: true };
+  }
+
+  // ========== SPECTATORS ==========
+
+  /**
+   * Subscribes the socket to a battle as a spectator: it receives everything
+   * emitted to the battle (lifecycle, standings, markets) but is not a player,
+   * so its player actions on that battle are rejected.
+   */
+  @SubscribeMessage(EVENTS.BATTLE_WATCH)
+  async watch(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() data: WatchBattleDto,
+  ) {
+    const { battleId } = data;
+
+    await client.join(this.getSpectatorRoom(battleId));
+    client.data.watching = [
+      ...this.getWatched(client).filter((id) => id !== battleId),
+      battleId,
+    ];
+
+    const spectators = await this.emitSpectatorCount(battleId);
+
+    return { ok: true, spectators };
+  }
+
+  @SubscribeMessage(EVENTS.BATTLE_UNWATCH)
+  async unwatch(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() data: WatchBattleDto,
+  ) {
+    const { battleId } = data;
+
+    await client.leave(this.getSpectatorRoom(battleId));
+    client.data.watching = this.getWatched(client).filter(
+      (id) => id !== battleId,
+    );
+
+    await this.emitSpectatorCount(battleId);
+
+    return { ok: true };
+  }
+
+  /**
+   * Broadcasts the number of distinct users watching a battle
+   * (several tabs of one user count once). Returns the count.
+   */
+  private async emitSpectatorCount(battleId: string) {
+    const sockets = await this.server
+      .in(this.getSpectatorRoom(battleId))
+      .fetchSockets();
+    const count = new Set(sockets.map((s) => s.data.userId)).size;
+
+    this.broadcast(battleId, EVENTS.BATTLE_SPECTATORS, { battleId, count });
+
+    return count;
+  }
+
+  // ========== PARTIES ==========
+
+  /**
+   * Creates a party led by the socket user; friends join it with its id.
+   */
+  @SubscribeMessage(EVENTS.PARTY_CREATE)
+  async createParty(@ConnectedSocket() client: Socket) {
+    const party = this.parties.create(client.data.userId);
+
+    this.emitParty(party, false);
+
+    return { ok: true, party };
+  }
+
+  @SubscribeMessage(EVENTS.PARTY_JOIN)
+  async joinParty(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() data: JoinPartyDto,
+  ) {
+    const party = this.parties.join(data.partyId, client.data.userId);
+
+    this.emitParty(party, false);
+
+    return { ok: true, party };
+  }
+
+  @SubscribeMessage(EVENTS.PARTY_LEAVE)
+  async leaveParty(@ConnectedSocket() client: Socket) {
+    const userId = client.data.userId;
+    const { party, disbanded } = this.parties.leave(userId);
+
+    this.emitParty(party, disbanded, userId);
+
+    return { ok: true };
+  }
+
+  // every member, and the member who just left
+  private emitParty(party: BattleParty, disbanded: boolean, leftId?: string) {
+    const userIds = [
+      ...new Set([...party.members, ...(leftId ? [leftId] : [])]),
+    ];
+
+    this.server
+      .to(userIds.map((id) => this.getUserRoom(id)))
+      .emit(EVENTS.PARTY_UPDATED, {
+        ...party,
+        disbanded,
+      } satisfies PartyUpdatedEvent);
+  }
+
+  // ========== TOURNAMENTS ==========
+
+  /**
+   * Subscribes the socket to the bracket updates of a tournament
+   * (`tournament.updated`, `tournament.markets`).
+   */
+  @SubscribeMessage(EVENTS.TOURNAMENT_WATCH)
+  async watchTournament(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() data: WatchTournamentDto,
+  ) {
+    await client.join(this.getTournamentRoom(data.tournamentId));
+    return { ok: true };
+  }
+
+  @SubscribeMessage(EVENTS.TOURNAMENT_UNWATCH)
+  async unwatchTournament(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() data: WatchTournamentDto,
+  ) {
+    await client.leave(this.getTournamentRoom(data.tournamentId));
+    return { ok: true };
+  }
+
+  // ========== CHAT ==========
+
+  /**
+   * Posts a message to the chat of a battle the socket plays in or watches.
+   */
+  @SubscribeMessage(EVENTS.CHAT_SEND)
+  async sendChat(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() data: SendChatMessageDto,
+  ) {
+    if (
+      client.data.battleId !== data.battleId &&
+      !this.getWatched(client).includes(data.battleId)
+    ) {
+      throw new WsException({
+        code: 'FORBIDDEN',
+        message: 'Watch or join the battle to chat',
+      });
+    }
+
+    const message = await this.chat.sendMessage(
+      data.battleId,
+      client.data.userId,
+      data.content,
+    );
+
+    this.broadcast(data.battleId, EVENTS.CHAT_MESSAGE, message);
+
+    return { ok: true, message };
+  }
+
+  @SubscribeMessage(EVENTS.CHAT_DELETE)
+  async deleteChat(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() data: DeleteChatMessageDto,
+  ) {
+    const message = await this.chat.deleteMessage(
+      data.messageId,
+      client.data.userId,
+    );
+
+    this.broadcast(message.battleId, EVENTS.CHAT_DELETED, {
+      battleId: message.battleId,
+      messageId: message.id,
+    });
+
+    return { ok: true };
+  }
+
+  @SubscribeMessage(EVENTS.CHAT_MUTE)
+  async muteChat(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() data: MuteChatUserDto,
+  ) {
+    const mute = await this.chat.muteUser(
+      data.battleId,
+      data.userId,
+      client.data.userId,
+      data.durationMs,
+    );
+
+    this.broadcast(data.battleId, EVENTS.CHAT_MUTED, {
+      battleId: mute.battleId,
+      userId: mute.userId,
+      expiresAt: mute.expiresAt,
+    });
+
+    return { ok: true };
+  }
+
+  // players and spectators of a battle
+  private broadcast(battleId: string, event: string, payload: unknown) {
+    this.server
+      .to([this.getBattleRoom(battleId), this.getSpectatorRoom(battleId)])
+      .emit(event, payload);
+  }
+
+  private getWatched(client: Socket): string[] {
+    return client.data.watching ?? [];
+  }
+
+  // player sockets are put in their battle room (and tagged) by the server only
+  private assertPlayerOf(client: Socket, battleId: string) {
+    if (client.data.battleId !== battleId) {
+      throw new WsException({
+        code: 'FORBIDDEN',
+        message: 'Only players of this battle can do this',
+      });
+    }
   }
 
   getUserRoom(userId: string) {
@@ -84,4 +381,13 @@ export class EventsGateway implements OnGatewayConnection, OnGatewayDisconnect {
   getBattleRoom(battleId: string) {
     return `battle:${battleId}`;
   }
+
+  // read-only room: the server never treats its members as players
+  getSpectatorRoom(battleId: string) {
+    return `battle:${battleId}:spectators`;
+  }
+
+  getTournamentRoom(tournamentId: string) {
+    return `tournament:${tournamentId}`;
+  }
 }
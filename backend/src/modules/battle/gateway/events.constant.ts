@@ -2,6 +2,9 @@ export const EVENTS = {
   // matching events
   MATCH_FOUND: 'match.found',
 
+  // in-process only: a battle reached FINISHED or CANCELLED
+  BATTLE_CLOSED: 'battle.closed',
+
   // Battle lifecycle events
   BATTLE_QUEUE: 'battle.queue',
   BATTLE_DEQUEUE: 'battle.dequeue',
@@ -10,11 +13,43 @@ export const EVENTS = {
   BATTLE_STARTED: 'battle.started',
   BATTLE_FINISHED: 'battle.finished',
   BATTLE_CANCELLED: 'battle.cancelled',
+  BATTLE_ERROR: 'battle.error',
+  BATTLE_STANDINGS: 'battle.standings',
+  BATTLE_MARKETS: 'battle.markets',
+
+  // Spectator events
+  BATTLE_WATCH: 'battle.watch',
+  BATTLE_UNWATCH: 'battle.unwatch',
+  BATTLE_SPECTATORS: 'battle.spectators',
+
+  // Chat events
+  CHAT_SEND: 'battle.chat.send',
+  CHAT_MESSAGE: 'battle.chat.message',
+  CHAT_DELETE: 'battle.chat.delete',
+  CHAT_DELETED: 'battle.chat.deleted',
+  CHAT_MUTE: 'battle.chat.mute',
+  CHAT_MUTED: 'battle.chat.muted',
+
+  // Party events (team battles)
+  PARTY_CREATE: 'party.create',
+  PARTY_JOIN: 'party.join',
+  PARTY_LEAVE: 'party.leave',
+  PARTY_UPDATED: 'party.updated',
+
+  // Tournament events
+  TOURNAMENT_WATCH: 'tournament.watch',
+  TOURNAMENT_UNWATCH: 'tournament.unwatch',
+  TOURNAMENT_UPDATED: 'tournament.updated',
+  TOURNAMENT_MARKETS: 'tournament.markets',
+  TOURNAMENT_WALKOVER: 'tournament.walkover',
 
   // Player events
   PLAYER_QUEUE: 'player.queue',
   PLAYER_DEQUEUE: 'player.dequeue',
   PLAYER_READY: 'player.ready',
   PLAYER_LEFT: 'player.left',
+  PLAYER_CONNECTED: 'player.connected',
+  PLAYER_DISCONNECTED: 'player.disconnected',
+  PLAYER_RECONNECTED: 'player.reconnected',
   PLAYER_FINISHED: 'player.finished',
 };
@@ -1,11 +1,21 @@
 import { randomUUID } from 'crypto';
 import { LoggerService } from '@/shared/logger/logger.service';
 import {
+  BattlePreferences,
   MatchCandidate,
   MatchGroup,
   MatchmakingConfig,
 } from '../types/matchmaking.types';
 
+// a party, or a solo player, queued for a team battle
+interface TeamUnit {
+  members: MatchCandidate[];
+  teamSize: number;
+  elo: number; // average of the members
+  joinedAt: number; // last member to join
+  priority: number; // lowest of the members
+}
+
 export class MatchmakingEngine {
   // using queue data structure to hold players waiting for a match
   private queue: MatchCandidate[] = [];
@@ -29,14 +39,63 @@ export class MatchmakingEngine {
 
   /**
    * Removes a player from the matchmaking queue. (dequeue)
+   * A party member takes the whole party out of the queue.
    * @param userId - The ID of the player to remove
+   * @returns the IDs of every removed player
+   */
+  removePlayer(userId: string): string[] {
+    const partyId = this.queue.find((c) => c.userId === userId)?.partyId;
+    const removed = this.queue.filter(
+      (c) =>
+        c.userId === userId || (partyId !== undefined && c.partyId === partyId),
+    );
+
+    this.queue = this.queue.filter((c) => !removed.includes(c));
+    return removed.map((c) => c.userId);
+  }
+
+  /**
+   * Stake tier of a stake: index of the highest tier lower bound it reaches.
    */
-  removePlayer(userId: string): void {
-    this.queue = this.queue.filter((c) => c.userId !== userId);
+  stakeTier(stake: number): number {
+    let tier = 0;
+    this.config.stakeTiers.forEach((bound, i) => {
+      if (stake >= bound) tier = i;
+    });
+    return tier;
   }
 
   /**
-   * Core algorithm to match players based on Elo ratings and wait times.
+   * Merges a candidate's battle preferences into the ones a group agreed on.
+   * Assets must overlap and explicit durations must be equal; a candidate
+   * without a preference accepts anything.
+   * @returns the new agreed preferences, or null if incompatible
+   */
+  private mergePreferences(
+    agreed: BattlePreferences,
+    candidate: MatchCandidate,
+  ): BattlePreferences | null {
+    let assets = agreed.assets;
+    if (candidate.assets?.length) {
+      assets = assets
+        ? assets.filter((a) => candidate.assets!.includes(a))
+        : [...candidate.assets];
+      if (assets.length === 0) return null;
+    }
+
+    let durationMs = agreed.durationMs;
+    if (candidate.durationMs !== undefined) {
+      if (durationMs !== undefined && durationMs !== candidate.durationMs) {
+        return null;
+      }
+      durationMs = candidate.durationMs;
+    }
+
+    return { assets, durationMs };
+  }
+
+  /**
+   * Core algorithm to match players based on Elo ratings, stake tiers, battle preferences and wait times.
    * Attempts to match players in the queue based on their Elo ratings and wait times.
    * @returns An array of MatchGroup representing successful matches
    */
@@ -47,14 +106,13 @@ export class MatchmakingEngine {
 
     /**
      * FAIRNESS PRIORITY
+     * 0. Higher queue priority first (requeued ready players, no-show strikes last)
      * 1. Players who have waited longer get priority in matching. (role as anchor)
      * 2. Nearby wait time -> sort by elo ascending
      */
-    const sorted = [...this.queue].sort((a, b) => {
-      const waitDiff = a.joinedAt - b.joinedAt;
-      if (Math.abs(waitDiff) > this.config.fairnessWindowMs) return waitDiff;
-      return a.elo - b.elo;
-    });
+    const sorted = this.queue
+      .filter((c) => !c.teamSize) // team battles are matched separately
+      .sort(this.byFairness);
 
     // attempt to match players
     for (let i = 0; i < sorted.length; i++) {
@@ -62,14 +120,13 @@ export class MatchmakingEngine {
       if (used.has(anchor.userId)) continue;
 
       const waitTimeSec = (now - anchor.joinedAt) / 1000;
-
-      // calculate dynamic elo range based on wait time
-      const dynamicChange = Math.min(
-        this.config.baseEloRange + waitTimeSec * this.config.expandPerSecond,
-        this.config.maxEloRange,
-      );
+      const { dynamicChange, stakeTierGap } = this.tolerance(waitTimeSec);
 
       const group: MatchCandidate[] = [anchor];
+      const anchorTier = this.stakeTier(anchor.stake);
+      let minTier = anchorTier;
+      let maxTier = anchorTier;
+      let agreed = this.mergePreferences({}, anchor)!;
 
       // build a group around the anchor player
       for (let j = i + 1; j < sorted.length; j++) {
@@ -83,7 +140,20 @@ export class MatchmakingEngine {
         // calculate elo differences
         const eloDiff = Math.abs(candidate.elo - avgElo);
 
-        if (eloDiff <= dynamicChange) group.push(candidate);
+        // keep the whole group within the allowed stake tier gap
+        const tier = this.stakeTier(candidate.stake);
+        const tierSpread = Math.max(maxTier, tier) - Math.min(minTier, tier);
+
+        if (eloDiff > dynamicChange || tierSpread > stakeTierGap) continue;
+
+        // asset set and duration must be compatible with the group
+        const merged = this.mergePreferences(agreed, candidate);
+        if (!merged) continue;
+
+        group.push(candidate);
+        minTier = Math.min(minTier, tier);
+        maxTier = Math.max(maxTier, tier);
+        agreed = merged;
       }
 
       // force match if wait time exceeds threshold
@@ -103,15 +173,203 @@ export class MatchmakingEngine {
           avgElo,
           createdAt: now,
           forced: forceBecauseWait && !meetsMin,
+          stakeTier: minTier,
+          assets: agreed.assets ?? [],
+          durationMs: agreed.durationMs,
         });
       }
     }
 
+    results.push(...this.matchTeams(now, used));
+
     // remove matched players from queue
     this.queue = this.queue.filter((c) => !used.has(c.userId));
     return results;
   }
 
+  /**
+   * Team battles: parties and solo players queued for the same team size are
+   * grouped around an anchor (same ELO, stake tier and preference rules as
+   * free-for-all) until both teams are full, then split into the two teams with
+   * the closest average ELO. A party always plays on one team, and team battles
+   * are never forced with missing players.
+   */
+  private matchTeams(now: number, used: Set<string>): MatchGroup[] {
+    const results: MatchGroup[] = [];
+    const isUsed = (unit: TeamUnit) =>
+      unit.members.some((m) => used.has(m.userId));
+
+    const units = this.toTeamUnits(this.queue.filter((c) => c.teamSize)).sort(
+      this.byFairness,
+    );
+
+    for (let i = 0; i < units.length; i++) {
+      const anchor = units[i];
+      if (isUsed(anchor)) continue;
+
+      const players = anchor.teamSize * 2;
+      const { dynamicChange, stakeTierGap } = this.tolerance(
+        (now - anchor.joinedAt) / 1000,
+      );
+
+      const group: TeamUnit[] = [anchor];
+      const tiers = anchor.members.map((m) => this.stakeTier(m.stake));
+      let agreed = this.mergeUnitPreferences({}, anchor);
+      if (!agreed) continue;
+
+      for (let j = i + 1; j < units.length; j++) {
+        const size = group.reduce((sum, u) => sum + u.members.length, 0);
+        if (size >= players) break;
+
+        const unit = units[j];
+        if (unit.teamSize !== anchor.teamSize || isUsed(unit)) continue;
+        if (size + unit.members.length > players) continue;
+
+        const members = group.flatMap((u) => u.members);
+        const avgElo =
+          members.reduce((sum, p) => sum + p.elo, 0) / members.length;
+        if (Math.abs(unit.elo - avgElo) > dynamicChange) continue;
+
+        const unitTiers = unit.members.map((m) => this.stakeTier(m.stake));
+        const allTiers = [...tiers, ...unitTiers];
+        if (Math.max(...allTiers) - Math.min(...allTiers) > stakeTierGap) {
+          continue;
+        }
+
+        const merged = this.mergeUnitPreferences(agreed, unit);
+        if (!merged) continue;
+
+        // the last unit must leave a way to split the players in two teams
+        if (
+          size + unit.members.length === players &&
+          !this.splitTeams([...group, unit], anchor.teamSize)
+        ) {
+          continue;
+        }
+
+        group.push(unit);
+        tiers.push(...unitTiers);
+        agreed = merged;
+      }
+
+      const teams = this.splitTeams(group, anchor.teamSize);
+      if (!teams) continue;
+
+      const matched = teams.flatMap((team, t) =>
+        team.map((p) => ({ ...p, team: t + 1 })),
+      );
+      matched.forEach((p) => used.add(p.userId));
+
+      results.push({
+        matchId: randomUUID(),
+        players: matched,
+        avgElo: matched.reduce((sum, p) => sum + p.elo, 0) / matched.length,
+        createdAt: now,
+        forced: false,
+        stakeTier: Math.min(...tiers),
+        assets: agreed.assets ?? [],
+        durationMs: agreed.durationMs,
+        teamSize: anchor.teamSize,
+      });
+    }
+
+    return results;
+  }
+
+  /**
+   * Splits units filling exactly two teams into the teams with the closest
+   * average ELO, or null when the party sizes do not allow it.
+   */
+  private splitTeams(
+    units: TeamUnit[],
+    teamSize: number,
+  ): [MatchCandidate[], MatchCandidate[]] | null {
+    const avg = (team: MatchCandidate[]) =>
+      team.reduce((sum, p) => sum + p.elo, 0) / team.length;
+
+    let best: [MatchCandidate[], MatchCandidate[]] | null = null;
+    let bestGap = Infinity;
+
+    // the first unit always plays on team 1, so every split is tried once
+    for (let mask = 1; mask < 1 << units.length; mask += 2) {
+      const one = units.filter((_, k) => mask & (1 << k));
+      const two = units.filter((_, k) => !(mask & (1 << k)));
+
+      const teamOne = one.flatMap((u) => u.members);
+      const teamTwo = two.flatMap((u) => u.members);
+      if (teamOne.length !== teamSize || teamTwo.length !== teamSize) continue;
+
+      const gap = Math.abs(avg(teamOne) - avg(teamTwo));
+      if (gap < bestGap) {
+        best = [teamOne, teamTwo];
+        bestGap = gap;
+      }
+    }
+
+    return best;
+  }
+
+  private toTeamUnits(candidates: MatchCandidate[]): TeamUnit[] {
+    const byParty = new Map<string, MatchCandidate[]>();
+    for (const c of candidates) {
+      const key = c.partyId ?? c.userId;
+      byParty.set(key, [...(byParty.get(key) ?? []), c]);
+    }
+
+    return [...byParty.values()].map((members) => ({
+      members,
+      teamSize: members[0].teamSize!,
+      elo: members.reduce((sum, p) => sum + p.elo, 0) / members.length,
+      joinedAt: Math.max(...members.map((p) => p.joinedAt)),
+      priority: Math.min(...members.map((p) => p.priority ?? 0)),
+    }));
+  }
+
+  private mergeUnitPreferences(
+    agreed: BattlePreferences,
+    unit: TeamUnit,
+  ): BattlePreferences | null {
+    let merged: BattlePreferences | null = agreed;
+    for (const member of unit.members) {
+      merged = merged && this.mergePreferences(merged, member);
+    }
+    return merged;
+  }
+
+  /**
+   * Queue order used to pick anchors (see FAIRNESS PRIORITY in `match`).
+   */
+  private byFairness = (
+    a: Pick<MatchCandidate, 'priority' | 'joinedAt' | 'elo'>,
+    b: Pick<MatchCandidate, 'priority' | 'joinedAt' | 'elo'>,
+  ) => {
+    const priorityDiff = (b.priority ?? 0) - (a.priority ?? 0);
+    if (priorityDiff !== 0) return priorityDiff;
+
+    const waitDiff = a.joinedAt - b.joinedAt;
+    if (Math.abs(waitDiff) > this.config.fairnessWindowMs) return waitDiff;
+    return a.elo - b.elo;
+  };
+
+  /**
+   * ELO range and stake tier gap allowed around an anchor, both relax with wait time.
+   */
+  private tolerance(waitTimeSec: number) {
+    // calculate dynamic elo range based on wait time
+    const dynamicChange = Math.min(
+      this.config.baseEloRange + waitTimeSec * this.config.expandPerSecond,
+      this.config.maxEloRange,
+    );
+
+    // allowed stake tier difference also relaxes with wait time
+    const stakeTierGap = Math.min(
+      Math.floor(waitTimeSec / this.config.stakeTierExpandAfterSec),
+      this.config.maxStakeTierGap,
+    );
+
+    return { dynamicChange, stakeTierGap };
+  }
+
   getQueue(): MatchCandidate[] {
     return [...this.queue];
   }
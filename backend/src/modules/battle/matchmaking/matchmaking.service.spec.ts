@@ -0,0 +1,145 @@
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { Test } from '@nestjs/testing';
+import { UserStatus } from '@prisma/client';
+import { matchmakingConfig } from '@/config/matchmaking.config';
+import { PrismaService } from '@/database/prisma.service';
+import { LoggerService } from '@/shared/logger/logger.service';
+import { BattleEscrowService } from '../services/battle-escrow.service';
+import { MatchmakingService } from './matchmaking.service';
+
+// keeps the Hyperliquid SDK (ESM only dependencies) out of the test
+jest.mock('../services/battle-escrow.service', () => ({
+  BattleEscrowService: class BattleEscrowService {},
+}));
+
+describe('MatchmakingService', () => {
+  let matchmaking: MatchmakingService;
+
+  const prisma = {
+    $transaction: jest.fn(),
+    user: { updateMany: jest.fn(), findMany: jest.fn() },
+    noShowStrike: { count: jest.fn() },
+  };
+  const escrow = { assertCovered: jest.fn() };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+
+    prisma.$transaction.mockImplementation((fn) => fn(prisma));
+    prisma.user.updateMany.mockImplementation(({ where }) => ({
+      count: where.id.in.length,
+    }));
+    prisma.user.findMany.mockImplementation(({ where }) =>
+      where.id.in.map((id: string) => ({
+        id,
+        elo: 1000,
+        status: UserStatus.ACTIVE,
+      })),
+    );
+    prisma.noShowStrike.count.mockResolvedValue(0);
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        MatchmakingService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: BattleEscrowService, useValue: escrow },
+        { provide: EventEmitter2, useValue: { emitAsync: jest.fn() } },
+        { provide: 'MATCHMAKING_CONFIG', useValue: matchmakingConfig },
+        {
+          provide: LoggerService,
+          useValue: { log: jest.fn(), debug: jest.fn(), error: jest.fn() },
+        },
+      ],
+    }).compile();
+
+    matchmaking = moduleRef.get(MatchmakingService);
+  });
+
+  describe('addToQueue', () => {
+    it('queues players who cover their stake', async () => {
+      await matchmaking.addToQueue({ userId: 'a', stake: 10 });
+
+      expect(escrow.assertCovered).toHaveBeenCalledWith(['a'], 10);
+      expect(matchmaking.getQueue().map((c) => c.userId)).toEqual(['a']);
+    });
+
+    it('sets players who cannot cover their stake back to ACTIVE', async () => {
+      escrow.assertCovered.mockRejectedValue(
+        new BadRequestException('Stake rejected'),
+      );
+
+      await expect(
+        matchmaking.addToQueue({
+          userId: 'a',
+          stake: 10,
+          party: { id: 'party-1', userIds: ['a', 'b'] },
+        }),
+      ).rejects.toThrow('Stake rejected');
+
+      expect(prisma.user.updateMany).toHaveBeenLastCalledWith({
+        where: { id: { in: ['a', 'b'] }, status: UserStatus.PENDING },
+        data: { status: UserStatus.ACTIVE },
+      });
+      expect(matchmaking.getQueue()).toEqual([]);
+    });
+
+    it('ignores players who are not ACTIVE', async () => {
+      prisma.user.updateMany.mockResolvedValue({ count: 0 });
+
+      await matchmaking.addToQueue({ userId: 'a', stake: 10 });
+
+      expect(escrow.assertCovered).not.toHaveBeenCalled();
+      expect(matchmaking.getQueue()).toEqual([]);
+    });
+  });
+
+  describe('reserveDirectMatch', () => {
+    const request = {
+      matchId: 'challenge-1',
+      userIds: ['b', 'a'],
+      stake: 25,
+      assets: ['BTC'],
+      durationMs: 3600000,
+      challengeId: 'challenge-1',
+    };
+
+    it('reserves the players and keeps their order', async () => {
+      const { match } = await matchmaking.reserveDirectMatch(request);
+
+      expect(prisma.user.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: ['b', 'a'] }, status: UserStatus.ACTIVE },
+        data: { status: UserStatus.PENDING },
+      });
+      expect(match).toMatchObject({
+        matchId: 'challenge-1',
+        avgElo: 1000,
+        forced: false,
+        assets: ['BTC'],
+        durationMs: 3600000,
+        challengeId: 'challenge-1',
+      });
+      expect(match?.players.map((p) => p.userId)).toEqual(['b', 'a']);
+    });
+
+    it('returns the players who are not available without reserving anyone', async () => {
+      prisma.user.findMany.mockResolvedValue([
+        { id: 'a', elo: 1000, status: UserStatus.ACTIVE },
+        { id: 'b', elo: 1000, status: UserStatus.PENDING },
+      ]);
+
+      await expect(matchmaking.reserveDirectMatch(request)).resolves.toEqual({
+        unavailable: ['b'],
+      });
+      expect(prisma.user.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('throws so the transaction rolls back when a player queued in between', async () => {
+      prisma.user.updateMany.mockResolvedValue({ count: 1 });
+
+      await expect(matchmaking.reserveDirectMatch(request)).rejects.toThrow(
+        ConflictException,
+      );
+    });
+  });
+});
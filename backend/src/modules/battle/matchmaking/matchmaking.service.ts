@@ -1,4 +1,5 @@
 import {
+  ConflictException,
   forwardRef,
   Inject,
   Injectable,
@@ -7,11 +8,20 @@ import {
 } from '@nestjs/common';
 import { MatchmakingEngine } from './matchmaking.engine';
 import { LoggerService } from '@/shared/logger/logger.service';
-import { MatchmakingConfig } from '../types/matchmaking.types';
+import {
+  DirectMatchRequest,
+  DirectMatchReservation,
+  MatchmakingConfig,
+} from '../types/matchmaking.types';
 import { EventEmitter2 } from '@nestjs/event-emitter';
-import { UserStatus } from '@prisma/client';
+import { Prisma, UserStatus } from '@prisma/client';
 import { PrismaService } from '@/database/prisma.service';
 import { EVENTS } from '../gateway/events.constant';
+import { PlayerQueueEvent } from '../types/battle-player.types';
+import { BattleEscrowService } from '../services/battle-escrow.service';
+
+// queue priority of ready players returned to the queue after a no-show
+const REQUEUE_PRIORITY = 1;
 
 @Injectable()
 export class MatchmakingService implements OnModuleInit, OnModuleDestroy {
@@ -24,6 +34,7 @@ export class MatchmakingService implements OnModuleInit, OnModuleDestroy {
     private readonly prisma: PrismaService,
     private readonly logger: LoggerService,
     private readonly eventEmitter: EventEmitter2,
+    private readonly escrow: BattleEscrowService,
     @Inject('MATCHMAKING_CONFIG')
     private readonly config: MatchmakingConfig,
   ) {
@@ -76,47 +87,195 @@ export class MatchmakingService implements OnModuleInit, OnModuleDestroy {
 
   /**
    * Wrapper function to call
+   * `front` puts the player ahead of regular players, e.g. when their battle
+   * was cancelled because someone else did not show up.
+   * `assets` and `durationMs` are optional, players without them match any battle.
+   * With `teamSize` the player waits for a team battle; a `party` is queued
+   * whole (every member available) or not at all.
+   * Throws, with the players left ACTIVE, when a stake is not covered.
    */
-  async addToQueue(userId: string, stake: number) {
-    // check user status
-    const user = await this.prisma.user.findUnique({
-      where: { id: userId },
-    });
+  async addToQueue(
+    { userId, stake, assets, durationMs, teamSize, party }: PlayerQueueEvent,
+    front = false,
+  ) {
+    const userIds = party?.userIds ?? [userId];
+
+    // lock users as QUEUING (recommend add enum)
+    const users = await this.prisma
+      .$transaction(async (tx) => {
+        const locked = await tx.user.updateMany({
+          where: { id: { in: userIds }, status: UserStatus.ACTIVE },
+          data: { status: UserStatus.PENDING },
+        });
+
+        if (locked.count !== userIds.length) {
+          throw new Error(`Users ${userIds.join(', ')} are not all ACTIVE`);
+        }
+
+        return tx.user.findMany({ where: { id: { in: userIds } } });
+      })
+      .catch(() => null);
 
-    if (!user || user.status !== UserStatus.ACTIVE) {
+    if (!users) {
       return;
     }
 
-    // lock user as QUEUING (recommend add enum)
-    await this.prisma.user.update({
-      where: { id: userId },
-      data: { status: UserStatus.PENDING },
-    });
+    // a stake the players cannot cover would only fail once they are matched
+    try {
+      await this.escrow.assertCovered(userIds, stake);
+    } catch (error) {
+      await this.prisma.user.updateMany({
+        where: { id: { in: userIds }, status: UserStatus.PENDING },
+        data: { status: UserStatus.ACTIVE },
+      });
+      throw error;
+    }
 
-    // add to matching queue
-    this.engine.addPlayer({
-      userId,
-      elo: user.elo,
-      joinedAt: Date.now(),
-      stake,
-    });
+    for (const user of users) {
+      // active no-show strikes push the player back in the queue
+      const strikes = await this.countActiveStrikes(user.id);
+
+      // add to matching queue
+      this.engine.addPlayer({
+        userId: user.id,
+        elo: user.elo,
+        joinedAt: Date.now(),
+        stake,
+        priority: (front ? REQUEUE_PRIORITY : 0) - strikes,
+        assets: assets?.length ? [...new Set(assets)] : undefined,
+        durationMs,
+        teamSize,
+        partyId: party?.id,
+      });
+    }
     await this.tick(); // trigger immediate matchmaking attempt
 
-    this.logger.log(`User ${userId} queued`);
+    this.logger.log(
+      party
+        ? `Party ${party.id} queued (${userIds.join(', ')})`
+        : `User ${userId} queued`,
+    );
   }
 
   async removeFromQueue(userId: string) {
-    // remove from matching queue
-    this.engine.removePlayer(userId);
+    // remove from matching queue, with the rest of their party
+    const removed = this.engine.removePlayer(userId);
 
     // unlock user status
-    await this.prisma.user.update({
-      where: { id: userId },
+    await this.prisma.user.updateMany({
+      where: { id: { in: [...new Set([userId, ...removed])] } },
       data: { status: UserStatus.ACTIVE },
     });
   }
 
+  /**
+   * Whether a party has members waiting in the queue.
+   */
+  isPartyQueued(partyId: string) {
+    return this.engine.getQueue().some((c) => c.partyId === partyId);
+  }
+
   getQueue() {
     return this.engine.getQueue();
   }
+
+  // ==================== DIRECT MATCHES ====================
+
+  /**
+   * Reserves the players of a match made outside the queue and builds its
+   * MatchGroup. Players who are queued or in a battle are returned instead and
+   * nobody is reserved. Runs in `tx` when given, so the caller can roll back
+   * its own changes with the reservation.
+   */
+  async reserveDirectMatch(
+    request: DirectMatchRequest,
+    tx?: Prisma.TransactionClient,
+  ): Promise<DirectMatchReservation> {
+    if (!tx) {
+      return this.prisma.$transaction((t) =>
+        this.reserveDirectMatch(request, t),
+      );
+    }
+
+    const { userIds, stake } = request;
+
+    const users = await tx.user.findMany({
+      where: { id: { in: userIds } },
+      select: { id: true, elo: true, status: true },
+    });
+
+    const unavailable = userIds.filter(
+      (id) => users.find((u) => u.id === id)?.status !== UserStatus.ACTIVE,
+    );
+    if (unavailable.length > 0) {
+      return { unavailable };
+    }
+
+    // same lock as joining the queue, BattleService.create expects PENDING players
+    const locked = await tx.user.updateMany({
+      where: { id: { in: userIds }, status: UserStatus.ACTIVE },
+      data: { status: UserStatus.PENDING },
+    });
+
+    // someone queued in between, the rollback frees the others
+    if (locked.count !== userIds.length) {
+      throw new ConflictException(
+        'Players must be available (not queued nor in a battle)',
+      );
+    }
+
+    const now = Date.now();
+    const players = userIds.map((id) => ({
+      userId: id,
+      elo: users.find((u) => u.id === id)?.elo ?? 0,
+      stake,
+      joinedAt: now,
+    }));
+
+    return {
+      match: {
+        matchId: request.matchId,
+        players,
+        avgElo: players.reduce((sum, p) => sum + p.elo, 0) / players.length,
+        createdAt: now,
+        forced: false,
+        stakeTier: this.engine.stakeTier(stake),
+        assets: request.assets,
+        durationMs: request.durationMs,
+        challengeId: request.challengeId,
+        tournamentId: request.tournamentId,
+      },
+    };
+  }
+
+  // ==================== NO-SHOW STRIKES ====================
+
+  /**
+   * Records a no-show strike for players who never readied up in a battle.
+   * Strikes expire after `noShowStrikeTtlMs`.
+   */
+  async recordNoShows(
+    battleId: string,
+    userIds: string[],
+    tx: Prisma.TransactionClient = this.prisma,
+  ) {
+    if (userIds.length === 0) return;
+
+    const expiresAt = new Date(Date.now() + this.config.noShowStrikeTtlMs);
+
+    await tx.noShowStrike.createMany({
+      data: userIds.map((userId) => ({ battleId, userId, expiresAt })),
+      skipDuplicates: true,
+    });
+
+    this.logger.log(
+      `Recorded no-show strikes for battle ${battleId}: ${userIds.join(', ')}`,
+    );
+  }
+
+  async countActiveStrikes(userId: string) {
+    return this.prisma.noShowStrike.count({
+      where: { userId, expiresAt: { gt: new Date() } },
+    });
+  }
 }
@@ -0,0 +1,68 @@
+import { Processor, WorkerHost } from '@nestjs/bullmq';
+import { Job } from 'bullmq';
+import { LoggerService } from '@/shared/logger/logger.service';
+import { BATTLE_TIMER_QUEUE } from '../constants/battle-queue.constants';
+import {
+  BATTLE_TIMER_JOBS,
+  ChallengeExpiryJob,
+  DisconnectGraceJob,
+  FinishBattleJob,
+  ReadyTimeoutJob,
+} from '../types/battle-job.type';
+import { BattleLifecycleService } from '../services/battle-lifecylce.service';
+import { BattleChallengeService } from '../services/battle-challenge.service';
+
+@Processor(BATTLE_TIMER_QUEUE)
+export class BattleTimerProcessor extends WorkerHost {
+  constructor(
+    private readonly lifecycle: BattleLifecycleService,
+    private readonly challenges: BattleChallengeService,
+    private readonly logger: LoggerService,
+  ) {
+    super();
+  }
+
+  async process(
+    job: Job<
+      | FinishBattleJob
+      | ReadyTimeoutJob
+      | DisconnectGraceJob
+      | ChallengeExpiryJob
+    >,
+  ) {
+    switch (job.name) {
+      case BATTLE_TIMER_JOBS.FINISH: {
+        const { battleId } = job.data as FinishBattleJob;
+        this.logger.log(`Battle ${battleId} duration elapsed (job ${job.id})`);
+        await this.lifecycle.finishBattle(battleId);
+        return;
+      }
+      case BATTLE_TIMER_JOBS.READY_TIMEOUT: {
+        const { battleId } = job.data as ReadyTimeoutJob;
+        this.logger.log(
+          `Battle ${battleId} ready deadline elapsed (job ${job.id})`,
+        );
+        await this.lifecycle.handleReadyTimeout(battleId);
+        return;
+      }
+      case BATTLE_TIMER_JOBS.DISCONNECT_GRACE: {
+        const { battleId, userId } = job.data as DisconnectGraceJob;
+        this.logger.log(
+          `User ${userId} did not reconnect to battle ${battleId} in time (job ${job.id})`,
+        );
+        await this.lifecycle.handleDisconnectGraceExpired(battleId, userId);
+        return;
+      }
+      case BATTLE_TIMER_JOBS.CHALLENGE_EXPIRY: {
+        const { challengeId } = job.data as ChallengeExpiryJob;
+        this.logger.log(`Challenge ${challengeId} TTL elapsed (job ${job.id})`);
+        await this.challenges.expire(challengeId);
+        return;
+      }
+      default:
+        this.logger.warn(
+          `Unhandled battle timer job: ${job.name} (job ${job.id})`,
+        );
+    }
+  }
+}
@@ -0,0 +1,209 @@
+import { ConflictException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Test } from '@nestjs/testing';
+import { ChallengeStatus, Prisma, UserStatus } from '@prisma/client';
+import { PrismaService } from '@/database/prisma.service';
+import { LoggerService } from '@/shared/logger/logger.service';
+import { MatchmakingService } from '../matchmaking/matchmaking.service';
+import { BattleChallengeService } from './battle-challenge.service';
+import { BattleLifecycleService } from './battle-lifecylce.service';
+import { BattleTimerService } from './battle-timer.service';
+
+// keeps the Hyperliquid SDK (ESM only dependencies) out of the test
+jest.mock('./battle-lifecylce.service', () => ({
+  BattleLifecycleService: class BattleLifecycleService {},
+}));
+jest.mock('../matchmaking/matchmaking.service', () => ({
+  MatchmakingService: class MatchmakingService {},
+}));
+
+const expiresAt = new Date(Date.now() + 60_000);
+
+const challengeRow = {
+  id: 'challenge-1',
+  code: 'ABCD2345',
+  status: ChallengeStatus.PENDING,
+  creatorId: 'creator',
+  creator: { name: 'Creator' },
+  inviteeId: null,
+  stake: new Prisma.Decimal(25),
+  durationMs: 3600000,
+  allowedAssets: ['BTC'],
+  expiresAt,
+  createdAt: new Date(),
+  acceptedAt: null,
+  battleId: null,
+};
+
+describe('BattleChallengeService', () => {
+  let challenges: BattleChallengeService;
+
+  const prisma = {
+    $transaction: jest.fn(),
+    user: { findUnique: jest.fn(), updateMany: jest.fn() },
+    challenge: {
+      create: jest.fn(),
+      findUnique: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+  };
+  const lifecycle = { handleMatch: jest.fn() };
+  const matchmaking = { reserveDirectMatch: jest.fn() };
+  const timer = {
+    scheduleChallengeExpiry: jest.fn(),
+    cancelChallengeExpiry: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+
+    prisma.$transaction.mockImplementation((arg) =>
+      Array.isArray(arg) ? Promise.all(arg) : arg(prisma),
+    );
+    prisma.challenge.create.mockResolvedValue(challengeRow);
+    prisma.challenge.findUnique.mockResolvedValue({ ...challengeRow });
+    prisma.challenge.updateMany.mockResolvedValue({ count: 1 });
+    prisma.challenge.update.mockImplementation(({ data }) => ({
+      ...challengeRow,
+      ...data,
+    }));
+    matchmaking.reserveDirectMatch.mockImplementation(
+      ({ matchId, userIds }) => ({
+        match: {
+          matchId,
+          players: userIds.map((userId: string) => ({ userId })),
+        },
+      }),
+    );
+    lifecycle.handleMatch.mockResolvedValue({ id: 'battle-1' });
+    timer.scheduleChallengeExpiry.mockResolvedValue(undefined);
+    timer.cancelChallengeExpiry.mockResolvedValue(undefined);
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        BattleChallengeService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: BattleLifecycleService, useValue: lifecycle },
+        { provide: MatchmakingService, useValue: matchmaking },
+        { provide: BattleTimerService, useValue: timer },
+        { provide: ConfigService, useValue: { getOrThrow: () => 60_000 } },
+        {
+          provide: LoggerService,
+          useValue: { log: jest.fn(), warn: jest.fn(), error: jest.fn() },
+        },
+      ],
+    }).compile();
+
+    challenges = moduleRef.get(BattleChallengeService);
+  });
+
+  describe('create', () => {
+    it('schedules the expiry of the challenge', async () => {
+      await challenges.create('creator', { stake: 25, durationMs: 3600000 });
+
+      expect(timer.scheduleChallengeExpiry).toHaveBeenCalledWith(
+        'challenge-1',
+        expiresAt,
+      );
+    });
+
+    it('still creates the challenge when the expiry cannot be scheduled', async () => {
+      timer.scheduleChallengeExpiry.mockRejectedValue(new Error('redis down'));
+
+      await expect(
+        challenges.create('creator', { stake: 25, durationMs: 3600000 }),
+      ).resolves.toMatchObject({ code: 'ABCD2345' });
+    });
+  });
+
+  describe('accept', () => {
+    it('creates the battle with the creator as player 1', async () => {
+      const accepted = await challenges.accept('abcd2345', 'invitee');
+
+      expect(matchmaking.reserveDirectMatch).toHaveBeenCalledWith(
+        {
+          matchId: 'challenge-1',
+          userIds: ['creator', 'invitee'],
+          stake: 25,
+          assets: ['BTC'],
+          durationMs: 3600000,
+          challengeId: 'challenge-1',
+        },
+        prisma,
+      );
+      expect(lifecycle.handleMatch).toHaveBeenCalled();
+      expect(timer.cancelChallengeExpiry).toHaveBeenCalledWith('challenge-1');
+      expect(accepted.battleId).toBe('battle-1');
+    });
+
+    it('refuses when a player is not available', async () => {
+      matchmaking.reserveDirectMatch.mockResolvedValue({
+        unavailable: ['invitee'],
+      });
+
+      await expect(challenges.accept('ABCD2345', 'invitee')).rejects.toThrow(
+        ConflictException,
+      );
+      expect(lifecycle.handleMatch).not.toHaveBeenCalled();
+    });
+
+    it('reopens the challenge when the battle could not be created', async () => {
+      lifecycle.handleMatch.mockRejectedValue(new Error('stake not covered'));
+
+      await expect(challenges.accept('ABCD2345', 'invitee')).rejects.toThrow(
+        'Could not start the challenge battle',
+      );
+
+      expect(prisma.user.updateMany).toHaveBeenCalledWith({
+        where: {
+          id: { in: ['creator', 'invitee'] },
+          status: UserStatus.PENDING,
+        },
+        data: { status: UserStatus.ACTIVE },
+      });
+      expect(prisma.challenge.update).toHaveBeenCalledWith({
+        where: { id: 'challenge-1' },
+        data: {
+          status: ChallengeStatus.PENDING,
+          inviteeId: null,
+          acceptedAt: null,
+        },
+      });
+    });
+
+    it('keeps the challenge accepted once its battle exists', async () => {
+      prisma.challenge.update.mockRejectedValue(new Error('db down'));
+
+      await expect(challenges.accept('ABCD2345', 'invitee')).rejects.toThrow(
+        'db down',
+      );
+
+      expect(prisma.user.updateMany).not.toHaveBeenCalled();
+      expect(prisma.challenge.update).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('cancel', () => {
+    it('drops the expiry of the challenge', async () => {
+      await challenges.cancel('ABCD2345', 'creator');
+
+      expect(timer.cancelChallengeExpiry).toHaveBeenCalledWith('challenge-1');
+    });
+  });
+
+  describe('expire', () => {
+    it('only expires a challenge still pending past its TTL', async () => {
+      await challenges.expire('challenge-1');
+
+      expect(prisma.challenge.updateMany).toHaveBeenCalledWith({
+        where: {
+          id: 'challenge-1',
+          status: ChallengeStatus.PENDING,
+          expiresAt: { lte: expect.any(Date) },
+        },
+        data: { status: ChallengeStatus.EXPIRED },
+      });
+    });
+  });
+});
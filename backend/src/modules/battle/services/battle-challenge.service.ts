@@ -0,0 +1,313 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  GoneException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomBytes } from 'crypto';
+import { Battle, ChallengeStatus, Prisma, UserStatus } from '@prisma/client';
+import { PrismaService } from '@/database/prisma.service';
+import { LoggerService } from '@/shared/logger/logger.service';
+import { BattleLifecycleService } from './battle-lifecylce.service';
+import { MatchmakingService } from '../matchmaking/matchmaking.service';
+import { ChallengeDto, CreateChallengeDto } from '../dto/battle-challenge.dto';
+import { BattleTimerService } from './battle-timer.service';
+
+// no 0/O/1/I so codes survive being read out loud
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const CODE_LENGTH = 8;
+
+const creatorInclude = {
+  creator: { select: { name: true } },
+} satisfies Prisma.ChallengeInclude;
+
+type ChallengeWithCreator = Prisma.ChallengeGetPayload<{
+  include: typeof creatorInclude;
+}>;
+
+/**
+ * Private challenges: a player invites someone with a shareable code and the
+ * battle is created as soon as the invitee accepts, without the ELO queue.
+ */
+@Injectable()
+export class BattleChallengeService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly lifecycle: BattleLifecycleService,
+    private readonly matchmaking: MatchmakingService,
+    private readonly timer: BattleTimerService,
+    private readonly configService: ConfigService,
+    private readonly logger: LoggerService,
+  ) {}
+
+  async create(
+    creatorId: string,
+    dto: CreateChallengeDto,
+  ): Promise<ChallengeDto> {
+    if (dto.inviteeId === creatorId) {
+      throw new BadRequestException('You cannot challenge yourself');
+    }
+
+    if (dto.inviteeId) {
+      const invitee = await this.prisma.user.findUnique({
+        where: { id: dto.inviteeId },
+        select: { id: true },
+      });
+      if (!invitee) {
+        throw new NotFoundException(`User ${dto.inviteeId} not found`);
+      }
+    }
+
+    const ttlMs = this.configService.getOrThrow<number>(
+      'battle.challengeTtlMs',
+    );
+
+    const challenge = await this.prisma.challenge.create({
+      data: {
+        code: this.generateCode(),
+        creatorId,
+        inviteeId: dto.inviteeId,
+        stake: dto.stake,
+        durationMs: dto.durationMs,
+        allowedAssets: dto.assets ?? [],
+        expiresAt: new Date(Date.now() + ttlMs),
+      },
+      include: creatorInclude,
+    });
+
+    // expired in the background too, not only when the code is looked up
+    await this.timer
+      .scheduleChallengeExpiry(challenge.id, challenge.expiresAt)
+      .catch((error) => {
+        this.logger.error(
+          `Failed to schedule the expiry of challenge ${challenge.code}`,
+          error instanceof Error ? error.stack : String(error),
+        );
+      });
+
+    this.logger.log(`User ${creatorId} created challenge ${challenge.code}`);
+
+    return this.toDto(challenge);
+  }
+
+  async getByCode(code: string): Promise<ChallengeDto> {
+    return this.toDto(await this.findByCode(code));
+  }
+
+  /**
+   * Accepts a challenge and creates its battle. Both players must be free
+   * (ACTIVE: not queued nor in a battle); the usual ready phase follows.
+   */
+  async accept(code: string, userId: string): Promise<ChallengeDto> {
+    const challenge = await this.findByCode(code);
+
+    if (challenge.creatorId === userId) {
+      throw new BadRequestException('You cannot accept your own challenge');
+    }
+
+    if (challenge.inviteeId && challenge.inviteeId !== userId) {
+      throw new ForbiddenException('This challenge is for another player');
+    }
+
+    this.assertPending(challenge);
+
+    // creator is player 1
+    const playerIds = [challenge.creatorId, userId];
+
+    const match = await this.prisma.$transaction(async (tx) => {
+      const accepted = await tx.challenge.updateMany({
+        where: { id: challenge.id, status: ChallengeStatus.PENDING },
+        data: {
+          status: ChallengeStatus.ACCEPTED,
+          inviteeId: userId,
+          acceptedAt: new Date(),
+        },
+      });
+
+      if (accepted.count === 0) {
+        throw new ConflictException('Challenge is no longer open');
+      }
+
+      const reservation = await this.matchmaking.reserveDirectMatch(
+        {
+          matchId: challenge.id,
+          userIds: playerIds,
+          stake: challenge.stake.toNumber(),
+          assets: challenge.allowedAssets,
+          durationMs: challenge.durationMs,
+          challengeId: challenge.id,
+        },
+        tx,
+      );
+
+      if (reservation.unavailable) {
+        throw new ConflictException(
+          'Both players must be available (not queued nor in a battle)',
+        );
+      }
+
+      return reservation.match;
+    });
+
+    let battle: Battle;
+    try {
+      battle = await this.lifecycle.handleMatch(match);
+    } catch (error) {
+      // no battle was created: give both players and the challenge back their previous state
+      await this.prisma.$transaction([
+        this.prisma.user.updateMany({
+          where: { id: { in: playerIds }, status: UserStatus.PENDING },
+          data: { status: UserStatus.ACTIVE },
+        }),
+        this.prisma.challenge.update({
+          where: { id: challenge.id },
+          data: {
+            status: ChallengeStatus.PENDING,
+            inviteeId: challenge.inviteeId,
+            acceptedAt: null,
+          },
+        }),
+      ]);
+
+      this.logger.error(
+        `Failed to create the battle of challenge ${challenge.code}`,
+        error instanceof Error ? error.stack : String(error),
+      );
+      throw new ConflictException('Could not start the challenge battle');
+    }
+
+    await this.dropExpiry(challenge.id);
+
+    const updated = await this.prisma.challenge.update({
+      where: { id: challenge.id },
+      data: { battleId: battle.id },
+      include: creatorInclude,
+    });
+
+    this.logger.log(
+      `Challenge ${challenge.code} accepted by ${userId}, battle ${battle.id}`,
+    );
+
+    return this.toDto(updated);
+  }
+
+  /**
+   * Withdraws a pending challenge. Only its creator can cancel it.
+   */
+  async cancel(code: string, userId: string): Promise<ChallengeDto> {
+    const challenge = await this.findByCode(code);
+
+    if (challenge.creatorId !== userId) {
+      throw new ForbiddenException('Only the creator can cancel a challenge');
+    }
+
+    this.assertPending(challenge);
+
+    const cancelled = await this.prisma.challenge.updateMany({
+      where: { id: challenge.id, status: ChallengeStatus.PENDING },
+      data: { status: ChallengeStatus.CANCELLED },
+    });
+
+    if (cancelled.count === 0) {
+      throw new ConflictException('Challenge is no longer open');
+    }
+
+    await this.dropExpiry(challenge.id);
+
+    return this.getByCode(code);
+  }
+
+  /**
+   * Expires a challenge nobody accepted before its TTL. Run by the challenge
+   * expiry timer; accepted or cancelled challenges are left as they are.
+   */
+  async expire(challengeId: string) {
+    const expired = await this.prisma.challenge.updateMany({
+      where: {
+        id: challengeId,
+        status: ChallengeStatus.PENDING,
+        expiresAt: { lte: new Date() },
+      },
+      data: { status: ChallengeStatus.EXPIRED },
+    });
+
+    if (expired.count > 0) {
+      this.logger.log(`Challenge ${challengeId} expired`);
+    }
+  }
+
+  /**
+   * Looks a challenge up by code, marking it EXPIRED once its TTL elapsed.
+   */
+  private async findByCode(code: string): Promise<ChallengeWithCreator> {
+    const challenge = await this.prisma.challenge.findUnique({
+      where: { code: code.toUpperCase() },
+      include: creatorInclude,
+    });
+
+    if (!challenge) {
+      throw new NotFoundException(`Challenge ${code} not found`);
+    }
+
+    if (
+      challenge.status === ChallengeStatus.PENDING &&
+      challenge.expiresAt <= new Date()
+    ) {
+      await this.prisma.challenge.updateMany({
+        where: { id: challenge.id, status: ChallengeStatus.PENDING },
+        data: { status: ChallengeStatus.EXPIRED },
+      });
+      challenge.status = ChallengeStatus.EXPIRED;
+    }
+
+    return challenge;
+  }
+
+  // a leftover expiry job is harmless (PENDING only), so failing to drop it is only logged
+  private async dropExpiry(challengeId: string) {
+    await this.timer.cancelChallengeExpiry(challengeId).catch((error) => {
+      this.logger.warn(
+        `Failed to drop the expiry of challenge ${challengeId}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    });
+  }
+
+  private assertPending(challenge: ChallengeWithCreator) {
+    if (challenge.status === ChallengeStatus.EXPIRED) {
+      throw new GoneException('Challenge has expired');
+    }
+
+    if (challenge.status !== ChallengeStatus.PENDING) {
+      throw new ConflictException(
+        `Challenge is ${challenge.status.toLowerCase()}`,
+      );
+    }
+  }
+
+  private generateCode() {
+    return Array.from(
+      randomBytes(CODE_LENGTH),
+      (b) => CODE_ALPHABET[b % CODE_ALPHABET.length],
+    ).join('');
+  }
+
+  private toDto(challenge: ChallengeWithCreator): ChallengeDto {
+    return {
+      id: challenge.id,
+      code: challenge.code,
+      status: challenge.status,
+      creatorId: challenge.creatorId,
+      creatorName: challenge.creator.name,
+      inviteeId: challenge.inviteeId,
+      stake: challenge.stake.toString(),
+      durationMs: challenge.durationMs,
+      allowedAssets: challenge.allowedAssets,
+      expiresAt: challenge.expiresAt,
+      createdAt: challenge.createdAt,
+      battleId: challenge.battleId,
+    };
+  }
+}
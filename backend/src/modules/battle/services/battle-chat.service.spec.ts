@@ -0,0 +1,147 @@
+import { HttpException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Test } from '@nestjs/testing';
+import { PrismaService } from '@/database/prisma.service';
+import { CacheService } from '@shared/cache/cache.service';
+import { BattleChatService } from './battle-chat.service';
+
+// 2 messages per 10 second window
+const config: Record<string, number> = {
+  'throttle.chatTtl': 10,
+  'throttle.chatLimit': 2,
+};
+
+/**
+ * In-process stand-in for the memory store, honouring TTLs on the (fake) clock.
+ */
+function memoryCache() {
+  const entries = new Map<string, { value: unknown; expiresAt: number }>();
+  return {
+    redis: null,
+    setMemory: jest.fn(async (key: string, value: unknown, ttl = 0) => {
+      entries.set(key, {
+        value,
+        expiresAt: ttl ? Date.now() + ttl * 1000 : Infinity,
+      });
+    }),
+    getMemory: jest.fn(async (key: string) => {
+      const entry = entries.get(key);
+      return entry && entry.expiresAt > Date.now() ? entry.value : undefined;
+    }),
+  };
+}
+
+describe('BattleChatService', () => {
+  let chat: BattleChatService;
+  let cache: object;
+
+  const prisma = {
+    battle: { findUnique: jest.fn() },
+    battleChatMute: { findFirst: jest.fn() },
+    battleChatMessage: { create: jest.fn() },
+  };
+
+  async function createService() {
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        BattleChatService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: CacheService, useValue: cache },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((key: string) => config[key]) },
+        },
+      ],
+    }).compile();
+
+    chat = moduleRef.get(BattleChatService);
+  }
+
+  const send = (content = 'gm') => chat.sendMessage('battle-1', 'a', content);
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    jest.useFakeTimers({ now: 0 });
+
+    prisma.battle.findUnique.mockResolvedValue({ id: 'battle-1' });
+    prisma.battleChatMute.findFirst.mockResolvedValue(null);
+    prisma.battleChatMessage.create.mockImplementation(({ data }) => ({
+      id: 'message-1',
+      type: 'USER',
+      createdAt: new Date(),
+      user: { name: 'Alice' },
+      ...data,
+    }));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('rate limit (memory)', () => {
+    beforeEach(async () => {
+      cache = memoryCache();
+      await createService();
+    });
+
+    it('rejects messages over the limit of the window', async () => {
+      await send();
+      await send();
+
+      await expect(send()).rejects.toThrow(HttpException);
+    });
+
+    it('does not extend the window on every message', async () => {
+      await send();
+      jest.advanceTimersByTime(9_000);
+      await send();
+      await expect(send()).rejects.toThrow('You are sending messages too fast');
+
+      // 10s after the first message, whatever was sent since
+      jest.advanceTimersByTime(1_000);
+      await expect(send()).resolves.toMatchObject({ content: 'gm' });
+    });
+  });
+
+  describe('rate limit (redis)', () => {
+    let count: number;
+    const multi = {
+      set: jest.fn(),
+      incr: jest.fn(),
+      exec: jest.fn(),
+    };
+
+    beforeEach(async () => {
+      count = 0;
+      multi.set.mockReturnValue(multi);
+      multi.incr.mockReturnValue(multi);
+      multi.exec.mockImplementation(async () => [
+        [null, 'OK'],
+        [null, ++count],
+      ]);
+      cache = { redis: { multi: () => multi } };
+      await createService();
+    });
+
+    it('opens the window and counts in one transaction', async () => {
+      await send();
+
+      expect(multi.set).toHaveBeenCalledWith(
+        'battle-chat:rate:a',
+        0,
+        'EX',
+        10,
+        'NX',
+      );
+      expect(multi.incr).toHaveBeenCalledWith('battle-chat:rate:a');
+      expect(multi.exec).toHaveBeenCalledTimes(1);
+    });
+
+    it('rejects messages over the limit of the window', async () => {
+      await send();
+      await send();
+
+      await expect(send()).rejects.toThrow('You are sending messages too fast');
+    });
+  });
+});
@@ -0,0 +1,276 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  HttpException,
+  HttpStatus,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  BattleChatMessage,
+  ChatMessageType,
+  Prisma,
+  UserRole,
+} from '@prisma/client';
+import { PrismaService } from '@/database/prisma.service';
+import { CacheService } from '@shared/cache/cache.service';
+import {
+  ChatHistoryQueryDto,
+  ChatHistoryResponseDto,
+  ChatMessageDto,
+} from '../dto/battle-chat.dto';
+import { containsLink, sanitizeChatMessage } from '../utils/chat-filter.util';
+
+const MODERATOR_ROLES: UserRole[] = [UserRole.MODERATOR, UserRole.ADMIN];
+
+const authorInclude = {
+  user: { select: { name: true } },
+} satisfies Prisma.BattleChatMessageInclude;
+
+type MessageWithAuthor = Prisma.BattleChatMessageGetPayload<{
+  include: typeof authorInclude;
+}>;
+
+/**
+ * Battle room chat: persistence, filtering, rate limiting and moderation.
+ * Broadcasting is left to the caller (gateway or lifecycle).
+ */
+@Injectable()
+export class BattleChatService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly cacheService: CacheService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  // ========== MESSAGES ==========
+
+  /**
+   * Stores a user message once it passed the mute, rate limit and link checks.
+   * Profanity is masked rather than rejected.
+   */
+  async sendMessage(
+    battleId: string,
+    userId: string,
+    content: string,
+  ): Promise<ChatMessageDto> {
+    await this.assertBattleExists(battleId);
+
+    const mute = await this.getActiveMute(battleId, userId);
+    if (mute) {
+      throw new ForbiddenException(
+        mute.expiresAt
+          ? `You are muted until ${mute.expiresAt.toISOString()}`
+          : 'You are muted in this battle',
+      );
+    }
+
+    await this.consumeRateLimit(userId);
+
+    if (containsLink(content)) {
+      throw new BadRequestException('Links are not allowed in chat');
+    }
+
+    const sanitized = sanitizeChatMessage(content);
+    if (!sanitized) {
+      throw new BadRequestException('Message is empty');
+    }
+
+    const message = await this.prisma.battleChatMessage.create({
+      data: { battleId, userId, content: sanitized },
+      include: authorInclude,
+    });
+
+    return this.toDto(message);
+  }
+
+  /**
+   * Stores a server message, optionally about a player (e.g. "left the battle").
+   */
+  async postSystemMessage(
+    battleId: string,
+    content: string,
+    userId?: string,
+  ): Promise<ChatMessageDto> {
+    const message = await this.prisma.battleChatMessage.create({
+      data: { battleId, userId, content, type: ChatMessageType.SYSTEM },
+      include: authorInclude,
+    });
+
+    return this.toDto(message);
+  }
+
+  /**
+   * Messages of a battle, newest page first. Each page is returned oldest first
+   * so it can be prepended as is; deleted messages are left out.
+   */
+  async getHistory(
+    battleId: string,
+    query: ChatHistoryQueryDto,
+  ): Promise<ChatHistoryResponseDto> {
+    await this.assertBattleExists(battleId);
+
+    const { cursor, limit } = query;
+
+    const messages = await this.prisma.battleChatMessage.findMany({
+      where: { battleId, deletedAt: null },
+      include: authorInclude,
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      take: limit + 1,
+      ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+    });
+
+    const page = messages.slice(0, limit);
+
+    return {
+      items: page.reverse().map((m) => this.toDto(m)),
+      nextCursor: messages.length > limit ? (page[0]?.id ?? null) : null,
+    };
+  }
+
+  // ========== MODERATION ==========
+
+  /**
+   * Hides a message from the chat. Returns it so the deletion can be broadcast.
+   */
+  async deleteMessage(
+    messageId: string,
+    moderatorId: string,
+  ): Promise<BattleChatMessage> {
+    await this.assertModerator(moderatorId);
+
+    const message = await this.prisma.battleChatMessage.findUnique({
+      where: { id: messageId },
+    });
+
+    if (!message) {
+      throw new NotFoundException(`Message ${messageId} not found`);
+    }
+
+    if (message.deletedAt) return message;
+
+    return this.prisma.battleChatMessage.update({
+      where: { id: messageId },
+      data: { deletedAt: new Date(), deletedById: moderatorId },
+    });
+  }
+
+  /**
+   * Mutes a user in a battle chat, for `durationMs` or until the battle is over.
+   * Muting again replaces the previous mute.
+   */
+  async muteUser(
+    battleId: string,
+    userId: string,
+    moderatorId: string,
+    durationMs?: number,
+  ) {
+    await this.assertModerator(moderatorId);
+    await this.assertBattleExists(battleId);
+
+    if (userId === moderatorId) {
+      throw new BadRequestException('You cannot mute yourself');
+    }
+
+    const expiresAt = durationMs ? new Date(Date.now() + durationMs) : null;
+
+    return this.prisma.battleChatMute.upsert({
+      where: { battleId_userId: { battleId, userId } },
+      create: { battleId, userId, mutedById: moderatorId, expiresAt },
+      update: { mutedById: moderatorId, expiresAt },
+    });
+  }
+
+  // ========== HELPERS ==========
+
+  private async getActiveMute(battleId: string, userId: string) {
+    return this.prisma.battleChatMute.findFirst({
+      where: {
+        battleId,
+        userId,
+        OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }],
+      },
+    });
+  }
+
+  /**
+   * Fixed window per user (`throttle.chatLimit` messages every `throttle.chatTtl` s),
+   * counted in Redis when configured so every replica shares it.
+   */
+  private async consumeRateLimit(userId: string) {
+    const ttl = this.configService.get<number>('throttle.chatTtl', 10);
+    const limit = this.configService.get<number>('throttle.chatLimit', 5);
+    const key = `battle-chat:rate:${userId}`;
+
+    // fixed window: it opens with the first message and is never extended
+    let count: number;
+    if (this.cacheService.redis) {
+      // atomic, so a crash between the two commands cannot leave a key without TTL
+      const results = await this.cacheService.redis
+        .multi()
+        .set(key, 0, 'EX', ttl, 'NX')
+        .incr(key)
+        .exec();
+      count = Number(results?.[1]?.[1]);
+    } else {
+      const now = Date.now();
+      const open = await this.cacheService.getMemory<{
+        count: number;
+        resetAt: number;
+      }>(key);
+      const window =
+        open && open.resetAt > now
+          ? open
+          : { count: 0, resetAt: now + ttl * 1000 };
+
+      count = window.count + 1;
+      await this.cacheService.setMemory(
+        key,
+        { ...window, count },
+        Math.ceil((window.resetAt - now) / 1000),
+      );
+    }
+
+    if (count > limit) {
+      throw new HttpException(
+        'You are sending messages too fast',
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+    }
+  }
+
+  private async assertModerator(userId: string) {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { role: true },
+    });
+
+    if (!user || !MODERATOR_ROLES.includes(user.role)) {
+      throw new ForbiddenException('Only moderators can do this');
+    }
+  }
+
+  private async assertBattleExists(battleId: string) {
+    const battle = await this.prisma.battle.findUnique({
+      where: { id: battleId },
+      select: { id: true },
+    });
+
+    if (!battle) {
+      throw new NotFoundException(`Battle ${battleId} not found`);
+    }
+  }
+
+  private toDto(message: MessageWithAuthor): ChatMessageDto {
+    return {
+      id: message.id,
+      battleId: message.battleId,
+      type: message.type,
+      userId: message.userId,
+      name: message.user?.name ?? null,
+      content: message.content,
+      createdAt: message.createdAt,
+    };
+  }
+}
@@ -0,0 +1,234 @@
+import { BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Test } from '@nestjs/testing';
+import { Prisma, StakeLedgerType } from '@prisma/client';
+import { PrismaService } from '@/database/prisma.service';
+import { LoggerService } from '@/shared/logger/logger.service';
+import { HypercoreService } from '@/modules/hypercore/services/hypercore.service';
+import { BattleEscrowService } from './battle-escrow.service';
+
+// keeps the Hyperliquid SDK (ESM only dependencies) out of the test
+jest.mock('@/modules/hypercore/services/hypercore.service', () => ({
+  HypercoreService: class HypercoreService {},
+}));
+
+const decimal = (value: Prisma.Decimal.Value) => new Prisma.Decimal(value);
+
+function ledgerSums(
+  rows: { userId: string | null; type: StakeLedgerType; amount: number }[],
+) {
+  return rows.map(({ userId, type, amount }) => ({
+    userId,
+    type,
+    _sum: { amount: decimal(amount) },
+  }));
+}
+
+describe('BattleEscrowService', () => {
+  let escrow: BattleEscrowService;
+  let rakeBps: number;
+
+  const prisma = {
+    user: { findMany: jest.fn() },
+    battlePlayer: { findMany: jest.fn() },
+    stakeLedgerEntry: {
+      groupBy: jest.fn(),
+      findMany: jest.fn(),
+      aggregate: jest.fn(),
+      createMany: jest.fn(),
+    },
+  };
+  const hypercore = { getAccountSummary: jest.fn() };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    rakeBps = 0;
+
+    // every user trades from their own address with 100 USD
+    prisma.user.findMany.mockImplementation(({ where }) =>
+      where.id.in.map((id: string) => ({
+        id,
+        evmAddress: `0x${id}`,
+        hypercoreWallet: null,
+      })),
+    );
+    hypercore.getAccountSummary.mockResolvedValue({
+      account: { marginSummary: { accountValue: '100' } },
+    });
+    prisma.stakeLedgerEntry.groupBy.mockResolvedValue([]);
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        BattleEscrowService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: HypercoreService, useValue: hypercore },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn(() => rakeBps) },
+        },
+        {
+          provide: LoggerService,
+          useValue: { log: jest.fn(), warn: jest.fn(), error: jest.fn() },
+        },
+      ],
+    }).compile();
+
+    escrow = moduleRef.get(BattleEscrowService);
+  });
+
+  describe('assertCovered', () => {
+    it('accepts a stake the balance covers', async () => {
+      await expect(escrow.assertCovered(['a'], 100)).resolves.toBeUndefined();
+    });
+
+    it('rejects a stake above the balance', async () => {
+      await expect(escrow.assertCovered(['a'], 101)).rejects.toThrow(
+        BadRequestException,
+      );
+    });
+
+    it('keeps stakes of running and lost battles counted', async () => {
+      prisma.stakeLedgerEntry.groupBy.mockResolvedValue(
+        ledgerSums([{ userId: 'a', type: StakeLedgerType.LOCK, amount: 60 }]),
+      );
+
+      await expect(escrow.assertCovered(['a'], 40)).resolves.toBeUndefined();
+      await expect(escrow.assertCovered(['a'], 41)).rejects.toThrow(
+        'user a cannot cover a stake of 41 USD (available 40 USD)',
+      );
+    });
+
+    it('frees released stakes and credits payouts', async () => {
+      prisma.stakeLedgerEntry.groupBy.mockResolvedValue(
+        ledgerSums([
+          { userId: 'a', type: StakeLedgerType.LOCK, amount: 80 },
+          { userId: 'a', type: StakeLedgerType.RELEASE, amount: 30 },
+          { userId: 'a', type: StakeLedgerType.PAYOUT, amount: 90 },
+          { userId: null, type: StakeLedgerType.RAKE, amount: 10 },
+        ]),
+      );
+
+      // 100 - (80 - 30 - 90)
+      await expect(escrow.assertCovered(['a'], 140)).resolves.toBeUndefined();
+      await expect(escrow.assertCovered(['a'], 141)).rejects.toThrow(
+        BadRequestException,
+      );
+    });
+
+    it('rejects a party when one member cannot cover the stake', async () => {
+      prisma.stakeLedgerEntry.groupBy.mockResolvedValue(
+        ledgerSums([{ userId: 'b', type: StakeLedgerType.LOCK, amount: 50 }]),
+      );
+
+      await expect(escrow.assertCovered(['a', 'b'], 60)).rejects.toThrow(
+        'Stake rejected: user b cannot cover a stake of 60 USD (available 50 USD)',
+      );
+    });
+  });
+
+  describe('lockStakes', () => {
+    const balances = new Map([
+      ['a', decimal(100)],
+      ['b', decimal(100)],
+    ]);
+
+    beforeEach(() => {
+      prisma.battlePlayer.findMany.mockResolvedValue([
+        { userId: 'a', stake: decimal(50) },
+        { userId: 'b', stake: decimal(50) },
+      ]);
+    });
+
+    it('locks the stake of every player', async () => {
+      await escrow.lockStakes('battle-1', balances);
+
+      expect(prisma.stakeLedgerEntry.createMany).toHaveBeenCalledWith({
+        data: [
+          {
+            key: 'lock:battle-1:a',
+            type: StakeLedgerType.LOCK,
+            amount: decimal(50),
+            battleId: 'battle-1',
+            userId: 'a',
+          },
+          {
+            key: 'lock:battle-1:b',
+            type: StakeLedgerType.LOCK,
+            amount: decimal(50),
+            battleId: 'battle-1',
+            userId: 'b',
+          },
+        ],
+        skipDuplicates: true,
+      });
+    });
+
+    it('leaves the battle itself out of the net position', async () => {
+      await escrow.lockStakes('battle-1', balances);
+
+      expect(prisma.stakeLedgerEntry.groupBy).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            userId: { in: ['a', 'b'] },
+            battleId: { not: 'battle-1' },
+          },
+        }),
+      );
+    });
+
+    it('locks nothing when a player cannot cover the stake', async () => {
+      prisma.stakeLedgerEntry.groupBy.mockResolvedValue(
+        ledgerSums([{ userId: 'b', type: StakeLedgerType.LOCK, amount: 60 }]),
+      );
+
+      await expect(escrow.lockStakes('battle-1', balances)).rejects.toThrow(
+        'Battle battle-1: user b cannot cover a stake of 50 USD (available 40 USD)',
+      );
+      expect(prisma.stakeLedgerEntry.createMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('payout', () => {
+    beforeEach(() => {
+      prisma.stakeLedgerEntry.aggregate.mockResolvedValue({
+        _sum: { amount: decimal(100) },
+      });
+    });
+
+    it('splits the pot between the winners minus the rake', async () => {
+      rakeBps = 500;
+
+      const { share, rake } = await escrow.payout(
+        'battle-1',
+        ['a', 'b', 'c'],
+        'result-1',
+      );
+
+      // 95 / 3 rounded down, the dust goes to the rake
+      expect(share.toFixed()).toBe('31.666666');
+      expect(rake.toFixed()).toBe('5.000002');
+      expect(share.times(3).plus(rake).toFixed()).toBe('100');
+    });
+
+    it('writes one payout per winner and the rake', async () => {
+      await escrow.payout('battle-1', ['a'], 'result-1');
+
+      const { data } = prisma.stakeLedgerEntry.createMany.mock.calls[0][0];
+      expect(
+        data.map((e: { key: string; amount: Prisma.Decimal }) => [
+          e.key,
+          e.amount.toFixed(),
+        ]),
+      ).toEqual([
+        ['payout:battle-1:a', '100'],
+        ['rake:battle-1', '0'],
+      ]);
+    });
+
+    it('refuses to pay out without a winner', async () => {
+      await expect(escrow.payout('battle-1', [], 'result-1')).rejects.toThrow(
+        'Battle battle-1 has no winner to pay out',
+      );
+    });
+  });
+});
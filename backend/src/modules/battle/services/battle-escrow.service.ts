@@ -0,0 +1,290 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Prisma, StakeLedgerType } from '@prisma/client';
+import { PrismaService } from '@/database/prisma.service';
+import { LoggerService } from '@/shared/logger/logger.service';
+import { HypercoreService } from '@/modules/hypercore/services/hypercore.service';
+import { resolveTradingAddress } from '../utils/trading-address.util';
+
+const BPS = 10_000;
+const USD_DECIMALS = 6; // matches StakeLedgerEntry.amount precision
+const ZERO = new Prisma.Decimal(0);
+
+// STAKE ESCROW: every stake movement of a battle is an entry of the stake ledger
+
+@Injectable()
+export class BattleEscrowService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly config: ConfigService,
+    private readonly logger: LoggerService,
+    private readonly hypercore: HypercoreService,
+  ) {}
+
+  /**
+   * Balance stakes are checked against: the account value of each user's
+   * Hyperliquid trading account (zero without one).
+   * Network bound: call it before the battle transaction.
+   */
+  async fetchBalances(userIds: string[]): Promise<Map<string, Prisma.Decimal>> {
+    const users = await this.prisma.user.findMany({
+      where: { id: { in: userIds } },
+      include: { hypercoreWallet: true },
+    });
+
+    const balances = await Promise.all(
+      users.map(async (u) => {
+        const address = resolveTradingAddress(u);
+        if (!address) return [u.id, ZERO] as const;
+
+        const { account } = await this.hypercore.getAccountSummary(
+          u.id,
+          address,
+        );
+        return [
+          u.id,
+          new Prisma.Decimal(account.marginSummary.accountValue),
+        ] as const;
+      }),
+    );
+
+    return new Map(balances);
+  }
+
+  /**
+   * Rejects a queue entry whose stake some of the users cannot cover with
+   * their balance minus their net escrow position, before they are matched.
+   * Network bound, like fetchBalances.
+   */
+  async assertCovered(userIds: string[], stake: Prisma.Decimal.Value) {
+    this.assertStakesCovered(await this.uncoveredStakes(userIds, stake));
+  }
+
+  /**
+   * The users who cannot cover `stake`, same check as assertCovered.
+   * Lets a tournament match be forfeited by the right player.
+   */
+  async findUncoveredUsers(userIds: string[], stake: Prisma.Decimal.Value) {
+    const uncovered = await this.uncoveredStakes(userIds, stake);
+    return uncovered.map((u) => u.userId);
+  }
+
+  /**
+   * Locks every player's stake into the battle escrow.
+   * Called when the battle is created, inside its transaction: a stake larger
+   * than the player's balance minus their net escrow position in other
+   * battles is rejected and the whole battle creation rolls back.
+   */
+  async lockStakes(
+    battleId: string,
+    balances: Map<string, Prisma.Decimal>,
+    tx: Prisma.TransactionClient = this.prisma,
+  ) {
+    const players = await tx.battlePlayer.findMany({ where: { battleId } });
+
+    this.assertStakesCovered(
+      await this.findUncovered(players, balances, tx, battleId),
+      battleId,
+    );
+
+    await tx.stakeLedgerEntry.createMany({
+      data: players.map((p) => ({
+        key: `lock:${battleId}:${p.userId}`,
+        type: StakeLedgerType.LOCK,
+        amount: p.stake,
+        battleId,
+        userId: p.userId,
+      })),
+      skipDuplicates: true,
+    });
+  }
+
+  /**
+   * Releases every locked stake back to its player.
+   * Called when the battle is cancelled, or finishes without a winner.
+   */
+  async releaseStakes(
+    battleId: string,
+    tx: Prisma.TransactionClient = this.prisma,
+  ) {
+    const locks = await tx.stakeLedgerEntry.findMany({
+      where: { battleId, type: StakeLedgerType.LOCK },
+    });
+
+    await tx.stakeLedgerEntry.createMany({
+      data: locks.map((l) => ({
+        key: `release:${battleId}:${l.userId}`,
+        type: StakeLedgerType.RELEASE,
+        amount: l.amount,
+        battleId,
+        userId: l.userId,
+      })),
+      skipDuplicates: true,
+    });
+
+    this.logger.log(`Released ${locks.length} stakes of battle ${battleId}`);
+  }
+
+  /**
+   * Pays the pot out to the winners, minus the configured rake.
+   * The pot is split evenly between winners; rounding dust goes to the rake so
+   * payouts + rake always equal the locked total.
+   */
+  async payout(
+    battleId: string,
+    winnerUserIds: string[],
+    battleResultId: string,
+    tx: Prisma.TransactionClient = this.prisma,
+  ) {
+    if (winnerUserIds.length === 0) {
+      throw new Error(`Battle ${battleId} has no winner to pay out`);
+    }
+
+    const locked = await tx.stakeLedgerEntry.aggregate({
+      where: { battleId, type: StakeLedgerType.LOCK },
+      _sum: { amount: true },
+    });
+
+    const pot = locked._sum.amount ?? new Prisma.Decimal(0);
+    const rakeBps = this.config.get<number>('battle.rakeBps', 0);
+
+    const share = pot
+      .times(BPS - rakeBps)
+      .div(BPS)
+      .div(winnerUserIds.length)
+      .toDecimalPlaces(USD_DECIMALS, Prisma.Decimal.ROUND_DOWN);
+    const rake = pot.minus(share.times(winnerUserIds.length));
+
+    await tx.stakeLedgerEntry.createMany({
+      data: [
+        ...winnerUserIds.map((userId) => ({
+          key: `payout:${battleId}:${userId}`,
+          type: StakeLedgerType.PAYOUT,
+          amount: share,
+          battleId,
+          userId,
+          battleResultId,
+        })),
+        {
+          key: `rake:${battleId}`,
+          type: StakeLedgerType.RAKE,
+          amount: rake,
+          battleId,
+          battleResultId,
+        },
+      ],
+      skipDuplicates: true,
+    });
+
+    this.logger.log(
+      `Paid out battle ${battleId}: pot ${pot}, ${share} to each of ${winnerUserIds.join(', ')}, rake ${rake}`,
+    );
+
+    return { pot, share, rake };
+  }
+
+  /**
+   * Stakes whose user's available balance is below them.
+   */
+  private async uncoveredStakes(
+    userIds: string[],
+    stake: Prisma.Decimal.Value,
+  ) {
+    const balances = await this.fetchBalances(userIds);
+    const amount = new Prisma.Decimal(stake);
+
+    return this.findUncovered(
+      userIds.map((userId) => ({ userId, stake: amount })),
+      balances,
+      this.prisma,
+    );
+  }
+
+  private async findUncovered(
+    stakes: { userId: string; stake: Prisma.Decimal }[],
+    balances: Map<string, Prisma.Decimal>,
+    tx: Prisma.TransactionClient,
+    excludeBattleId?: string,
+  ) {
+    const positions = await this.netPositions(
+      stakes.map((s) => s.userId),
+      tx,
+      excludeBattleId,
+    );
+
+    return stakes.flatMap(({ userId, stake }) => {
+      const available = (balances.get(userId) ?? ZERO).minus(
+        positions.get(userId) ?? ZERO,
+      );
+      return stake.greaterThan(available) ? [{ userId, stake, available }] : [];
+    });
+  }
+
+  private assertStakesCovered(
+    uncovered: {
+      userId: string;
+      stake: Prisma.Decimal;
+      available: Prisma.Decimal;
+    }[],
+    battleId?: string,
+  ) {
+    if (uncovered.length === 0) return;
+
+    const details = uncovered
+      .map(
+        (u) =>
+          `user ${u.userId} cannot cover a stake of ${u.stake} USD (available ${u.available} USD)`,
+      )
+      .join(', ');
+    throw new BadRequestException(
+      battleId
+        ? `Battle ${battleId}: ${details}`
+        : `Stake rejected: ${details}`,
+    );
+  }
+
+  /**
+   * Net escrow position of each user, from their ledger entries in every
+   * battle but `excludeBattleId`: stakes locked minus stakes released and
+   * payouts won. Lost stakes stay counted, winnings bring it below zero.
+   */
+  private async netPositions(
+    userIds: string[],
+    tx: Prisma.TransactionClient,
+    excludeBattleId?: string,
+  ): Promise<Map<string, Prisma.Decimal>> {
+    const sums = await tx.stakeLedgerEntry.groupBy({
+      by: ['userId', 'type'],
+      where: {
+        userId: { in: userIds },
+        ...(excludeBattleId && { battleId: { not: excludeBattleId } }),
+      },
+      _sum: { amount: true },
+    });
+
+    const positions = new Map<string, Prisma.Decimal>();
+    for (const { userId, type, _sum } of sums) {
+      // RAKE entries belong to no user
+      if (!userId) continue;
+
+      const amount = _sum.amount ?? ZERO;
+      positions.set(
+        userId,
+        (positions.get(userId) ?? ZERO).plus(
+          type === StakeLedgerType.LOCK ? amount : amount.negated(),
+        ),
+      );
+    }
+    return positions;
+  }
+
+  /**
+   * Ledger entries of a battle, oldest first.
+   */
+  async getLedger(battleId: string) {
+    return this.prisma.stakeLedgerEntry.findMany({
+      where: { battleId },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+}
@@ -1,14 +1,25 @@
 import { Injectable } from '@nestjs/common';
+import { EventEmitter2 } from '@nestjs/event-emitter';
 import { BattlePlayerService } from './battle-player.service';
 import { BattleService } from './battle.service';
-import { BattleStatus } from '@prisma/client';
+import {
+  Battle,
+  BattlePlayerStatus,
+  BattleStatus,
+  UserStatus,
+} from '@prisma/client';
 import { BattleRealtimeService } from '@/modules/battle/services/battle-realtime.service';
 import { MatchGroup } from '@/modules/battle/types/matchmaking.types';
 import { PrismaService } from '@/database/prisma.service';
-import { CreateBattleResultDto } from '../dto/battle-result.dto';
-import { buildBattleResult } from '../utils/build-battle-result';
+import { BattleMetricsService } from './battle-metrics.service';
+import { BattleTimerService } from './battle-timer.service';
+import { LoggerService } from '@/shared/logger/logger.service';
+import { MatchmakingService } from '../matchmaking/matchmaking.service';
 import { EVENTS } from '../gateway/events.constant';
 import { BattlePlayerShorted } from '../types/battle-player.types';
+import { BattleClosedEvent } from '../types/match-types';
+import { BattleChatService } from './battle-chat.service';
+import { BattleStandingsService } from './battle-standings.service';
 
 @Injectable()
 export class BattleLifecycleService {
@@ -17,13 +28,77 @@ export class BattleLifecycleService {
     private readonly player: BattlePlayerService,
     private readonly battle: BattleService,
     private readonly realtime: BattleRealtimeService,
+    private readonly metrics: BattleMetricsService,
+    private readonly timer: BattleTimerService,
+    private readonly matchmaking: MatchmakingService,
+    private readonly chat: BattleChatService,
+    private readonly standings: BattleStandingsService,
+    private readonly eventEmitter: EventEmitter2,
+    private readonly logger: LoggerService,
   ) {}
 
   // ========== MATCH FOUND ==========
 
+  /**
+   * Creates the battle of a match and sends it to its players.
+   * Only throws when the battle itself could not be created.
+   */
   async handleMatch(match: MatchGroup) {
     const battle = await this.battle.create(match);
 
+    // players must ready up before the deadline, otherwise the battle is cancelled
+    const readyDeadline = await this.timer
+      .scheduleReadyTimeout(battle.id, battle.createdAt)
+      .catch((error) => {
+        this.logger.error(
+          `Failed to schedule ready timeout for battle ${battle.id}`,
+          error instanceof Error ? error.stack : String(error),
+        );
+        return null;
+      });
+
+    // the battle exists from here on: a failed notification must not make the
+    // caller undo the match, players can still load the battle
+    await this.announceBattle(battle, match, readyDeadline).catch((error) => {
+      this.logger.error(
+        `Failed to announce battle ${battle.id}`,
+        error instanceof Error ? error.stack : String(error),
+      );
+    });
+
+    return battle;
+  }
+
+  /**
+   * A queued match whose battle could not be created, e.g. a stake no longer
+   * covered once matched: its players are released and told why.
+   */
+  async handleMatchFailed(match: MatchGroup, error: unknown) {
+    const userIds = match.players.map((p) => p.userId);
+
+    this.logger.error(
+      `Failed to create a battle for match ${match.matchId}`,
+      error instanceof Error ? error.stack : String(error),
+    );
+
+    await this.prisma.user.updateMany({
+      where: { id: { in: userIds }, status: UserStatus.PENDING },
+      data: { status: UserStatus.ACTIVE },
+    });
+
+    for (const userId of userIds) {
+      this.realtime.emitError(userId, EVENTS.BATTLE_QUEUE, error);
+    }
+  }
+
+  /**
+   * Subscribes the players to the battle room and sends them the battle.
+   */
+  private async announceBattle(
+    battle: Battle,
+    match: MatchGroup,
+    readyDeadline: Date | null,
+  ) {
     // get and map players for frontend (could optimize by returning players directly from battle creation instead of querying again)
     const players = (await this.player.getPlayers(battle.id)).map((p) => {
       return {
@@ -39,6 +114,9 @@ export class BattleLifecycleService {
       this.realtime.emitToUser(p.userId, EVENTS.BATTLE_CREATED, {
         battleId: battle.id,
         players: players,
+        allowedAssets: battle.allowedAssets,
+        intendedDurationMs: battle.intendedDurationMs,
+        readyDeadline,
       });
     }
   }
@@ -46,39 +124,151 @@ export class BattleLifecycleService {
   // ========== PLAYER READY ==========
 
   async handlePlayerReady(battleId: string, userId: string) {
-    let started = false;
-
-    await this.prisma.$transaction(async (tx) => {
+    const started = await this.prisma.$transaction(async (tx) => {
       const battle = await tx.battle.findUnique({
         where: { id: battleId },
       });
 
-      if (!battle || battle.status !== BattleStatus.WAITING) return;
+      if (!battle || battle.status !== BattleStatus.WAITING) return null;
 
       const updated = await this.player.markReady(battleId, userId, tx);
 
-      if (!updated) return;
+      if (!updated) return null;
 
       const allReady = await this.player.allPlayersReady(battleId, tx);
-      if (allReady) {
-        // transition WAITING → STARTED
-        await this.battle.battleStart(battleId, tx);
-        started = true; // make sure all players are ready before emitting start event
-      }
+      if (!allReady) return null;
+
+      // transition WAITING → STARTED
+      // make sure all players are ready before emitting start event
+      return this.battle.battleStart(battleId, tx);
     });
 
     if (started) {
+      const { startedAt, intendedDurationMs } = started;
+
+      await this.timer
+        .cancelReadyTimeout(battleId)
+        .catch((error) =>
+          this.logger.warn(
+            `Failed to cancel ready timeout for battle ${battleId}: ${error}`,
+          ),
+        );
+
+      await this.timer
+        .scheduleFinish(battleId, startedAt ?? new Date(), intendedDurationMs)
+        .catch((error) =>
+          this.logger.error(
+            `Failed to schedule finish timer for battle ${battleId}`,
+            error instanceof Error ? error.stack : String(error),
+          ),
+        );
+
       this.realtime.emitToBattle(battleId, EVENTS.BATTLE_STARTED, {
         battleId,
+        startedAt,
+        intendedDurationMs,
       });
+
+      await this.standings
+        .recordBaseline(battleId)
+        .catch((error) =>
+          this.logger.warn(
+            `Failed to record the PnL baseline of battle ${battleId}: ${error}`,
+          ),
+        );
+
+      await this.announce(battleId, 'Battle started');
+    }
+  }
+
+  // ========== READY TIMEOUT ==========
+
+  /**
+   * Cancels a battle whose players did not all ready up before the deadline.
+   * Players who did ready are put back at the front of the matchmaking queue,
+   * absent players receive a no-show strike.
+   */
+  async handleReadyTimeout(battleId: string) {
+    const timedOut = await this.prisma.$transaction(async (tx) => {
+      const battle = await tx.battle.findUnique({
+        where: { id: battleId },
+        include: { players: true },
+      });
+
+      if (!battle || battle.status !== BattleStatus.WAITING) return null;
+
+      const cancelled = await this.battle.battleCancel(battleId, tx);
+      if (!cancelled) return null;
+
+      const absent = battle.players.filter(
+        (p) => p.status === BattlePlayerStatus.JOINED,
+      );
+      await this.matchmaking.recordNoShows(
+        battleId,
+        absent.map((p) => p.userId),
+        tx,
+      );
+
+      return { battle, absent };
+    });
+
+    if (!timedOut) return;
+
+    this.realtime.emitToBattle(battleId, EVENTS.BATTLE_CANCELLED, {
+      battleId,
+      reason: 'READY_TIMEOUT',
+      noShows: timedOut.absent.map((p) => p.userId),
+    });
+
+    await this.announce(
+      battleId,
+      'Battle cancelled: not every player was ready in time',
+    );
+
+    this.closed(battleId, BattleStatus.CANCELLED);
+
+    const { players, allowedAssets, intendedDurationMs, teamSize, metadata } =
+      timedOut.battle;
+
+    for (const p of players) {
+      await this.realtime.removeUserFromBattle(battleId, p.userId);
+    }
+
+    // players of a private challenge or a tournament never asked for the public queue
+    const { challengeId, tournamentId } =
+      (metadata as { challengeId?: string; tournamentId?: string } | null) ??
+      {};
+    if (challengeId || tournamentId) return;
+
+    // requeued with the settings they were matched on (parties are split up)
+    for (const p of players) {
+      if (p.status !== BattlePlayerStatus.READY) continue;
+
+      await this.matchmaking
+        .addToQueue(
+          {
+            userId: p.userId,
+            stake: p.stake.toNumber(),
+            assets: allowedAssets,
+            durationMs: intendedDurationMs,
+            teamSize: teamSize ?? undefined,
+          },
+          true,
+        )
+        .catch((error) => {
+          this.logger.error(
+            `Failed to requeue user ${p.userId} after battle ${battleId} timed out`,
+            error instanceof Error ? error.stack : String(error),
+          );
+          this.realtime.emitError(p.userId, EVENTS.BATTLE_QUEUE, error);
+        });
     }
   }
 
   // ================= FINISH =================
 
   async handlePlayerFinished(battleId: string, userId: string) {
-    let dto: CreateBattleResultDto | null = null;
-    let result: any = null;
+    let allFinished = false;
 
     await this.prisma.$transaction(async (tx) => {
       const battle = await tx.battle.findUnique({
@@ -91,61 +281,264 @@ export class BattleLifecycleService {
 
       if (!marked) return;
 
-      const allFinished = await this.player.areAllFinished(battleId, tx);
+      allFinished = await this.player.areAllFinished(battleId, tx);
+    });
 
-      if (!allFinished) return;
+    if (allFinished) {
+      await this.finishBattle(battleId);
+    }
+  }
+
+  /**
+   * Evaluates the battle metrics and transitions STARTED → FINISHED.
+   * Metrics are fetched from Hyperliquid before opening the transaction.
+   * Triggered when every player finished, or by the battle timer.
+   */
+  async finishBattle(battleId: string) {
+    const battle = await this.prisma.battle.findUnique({
+      where: { id: battleId },
+    });
+
+    if (!battle || battle.status !== BattleStatus.STARTED) return;
+
+    const endedAt = new Date();
+    const dto = await this.metrics.evaluate(battleId, endedAt);
+
+    const result = await this.prisma.$transaction((tx) =>
+      this.battle.battleFinish(battleId, dto, tx, endedAt),
+    );
 
-      dto = buildBattleResult(); // TODO: build real result based on player performance and metrics
+    if (!result) return;
 
-      // transition STARTED → FINISHED
-      result = await this.battle.battleFinish(battleId, dto, tx);
+    await this.timer
+      .cancelFinish(battleId)
+      .catch((error) =>
+        this.logger.warn(
+          `Failed to cancel finish timer for battle ${battleId}: ${error}`,
+        ),
+      );
+
+    const players = await this.player.getPlayers(battleId);
+
+    this.realtime.emitToBattle(battleId, EVENTS.BATTLE_FINISHED, {
+      battleId,
     });
 
-    if (result) {
-      const players = await this.player.getPlayers(battleId);
+    await this.announce(battleId, 'Battle finished');
 
-      this.realtime.emitToBattle(battleId, EVENTS.BATTLE_FINISHED, {
-        battleId,
+    this.closed(battleId, BattleStatus.FINISHED);
+
+    // clear battle room on finish to prevent stale rooms and free up resources
+    for (const p of players) {
+      await this.realtime.removeUserFromBattle(battleId, p.userId);
+    }
+  }
+
+  // ========== DISCONNECT / RECONNECT ==========
+
+  /**
+   * Starts the reconnect grace period of a player whose last socket dropped.
+   * Players of a STARTED battle are marked DISCONNECTED meanwhile.
+   */
+  async handlePlayerDisconnected(battleId: string, userId: string) {
+    // the user may still be connected from another tab / device
+    if (await this.realtime.isUserConnected(userId)) return;
+
+    const battle = await this.prisma.battle.findUnique({
+      where: { id: battleId },
+    });
+
+    if (!battle) return;
+
+    if (battle.status === BattleStatus.STARTED) {
+      const marked = await this.player.markDisconnected(battleId, userId);
+      if (!marked) return; // already finished or left
+    } else if (battle.status !== BattleStatus.WAITING) {
+      return;
+    }
+
+    const graceDeadline = await this.timer
+      .scheduleDisconnectGrace(battleId, userId)
+      .catch((error) => {
+        this.logger.error(
+          `Failed to schedule disconnect grace for user ${userId} in battle ${battleId}`,
+          error instanceof Error ? error.stack : String(error),
+        );
+        return null;
       });
 
-      // clear battle room on finish to prevent stale rooms and free up resources
-      for (const p of players) {
-        await this.realtime.removeUserFromBattle(battleId, p.userId);
-      }
+    this.realtime.emitToBattle(battleId, EVENTS.PLAYER_DISCONNECTED, {
+      battleId,
+      userId,
+      graceDeadline,
+    });
+
+    await this.announce(battleId, 'disconnected', userId);
+  }
+
+  /**
+   * Puts a (re)connecting user back into their ongoing battle room and
+   * restores them to PLAYING if they were disconnected.
+   */
+  async handlePlayerConnected(userId: string) {
+    const player = await this.player.getActivePlayer(userId);
+    if (!player) return;
+
+    const { battleId } = player;
+
+    await this.realtime.addUserToBattle(battleId, userId);
+
+    await this.timer
+      .cancelDisconnectGrace(battleId, userId)
+      .catch((error) =>
+        this.logger.warn(
+          `Failed to cancel disconnect grace for user ${userId} in battle ${battleId}: ${error}`,
+        ),
+      );
+
+    await this.player.markReconnected(battleId, userId);
+
+    this.realtime.emitToBattle(battleId, EVENTS.PLAYER_RECONNECTED, {
+      battleId,
+      userId,
+      status: player.battle.status,
+    });
+
+    await this.announce(battleId, 'reconnected', userId);
+  }
+
+  /**
+   * Treats a player who did not reconnect in time as having left the battle.
+   */
+  async handleDisconnectGraceExpired(battleId: string, userId: string) {
+    if (await this.realtime.isUserConnected(userId)) return;
+
+    const player = await this.prisma.battlePlayer.findFirst({
+      where: { battleId, userId },
+      include: { battle: true },
+    });
+
+    if (!player) return;
+
+    const { status } = player.battle;
+    const expired =
+      (status === BattleStatus.STARTED &&
+        player.status === BattlePlayerStatus.DISCONNECTED) ||
+      (status === BattleStatus.WAITING &&
+        player.status !== BattlePlayerStatus.LEFT);
+
+    if (expired) {
+      await this.handlePlayerLeft(battleId, userId);
     }
   }
 
   // ================= LEAVE =================
 
+  /**
+   * A player leaving a WAITING battle cancels it.
+   * Leaving a STARTED battle is a forfeit: the leaver is ranked last and the
+   * battle goes on without them. A last remaining player wins by walkover.
+   */
   async handlePlayerLeft(battleId: string, userId: string) {
-    let cancelled = false;
-
-    await this.prisma.$transaction(async (tx) => {
+    const status = await this.prisma.$transaction(async (tx) => {
       const battle = await tx.battle.findUnique({
         where: { id: battleId },
       });
 
-      if (!battle) return;
+      if (
+        !battle ||
+        (battle.status !== BattleStatus.WAITING &&
+          battle.status !== BattleStatus.STARTED)
+      ) {
+        return null;
+      }
 
       await this.player.leaveBattle(battleId, userId, tx);
 
       // Only cancel if still WAITING
       if (battle.status === BattleStatus.WAITING) {
         await this.battle.battleCancel(battleId, tx);
-        cancelled = true;
       }
+
+      return battle.status;
     });
 
-    if (cancelled) {
+    if (status === BattleStatus.STARTED) {
+      await this.realtime.removeUserFromBattle(battleId, userId);
+
+      this.realtime.emitToBattle(battleId, EVENTS.PLAYER_LEFT, {
+        battleId,
+        userId,
+      });
+
+      await this.announce(battleId, 'left the battle (forfeit)', userId);
+
+      const remaining = (await this.player.getPlayers(battleId)).filter(
+        (p) => p.status !== BattlePlayerStatus.LEFT,
+      );
+
+      // walkover, or everyone else is already done
+      if (
+        remaining.length <= 1 ||
+        (await this.player.areAllFinished(battleId))
+      ) {
+        await this.finishBattle(battleId);
+      }
+    }
+
+    if (status === BattleStatus.WAITING) {
+      await this.timer
+        .cancelReadyTimeout(battleId)
+        .catch((error) =>
+          this.logger.warn(
+            `Failed to cancel ready timeout for battle ${battleId}: ${error}`,
+          ),
+        );
+
       const players = await this.player.getPlayers(battleId);
 
       this.realtime.emitToBattle(battleId, EVENTS.BATTLE_CANCELLED, {
         battleId,
       });
 
+      await this.announce(battleId, 'Battle cancelled: a player left');
+
+      this.closed(battleId, BattleStatus.CANCELLED);
+
       for (const p of players) {
         await this.realtime.removeUserFromBattle(battleId, p.userId);
       }
     }
   }
+
+  /**
+   * Lets other modules (e.g. tournaments) react to a battle that will not change anymore.
+   */
+  private closed(battleId: string, status: BattleStatus) {
+    this.eventEmitter.emit(EVENTS.BATTLE_CLOSED, {
+      battleId,
+      status,
+    } satisfies BattleClosedEvent);
+  }
+
+  // ========== CHAT ==========
+
+  /**
+   * Posts a SYSTEM chat message (optionally about a player) to the battle room.
+   * Chat is best effort: a failure never blocks the lifecycle.
+   */
+  private async announce(battleId: string, content: string, userId?: string) {
+    try {
+      const message = await this.chat.postSystemMessage(
+        battleId,
+        content,
+        userId,
+      );
+      this.realtime.emitToBattle(battleId, EVENTS.CHAT_MESSAGE, message);
+    } catch (error) {
+      this.logger.warn(
+        `Failed to post chat message to battle ${battleId}: ${error}`,
+      );
+    }
+  }
 }
@@ -0,0 +1,157 @@
+import { Injectable } from '@nestjs/common';
+import { BattlePlayerStatus } from '@prisma/client';
+import { ConfigService } from '@nestjs/config';
+import { PrismaService } from '@/database/prisma.service';
+import { LoggerService } from '@/shared/logger/logger.service';
+import { HypercoreService } from '@/modules/hypercore/services/hypercore.service';
+import { CreateBattleResultDto } from '../dto/battle-result.dto';
+import { buildBattleResult } from '../utils/build-battle-result';
+import { openPositions } from '../utils/battle-metrics.util';
+import { resolveTradingAddress } from '../utils/trading-address.util';
+import { BattleWindow, PlayerTradingData } from '../types/battle-metrics.types';
+
+// METRICS ENGINE: turns players' Hyperliquid activity into a battle result
+
+@Injectable()
+export class BattleMetricsService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly hypercore: HypercoreService,
+    private readonly config: ConfigService,
+    private readonly logger: LoggerService,
+  ) {}
+
+  /**
+   * Evaluates a started battle over [startedAt, endedAt] and builds its result.
+   * Network heavy: call it outside of any interactive transaction.
+   */
+  async evaluate(
+    battleId: string,
+    endedAt: Date,
+  ): Promise<CreateBattleResultDto> {
+    const battle = await this.prisma.battle.findUnique({
+      where: { id: battleId },
+      include: {
+        players: {
+          include: { user: { include: { hypercoreWallet: true } } },
+          orderBy: { slot: 'asc' },
+        },
+        battlePredictionQuestions: {
+          orderBy: { createdAt: 'asc' },
+          take: 1,
+        },
+      },
+    });
+
+    if (!battle || !battle.startedAt) {
+      throw new Error(`Battle ${battleId} has not started`);
+    }
+
+    const question = battle.battlePredictionQuestions[0];
+    if (!question) {
+      throw new Error(`Battle ${battleId} has no prediction question`);
+    }
+
+    const window: BattleWindow = {
+      startTime: battle.startedAt.getTime(),
+      endTime: endedAt.getTime(),
+    };
+
+    const players = await Promise.all(
+      battle.players.map(async (p) => ({
+        ...(await this.fetchTradingData(
+          p.slot,
+          resolveTradingAddress(p.user),
+          p.stake.toString(),
+          p.status === BattlePlayerStatus.LEFT,
+          window,
+        )),
+        ...(p.team !== null && { team: p.team }),
+      })),
+    );
+
+    const result = buildBattleResult({
+      battleId,
+      questionId: question.id,
+      window,
+      players,
+      codeCommitHash: this.config.get<string>('app.commitHash', ''),
+    });
+
+    this.logger.log(
+      `Evaluated battle ${battleId}: ${result.description} (dataHash ${result.dataHash})`,
+    );
+
+    return result;
+  }
+
+  private async fetchTradingData(
+    slot: number,
+    address: `0x${string}` | null,
+    stake: string,
+    forfeited: boolean,
+    window: BattleWindow,
+  ): Promise<PlayerTradingData> {
+    // player without a trading wallet could not trade: empty activity
+    if (!address) {
+      return {
+        slot,
+        address: '',
+        stake,
+        forfeited,
+        fills: [],
+        funding: [],
+        marks: {},
+      };
+    }
+
+    const [fills, funding] = await Promise.all([
+      this.hypercore.getUserFillsByTime(
+        address,
+        window.startTime,
+        window.endTime,
+      ),
+      this.hypercore.getUserFunding(address, window.startTime, window.endTime),
+    ]);
+
+    const tradeFills = fills.map((f) => ({
+      coin: f.coin,
+      px: f.px,
+      sz: f.sz,
+      side: f.side,
+      time: f.time,
+      closedPnl: f.closedPnl,
+      fee: f.fee,
+      tid: f.tid,
+      startPosition: f.startPosition,
+    }));
+
+    // positions still open at the end are marked to market at that time
+    const marks = Object.fromEntries(
+      await Promise.all(
+        [...openPositions(tradeFills).keys()].map(
+          async (coin) =>
+            [
+              coin,
+              await this.hypercore.getPriceAt(coin, window.endTime),
+            ] as const,
+        ),
+      ),
+    );
+
+    return {
+      slot,
+      address,
+      stake,
+      forfeited,
+      fills: tradeFills,
+      funding: funding.map((f) => ({
+        time: f.time,
+        hash: f.hash,
+        coin: f.delta.coin,
+        usdc: f.delta.usdc,
+      })),
+      marks,
+    };
+  }
+}
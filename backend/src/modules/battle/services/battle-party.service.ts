@@ -0,0 +1,118 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { LoggerService } from '@/shared/logger/logger.service';
+import { MatchmakingService } from '../matchmaking/matchmaking.service';
+import { BattleParty } from '../types/battle-party.types';
+import { MAX_PARTY_SIZE } from '../constants/battle.constants';
+
+/**
+ * Parties of friends queuing together for team battles. The leader queues the
+ * party, every member then plays on the same team.
+ */
+@Injectable()
+export class BattlePartyService {
+  private parties = new Map<string, BattleParty>();
+  private partyOf = new Map<string, string>(); // userId -> partyId
+
+  constructor(
+    private readonly matchmaking: MatchmakingService,
+    private readonly logger: LoggerService,
+  ) {}
+
+  create(userId: string): BattleParty {
+    this.assertNoParty(userId);
+
+    const party: BattleParty = {
+      id: randomUUID(),
+      leaderId: userId,
+      members: [userId],
+    };
+
+    this.parties.set(party.id, party);
+    this.partyOf.set(userId, party.id);
+
+    this.logger.log(`User ${userId} created party ${party.id}`);
+    return party;
+  }
+
+  join(partyId: string, userId: string): BattleParty {
+    this.assertNoParty(userId);
+
+    const party = this.parties.get(partyId);
+    if (!party) {
+      throw new NotFoundException(`Party ${partyId} not found`);
+    }
+
+    this.assertNotQueued(party);
+
+    if (party.members.length >= MAX_PARTY_SIZE) {
+      throw new ConflictException('Party is full');
+    }
+
+    party.members.push(userId);
+    this.partyOf.set(userId, partyId);
+
+    return party;
+  }
+
+  /**
+   * Removes a member; the party is disbanded when its leader leaves.
+   */
+  leave(userId: string): { party: BattleParty; disbanded: boolean } {
+    const party = this.getByMember(userId);
+    if (!party) {
+      throw new NotFoundException('Not in a party');
+    }
+
+    this.assertNotQueued(party);
+
+    if (party.leaderId === userId) {
+      party.members.forEach((id) => this.partyOf.delete(id));
+      this.parties.delete(party.id);
+      return { party, disbanded: true };
+    }
+
+    party.members = party.members.filter((id) => id !== userId);
+    this.partyOf.delete(userId);
+    return { party, disbanded: false };
+  }
+
+  getByMember(userId: string): BattleParty | undefined {
+    const partyId = this.partyOf.get(userId);
+    return partyId ? this.parties.get(partyId) : undefined;
+  }
+
+  /**
+   * Only the leader queues a party, for a team battle it fits in.
+   */
+  assertCanQueue(party: BattleParty, userId: string, teamSize?: number) {
+    if (party.leaderId !== userId) {
+      throw new ForbiddenException('Only the party leader can queue');
+    }
+
+    if (!teamSize || party.members.length > teamSize) {
+      throw new BadRequestException(
+        `A party of ${party.members.length} needs a team battle of at least ${party.members.length} players per team`,
+      );
+    }
+  }
+
+  private assertNoParty(userId: string) {
+    if (this.partyOf.has(userId)) {
+      throw new ConflictException('Already in a party');
+    }
+  }
+
+  // members must not change while the party waits for a match
+  private assertNotQueued(party: BattleParty) {
+    if (this.matchmaking.isPartyQueued(party.id)) {
+      throw new ConflictException('Leave the queue first');
+    }
+  }
+}
@@ -1,7 +1,7 @@
 import { PrismaService } from '@/database/prisma.service';
 import { LoggerService } from '@/shared/logger/logger.service';
 import { Injectable } from '@nestjs/common';
-import { BattlePlayerStatus, Prisma } from '@prisma/client';
+import { BattlePlayerStatus, BattleStatus, Prisma } from '@prisma/client';
 
 @Injectable()
 export class BattlePlayerService {
@@ -24,6 +24,27 @@ export class BattlePlayerService {
     });
   }
 
+  /**
+   * Gets the seat of a user in their ongoing (WAITING or STARTED) battle, if any.
+   * This is used to put a reconnecting user back into their battle.
+   */
+  async getActivePlayer(
+    userId: string,
+    tx: Prisma.TransactionClient = this.prisma,
+  ) {
+    return tx.battlePlayer.findFirst({
+      where: {
+        userId,
+        status: { not: BattlePlayerStatus.LEFT },
+        battle: {
+          status: { in: [BattleStatus.WAITING, BattleStatus.STARTED] },
+        },
+      },
+      include: { battle: true },
+      orderBy: { joinedAt: 'desc' },
+    });
+  }
+
   /**
    * Checks if all players in the battle are ready
    * This is used to determine if the battle can start.
@@ -40,13 +61,21 @@ export class BattlePlayerService {
   /**
    * Checks if all players in the battle are finished
    * This is used to determine if the battle can be marked as finished.
+   * Players who left (forfeited) count as done.
    */
-  async areAllFinished(battleId: string, tx: Prisma.TransactionClient) {
+  async areAllFinished(
+    battleId: string,
+    tx: Prisma.TransactionClient = this.prisma,
+  ) {
     const players = await this.getPlayers(battleId, tx);
 
     return (
       players.length > 0 &&
-      players.every((p) => p.status === BattlePlayerStatus.FINISHED)
+      players.every(
+        (p) =>
+          p.status === BattlePlayerStatus.FINISHED ||
+          p.status === BattlePlayerStatus.LEFT,
+      )
     );
   }
 
@@ -100,6 +129,26 @@ export class BattlePlayerService {
     return result.count > 0;
   }
 
+  /**
+   * Marks every player still playing (or disconnected) as finished
+   * This is used when the battle ends before all players finished by themselves.
+   */
+  async markAllFinished(
+    battleId: string,
+    finishedAt: Date = new Date(),
+    tx: Prisma.TransactionClient = this.prisma,
+  ) {
+    await tx.battlePlayer.updateMany({
+      where: {
+        battleId,
+        status: {
+          in: [BattlePlayerStatus.PLAYING, BattlePlayerStatus.DISCONNECTED],
+        },
+      },
+      data: { status: BattlePlayerStatus.FINISHED, finishedAt },
+    });
+  }
+
   /**
    * Marks a player as disconnected in the battle
    * This is used when a player loses connection during the battle.
@@ -110,7 +159,7 @@ export class BattlePlayerService {
     tx: Prisma.TransactionClient = this.prisma,
   ) {
     const result = await tx.battlePlayer.updateMany({
-      where: { battleId, userId },
+      where: { battleId, userId, status: BattlePlayerStatus.PLAYING },
       data: { status: BattlePlayerStatus.DISCONNECTED },
     });
 
@@ -119,6 +168,23 @@ export class BattlePlayerService {
     return result.count > 0;
   }
 
+  /**
+   * Marks a disconnected player as playing again
+   * This is used when a player reconnects within the grace period.
+   */
+  async markReconnected(
+    battleId: string,
+    userId: string,
+    tx: Prisma.TransactionClient = this.prisma,
+  ) {
+    const result = await tx.battlePlayer.updateMany({
+      where: { battleId, userId, status: BattlePlayerStatus.DISCONNECTED },
+      data: { status: BattlePlayerStatus.PLAYING },
+    });
+
+    return result.count > 0;
+  }
+
   /**
    * Removes a player from the battle
    * This is used when a player leaves before the battle starts or after it ends.
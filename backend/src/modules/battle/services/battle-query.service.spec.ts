@@ -0,0 +1,180 @@
+import { BadRequestException } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import { BattleStatus, Prisma } from '@prisma/client';
+import { PrismaService } from '@/database/prisma.service';
+import { PredictionMarketService } from '@modules/prediction-market/services/prediction-market.service';
+import { BattleSort } from '../dto/battle-browser.dto';
+import { BattleQueryService } from './battle-query.service';
+
+// keeps the Hyperliquid SDK (ESM only dependencies) out of the test
+jest.mock(
+  '@modules/prediction-market/services/prediction-market.service',
+  () => ({ PredictionMarketService: class PredictionMarketService {} }),
+);
+
+const cursorOf = (cursor: object) =>
+  Buffer.from(JSON.stringify(cursor)).toString('base64url');
+
+const battle = {
+  id: 'battle-1',
+  status: BattleStatus.STARTED,
+  createdAt: new Date('2026-10-18T10:00:00Z'),
+  startedAt: new Date('2026-10-18T10:01:00Z'),
+  endedAt: null,
+  intendedDurationMs: 3600000,
+  allowedAssets: [],
+  teamSize: null,
+  players: [1, 2].map((slot) => ({
+    userId: `user-${slot}`,
+    user: { name: `user-${slot}`, avatar: null },
+    slot,
+    team: null,
+    status: 'ACTIVE',
+    stake: new Prisma.Decimal(10),
+    eloSnapshot: 1000,
+  })),
+  results: [],
+};
+
+describe('BattleQueryService', () => {
+  let battleQuery: BattleQueryService;
+
+  const prisma = {
+    $queryRaw: jest.fn(),
+    battle: { findMany: jest.fn(), findUnique: jest.fn() },
+    battleStandingSample: { findFirst: jest.fn(), findMany: jest.fn() },
+  };
+  const predictionMarket = { getMarketsByBattle: jest.fn() };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+
+    prisma.$queryRaw.mockResolvedValue([]);
+    prisma.battle.findMany.mockResolvedValue([]);
+    prisma.battle.findUnique.mockResolvedValue(battle);
+    predictionMarket.getMarketsByBattle.mockResolvedValue({ markets: [] });
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        BattleQueryService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: PredictionMarketService, useValue: predictionMarket },
+      ],
+    }).compile();
+
+    battleQuery = moduleRef.get(BattleQueryService);
+  });
+
+  describe('listBattles', () => {
+    it('sorts on the volume stored on the battle', async () => {
+      await battleQuery.listBattles({ sort: BattleSort.VOLUME, limit: 20 });
+
+      const [sql] = prisma.$queryRaw.mock.calls[0];
+      expect(sql.join('?')).toContain('b."predictionVolume"');
+      expect(sql.join('?')).not.toContain('GROUP BY');
+    });
+
+    it('accepts the cursor it issued', async () => {
+      prisma.$queryRaw.mockResolvedValue([
+        {
+          id: 'battle-2',
+          predictionVolume: new Prisma.Decimal('5.5'),
+          startTime: battle.createdAt,
+        },
+        {
+          id: 'battle-1',
+          predictionVolume: new Prisma.Decimal(1),
+          startTime: battle.createdAt,
+        },
+      ]);
+      const { nextCursor } = await battleQuery.listBattles({
+        sort: BattleSort.VOLUME,
+        limit: 1,
+      });
+
+      await expect(
+        battleQuery.listBattles({
+          sort: BattleSort.VOLUME,
+          limit: 1,
+          cursor: nextCursor!,
+        }),
+      ).resolves.toBeDefined();
+    });
+
+    it.each([
+      ['garbage', BattleSort.VOLUME, 'not-a-cursor'],
+      [
+        'another sort',
+        BattleSort.VOLUME,
+        cursorOf({ sort: BattleSort.START_TIME, value: '1', id: 'b' }),
+      ],
+      [
+        'a non numeric volume',
+        BattleSort.VOLUME,
+        cursorOf({ sort: BattleSort.VOLUME, value: 'abc', id: 'b' }),
+      ],
+      [
+        'an invalid start time',
+        BattleSort.START_TIME,
+        cursorOf({ sort: BattleSort.START_TIME, value: '2026-13-45', id: 'b' }),
+      ],
+    ])('rejects a cursor with %s', async (_, sort, cursor) => {
+      await expect(
+        battleQuery.listBattles({ sort, limit: 20, cursor }),
+      ).rejects.toThrow(new BadRequestException('Invalid cursor'));
+      expect(prisma.$queryRaw).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getBattleDetail', () => {
+    it('shows the latest standings sample of a started battle', async () => {
+      const sampledAt = new Date('2026-10-18T10:05:00Z');
+      prisma.battleStandingSample.findFirst.mockResolvedValue({ sampledAt });
+      prisma.battleStandingSample.findMany.mockResolvedValue([
+        {
+          slot: 2,
+          userId: 'user-2',
+          rank: 1,
+          pnl: new Prisma.Decimal(3),
+          roi: new Prisma.Decimal(30),
+          forfeited: false,
+        },
+        {
+          slot: 1,
+          userId: 'user-1',
+          rank: 2,
+          pnl: new Prisma.Decimal(-1),
+          roi: new Prisma.Decimal(-10),
+          forfeited: false,
+        },
+      ]);
+
+      const detail = await battleQuery.getBattleDetail('battle-1');
+
+      expect(prisma.battleStandingSample.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { battleId: 'battle-1', sampledAt },
+        }),
+      );
+      expect(detail.standingsAt).toEqual(sampledAt);
+      expect(detail.standings).toEqual([
+        expect.objectContaining({ userId: 'user-2', rank: 1, pnl: 3, roi: 30 }),
+        expect.objectContaining({
+          userId: 'user-1',
+          rank: 2,
+          pnl: -1,
+          roi: -10,
+        }),
+      ]);
+    });
+
+    it('has no standings before the first sample', async () => {
+      prisma.battleStandingSample.findFirst.mockResolvedValue(null);
+
+      const detail = await battleQuery.getBattleDetail('battle-1');
+
+      expect(detail.standings).toEqual([]);
+      expect(detail.standingsAt).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,272 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { BattlePlayerStatus, BattleStatus, Prisma } from '@prisma/client';
+import { PrismaService } from '@/database/prisma.service';
+import { PredictionMarketService } from '@modules/prediction-market/services/prediction-market.service';
+import {
+  BattleDetailDto,
+  BattleListResponseDto,
+  BattleSort,
+  BattleStandingDto,
+  BattleSummaryDto,
+  BROWSABLE_BATTLE_STATUSES,
+  ListBattlesQueryDto,
+} from '../dto/battle-browser.dto';
+import { buildStandings } from '../utils/standings.util';
+
+// cursor values, checked before they are cast to numeric / timestamp
+const DECIMAL_PATTERN = /^\d+(\.\d+)?$/;
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z$/;
+
+const playerSummaryInclude = {
+  players: {
+    include: { user: { select: { name: true, avatar: true } } },
+    orderBy: { slot: 'asc' },
+  },
+} satisfies Prisma.BattleInclude;
+
+type BattleWithPlayers = Prisma.BattleGetPayload<{
+  include: typeof playerSummaryInclude;
+}>;
+
+interface BattleCursor {
+  sort: BattleSort; // a cursor is only valid for the sort it was issued for
+  value: string; // sort column of the last item
+  id: string;
+}
+
+/**
+ * Read side of battles for the public battle browser and detail page.
+ */
+@Injectable()
+export class BattleQueryService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly predictionMarket: PredictionMarketService,
+  ) {}
+
+  /**
+   * Lists battles sorted by prediction volume or start time (desc), with keyset
+   * pagination on (sort value, id) so pages stay stable while battles are created.
+   */
+  async listBattles(
+    query: ListBattlesQueryDto,
+  ): Promise<BattleListResponseDto> {
+    const { status, sort, limit } = query;
+    const cursor = query.cursor ? this.decodeCursor(query.cursor, sort) : null;
+
+    const statuses = status ? [status] : [...BROWSABLE_BATTLE_STATUSES];
+    const sortColumn =
+      sort === BattleSort.VOLUME
+        ? Prisma.sql`t."predictionVolume"`
+        : Prisma.sql`t."startTime"`;
+    const after = !cursor
+      ? Prisma.sql`TRUE`
+      : sort === BattleSort.VOLUME
+        ? Prisma.sql`(t."predictionVolume", t."id") < (${cursor.value}::numeric, ${cursor.id})`
+        : Prisma.sql`(t."startTime", t."id") < (${cursor.value}::timestamp, ${cursor.id})`;
+
+    // predictionVolume is kept on the battle, so only the page is read
+    const rows = await this.prisma.$queryRaw<
+      { id: string; predictionVolume: Prisma.Decimal; startTime: Date }[]
+    >`
+      SELECT * FROM (
+        SELECT b."id", b."predictionVolume",
+               COALESCE(b."startedAt", b."createdAt") AS "startTime"
+        FROM "Battle" b
+        WHERE b."status"::text IN (${Prisma.join(statuses)})
+      ) t
+      WHERE ${after}
+      ORDER BY ${sortColumn} DESC, t."id" DESC
+      LIMIT ${limit + 1}
+    `;
+
+    const page = rows.slice(0, limit);
+    const last = page[page.length - 1];
+    const nextCursor =
+      rows.length > limit && last
+        ? this.encodeCursor({
+            sort,
+            value:
+              sort === BattleSort.VOLUME
+                ? last.predictionVolume.toString()
+                : last.startTime.toISOString(),
+            id: last.id,
+          })
+        : null;
+
+    const battles = await this.prisma.battle.findMany({
+      where: { id: { in: page.map((r) => r.id) } },
+      include: playerSummaryInclude,
+    });
+
+    // findMany does not keep the sorted order
+    const items = page.flatMap((row) => {
+      const battle = battles.find((b) => b.id === row.id);
+      return battle
+        ? [this.toSummary(battle, row.predictionVolume.toString())]
+        : [];
+    });
+
+    return { items, nextCursor };
+  }
+
+  /**
+   * Battle with its players, standings, prediction markets and results.
+   */
+  async getBattleDetail(battleId: string): Promise<BattleDetailDto> {
+    const battle = await this.prisma.battle.findUnique({
+      where: { id: battleId },
+      include: {
+        ...playerSummaryInclude,
+        results: {
+          include: { dataPoints: true },
+          orderBy: { createdAt: 'desc' },
+        },
+      },
+    });
+
+    if (!battle) {
+      throw new NotFoundException(`Battle ${battleId} not found`);
+    }
+
+    const { markets } =
+      await this.predictionMarket.getMarketsByBattle(battleId);
+    const predictionVolume = markets
+      .reduce((sum, m) => sum.plus(m.totalVolume), new Prisma.Decimal(0))
+      .toString();
+
+    const forfeitedSlots = battle.players
+      .filter((p) => p.status === BattlePlayerStatus.LEFT)
+      .map((p) => p.slot);
+
+    let standings: BattleStandingDto[] = [];
+    let standingsAt: Date | null = null;
+
+    const [result] = battle.results;
+    if (result) {
+      standings = buildStandings(
+        battle.players,
+        result.dataPoints.map((d) => ({
+          metric: d.metric,
+          playerSlot: d.playerSlot,
+          value: d.value.toNumber(),
+        })),
+        forfeitedSlots,
+      );
+      standingsAt = battle.endedAt ?? result.createdAt;
+    } else if (battle.status === BattleStatus.STARTED) {
+      ({ standings, standingsAt } = await this.getLiveStandings(battle));
+    }
+
+    return {
+      ...this.toSummary(battle, predictionVolume),
+      standings,
+      standingsAt,
+      markets,
+      results: battle.results.map((r) => ({
+        id: r.id,
+        createdAt: r.createdAt,
+        description: r.description,
+        dataHash: r.dataHash,
+        outcome: r.outcome,
+        winnerUserId: battle.teamSize
+          ? null
+          : (battle.players.find((p) => p.slot === r.outcome + 1)?.userId ??
+            null),
+        winnerTeam: battle.teamSize ? r.outcome + 1 : null,
+      })),
+    };
+  }
+
+  /**
+   * Latest standings sampled by BattleStandingsService, so reading a battle
+   * never calls Hyperliquid. Volume and win rate are only known once finished.
+   */
+  private async getLiveStandings(battle: BattleWithPlayers) {
+    const latest = await this.prisma.battleStandingSample.findFirst({
+      where: { battleId: battle.id },
+      orderBy: { sampledAt: 'desc' },
+      select: { sampledAt: true },
+    });
+
+    if (!latest) return { standings: [], standingsAt: null };
+
+    const samples = await this.prisma.battleStandingSample.findMany({
+      where: { battleId: battle.id, sampledAt: latest.sampledAt },
+      orderBy: [{ rank: 'asc' }, { slot: 'asc' }],
+    });
+
+    const standings: BattleStandingDto[] = samples.map((s) => ({
+      rank: s.rank,
+      slot: s.slot,
+      team: battle.players.find((p) => p.slot === s.slot)?.team ?? null,
+      userId: s.userId,
+      pnl: s.pnl.toNumber(),
+      roi: s.roi.toNumber(),
+      volume: 0,
+      winRate: 0,
+      forfeited: s.forfeited,
+    }));
+
+    return { standings, standingsAt: latest.sampledAt };
+  }
+
+  private toSummary(
+    battle: BattleWithPlayers,
+    predictionVolume: string,
+  ): BattleSummaryDto {
+    return {
+      id: battle.id,
+      status: battle.status,
+      createdAt: battle.createdAt,
+      startedAt: battle.startedAt,
+      endedAt: battle.endedAt,
+      intendedDurationMs: battle.intendedDurationMs,
+      allowedAssets: battle.allowedAssets,
+      teamSize: battle.teamSize,
+      players: battle.players.map((p) => ({
+        userId: p.userId,
+        name: p.user.name,
+        avatar: p.user.avatar,
+        slot: p.slot,
+        team: p.team,
+        status: p.status,
+        stake: p.stake.toString(),
+        eloSnapshot: p.eloSnapshot,
+      })),
+      predictionVolume,
+    };
+  }
+
+  private encodeCursor(cursor: BattleCursor) {
+    return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+  }
+
+  private decodeCursor(raw: string, sort: BattleSort): BattleCursor {
+    try {
+      const cursor = JSON.parse(Buffer.from(raw, 'base64url').toString());
+      if (
+        cursor?.sort === sort &&
+        typeof cursor.value === 'string' &&
+        typeof cursor.id === 'string' &&
+        this.isSortValue(sort, cursor.value)
+      ) {
+        return cursor;
+      }
+    } catch {
+      // fall through
+    }
+    throw new BadRequestException('Invalid cursor');
+  }
+
+  // the value is cast in SQL, a malformed one would fail the query
+  private isSortValue(sort: BattleSort, value: string) {
+    return sort === BattleSort.VOLUME
+      ? DECIMAL_PATTERN.test(value)
+      : ISO_DATE_PATTERN.test(value) && !Number.isNaN(Date.parse(value));
+  }
+}
@@ -1,5 +1,8 @@
 import { Injectable } from '@nestjs/common';
 import { EventsGateway } from '../gateway/battle.gateway';
+import { EVENTS } from '../gateway/events.constant';
+import { BattleErrorDto } from '../dto/battle-socket.dto';
+import { toBattleError } from '../utils/battle-error.util';
 
 @Injectable()
 export class BattleRealtimeService {
@@ -11,12 +14,41 @@ export class BattleRealtimeService {
       .emit(event, payload);
   }
 
+  /**
+   * Sends a `battle.error` about a client `event` that failed after it was
+   * acknowledged, e.g. a queue entry rejected by matchmaking.
+   */
+  emitError(userId: string, event: string, error: unknown) {
+    this.emitToUser(userId, EVENTS.BATTLE_ERROR, {
+      event,
+      ...toBattleError(error),
+    } satisfies BattleErrorDto);
+  }
+
+  // players and spectators
   emitToBattle(battleId: string, event: string, payload: any) {
     this.gateway.server
-      .to(this.gateway.getBattleRoom(battleId))
+      .to([
+        this.gateway.getBattleRoom(battleId),
+        this.gateway.getSpectatorRoom(battleId),
+      ])
+      .emit(event, payload);
+  }
+
+  // anyone watching the bracket
+  emitToTournament(tournamentId: string, event: string, payload: any) {
+    this.gateway.server
+      .to(this.gateway.getTournamentRoom(tournamentId))
       .emit(event, payload);
   }
 
+  async isUserConnected(userId: string) {
+    const sockets = await this.gateway.server
+      .in(this.gateway.getUserRoom(userId))
+      .fetchSockets();
+    return sockets.length > 0;
+  }
+
   async addUserToBattle(battleId: string, userId: string) {
     const sockets = await this.gateway.server
       .in(this.gateway.getUserRoom(userId))
@@ -0,0 +1,143 @@
+import { ConfigService } from '@nestjs/config';
+import { Test } from '@nestjs/testing';
+import { BattlePlayerStatus, BattleStatus, Prisma } from '@prisma/client';
+import { PrismaService } from '@/database/prisma.service';
+import { LoggerService } from '@/shared/logger/logger.service';
+import { CacheService } from '@shared/cache/cache.service';
+import { HypercoreService } from '@/modules/hypercore/services/hypercore.service';
+import { BattleRealtimeService } from './battle-realtime.service';
+import { BattleStandingsService } from './battle-standings.service';
+
+// keeps the Hyperliquid SDK (ESM only dependencies) out of the test
+jest.mock('@/modules/hypercore/services/hypercore.service', () => ({
+  HypercoreService: class HypercoreService {},
+}));
+jest.mock('./battle-realtime.service', () => ({
+  BattleRealtimeService: class BattleRealtimeService {},
+}));
+
+const liveBattle = () => ({
+  id: 'battle-1',
+  status: BattleStatus.STARTED,
+  players: [1, 2].map((slot) => ({
+    id: `player-${slot}`,
+    userId: `user-${slot}`,
+    slot,
+    team: null,
+    status: BattlePlayerStatus.PLAYING,
+    stake: new Prisma.Decimal(10),
+    startAccountValue: null as Prisma.Decimal | null,
+    user: { evmAddress: `0x${slot}`, hypercoreWallet: null },
+  })),
+});
+
+describe('BattleStandingsService', () => {
+  let standings: BattleStandingsService;
+
+  const prisma = {
+    battle: { findUnique: jest.fn(), findMany: jest.fn() },
+    battlePlayer: { updateMany: jest.fn() },
+    battleStandingSample: { createMany: jest.fn() },
+  };
+  const hypercore = { getAccountSummary: jest.fn() };
+  const realtime = { emitToBattle: jest.fn() };
+  const redis = { set: jest.fn() };
+  const cacheService: { redis: typeof redis | null } = { redis };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    cacheService.redis = redis;
+
+    prisma.battle.findUnique.mockResolvedValue(liveBattle());
+    prisma.battle.findMany.mockResolvedValue([]);
+    hypercore.getAccountSummary.mockResolvedValue({
+      account: { marginSummary: { accountValue: '100' } },
+    });
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        BattleStandingsService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: HypercoreService, useValue: hypercore },
+        { provide: BattleRealtimeService, useValue: realtime },
+        {
+          provide: ConfigService,
+          useValue: { getOrThrow: jest.fn().mockReturnValue(5000) },
+        },
+        { provide: CacheService, useValue: cacheService },
+        {
+          provide: LoggerService,
+          useValue: { log: jest.fn(), warn: jest.fn(), error: jest.fn() },
+        },
+      ],
+    }).compile();
+
+    standings = moduleRef.get(BattleStandingsService);
+  });
+
+  describe('recordBaseline', () => {
+    it('stores the account values at the start of the battle', async () => {
+      await standings.recordBaseline('battle-1');
+
+      for (const id of ['player-1', 'player-2']) {
+        expect(prisma.battlePlayer.updateMany).toHaveBeenCalledWith({
+          where: { id, startAccountValue: null },
+          data: { startAccountValue: new Prisma.Decimal(100) },
+        });
+      }
+    });
+
+    it('takes a first sample at zero PnL', async () => {
+      await standings.recordBaseline('battle-1');
+
+      const [{ data }] = prisma.battleStandingSample.createMany.mock.calls[0];
+      expect(
+        data.map((r: { pnl: Prisma.Decimal }) => r.pnl.toNumber()),
+      ).toEqual([0, 0]);
+    });
+
+    it('ignores a battle that is not started', async () => {
+      prisma.battle.findUnique.mockResolvedValue({
+        ...liveBattle(),
+        status: BattleStatus.FINISHED,
+      });
+
+      await standings.recordBaseline('battle-1');
+
+      expect(hypercore.getAccountSummary).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('tick', () => {
+    it('samples the battles once it holds the interval lock', async () => {
+      redis.set.mockResolvedValue('OK');
+
+      await standings.tick();
+
+      expect(redis.set).toHaveBeenCalledWith(
+        'battle-standings:tick',
+        1,
+        'PX',
+        5000,
+        'NX',
+      );
+      expect(prisma.battle.findMany).toHaveBeenCalled();
+    });
+
+    it('skips the interval sampled by another replica', async () => {
+      redis.set.mockResolvedValue(null);
+
+      await standings.tick();
+
+      expect(prisma.battle.findMany).not.toHaveBeenCalled();
+    });
+
+    it('always samples without Redis', async () => {
+      cacheService.redis = null;
+
+      await standings.tick();
+
+      expect(prisma.battle.findMany).toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,310 @@
+import {
+  Injectable,
+  NotFoundException,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  BattlePlayerStatus,
+  BattleStatus,
+  MetricType,
+  Prisma,
+} from '@prisma/client';
+import { PrismaService } from '@/database/prisma.service';
+import { LoggerService } from '@/shared/logger/logger.service';
+import { CacheService } from '@shared/cache/cache.service';
+import { HypercoreService } from '@/modules/hypercore/services/hypercore.service';
+import { BattleRealtimeService } from './battle-realtime.service';
+import { EVENTS } from '../gateway/events.constant';
+import {
+  LiveStandingDto,
+  StandingsSnapshotDto,
+} from '../dto/battle-standings.dto';
+import { rankSlots } from '../utils/ranking.util';
+import { resolveTradingAddress } from '../utils/trading-address.util';
+
+const livePlayersInclude = {
+  players: {
+    include: { user: { include: { hypercoreWallet: true } } },
+    orderBy: { slot: 'asc' },
+  },
+} satisfies Prisma.BattleInclude;
+
+type LiveBattle = Prisma.BattleGetPayload<{
+  include: typeof livePlayersInclude;
+}>;
+
+// held for one interval by the replica that samples it
+const TICK_LOCK_KEY = 'battle-standings:tick';
+
+/**
+ * Live PnL of STARTED battles.
+ * Samples every player's Hyperliquid account value on a fixed interval,
+ * broadcasts `battle.standings` to the battle room and stores the series.
+ *
+ * PnL is the change of account value since the battle started, so deposits and
+ * withdrawals during a battle show up as PnL; the final result still comes
+ * from fills and funding (BattleMetricsService).
+ * With Redis, one replica samples each interval.
+ */
+@Injectable()
+export class BattleStandingsService implements OnModuleInit, OnModuleDestroy {
+  private ticker: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly hypercore: HypercoreService,
+    private readonly realtime: BattleRealtimeService,
+    private readonly configService: ConfigService,
+    private readonly cacheService: CacheService,
+    private readonly logger: LoggerService,
+  ) {}
+
+  onModuleInit() {
+    this.start();
+  }
+
+  onModuleDestroy() {
+    this.stop();
+  }
+
+  start() {
+    if (this.ticker) return;
+    this.ticker = setInterval(
+      () =>
+        this.tick().catch((err) => {
+          this.logger.error('Battle standings tick error', err);
+        }),
+      this.configService.getOrThrow<number>('battle.standingsIntervalMs'),
+    );
+  }
+
+  stop() {
+    if (this.ticker) {
+      clearInterval(this.ticker);
+      this.ticker = null;
+    }
+  }
+
+  // a slow Hyperliquid round trip must not stack ticks
+  async tick() {
+    if (this.running) return;
+    if (!(await this.acquireTick())) return;
+    this.running = true;
+
+    try {
+      const battles = await this.prisma.battle.findMany({
+        where: { status: BattleStatus.STARTED },
+        include: livePlayersInclude,
+      });
+
+      await Promise.all(
+        battles.map((battle) =>
+          this.sample(battle).catch((error) =>
+            this.logger.warn(
+              `Failed to sample standings of battle ${battle.id}: ${error}`,
+            ),
+          ),
+        ),
+      );
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Stores every player's account value when the battle starts as their PnL
+   * baseline, then takes the first sample.
+   */
+  async recordBaseline(battleId: string) {
+    const battle = await this.prisma.battle.findUnique({
+      where: { id: battleId },
+      include: livePlayersInclude,
+    });
+    if (!battle || battle.status !== BattleStatus.STARTED) return;
+
+    for (const { player, accountValue } of await this.readAccountValues(
+      battle,
+    )) {
+      await this.prisma.battlePlayer.updateMany({
+        where: { id: player.id, startAccountValue: null },
+        data: { startAccountValue: accountValue },
+      });
+      player.startAccountValue ??= accountValue;
+    }
+
+    await this.sample(battle);
+  }
+
+  /**
+   * Samples, stores and broadcasts the current standings of one battle.
+   * Players without a trading wallet (or whose account could not be read) are skipped.
+   */
+  async sample(battle: LiveBattle) {
+    const sampledAt = new Date();
+
+    const sampled = await this.readAccountValues(battle);
+    if (sampled.length === 0) return;
+
+    // a player whose account could not be read at the start gets their first sample
+    for (const { player, accountValue } of sampled) {
+      if (player.startAccountValue) continue;
+
+      await this.prisma.battlePlayer.updateMany({
+        where: { id: player.id, startAccountValue: null },
+        data: { startAccountValue: accountValue },
+      });
+      player.startAccountValue = accountValue;
+    }
+
+    const rows = sampled.map(({ player, accountValue }) => {
+      const pnl = accountValue.minus(player.startAccountValue!);
+      const roi = player.stake.isZero()
+        ? new Prisma.Decimal(0)
+        : pnl.div(player.stake).times(100);
+
+      return { player, accountValue, pnl, roi };
+    });
+
+    const forfeitedSlots = rows
+      .filter((r) => r.player.status === BattlePlayerStatus.LEFT)
+      .map((r) => r.player.slot);
+    const ranking = rankSlots(
+      rows.flatMap((r) => [
+        {
+          metric: MetricType.ROI,
+          playerSlot: r.player.slot,
+          value: r.roi.toNumber(),
+        },
+        {
+          metric: MetricType.PNL,
+          playerSlot: r.player.slot,
+          value: r.pnl.toNumber(),
+        },
+      ]),
+      forfeitedSlots,
+      rows.flatMap((r) =>
+        r.player.team !== null
+          ? [{ slot: r.player.slot, team: r.player.team }]
+          : [],
+      ),
+    );
+    const rankOf = (slot: number) =>
+      ranking.find((r) => r.slot === slot)?.rank ?? rows.length;
+
+    await this.prisma.battleStandingSample.createMany({
+      data: rows.map((r) => ({
+        battleId: battle.id,
+        sampledAt,
+        slot: r.player.slot,
+        userId: r.player.userId,
+        rank: rankOf(r.player.slot),
+        accountValue: r.accountValue,
+        pnl: r.pnl,
+        roi: r.roi.toDecimalPlaces(6),
+        forfeited: forfeitedSlots.includes(r.player.slot),
+      })),
+    });
+
+    const standings: LiveStandingDto[] = rows
+      .map((r) => ({
+        rank: rankOf(r.player.slot),
+        slot: r.player.slot,
+        team: r.player.team,
+        userId: r.player.userId,
+        accountValue: r.accountValue.toNumber(),
+        pnl: r.pnl.toNumber(),
+        roi: r.roi.toNumber(),
+        forfeited: forfeitedSlots.includes(r.player.slot),
+      }))
+      .sort((a, b) => a.rank - b.rank);
+
+    this.realtime.emitToBattle(battle.id, EVENTS.BATTLE_STANDINGS, {
+      battleId: battle.id,
+      sampledAt,
+      standings,
+    } satisfies StandingsSnapshotDto);
+  }
+
+  private async readAccountValues(battle: LiveBattle) {
+    const values = await Promise.all(
+      battle.players.map(async (p) => {
+        const address = resolveTradingAddress(p.user);
+        if (!address) return null;
+
+        const { account } = await this.hypercore
+          .getAccountSummary(p.userId, address)
+          .catch(() => ({ account: null }));
+        if (!account) return null;
+
+        return {
+          player: p,
+          accountValue: new Prisma.Decimal(account.marginSummary.accountValue),
+        };
+      }),
+    );
+
+    return values.filter((v): v is NonNullable<typeof v> => v !== null);
+  }
+
+  // without Redis there is a single instance, it always samples
+  private async acquireTick() {
+    if (!this.cacheService.redis) return true;
+
+    const interval = this.configService.getOrThrow<number>(
+      'battle.standingsIntervalMs',
+    );
+    const acquired = await this.cacheService.redis.set(
+      TICK_LOCK_KEY,
+      1,
+      'PX',
+      interval,
+      'NX',
+    );
+    return acquired === 'OK';
+  }
+
+  /**
+   * Every stored sample of a battle, oldest first, grouped per tick.
+   * Lets late joiners and replays draw the full PnL curve.
+   */
+  async getSeries(battleId: string): Promise<StandingsSnapshotDto[]> {
+    const battle = await this.prisma.battle.findUnique({
+      where: { id: battleId },
+      select: { id: true, players: { select: { slot: true, team: true } } },
+    });
+
+    if (!battle) {
+      throw new NotFoundException(`Battle ${battleId} not found`);
+    }
+
+    const samples = await this.prisma.battleStandingSample.findMany({
+      where: { battleId },
+      orderBy: [{ sampledAt: 'asc' }, { rank: 'asc' }],
+    });
+
+    const series: StandingsSnapshotDto[] = [];
+    for (const s of samples) {
+      let snapshot = series[series.length - 1];
+      if (snapshot?.sampledAt.getTime() !== s.sampledAt.getTime()) {
+        snapshot = { battleId, sampledAt: s.sampledAt, standings: [] };
+        series.push(snapshot);
+      }
+
+      snapshot.standings.push({
+        rank: s.rank,
+        slot: s.slot,
+        team: battle.players.find((p) => p.slot === s.slot)?.team ?? null,
+        userId: s.userId,
+        accountValue: s.accountValue.toNumber(),
+        pnl: s.pnl.toNumber(),
+        roi: s.roi.toNumber(),
+        forfeited: s.forfeited,
+      });
+    }
+
+    return series;
+  }
+}
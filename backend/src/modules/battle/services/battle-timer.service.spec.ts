@@ -0,0 +1,70 @@
+import { getQueueToken } from '@nestjs/bullmq';
+import { Test } from '@nestjs/testing';
+import { PrismaService } from '@/database/prisma.service';
+import { LoggerService } from '@/shared/logger/logger.service';
+import { BATTLE_TIMER_QUEUE } from '../constants/battle-queue.constants';
+import { BattleTimerService } from './battle-timer.service';
+
+const GRACE_MS = 30000;
+
+describe('BattleTimerService', () => {
+  let timer: BattleTimerService;
+
+  const timerQueue = { add: jest.fn(), getJob: jest.fn() };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        BattleTimerService,
+        { provide: getQueueToken(BATTLE_TIMER_QUEUE), useValue: timerQueue },
+        { provide: PrismaService, useValue: {} },
+        { provide: LoggerService, useValue: { log: jest.fn() } },
+        {
+          provide: 'MATCHMAKING_CONFIG',
+          useValue: { disconnectGraceMs: GRACE_MS },
+        },
+      ],
+    }).compile();
+
+    timer = moduleRef.get(BattleTimerService);
+  });
+
+  describe('scheduleDisconnectGrace', () => {
+    it('returns the deadline of the new grace period', async () => {
+      const now = Date.now();
+      timerQueue.getJob.mockResolvedValue({
+        timestamp: now,
+        opts: { delay: GRACE_MS },
+      });
+
+      const deadline = await timer.scheduleDisconnectGrace(
+        'battle-1',
+        'user-1',
+      );
+
+      expect(timerQueue.add).toHaveBeenCalledWith(
+        'battle.disconnect-grace',
+        { battleId: 'battle-1', userId: 'user-1' },
+        { jobId: 'battle-timer:grace:battle-1_user-1', delay: GRACE_MS },
+      );
+      expect(deadline).toEqual(new Date(now + GRACE_MS));
+    });
+
+    it('keeps the deadline of a grace period already running', async () => {
+      const scheduledAt = Date.now() - 10000;
+      timerQueue.getJob.mockResolvedValue({
+        timestamp: scheduledAt,
+        opts: { delay: GRACE_MS },
+      });
+
+      const deadline = await timer.scheduleDisconnectGrace(
+        'battle-1',
+        'user-1',
+      );
+
+      expect(deadline).toEqual(new Date(scheduledAt + GRACE_MS));
+    });
+  });
+});
@@ -0,0 +1,214 @@
+import { Inject, Injectable, OnApplicationBootstrap } from '@nestjs/common';
+import { InjectQueue } from '@nestjs/bullmq';
+import { Queue } from 'bullmq';
+import {
+  BattlePlayerStatus,
+  BattleStatus,
+  ChallengeStatus,
+} from '@prisma/client';
+import { PrismaService } from '@/database/prisma.service';
+import { LoggerService } from '@/shared/logger/logger.service';
+import { BATTLE_TIMER_QUEUE } from '../constants/battle-queue.constants';
+import {
+  BATTLE_TIMER_JOBS,
+  ChallengeExpiryJob,
+  DisconnectGraceJob,
+  FinishBattleJob,
+  ReadyTimeoutJob,
+} from '../types/battle-job.type';
+import { MatchmakingConfig } from '../types/matchmaking.types';
+
+/**
+ * Server-side battle clock.
+ * Timers are BullMQ delayed jobs so they are persisted in Redis and survive restarts.
+ */
+@Injectable()
+export class BattleTimerService implements OnApplicationBootstrap {
+  constructor(
+    @InjectQueue(BATTLE_TIMER_QUEUE)
+    private readonly timerQueue: Queue,
+    private readonly prisma: PrismaService,
+    private readonly logger: LoggerService,
+    @Inject('MATCHMAKING_CONFIG')
+    private readonly config: MatchmakingConfig,
+  ) {}
+
+  /**
+   * Re-schedules every WAITING and STARTED battle, every disconnected player
+   * and every pending challenge, on boot.
+   * Existing jobs are kept as-is (same jobId), so this only fills gaps,
+   * e.g. battles started while Redis was unreachable.
+   */
+  async onApplicationBootstrap() {
+    try {
+      const battles = await this.prisma.battle.findMany({
+        where: { status: BattleStatus.STARTED },
+        select: { id: true, startedAt: true, intendedDurationMs: true },
+      });
+
+      for (const b of battles) {
+        await this.scheduleFinish(
+          b.id,
+          b.startedAt ?? new Date(),
+          b.intendedDurationMs,
+        );
+      }
+
+      const waiting = await this.prisma.battle.findMany({
+        where: { status: BattleStatus.WAITING },
+        select: { id: true, createdAt: true },
+      });
+
+      for (const b of waiting) {
+        await this.scheduleReadyTimeout(b.id, b.createdAt);
+      }
+
+      // disconnect time is not persisted, so the grace period restarts from now
+      const disconnected = await this.prisma.battlePlayer.findMany({
+        where: {
+          status: BattlePlayerStatus.DISCONNECTED,
+          battle: { status: BattleStatus.STARTED },
+        },
+        select: { battleId: true, userId: true },
+      });
+
+      for (const p of disconnected) {
+        await this.scheduleDisconnectGrace(p.battleId, p.userId);
+      }
+
+      const challenges = await this.prisma.challenge.findMany({
+        where: { status: ChallengeStatus.PENDING },
+        select: { id: true, expiresAt: true },
+      });
+
+      for (const c of challenges) {
+        await this.scheduleChallengeExpiry(c.id, c.expiresAt);
+      }
+
+      this.logger.log(
+        `Battle timers reconciled for ${battles.length + waiting.length} battles, ${disconnected.length} disconnected players and ${challenges.length} challenges`,
+      );
+    } catch (error) {
+      this.logger.error(
+        'Failed to reconcile battle timers',
+        error instanceof Error ? error.stack : String(error),
+      );
+    }
+  }
+
+  /**
+   * Schedules the battle to finish `durationMs` after `startedAt`.
+   * Overdue battles are finished right away.
+   */
+  async scheduleFinish(battleId: string, startedAt: Date, durationMs: number) {
+    const delay = Math.max(0, startedAt.getTime() + durationMs - Date.now());
+
+    await this.timerQueue.add(
+      BATTLE_TIMER_JOBS.FINISH,
+      { battleId } satisfies FinishBattleJob,
+      {
+        jobId: this.finishJobId(battleId),
+        delay,
+      },
+    );
+  }
+
+  /**
+   * Drops the pending finish timer, e.g. when every player finished early.
+   * A timer that is currently running is left alone (battleFinish is idempotent).
+   */
+  async cancelFinish(battleId: string) {
+    await this.timerQueue.remove(this.finishJobId(battleId));
+  }
+
+  /**
+   * Schedules the ready deadline of a battle created at `createdAt`.
+   * Returns the deadline so it can be shared with the players.
+   */
+  async scheduleReadyTimeout(battleId: string, createdAt: Date) {
+    const deadline = createdAt.getTime() + this.config.readyTimeoutMs;
+
+    await this.timerQueue.add(
+      BATTLE_TIMER_JOBS.READY_TIMEOUT,
+      { battleId } satisfies ReadyTimeoutJob,
+      {
+        jobId: this.readyTimeoutJobId(battleId),
+        delay: Math.max(0, deadline - Date.now()),
+      },
+    );
+
+    return new Date(deadline);
+  }
+
+  /**
+   * Drops the pending ready deadline once the battle started or was cancelled.
+   */
+  async cancelReadyTimeout(battleId: string) {
+    await this.timerQueue.remove(this.readyTimeoutJobId(battleId));
+  }
+
+  /**
+   * Schedules the end of a disconnected player's reconnect grace period.
+   * Returns the deadline so it can be shared with the other players: a grace
+   * period already running keeps its job, so its deadline is the one returned.
+   */
+  async scheduleDisconnectGrace(battleId: string, userId: string) {
+    const jobId = this.disconnectGraceJobId(battleId, userId);
+    const deadline = Date.now() + this.config.disconnectGraceMs;
+
+    await this.timerQueue.add(
+      BATTLE_TIMER_JOBS.DISCONNECT_GRACE,
+      { battleId, userId } satisfies DisconnectGraceJob,
+      { jobId, delay: this.config.disconnectGraceMs },
+    );
+
+    // a job already under this id is kept as is by BullMQ
+    const job = await this.timerQueue.getJob(jobId);
+    return new Date(job ? job.timestamp + (job.opts.delay ?? 0) : deadline);
+  }
+
+  /**
+   * Drops the pending grace period once the player reconnected.
+   */
+  async cancelDisconnectGrace(battleId: string, userId: string) {
+    await this.timerQueue.remove(this.disconnectGraceJobId(battleId, userId));
+  }
+
+  /**
+   * Schedules the expiry of a pending challenge at `expiresAt`.
+   */
+  async scheduleChallengeExpiry(challengeId: string, expiresAt: Date) {
+    await this.timerQueue.add(
+      BATTLE_TIMER_JOBS.CHALLENGE_EXPIRY,
+      { challengeId } satisfies ChallengeExpiryJob,
+      {
+        jobId: this.challengeExpiryJobId(challengeId),
+        delay: Math.max(0, expiresAt.getTime() - Date.now()),
+      },
+    );
+  }
+
+  /**
+   * Drops the pending expiry once the challenge was accepted or cancelled.
+   */
+  async cancelChallengeExpiry(challengeId: string) {
+    await this.timerQueue.remove(this.challengeExpiryJobId(challengeId));
+  }
+
+  private finishJobId(battleId: string) {
+    return `battle-timer:finish:${battleId}`;
+  }
+
+  private readyTimeoutJobId(battleId: string) {
+    return `battle-timer:ready:${battleId}`;
+  }
+
+  private challengeExpiryJobId(challengeId: string) {
+    return `battle-timer:challenge:${challengeId}`;
+  }
+
+  // BullMQ only allows ':' in custom ids split into exactly 3 parts
+  private disconnectGraceJobId(battleId: string, userId: string) {
+    return `battle-timer:grace:${battleId}_${userId}`;
+  }
+}
@@ -9,11 +9,18 @@ import {
 } from '@prisma/client';
 import { LoggerService } from '@/shared/logger/logger.service';
 import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { BattlePlayerService } from './battle-player.service';
-import { buildRanking } from '../utils/ranking.util';
-import { computeEloDelta } from '../utils/elo.util';
+import { rankSlots } from '../utils/ranking.util';
+import {
+  computeRatingChanges,
+  computeTeamRatingChanges,
+} from '../utils/elo.util';
+import { RatingChangeResult, RatingConfig } from '../types/rating.types';
 import { PredictionMarketService } from '@modules/prediction-market/services/prediction-market.service';
 import { CreateBattleResultDto } from '../dto/battle-result.dto';
+import { BattleEscrowService } from './battle-escrow.service';
+import { SeasonService } from '@/modules/season/services/season.service';
 
 // ORCHESTRATOR SERVICE FOR BATTLE LIFECYCLE
 
@@ -24,6 +31,9 @@ export class BattleService {
     private readonly prisma: PrismaService,
     private readonly logger: LoggerService,
     private readonly predictionMarketService: PredictionMarketService,
+    private readonly escrow: BattleEscrowService,
+    private readonly config: ConfigService,
+    private readonly season: SeasonService,
   ) {}
 
   /**
@@ -42,6 +52,11 @@ export class BattleService {
    * This is triggered when a match is found and a battle needs to be created.
    */
   async create(match: MatchGroup): Promise<Battle> {
+    // read outside the transaction, stakes are checked against them when locked
+    const balances = await this.escrow.fetchBalances(
+      match.players.map((p) => p.userId),
+    );
+
     const { battle, question } = await this.prisma.$transaction(async (tx) => {
       // ensure users still PENDING
       const updated = await tx.user.updateMany({
@@ -62,32 +77,50 @@ export class BattleService {
         data: {
           status: BattleStatus.WAITING, // initial status
           maxPlayers: match.players.length,
+          teamSize: match.teamSize,
+          allowedAssets: match.assets,
+          intendedDurationMs: match.durationMs, // falls back to the default duration
           metadata: {
             matchId: match.matchId,
             avgElo: match.avgElo,
             forced: match.forced,
             matchmakingCreatedAt: match.createdAt,
+            stakeTier: match.stakeTier,
+            ...(match.challengeId && { challengeId: match.challengeId }),
+            ...(match.tournamentId && { tournamentId: match.tournamentId }),
           },
         },
       });
 
       // Every battle starts with a default prediction question "Who will win the battle?"
       // and N outcomes (N = number of players) corresponding to "Player 1 wins", "Player 2 wins", etc.
+      // A team battle asks "Which team wins?" instead, with one outcome per team.
       const q = await tx.battlePredictionQuestion.create({
-        data: {
-          battleId: b.id,
-          questionText: 'Who will win the battle?',
-          description:
-            'Predict which player will win the battle based on who has the highest PnL at the end.',
-        },
+        data: match.teamSize
+          ? {
+              battleId: b.id,
+              questionText: 'Which team wins?',
+              description:
+                'Predict which team will win the battle based on the highest average ROI of its players at the end.',
+            }
+          : {
+              battleId: b.id,
+              questionText: 'Who will win the battle?',
+              description:
+                'Predict which player will win the battle based on who has the highest PnL at the end.',
+            },
       });
 
+      const outcomes = match.teamSize
+        ? [...new Set(match.players.map((p) => p.team ?? 1))]
+        : match.players.map((_, index) => index + 1);
+
       await tx.battlePredictionChoice.createMany({
-        data: match.players.map((_, index) => {
+        data: outcomes.map((n) => {
           return {
             battleId: b.id,
             battlePredictionQuestionId: q.id,
-            outcome: index,
+            outcome: n - 1,
           };
         }),
       });
@@ -99,11 +132,15 @@ export class BattleService {
           userId: p.userId,
           status: BattlePlayerStatus.JOINED,
           slot: index + 1,
+          team: p.team,
           stake: p.stake,
           eloSnapshot: p.elo,
         })),
       });
 
+      // lock players' stakes into the battle escrow
+      await this.escrow.lockStakes(b.id, balances, tx);
+
       this.logger.log(`Created battle ${b.id} for match ${match.matchId}`);
       return { battle: b, question: q };
     });
@@ -149,7 +186,7 @@ export class BattleService {
     }
 
     // update battle status to STARTED
-    await tx.battle.update({
+    const started = await tx.battle.update({
       where: { id: battleId },
       data: {
         status: BattleStatus.STARTED,
@@ -163,22 +200,23 @@ export class BattleService {
     // lock users in battle -> set IN_BATTLE status
     await this.toggleLockUser(battleId, UserStatus.IN_BATTLE, tx);
 
-    return true;
+    return started;
   }
 
   /**
    * Finishes the battle if all players are finished.
    * It updates the battle status to FINISHED, calculates results, updates player stats, and unlocks users.
    * This is triggered when the battle is evaluated and determined to be finished.
+   * `endedAt` should be the end of the window the result was evaluated on.
    */
   async battleFinish(
     battleId: string,
     dto: CreateBattleResultDto,
     tx: Prisma.TransactionClient = this.prisma,
+    endedAt: Date = new Date(),
   ) {
     const battle = await tx.battle.findUnique({
       where: { id: battleId },
-      include: { players: true },
     });
 
     // check if battle exists and is in correct status
@@ -186,16 +224,27 @@ export class BattleService {
       return null;
     }
 
-    // mark all playing players as finished
-    await tx.battle.update({
-      where: { id: battleId },
+    // transition STARTED → FINISHED atomically, results are evaluated outside
+    // of this transaction so concurrent finishers may race here
+    const transitioned = await tx.battle.updateMany({
+      where: { id: battleId, status: BattleStatus.STARTED },
       data: {
         status: BattleStatus.FINISHED,
-        endedAt: new Date(),
+        endedAt,
+        actualDurationMs: battle.startedAt
+          ? endedAt.getTime() - battle.startedAt.getTime()
+          : null,
       },
     });
 
-    // update players elo and rank points based on battle result
+    if (transitioned.count === 0) {
+      return null;
+    }
+
+    // players still trading when the battle ends (e.g. timer elapsed) are finished too
+    await this.player.markAllFinished(battleId, endedAt, tx);
+
+    // update players elo and seasonal rank points based on battle result
     await this.updateEloAndRankPoints(battleId, dto, tx);
 
     // unlock users in battle -> set ACTIVE status
@@ -204,6 +253,9 @@ export class BattleService {
     // create battle result
     const result = await this.createBattleResult(battleId, dto, tx);
 
+    // pay the stake pot out to the winner
+    await this.payoutWinner(battleId, dto, result.id, tx);
+
     if (result) {
       void this.proposeOutcomeAsync(battleId, dto).catch((error) => {
         this.logger.error(
@@ -244,6 +296,9 @@ export class BattleService {
       data: { status: UserStatus.ACTIVE },
     });
 
+    // give locked stakes back
+    await this.escrow.releaseStakes(battleId, tx);
+
     return cancelled;
   }
 
@@ -276,7 +331,6 @@ export class BattleService {
     dto: CreateBattleResultDto,
     tx: Prisma.TransactionClient,
   ) {
-    // TODO: replace with real metrics engine
     return tx.battleResult.create({
       data: {
         battleId,
@@ -297,33 +351,112 @@ export class BattleService {
     });
   }
 
+  private async payoutWinner(
+    battleId: string,
+    dto: CreateBattleResultDto,
+    battleResultId: string,
+    tx: Prisma.TransactionClient,
+  ) {
+    const players = await this.player.getPlayers(battleId, tx);
+
+    // the winner, or every member of the winning team (shares split evenly)
+    const winnerSlots = rankSlots(dto.metrics, dto.forfeitedSlots, dto.teams)
+      .filter((r) => r.rank === 1)
+      .map((r) => r.slot);
+
+    const winnerPlayers = players.filter((p) => winnerSlots.includes(p.slot));
+
+    // nobody ranked, or every top player forfeited: nobody won the pot
+    const forfeited = dto.forfeitedSlots ?? [];
+    if (winnerPlayers.every((p) => forfeited.includes(p.slot))) {
+      this.logger.warn(`Battle ${battleId} has no winner, refunding stakes`);
+      await this.escrow.releaseStakes(battleId, tx);
+      return;
+    }
+
+    await this.escrow.payout(
+      battleId,
+      winnerPlayers.map((p) => p.userId),
+      battleResultId,
+      tx,
+    );
+  }
+
   private async updateEloAndRankPoints(
     battleId: string,
     dto: CreateBattleResultDto,
     tx: Prisma.TransactionClient,
   ) {
+    const rating = this.config.getOrThrow<RatingConfig>('battle.rating');
+
     // fetch players and their current elo
     const players = await this.player.getPlayers(battleId, tx);
 
-    // compute ranking based on result
-    const ranking = buildRanking(dto.metrics);
-
-    // update player's elo based on battle result and eloSnapshot
-    // update player's rankPoints (winner)
-    for (const rank of ranking) {
-      const player = players.find((p) => p.slot === rank.slot);
-      if (!player) continue;
+    // compute ranking based on result (forfeits rank last, teammates share their team's rank)
+    const ranking = rankSlots(dto.metrics, dto.forfeitedSlots, dto.teams);
 
-      const delta = computeEloDelta(rank.rank, players.length);
+    const ranked = ranking.flatMap((r) => {
+      const player = players.find((p) => p.slot === r.slot);
+      return player ? [{ player, rank: r.rank }] : [];
+    });
 
-      await tx.user.update({
-        where: { id: player.userId },
+    // rate from the eloSnapshot taken at match time
+    const inputs = ranked.map(({ player, rank }) => ({
+      userId: player.userId,
+      rating: player.eloSnapshot,
+      deviation: player.user.ratingDeviation,
+      gamesPlayed: player.user.gamesPlayed,
+      rank,
+      team: player.team,
+    }));
+
+    // a team battle rates team against team, teammates never play each other
+    const changes = dto.teams?.length
+      ? computeTeamRatingChanges(
+          inputs.map((input) => ({ ...input, team: input.team ?? 0 })),
+          rating,
+        )
+      : computeRatingChanges(inputs, rating);
+
+    // the delta applies to the current rating, which a season soft reset may
+    // have moved since the snapshot: history records the rating actually stored
+    const history: RatingChangeResult[] = [];
+    for (const change of changes) {
+      const { elo } = await tx.user.update({
+        where: { id: change.userId },
         data: {
-          elo: { increment: delta },
-          rankPoints: { increment: delta }, // TODO: separate rankPoints and elo
+          elo: { increment: change.delta },
+          gamesPlayed: { increment: 1 },
+          ...(change.deviationAfter !== null && {
+            ratingDeviation: change.deviationAfter,
+          }),
         },
+        select: { elo: true },
+      });
+      history.push({
+        ...change,
+        ratingBefore: elo - change.delta,
+        ratingAfter: elo,
       });
     }
+
+    // rating history, one row per player
+    await tx.ratingChange.createMany({
+      data: history.map((change) => ({ battleId, ...change })),
+      skipDuplicates: true,
+    });
+
+    // seasonal rank points are earned from placement, not from the elo delta
+    await this.season.awardBattlePoints(
+      battleId,
+      ranked.map(({ player, rank }) => ({
+        userId: player.userId,
+        rank,
+        forfeited: (dto.forfeitedSlots ?? []).includes(player.slot),
+        team: player.team ?? undefined,
+      })),
+      tx,
+    );
   }
 
   private async proposeOutcomeAsync(
@@ -342,18 +475,13 @@ export class BattleService {
       return;
     }
 
-    const ranking = buildRanking(dto.metrics);
-    if (ranking.length === 0) {
-      this.logger.warn(`Battle ${battleId} has no ranking metrics`);
-      return;
-    }
-
-    // `slot` is a 1-based player position in the ranking, while the prediction market
-    // contract expects a zero-based outcome index. The top-ranked player is at
-    // `ranking[0]`, so we subtract 1 from its slot to derive the on-chain outcome id.
+    // `slot` is a 1-based player position, while the prediction market contract
+    // expects a zero-based outcome index: the result outcome is the winner's slot - 1.
     // If a battle has N players (N slots), the first N outcomes in prediction market contract
     // respectively corresponds to the prediction of each player winning
-    const outcome = ranking[0].slot - 1;
+    // Team battles have one outcome per team, the result outcome is the winning team index
+    // On a tie at the top the result outcome is the tied player (or team) drawn by buildBattleResult
+    const outcome = dto.outcome;
     await this.predictionMarketService.enqueueProposeOutcome({
       battleId,
       matchId,
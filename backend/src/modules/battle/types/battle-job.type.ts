@@ -0,0 +1,41 @@
+/**
+ * Define the job types and their payloads for the battle timer queue.
+ */
+export const BATTLE_TIMER_JOBS = {
+  FINISH: 'battle.finish',
+  READY_TIMEOUT: 'battle.ready-timeout',
+  DISCONNECT_GRACE: 'battle.disconnect-grace',
+  CHALLENGE_EXPIRY: 'battle.challenge-expiry',
+} as const;
+
+/**
+ * Payload for the delayed job finishing a battle once its duration elapsed.
+ */
+export interface FinishBattleJob {
+  battleId: string;
+}
+
+/**
+ * Payload for the delayed job cancelling a battle whose players did not all
+ * ready up before the ready deadline.
+ */
+export interface ReadyTimeoutJob {
+  battleId: string;
+}
+
+/**
+ * Payload for the delayed job treating a disconnected player as having left
+ * once their reconnect grace period elapsed.
+ */
+export interface DisconnectGraceJob {
+  battleId: string;
+  userId: string;
+}
+
+/**
+ * Payload for the delayed job expiring a private challenge nobody accepted
+ * before its TTL.
+ */
+export interface ChallengeExpiryJob {
+  challengeId: string;
+}
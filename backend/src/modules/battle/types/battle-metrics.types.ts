@@ -0,0 +1,67 @@
+/**
+ * Subset of a Hyperliquid fill used by the metrics engine.
+ * Numeric fields are kept as the decimal strings returned by the API.
+ */
+export interface TradeFill {
+  coin: string;
+  px: string;
+  sz: string;
+  side: 'B' | 'A';
+  time: number; // ms since epoch
+  closedPnl: string;
+  fee: string;
+  tid: number;
+  startPosition: string; // signed position in the coin before this fill
+}
+
+/**
+ * Subset of a Hyperliquid funding payment used by the metrics engine.
+ */
+export interface FundingPayment {
+  time: number; // ms since epoch
+  hash: string;
+  coin: string;
+  usdc: string; // signed, positive = received
+}
+
+/**
+ * Raw trading activity of one battle player over the battle window.
+ * This is the input of the metrics engine and of the result data hash.
+ */
+export interface PlayerTradingData {
+  slot: number;
+  address: string;
+  stake: string; // USD, used as ROI capital base
+  forfeited: boolean; // left the battle before it ended
+  team?: number; // team battles only
+  fills: TradeFill[];
+  funding: FundingPayment[];
+  marks: Record<string, string>; // coin -> price at the end of the battle, for positions still open
+}
+
+/**
+ * Computed metrics of one battle player (values are plain numbers for BattleMetricDto).
+ */
+export interface PlayerMetrics {
+  slot: number;
+  pnl: number;
+  volume: number;
+  roi: number; // percentage
+  winRate: number; // percentage
+}
+
+/**
+ * Time window the battle metrics are evaluated on.
+ */
+export interface BattleWindow {
+  startTime: number; // ms since epoch
+  endTime: number; // ms since epoch
+}
+
+/**
+ * Part of a position opened during the battle and still open at its end.
+ */
+export interface OpenPosition {
+  size: string; // signed, positive = long
+  entryPx: string; // average entry price of the battle part
+}
@@ -0,0 +1,16 @@
+/**
+ * Friends queuing together for a team battle. Parties live in memory, like the
+ * matchmaking queue.
+ */
+export interface BattleParty {
+  id: string;
+  leaderId: string;
+  members: string[]; // userIds, leader first
+}
+
+/**
+ * Payload of `party.updated`, sent to every member (and to a member who left)
+ */
+export interface PartyUpdatedEvent extends BattleParty {
+  disbanded: boolean;
+}
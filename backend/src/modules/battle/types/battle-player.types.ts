@@ -3,6 +3,15 @@ export interface BattlePlayerEvent {
   userId: string;
 }
 
+export interface PlayerQueueEvent {
+  userId: string;
+  stake: number;
+  assets?: string[];
+  durationMs?: number;
+  teamSize?: number;
+  party?: { id: string; userIds: string[] }; // queued by the party leader for every member
+}
+
 export interface BattlePlayerShorted {
   userId: string;
   name: string;
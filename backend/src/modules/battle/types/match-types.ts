@@ -1,5 +1,14 @@
+import { BattleStatus } from '@prisma/client';
 import { MatchGroup } from '../types/matchmaking.types';
 
 export interface MatchFoundEvent {
   match: MatchGroup;
 }
+
+/**
+ * Payload of `EVENTS.BATTLE_CLOSED`, emitted once the battle is persisted as closed
+ */
+export interface BattleClosedEvent {
+  battleId: string;
+  status: BattleStatus; // FINISHED or CANCELLED
+}
@@ -6,6 +6,20 @@ export interface MatchCandidate {
   elo: number;
   stake: number;
   joinedAt: number; // timestamp (ms)
+  priority?: number; // higher anchors first, ex: +1 requeued after a no-show, -1 per active strike
+  assets?: string[]; // coins the player wants to trade (undefined = any)
+  durationMs?: number; // battle duration the player wants (undefined = any)
+  teamSize?: number; // players per team of the team battle wanted (undefined = free-for-all)
+  partyId?: string; // queued with a party, always matched on the same team
+  team?: number; // team assigned in a team battle MatchGroup (1 or 2)
+}
+
+/**
+ * BattlePreferences are the battle settings a group of players agreed on.
+ */
+export interface BattlePreferences {
+  assets?: string[]; // intersection of every player's assets
+  durationMs?: number;
 }
 
 /**
@@ -18,8 +32,36 @@ export interface MatchGroup {
   avgElo: number;
   createdAt: number;
   forced: boolean;
+  stakeTier: number; // index in MatchmakingConfig.stakeTiers every player qualifies for (lowest tier of the group)
+  assets: string[]; // agreed asset whitelist (empty = any coin)
+  durationMs?: number; // agreed duration (undefined = default battle duration)
+  teamSize?: number; // team battle: players are ordered team 1 then team 2
+  challengeId?: string; // set when the group comes from an accepted private challenge
+  tournamentId?: string; // set when the group is a tournament match
 }
 
+/**
+ * DirectMatchRequest describes a match made outside the queue (private
+ * challenge, tournament match) whose players are already known.
+ */
+export interface DirectMatchRequest {
+  matchId: string;
+  userIds: string[]; // in slot order, player 1 first
+  stake: number;
+  assets: string[];
+  durationMs?: number;
+  challengeId?: string;
+  tournamentId?: string;
+}
+
+/**
+ * DirectMatchReservation is the MatchGroup of a direct match once its players
+ * are reserved, or the players who were not available.
+ */
+export type DirectMatchReservation =
+  | { match: MatchGroup; unavailable?: never }
+  | { match?: never; unavailable: string[] };
+
 /**
  * MatchmakingConfig defines the configuration parameters for the matchmaking system.
  */
@@ -31,4 +73,10 @@ export interface MatchmakingConfig {
   fairnessWindowMs: number; // ex: 2000 ms
   expandPerSecond: number; // ex: 10 elo / sec
   forceMatchAfterSec: number;
+  stakeTiers: number[]; // ex: [0, 10, 100] USD lower bound of each stake tier, ascending
+  stakeTierExpandAfterSec: number; // ex: 30 -> one more tier of difference allowed every 30s waited
+  maxStakeTierGap: number; // ex: 1 -> never match stakes more than 1 tier apart
+  readyTimeoutMs: number; // ex: 30000 ms to ready up once matched
+  disconnectGraceMs: number; // ex: 30000 ms to reconnect before leaving
+  noShowStrikeTtlMs: number; // ex: 24h before a no-show strike expires
 }
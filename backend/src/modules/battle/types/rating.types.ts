@@ -0,0 +1,36 @@
+export type RatingSystem = 'elo' | 'glicko';
+
+export interface RatingConfig {
+  system: RatingSystem; // 'glicko' also tracks and uses the rating deviation
+  kFactorProvisional: number; // K while a player has fewer than provisionalGames
+  kFactor: number;
+  kFactorElite: number; // K once a player reaches eliteRating
+  provisionalGames: number;
+  eliteRating: number;
+  maxDeviation: number; // deviation of an unrated player
+  minDeviation: number; // floor so ratings never freeze
+}
+
+/**
+ * A player's rating state before the battle and their final rank in it.
+ */
+export interface RatingInput {
+  userId: string;
+  rating: number; // eloSnapshot
+  deviation: number;
+  gamesPlayed: number;
+  rank: number; // 1 = best
+}
+
+export interface RatingChangeResult {
+  userId: string;
+  rank: number;
+  ratingBefore: number;
+  ratingAfter: number;
+  delta: number;
+  expectedScore: number; // average pairwise expected score, 0 → 1
+  actualScore: number; // average pairwise actual score, 0 → 1
+  kFactor: number | null; // null for glicko
+  deviationBefore: number | null; // null for elo
+  deviationAfter: number | null;
+}
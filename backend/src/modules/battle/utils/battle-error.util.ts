@@ -0,0 +1,35 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+import { WsException } from '@nestjs/websockets';
+import { BattleErrorDto } from '../dto/battle-socket.dto';
+
+/**
+ * Code and message of a `battle.error` for any thrown value.
+ * Unknown errors are reported as INTERNAL_ERROR without their message.
+ */
+export function toBattleError(
+  exception: unknown,
+): Omit<BattleErrorDto, 'event'> {
+  if (exception instanceof WsException) {
+    const error = exception.getError();
+
+    if (typeof error === 'string') {
+      return { code: 'BAD_REQUEST', message: error };
+    }
+
+    const { code, message, errors } = error as Partial<BattleErrorDto>;
+    return {
+      code: code ?? 'BAD_REQUEST',
+      message: message ?? 'Bad request',
+      errors,
+    };
+  }
+
+  if (exception instanceof HttpException) {
+    return {
+      code: HttpStatus[exception.getStatus()] ?? 'BAD_REQUEST',
+      message: exception.message,
+    };
+  }
+
+  return { code: 'INTERNAL_ERROR', message: 'Internal server error' };
+}
@@ -0,0 +1,196 @@
+import { PlayerTradingData, TradeFill } from '../types/battle-metrics.types';
+import { computePlayerMetrics, openPositions } from './battle-metrics.util';
+
+let tid = 0;
+
+function fill(overrides: Partial<TradeFill>): TradeFill {
+  tid++;
+  return {
+    coin: 'BTC',
+    px: '100',
+    sz: '1',
+    side: 'B',
+    time: tid,
+    closedPnl: '0',
+    fee: '0',
+    tid,
+    startPosition: '0',
+    ...overrides,
+  };
+}
+
+function player(overrides: Partial<PlayerTradingData>): PlayerTradingData {
+  return {
+    slot: 1,
+    address: '0x0000000000000000000000000000000000000001',
+    stake: '100',
+    forfeited: false,
+    fills: [],
+    funding: [],
+    marks: {},
+    ...overrides,
+  };
+}
+
+describe('computePlayerMetrics', () => {
+  it('scores a player without activity as zero', () => {
+    expect(computePlayerMetrics(player({}))).toEqual({
+      slot: 1,
+      pnl: 0,
+      volume: 0,
+      roi: 0,
+      winRate: 0,
+    });
+  });
+
+  it('nets realized pnl, fees and funding', () => {
+    const metrics = computePlayerMetrics(
+      player({
+        fills: [
+          fill({ side: 'B', px: '100', fee: '0.1' }),
+          fill({
+            side: 'A',
+            px: '110',
+            fee: '0.2',
+            closedPnl: '10',
+            startPosition: '1',
+          }),
+        ],
+        funding: [{ time: 3, hash: '0x1', coin: 'BTC', usdc: '-0.5' }],
+      }),
+    );
+
+    expect(metrics).toEqual({
+      slot: 1,
+      pnl: 9.2,
+      volume: 210,
+      roi: 9.2,
+      winRate: 100,
+    });
+  });
+
+  it('keeps decimal precision on fees', () => {
+    const metrics = computePlayerMetrics(
+      player({
+        fills: [
+          fill({ side: 'B', px: '0.1', fee: '0.1' }),
+          fill({ side: 'A', px: '0.1', fee: '0.2', startPosition: '1' }),
+        ],
+      }),
+    );
+
+    expect(metrics.pnl).toBe(-0.3);
+    expect(metrics.volume).toBe(0.2);
+  });
+
+  it('only counts closing fills in the win rate', () => {
+    const metrics = computePlayerMetrics(
+      player({
+        fills: [
+          fill({ side: 'B', sz: '3' }),
+          fill({ side: 'A', closedPnl: '5', startPosition: '3' }),
+          fill({ side: 'A', closedPnl: '-2', startPosition: '2' }),
+          fill({ side: 'A', closedPnl: '-1', startPosition: '1' }),
+        ],
+      }),
+    );
+
+    expect(metrics.winRate).toBeCloseTo(33.333333);
+  });
+
+  it('marks a position still open at the end of the battle', () => {
+    const metrics = computePlayerMetrics(
+      player({
+        fills: [fill({ side: 'B', px: '100', sz: '2' })],
+        marks: { BTC: '105' },
+      }),
+    );
+
+    expect(metrics.pnl).toBe(10);
+    expect(metrics.roi).toBe(10);
+  });
+
+  it('marks a short position against its entry', () => {
+    const metrics = computePlayerMetrics(
+      player({
+        fills: [fill({ side: 'A', px: '100', sz: '2' })],
+        marks: { BTC: '105' },
+      }),
+    );
+
+    expect(metrics.pnl).toBe(-10);
+  });
+
+  it('refuses an open position without a mark price', () => {
+    expect(() =>
+      computePlayerMetrics(player({ fills: [fill({ side: 'B' })] })),
+    ).toThrow('Slot 1 has an open BTC position but no mark price');
+  });
+
+  it('refuses a player without stake', () => {
+    expect(() => computePlayerMetrics(player({ stake: '0' }))).toThrow(
+      'Slot 1 has no stake, ROI is undefined',
+    );
+  });
+});
+
+describe('openPositions', () => {
+  it('returns nothing for a closed round trip', () => {
+    const positions = openPositions([
+      fill({ side: 'B', sz: '1' }),
+      fill({ side: 'A', sz: '1', startPosition: '1' }),
+    ]);
+
+    expect(positions.size).toBe(0);
+  });
+
+  it('averages the entry of a position built in several fills', () => {
+    const positions = openPositions([
+      fill({ side: 'B', px: '100' }),
+      fill({ side: 'B', px: '110', startPosition: '1' }),
+      fill({ side: 'A', px: '120', startPosition: '2' }),
+    ]);
+
+    expect(positions.get('BTC')).toEqual({ size: '1', entryPx: '105' });
+  });
+
+  it('enters a flipped position at the flipping fill', () => {
+    const positions = openPositions([
+      fill({ side: 'B', px: '100' }),
+      fill({ side: 'A', px: '120', sz: '3', startPosition: '1' }),
+    ]);
+
+    expect(positions.get('BTC')).toEqual({ size: '-2', entryPx: '120' });
+  });
+
+  it('reduces a position held before the battle first', () => {
+    const closed = openPositions([
+      fill({ side: 'A', sz: '1', startPosition: '1' }),
+    ]);
+    const flipped = openPositions([
+      fill({ side: 'A', px: '90', sz: '3', startPosition: '1' }),
+    ]);
+
+    expect(closed.size).toBe(0);
+    expect(flipped.get('BTC')).toEqual({ size: '-2', entryPx: '90' });
+  });
+
+  it('only marks what was added to a pre-battle position', () => {
+    const positions = openPositions([
+      fill({ side: 'B', px: '100', startPosition: '5' }),
+    ]);
+
+    expect(positions.get('BTC')).toEqual({ size: '1', entryPx: '100' });
+  });
+
+  it('replays fills in time order and tracks coins separately', () => {
+    const positions = openPositions([
+      fill({ coin: 'ETH', side: 'A', px: '10', time: 20 }),
+      fill({ side: 'A', px: '110', time: 10, startPosition: '1' }),
+      fill({ side: 'B', px: '100', time: 5 }),
+    ]);
+
+    expect(positions.has('BTC')).toBe(false);
+    expect(positions.get('ETH')).toEqual({ size: '-1', entryPx: '10' });
+  });
+});
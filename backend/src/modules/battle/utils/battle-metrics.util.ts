@@ -0,0 +1,136 @@
+import { Prisma } from '@prisma/client';
+import {
+  OpenPosition,
+  PlayerMetrics,
+  PlayerTradingData,
+  TradeFill,
+} from '../types/battle-metrics.types';
+
+const ZERO = new Prisma.Decimal(0);
+const HUNDRED = new Prisma.Decimal(100);
+
+/**
+ * Computes battle metrics of one player from their fills and funding.
+ * All arithmetic is done in decimals and only converted to numbers at the end.
+ *
+ * - PNL: realized pnl of closing fills - trading fees + funding received
+ *   + unrealized pnl of positions opened during the battle, marked at its end
+ * - VOLUME: traded notional (px * sz) of every fill
+ * - ROI: PNL relative to the player's stake, in percent (the stake must be positive)
+ * - WIN_RATE: share of closing fills with a positive realized pnl, in percent
+ */
+export function computePlayerMetrics(data: PlayerTradingData): PlayerMetrics {
+  let realized = ZERO;
+  let fees = ZERO;
+  let volume = ZERO;
+  let closing = 0;
+  let winning = 0;
+
+  for (const fill of data.fills) {
+    const closedPnl = new Prisma.Decimal(fill.closedPnl);
+
+    realized = realized.plus(closedPnl);
+    fees = fees.plus(fill.fee);
+    volume = volume.plus(new Prisma.Decimal(fill.px).times(fill.sz));
+
+    // opening fills always report a zero closedPnl
+    if (!closedPnl.isZero()) {
+      closing++;
+      if (closedPnl.isPositive()) winning++;
+    }
+  }
+
+  const funding = data.funding.reduce((sum, f) => sum.plus(f.usdc), ZERO);
+
+  let unrealized = ZERO;
+  for (const [coin, position] of openPositions(data.fills)) {
+    const mark = data.marks[coin];
+    if (mark === undefined) {
+      throw new Error(
+        `Slot ${data.slot} has an open ${coin} position but no mark price`,
+      );
+    }
+    unrealized = unrealized.plus(
+      new Prisma.Decimal(mark).minus(position.entryPx).times(position.size),
+    );
+  }
+
+  const stake = new Prisma.Decimal(data.stake);
+  if (!stake.greaterThan(0)) {
+    // stakes are validated positive, ROI against no capital is meaningless
+    throw new Error(`Slot ${data.slot} has no stake, ROI is undefined`);
+  }
+
+  const pnl = realized.minus(fees).plus(funding).plus(unrealized);
+  const roi = pnl.div(stake).times(HUNDRED);
+  const winRate =
+    closing > 0
+      ? new Prisma.Decimal(winning).div(closing).times(HUNDRED)
+      : ZERO;
+
+  return {
+    slot: data.slot,
+    pnl: pnl.toNumber(),
+    volume: volume.toNumber(),
+    roi: roi.toNumber(),
+    winRate: winRate.toNumber(),
+  };
+}
+
+/**
+ * Positions opened during the battle and still open at its end, per coin.
+ * A position held before the battle (the first fill's `startPosition`) is
+ * reduced first; its pnl is realized through `closedPnl` and it is never marked.
+ */
+export function openPositions(fills: TradeFill[]): Map<string, OpenPosition> {
+  const sorted = [...fills].sort((a, b) => a.time - b.time || a.tid - b.tid);
+  const byCoin = new Map<string, TradeFill[]>();
+  for (const fill of sorted) {
+    byCoin.set(fill.coin, [...(byCoin.get(fill.coin) ?? []), fill]);
+  }
+
+  const positions = new Map<string, OpenPosition>();
+  for (const [coin, coinFills] of byCoin) {
+    let held = new Prisma.Decimal(coinFills[0].startPosition);
+    let size = ZERO; // signed size opened during the battle
+    let cost = ZERO; // entry notional of `size`
+
+    for (const fill of coinFills) {
+      const px = new Prisma.Decimal(fill.px);
+      let delta = new Prisma.Decimal(fill.sz).times(fill.side === 'B' ? 1 : -1);
+
+      // reducing the pre-battle position
+      if (!held.isZero() && held.isPositive() !== delta.isPositive()) {
+        const used = Prisma.Decimal.min(held.abs(), delta.abs());
+        held = held.minus(used.times(Prisma.Decimal.sign(held)));
+        delta = delta.minus(used.times(Prisma.Decimal.sign(delta)));
+      }
+      if (delta.isZero()) continue;
+
+      if (size.isZero() || size.isPositive() === delta.isPositive()) {
+        size = size.plus(delta);
+        cost = cost.plus(delta.abs().times(px));
+        continue;
+      }
+
+      // reducing (or flipping) the battle position at its average entry
+      const closed = Prisma.Decimal.min(size.abs(), delta.abs());
+      cost = cost.minus(cost.times(closed).div(size.abs()));
+      size = size.plus(closed.times(Prisma.Decimal.sign(delta)));
+      const flipped = delta.abs().minus(closed);
+      if (flipped.greaterThan(0)) {
+        size = flipped.times(Prisma.Decimal.sign(delta));
+        cost = flipped.times(px);
+      }
+    }
+
+    if (!size.isZero()) {
+      positions.set(coin, {
+        size: size.toFixed(),
+        entryPx: cost.div(size.abs()).toFixed(),
+      });
+    }
+  }
+
+  return positions;
+}
@@ -0,0 +1,67 @@
+import { PlayerTradingData } from '../types/battle-metrics.types';
+import { buildBattleResult, drawTiedWinner } from './build-battle-result';
+
+function player(
+  slot: number,
+  overrides: Partial<PlayerTradingData> = {},
+): PlayerTradingData {
+  return {
+    slot,
+    address: `0x${String(slot).repeat(40)}`,
+    stake: '100',
+    forfeited: false,
+    fills: [],
+    funding: [],
+    marks: {},
+    ...overrides,
+  };
+}
+
+const window = { startTime: 1_000, endTime: 2_000 };
+
+describe('drawTiedWinner', () => {
+  it('picks the tied entry at the data hash modulo their count', () => {
+    expect(drawTiedWinner(['a', 'b', 'c'], '0x04')).toBe('b');
+    expect(drawTiedWinner(['a', 'b', 'c'], '0x06')).toBe('a');
+  });
+
+  it('returns the only winner without a tie', () => {
+    expect(drawTiedWinner(['a'], '0xff')).toBe('a');
+  });
+});
+
+describe('buildBattleResult', () => {
+  it('resolves a full tie to the player drawn from the data hash', () => {
+    const result = buildBattleResult({
+      battleId: 'battle-1',
+      questionId: 'question-1',
+      window,
+      players: [player(1), player(2)],
+      codeCommitHash: '',
+    });
+
+    const drawn = Number(BigInt(result.dataHash) % 2n) + 1;
+    expect(result.outcome).toBe(drawn - 1);
+    expect(result.description).toBe(
+      `Players 1, 2 tie with 0.00% ROI (PnL 0.00 USD), the market resolves to player ${drawn} by draw`,
+    );
+  });
+
+  it('resolves a team tie to the team drawn from the data hash', () => {
+    const result = buildBattleResult({
+      battleId: 'battle-1',
+      questionId: 'question-1',
+      window,
+      players: [
+        player(1, { team: 1 }),
+        player(2, { team: 2 }),
+        player(3, { team: 1 }),
+        player(4, { team: 2 }),
+      ],
+      codeCommitHash: '',
+    });
+
+    expect(result.outcome).toBe(Number(BigInt(result.dataHash) % 2n));
+    expect(result.description).toMatch(/^Teams 1, 2 tie with /);
+  });
+});
@@ -1,25 +1,196 @@
 import { MetricType } from '@prisma/client';
-import { CreateBattleResultDto } from '../dto/battle-result.dto';
+import { keccak256, toBytes } from 'viem';
+import {
+  BattleMetricDto,
+  CreateBattleResultDto,
+} from '../dto/battle-result.dto';
+import { BattleWindow, PlayerTradingData } from '../types/battle-metrics.types';
+import { computePlayerMetrics } from './battle-metrics.util';
+import { buildRanking, buildTeamRanking } from './ranking.util';
+
+export interface BuildBattleResultParams {
+  battleId: string;
+  questionId: string;
+  window: BattleWindow;
+  players: PlayerTradingData[];
+  /** Git commit of the code evaluating the result (any length hex, may be empty) */
+  codeCommitHash: string;
+}
+
+/**
+ * Builds the battle result from the players' raw trading data.
+ * The winner is the top ROI player who did not forfeit, and the `outcome` is
+ * their zero-based slot index. In a team battle the winner is the team with
+ * the best average ROI and the `outcome` its zero-based team index.
+ * Players (or teams) tied at the top split the pot, but the market needs a
+ * single outcome: it resolves to one of them drawn from the data hash.
+ */
+export function buildBattleResult(
+  params: BuildBattleResultParams,
+): CreateBattleResultDto {
+  const players = [...params.players].sort((a, b) => a.slot - b.slot);
+
+  const metrics: BattleMetricDto[] = players.flatMap((p) => {
+    const m = computePlayerMetrics(p);
+    return [
+      { metric: MetricType.PNL, playerSlot: m.slot, value: m.pnl },
+      { metric: MetricType.VOLUME, playerSlot: m.slot, value: m.volume },
+      { metric: MetricType.ROI, playerSlot: m.slot, value: m.roi },
+      { metric: MetricType.WIN_RATE, playerSlot: m.slot, value: m.winRate },
+    ];
+  });
+
+  const forfeitedSlots = players.filter((p) => p.forfeited).map((p) => p.slot);
+
+  const teams = players.flatMap((p) =>
+    p.team !== undefined ? [{ slot: p.slot, team: p.team }] : [],
+  );
+  if (teams.length > 0) {
+    return buildTeamBattleResult(
+      params,
+      players,
+      metrics,
+      forfeitedSlots,
+      teams,
+    );
+  }
+
+  const ranking = buildRanking(metrics, forfeitedSlots);
+  if (ranking.length === 0) {
+    throw new Error(`Battle ${params.battleId} has no players to rank`);
+  }
+
+  const dataHash = hashBattleData(params.battleId, params.window, players);
+  const tied = ranking.filter((r) => r.rank === 1);
+  const winner = drawTiedWinner(tied, dataHash);
+
+  const value = (metric: MetricType) =>
+    metrics.find((m) => m.metric === metric && m.playerSlot === winner.slot)
+      ?.value ?? 0;
+
+  // every opponent forfeited
+  const walkover =
+    players.length > 1 && forfeitedSlots.length === players.length - 1;
+
+  const stats = `${value(MetricType.ROI).toFixed(2)}% ROI (PnL ${value(MetricType.PNL).toFixed(2)} USD)`;
 
-export function buildBattleResult(): CreateBattleResultDto {
   return {
-    description: 'Player 1 wins by faster execution time',
-    dataHash: 'abc123def456',
+    description: walkover
+      ? `Player ${winner.slot} wins by walkover with ${stats}`
+      : tied.length > 1
+        ? `Players ${tied.map((r) => r.slot).join(', ')} tie with ${stats}, the market resolves to player ${winner.slot} by draw`
+        : `Player ${winner.slot} wins with ${stats}`,
+    dataHash,
     isCorrect: true,
-    codeCommitHash: 'commit789xyz',
-    metrics: [
-      {
-        metric: MetricType.WIN_RATE,
-        playerSlot: 1,
-        value: 75, // percentage
-      },
-      {
-        metric: MetricType.PNL,
-        playerSlot: 2,
-        value: -500, // negative PNL for player 2
-      },
-    ],
-    outcome: 1, // Player 1 wins
-    questionId: 'question123',
+    codeCommitHash: toBytes16(params.codeCommitHash),
+    metrics,
+    outcome: winner.slot - 1,
+    questionId: params.questionId,
+    forfeitedSlots,
   };
 }
+
+function buildTeamBattleResult(
+  params: BuildBattleResultParams,
+  players: PlayerTradingData[],
+  metrics: BattleMetricDto[],
+  forfeitedSlots: number[],
+  teams: { slot: number; team: number }[],
+): CreateBattleResultDto {
+  const ranking = buildTeamRanking(metrics, teams, forfeitedSlots);
+  if (ranking.length === 0) {
+    throw new Error(`Battle ${params.battleId} has no teams to rank`);
+  }
+
+  const dataHash = hashBattleData(params.battleId, params.window, players);
+  const tied = ranking.filter((t) => t.rank === 1);
+  const winner = drawTiedWinner(tied, dataHash);
+
+  // every opposing team forfeited
+  const others = ranking.filter((t) => t !== winner);
+  const walkover =
+    others.length > 0 &&
+    others.every((t) => t.slots.every((s) => forfeitedSlots.includes(s)));
+
+  const stats = `${winner.roi.toFixed(2)}% average ROI (PnL ${winner.pnl.toFixed(2)} USD)`;
+
+  return {
+    description: walkover
+      ? `Team ${winner.team} wins by walkover with ${stats}`
+      : tied.length > 1
+        ? `Teams ${tied.map((t) => t.team).join(', ')} tie with ${stats}, the market resolves to team ${winner.team} by draw`
+        : `Team ${winner.team} wins with ${stats}`,
+    dataHash,
+    isCorrect: true,
+    codeCommitHash: toBytes16(params.codeCommitHash),
+    metrics,
+    outcome: winner.team - 1,
+    questionId: params.questionId,
+    forfeitedSlots,
+    teams,
+  };
+}
+
+/**
+ * Picks the winner among the players (or teams) tied at the top from the data
+ * hash: no slot is favoured and anyone can verify the draw.
+ */
+export function drawTiedWinner<T>(tied: T[], dataHash: string): T {
+  return tied[Number(BigInt(dataHash) % BigInt(tied.length))];
+}
+
+/**
+ * Deterministic bytes16 hash over every input of the evaluation, so anyone
+ * re-fetching the same fills and funding can verify the proposed outcome.
+ * Rows are sorted and serialized as fixed-order tuples to make the JSON canonical.
+ */
+export function hashBattleData(
+  battleId: string,
+  window: BattleWindow,
+  players: PlayerTradingData[],
+): string {
+  const canonical = JSON.stringify([
+    battleId,
+    window.startTime,
+    window.endTime,
+    [...players]
+      .sort((a, b) => a.slot - b.slot)
+      .map((p) => [
+        p.slot,
+        p.address.toLowerCase(),
+        p.stake,
+        p.forfeited,
+        // only team battles hash a team, free-for-all hashes are unchanged
+        ...(p.team !== undefined ? [p.team] : []),
+        [...p.fills]
+          .sort((a, b) => a.time - b.time || a.tid - b.tid)
+          .map((f) => [
+            f.tid,
+            f.time,
+            f.coin,
+            f.side,
+            f.px,
+            f.sz,
+            f.closedPnl,
+            f.fee,
+            f.startPosition,
+          ]),
+        [...p.funding]
+          .sort((a, b) => a.time - b.time || a.hash.localeCompare(b.hash))
+          .map((f) => [f.time, f.hash, f.coin, f.usdc]),
+        Object.entries(p.marks).sort(([a], [b]) => a.localeCompare(b)),
+      ]),
+  ]);
+
+  return toBytes16(keccak256(toBytes(canonical)));
+}
+
+/**
+ * Truncates (or right-pads) a hex string to bytes16, as expected by
+ * MatchSettlement.proposeOutcome. Non-hex input maps to zero bytes.
+ */
+export function toBytes16(value: string): string {
+  const hex = value.replace(/^0x/i, '');
+  if (!/^[0-9a-fA-F]*$/.test(hex)) return `0x${'0'.repeat(32)}`;
+  return `0x${hex.slice(0, 32).padEnd(32, '0').toLowerCase()}`;
+}
@@ -0,0 +1,35 @@
+import { containsLink, sanitizeChatMessage } from './chat-filter.util';
+
+describe('sanitizeChatMessage', () => {
+  it('trims and collapses whitespace', () => {
+    expect(sanitizeChatMessage('  long   BTC \n now ')).toBe('long BTC now');
+  });
+
+  it('masks profanity whatever its case', () => {
+    expect(sanitizeChatMessage('what the FUCK')).toBe('what the ****');
+  });
+
+  it('masks the usual inflections', () => {
+    expect(sanitizeChatMessage('fucking shitty bitches')).toBe(
+      '******* ****** *******',
+    );
+  });
+
+  it('leaves longer words that start with a masked one alone', () => {
+    expect(sanitizeChatMessage('another shitcoin pump')).toBe(
+      'another shitcoin pump',
+    );
+  });
+});
+
+describe('containsLink', () => {
+  it('detects urls and bare domains', () => {
+    expect(containsLink('claim at https://airdrop.example')).toBe(true);
+    expect(containsLink('go to www.example.org')).toBe(true);
+    expect(containsLink('free-usdc.xyz now')).toBe(true);
+  });
+
+  it('lets prices and tickers through', () => {
+    expect(containsLink('ETH at 3.5k, BTC.D rising')).toBe(false);
+  });
+});
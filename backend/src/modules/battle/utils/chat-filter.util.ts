@@ -0,0 +1,39 @@
+// words masked in chat messages, whole words with their usual inflections only
+// so longer words that merely start with one (e.g. "shitcoin") are left alone
+const PROFANITY = [
+  'fuck',
+  'shit',
+  'bitch',
+  'cunt',
+  'asshole',
+  'bastard',
+  'dickhead',
+  'motherfucker',
+  'whore',
+  'slut',
+];
+
+const INFLECTIONS = ['s', 'es', 'ed', 'er', 'ers', 'ing', 'ty', 'y'];
+
+const PROFANITY_PATTERN = new RegExp(
+  `\\b(${PROFANITY.join('|')})(${INFLECTIONS.join('|')})?\\b`,
+  'gi',
+);
+
+// urls, `www.` hosts and bare domains (scam links are the main spam in trading chats)
+const LINK_PATTERN =
+  /(https?:\/\/|www\.)\S+|\b[a-z0-9-]+\.(com|io|xyz|net|org|gg|me|co|app|ly|finance|exchange)\b/i;
+
+export function containsLink(content: string) {
+  return LINK_PATTERN.test(content);
+}
+
+/**
+ * Trims, collapses whitespace and masks profanity with `*`.
+ */
+export function sanitizeChatMessage(content: string) {
+  return content
+    .trim()
+    .replace(/\s+/g, ' ')
+    .replace(PROFANITY_PATTERN, (word) => '*'.repeat(word.length));
+}
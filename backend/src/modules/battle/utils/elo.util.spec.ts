@@ -0,0 +1,276 @@
+import { RatingConfig, RatingInput } from '../types/rating.types';
+import {
+  computeRatingChanges,
+  computeTeamRatingChanges,
+  deviationWeight,
+  expectedScore,
+  kFactor,
+} from './elo.util';
+
+const elo: RatingConfig = {
+  system: 'elo',
+  kFactorProvisional: 40,
+  kFactor: 20,
+  kFactorElite: 10,
+  provisionalGames: 30,
+  eliteRating: 2400,
+  maxDeviation: 350,
+  minDeviation: 30,
+};
+
+const glicko: RatingConfig = { ...elo, system: 'glicko' };
+
+function player(
+  userId: string,
+  rank: number,
+  overrides: Partial<RatingInput> = {},
+): RatingInput {
+  return {
+    userId,
+    rank,
+    rating: 1000,
+    deviation: 350,
+    gamesPlayed: 50,
+    ...overrides,
+  };
+}
+
+describe('expectedScore', () => {
+  it('is even between equal ratings', () => {
+    expect(expectedScore(1200, 1200)).toBe(0.5);
+  });
+
+  it('gives 10:1 odds for a 400 point gap', () => {
+    expect(expectedScore(1400, 1000)).toBeCloseTo(10 / 11);
+    expect(expectedScore(1000, 1400)).toBeCloseTo(1 / 11);
+  });
+
+  it('is pulled towards even by an uncertain opponent', () => {
+    const weight = deviationWeight(350);
+
+    expect(weight).toBeLessThan(1);
+    expect(expectedScore(1400, 1000, weight)).toBeLessThan(
+      expectedScore(1400, 1000),
+    );
+  });
+});
+
+describe('kFactor', () => {
+  it('uses the provisional K below provisionalGames', () => {
+    expect(kFactor(player('a', 1, { gamesPlayed: 29 }), elo)).toBe(40);
+    expect(kFactor(player('a', 1, { gamesPlayed: 30 }), elo)).toBe(20);
+  });
+
+  it('uses the elite K from eliteRating on', () => {
+    expect(kFactor(player('a', 1, { rating: 2399 }), elo)).toBe(20);
+    expect(kFactor(player('a', 1, { rating: 2400 }), elo)).toBe(10);
+  });
+
+  it('keeps provisional players on the provisional K even when elite', () => {
+    expect(kFactor(player('a', 1, { rating: 2500, gamesPlayed: 0 }), elo)).toBe(
+      40,
+    );
+  });
+});
+
+describe('computeRatingChanges', () => {
+  it('rates nothing without an opponent', () => {
+    expect(computeRatingChanges([], elo)).toEqual([]);
+    expect(computeRatingChanges([player('a', 1)], elo)).toEqual([]);
+  });
+
+  describe('elo', () => {
+    it('moves a 1v1 between equals by half the K-factor', () => {
+      const [winner, loser] = computeRatingChanges(
+        [player('a', 1), player('b', 2)],
+        elo,
+      );
+
+      expect(winner).toEqual({
+        userId: 'a',
+        rank: 1,
+        ratingBefore: 1000,
+        ratingAfter: 1010,
+        delta: 10,
+        expectedScore: 0.5,
+        actualScore: 1,
+        kFactor: 20,
+        deviationBefore: null,
+        deviationAfter: null,
+      });
+      expect(loser.delta).toBe(-10);
+      expect(loser.actualScore).toBe(0);
+    });
+
+    it('leaves a tie between equals unchanged', () => {
+      const changes = computeRatingChanges(
+        [player('a', 1), player('b', 1)],
+        elo,
+      );
+
+      expect(changes.map((c) => c.delta)).toEqual([0, 0]);
+      expect(changes.map((c) => c.actualScore)).toEqual([0.5, 0.5]);
+    });
+
+    it('scores a tie against a stronger player as a gain', () => {
+      const [weaker, stronger] = computeRatingChanges(
+        [player('a', 1), player('b', 1, { rating: 1400 })],
+        elo,
+      );
+
+      expect(weaker.delta).toBeGreaterThan(0);
+      expect(stronger.delta).toBe(-weaker.delta);
+    });
+
+    it('averages the pairwise games of a four player battle', () => {
+      const changes = computeRatingChanges(
+        [player('a', 1), player('b', 2), player('c', 3), player('d', 4)],
+        elo,
+      );
+
+      // K × (actual - 1.5) / 3 with actual = 3, 2, 1, 0
+      expect(changes.map((c) => c.delta)).toEqual([10, 3, -3, -10]);
+      expect(changes.map((c) => c.actualScore)).toEqual([1, 2 / 3, 1 / 3, 0]);
+    });
+
+    it('rewards an upset more than an expected win', () => {
+      const [upset] = computeRatingChanges(
+        [player('a', 1), player('b', 2, { rating: 1400 })],
+        elo,
+      );
+      const [expected] = computeRatingChanges(
+        [player('a', 1, { rating: 1400 }), player('b', 2)],
+        elo,
+      );
+
+      expect(upset.delta).toBe(18);
+      expect(expected.delta).toBe(2);
+    });
+
+    it('applies each player their own K-factor', () => {
+      const [newcomer, veteran] = computeRatingChanges(
+        [player('a', 1, { gamesPlayed: 0 }), player('b', 2)],
+        elo,
+      );
+
+      expect(newcomer).toMatchObject({ kFactor: 40, delta: 20 });
+      expect(veteran).toMatchObject({ kFactor: 20, delta: -10 });
+    });
+
+    it('rounds half deltas up, so a zero-sum game can gain a point', () => {
+      const changes = computeRatingChanges([player('a', 1), player('b', 2)], {
+        ...elo,
+        kFactor: 15,
+      });
+
+      // ±7.5
+      expect(changes.map((c) => c.delta)).toEqual([8, -7]);
+    });
+  });
+
+  describe('glicko', () => {
+    it('moves equals symmetrically and shrinks their deviation', () => {
+      const [winner, loser] = computeRatingChanges(
+        [player('a', 1), player('b', 2)],
+        glicko,
+      );
+
+      expect(winner.delta).toBeGreaterThan(0);
+      expect(loser.delta).toBe(-winner.delta);
+      expect(winner.kFactor).toBeNull();
+      expect(winner.deviationBefore).toBe(350);
+      expect(winner.deviationAfter).toBeLessThan(350);
+      expect(loser.deviationAfter).toBe(winner.deviationAfter);
+    });
+
+    it('moves an uncertain rating more than a settled one', () => {
+      const [uncertain, settled] = computeRatingChanges(
+        [player('a', 1, { deviation: 300 }), player('b', 2, { deviation: 50 })],
+        glicko,
+      );
+
+      expect(uncertain.delta).toBeGreaterThan(-settled.delta);
+    });
+
+    it('never lowers the deviation below minDeviation', () => {
+      const changes = computeRatingChanges(
+        [player('a', 1, { deviation: 30 }), player('b', 2, { deviation: 30 })],
+        glicko,
+      );
+
+      expect(changes.map((c) => c.deviationAfter)).toEqual([30, 30]);
+    });
+
+    it('leaves a tie between equals unchanged', () => {
+      const changes = computeRatingChanges(
+        [player('a', 1), player('b', 1)],
+        glicko,
+      );
+
+      expect(changes.map((c) => c.delta)).toEqual([0, 0]);
+    });
+  });
+});
+
+describe('computeTeamRatingChanges', () => {
+  const team = (t: number, userId: string, rank: number, rating = 1000) => ({
+    ...player(userId, rank, { rating }),
+    team: t,
+  });
+
+  it('gives every member of the winning team the same gain', () => {
+    const changes = computeTeamRatingChanges(
+      [team(1, 'a', 1), team(1, 'b', 1), team(2, 'c', 2), team(2, 'd', 2)],
+      elo,
+    );
+
+    expect(changes.map((c) => [c.userId, c.delta])).toEqual([
+      ['a', 10],
+      ['b', 10],
+      ['c', -10],
+      ['d', -10],
+    ]);
+    expect(changes[0].actualScore).toBe(1);
+  });
+
+  it('rates a team on the average rating of its members', () => {
+    // both teams average 1000, so the win is even odds
+    const changes = computeTeamRatingChanges(
+      [
+        team(1, 'a', 1, 1200),
+        team(1, 'b', 1, 800),
+        team(2, 'c', 2),
+        team(2, 'd', 2),
+      ],
+      elo,
+    );
+
+    expect(changes[0]).toMatchObject({
+      userId: 'a',
+      ratingBefore: 1200,
+      ratingAfter: 1210,
+      expectedScore: 0.5,
+    });
+    expect(changes[1]).toMatchObject({ ratingBefore: 800, ratingAfter: 810 });
+  });
+
+  it('uses the provisional K while a member is provisional', () => {
+    const changes = computeTeamRatingChanges(
+      [
+        { ...team(1, 'a', 1), gamesPlayed: 3 },
+        team(1, 'b', 1),
+        team(2, 'c', 2),
+        team(2, 'd', 2),
+      ],
+      elo,
+    );
+
+    expect(changes.find((c) => c.userId === 'b')?.delta).toBe(20);
+  });
+
+  it('rates nothing with a single team', () => {
+    expect(
+      computeTeamRatingChanges([team(1, 'a', 1), team(1, 'b', 1)], elo),
+    ).toEqual([]);
+  });
+});
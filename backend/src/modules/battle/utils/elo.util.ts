@@ -1,5 +1,151 @@
-export function computeEloDelta(rank: number, total: number) {
-  if (rank === 1) return +25;
-  if (rank === total) return -25;
-  return 0;
+import {
+  RatingChangeResult,
+  RatingConfig,
+  RatingInput,
+} from '../types/rating.types';
+
+const Q = Math.log(10) / 400;
+
+/**
+ * Probability that a player rated `rating` beats one rated `opponent`.
+ * `weight` is the Glicko g(RD) of the opponent (1 for plain ELO).
+ */
+export function expectedScore(rating: number, opponent: number, weight = 1) {
+  return 1 / (1 + Math.pow(10, (-weight * (rating - opponent)) / 400));
+}
+
+/**
+ * Glicko g(RD): the less certain the opponent's rating, the less a game against them counts.
+ */
+export function deviationWeight(deviation: number) {
+  return (
+    1 / Math.sqrt(1 + (3 * Q * Q * deviation * deviation) / (Math.PI * Math.PI))
+  );
+}
+
+export function kFactor(player: RatingInput, config: RatingConfig) {
+  if (player.gamesPlayed < config.provisionalGames) {
+    return config.kFactorProvisional;
+  }
+  if (player.rating >= config.eliteRating) return config.kFactorElite;
+  return config.kFactor;
+}
+
+/**
+ * Multiplayer rating update: a battle of N players is scored as N - 1 pairwise
+ * games per player (win against everyone ranked below, loss against everyone above).
+ * - elo: delta = K × Σ(actual - expected) / (N - 1)
+ * - glicko: Glicko-1 update over the pairwise games, deviation shrinks after each battle
+ */
+export function computeRatingChanges(
+  players: RatingInput[],
+  config: RatingConfig,
+): RatingChangeResult[] {
+  const opponents = players.length - 1;
+  if (opponents < 1) return [];
+
+  return players.map((player) => {
+    let expected = 0;
+    let actual = 0;
+    let weightedSurprise = 0; // Σ g(RDj) × (s - E)
+    let information = 0; // Σ g(RDj)² × E × (1 - E)
+
+    for (const other of players) {
+      if (other.userId === player.userId) continue;
+
+      const g =
+        config.system === 'glicko' ? deviationWeight(other.deviation) : 1;
+      const e = expectedScore(player.rating, other.rating, g);
+      const s =
+        player.rank < other.rank ? 1 : player.rank > other.rank ? 0 : 0.5;
+
+      expected += e;
+      actual += s;
+      weightedSurprise += g * (s - e);
+      information += g * g * e * (1 - e);
+    }
+
+    const base = {
+      userId: player.userId,
+      rank: player.rank,
+      ratingBefore: player.rating,
+      expectedScore: expected / opponents,
+      actualScore: actual / opponents,
+    };
+
+    if (config.system === 'glicko') {
+      const dSquared = 1 / (Q * Q * information);
+      const precision =
+        1 / (player.deviation * player.deviation) + 1 / dSquared;
+      const delta = Math.round((Q / precision) * weightedSurprise);
+      const deviationAfter = Math.max(
+        config.minDeviation,
+        Math.sqrt(1 / precision),
+      );
+
+      return {
+        ...base,
+        ratingAfter: player.rating + delta,
+        delta,
+        kFactor: null,
+        deviationBefore: player.deviation,
+        deviationAfter,
+      };
+    }
+
+    const k = kFactor(player, config);
+    const delta = Math.round((k * (actual - expected)) / opponents);
+
+    return {
+      ...base,
+      ratingAfter: player.rating + delta,
+      delta,
+      kFactor: k,
+      deviationBefore: null,
+      deviationAfter: null,
+    };
+  });
+}
+
+/**
+ * Team battle rating update: every team is rated as one player (average rating
+ * and deviation of its members, fewest games played for the K-factor) against
+ * the other teams, and each member gets their team's delta.
+ */
+export function computeTeamRatingChanges(
+  players: (RatingInput & { team: number })[],
+  config: RatingConfig,
+): RatingChangeResult[] {
+  const teams = [...new Set(players.map((p) => p.team))].map((team) => {
+    const members = players.filter((p) => p.team === team);
+    const average = (value: (p: RatingInput) => number) =>
+      members.reduce((sum, p) => sum + value(p), 0) / members.length;
+
+    return {
+      members,
+      input: {
+        userId: `team:${team}`,
+        rating: average((p) => p.rating),
+        deviation: average((p) => p.deviation),
+        gamesPlayed: Math.min(...members.map((p) => p.gamesPlayed)),
+        rank: members[0].rank,
+      },
+    };
+  });
+
+  const changes = computeRatingChanges(
+    teams.map((t) => t.input),
+    config,
+  );
+  if (changes.length === 0) return [];
+
+  return teams.flatMap(({ members }, i) =>
+    members.map((member) => ({
+      ...changes[i],
+      userId: member.userId,
+      ratingBefore: member.rating,
+      ratingAfter: member.rating + changes[i].delta,
+      deviationBefore: config.system === 'glicko' ? member.deviation : null,
+    })),
+  );
 }
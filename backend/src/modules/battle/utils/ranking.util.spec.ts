@@ -0,0 +1,207 @@
+import { MetricType } from '@prisma/client';
+import { BattleMetricDto } from '../dto/battle-result.dto';
+import { buildRanking, buildTeamRanking, rankSlots } from './ranking.util';
+
+function metrics(
+  players: { slot: number; roi: number; pnl: number }[],
+): BattleMetricDto[] {
+  return players.flatMap(({ slot, roi, pnl }) => [
+    { metric: MetricType.ROI, playerSlot: slot, value: roi },
+    { metric: MetricType.PNL, playerSlot: slot, value: pnl },
+  ]);
+}
+
+describe('buildRanking', () => {
+  it('ranks players by ROI, best first', () => {
+    const ranking = buildRanking(
+      metrics([
+        { slot: 1, roi: -5, pnl: -50 },
+        { slot: 2, roi: 12, pnl: 120 },
+        { slot: 3, roi: 3, pnl: 30 },
+      ]),
+    );
+
+    expect(ranking).toEqual([
+      { slot: 2, rank: 1 },
+      { slot: 3, rank: 2 },
+      { slot: 1, rank: 3 },
+    ]);
+  });
+
+  it('breaks ROI ties on absolute PnL', () => {
+    const ranking = buildRanking(
+      metrics([
+        { slot: 1, roi: 10, pnl: 100 },
+        { slot: 2, roi: 10, pnl: 500 },
+      ]),
+    );
+
+    expect(ranking.map((r) => r.slot)).toEqual([2, 1]);
+  });
+
+  it('gives players on a full tie the same rank', () => {
+    const ranking = buildRanking(
+      metrics([
+        { slot: 1, roi: 0, pnl: 0 },
+        { slot: 2, roi: 0, pnl: 0 },
+      ]),
+    );
+
+    expect(ranking).toEqual([
+      { slot: 1, rank: 1 },
+      { slot: 2, rank: 1 },
+    ]);
+  });
+
+  it('skips the ranks taken by a tie', () => {
+    const ranking = buildRanking(
+      metrics([
+        { slot: 1, roi: 5, pnl: 50 },
+        { slot: 2, roi: 5, pnl: 50 },
+        { slot: 3, roi: 1, pnl: 10 },
+      ]),
+    );
+
+    expect(ranking.map((r) => r.rank)).toEqual([1, 1, 3]);
+  });
+
+  it('does not tie a forfeited player with one who stayed', () => {
+    const ranking = buildRanking(
+      metrics([
+        { slot: 1, roi: 0, pnl: 0 },
+        { slot: 2, roi: 0, pnl: 0 },
+      ]),
+      [1],
+    );
+
+    expect(ranking).toEqual([
+      { slot: 2, rank: 1 },
+      { slot: 1, rank: 2 },
+    ]);
+  });
+
+  it('ranks forfeited players last whatever their ROI', () => {
+    const ranking = buildRanking(
+      metrics([
+        { slot: 1, roi: 50, pnl: 500 },
+        { slot: 2, roi: -20, pnl: -200 },
+        { slot: 3, roi: 5, pnl: 50 },
+      ]),
+      [1],
+    );
+
+    expect(ranking.map((r) => r.slot)).toEqual([3, 2, 1]);
+  });
+
+  it('orders forfeited players among themselves by ROI', () => {
+    const ranking = buildRanking(
+      metrics([
+        { slot: 1, roi: -10, pnl: -100 },
+        { slot: 2, roi: 10, pnl: 100 },
+        { slot: 3, roi: 0, pnl: 0 },
+      ]),
+      [1, 2],
+    );
+
+    expect(ranking.map((r) => r.slot)).toEqual([3, 2, 1]);
+  });
+});
+
+describe('buildTeamRanking', () => {
+  const teams = [
+    { slot: 1, team: 1 },
+    { slot: 2, team: 1 },
+    { slot: 3, team: 2 },
+    { slot: 4, team: 2 },
+  ];
+
+  it('ranks teams on the average ROI of their members', () => {
+    const ranking = buildTeamRanking(
+      metrics([
+        { slot: 1, roi: 30, pnl: 300 },
+        { slot: 2, roi: -20, pnl: -200 },
+        { slot: 3, roi: 4, pnl: 40 },
+        { slot: 4, roi: 4, pnl: 40 },
+      ]),
+      teams,
+    );
+
+    expect(ranking).toEqual([
+      { team: 1, slots: [1, 2], roi: 5, pnl: 100, rank: 1 },
+      { team: 2, slots: [3, 4], roi: 4, pnl: 80, rank: 2 },
+    ]);
+  });
+
+  it('breaks average ROI ties on total PnL', () => {
+    const ranking = buildTeamRanking(
+      metrics([
+        { slot: 1, roi: 10, pnl: 100 },
+        { slot: 2, roi: 10, pnl: 100 },
+        { slot: 3, roi: 10, pnl: 100 },
+        { slot: 4, roi: 10, pnl: 300 },
+      ]),
+      teams,
+    );
+
+    expect(ranking.map((t) => t.team)).toEqual([2, 1]);
+  });
+
+  it('gives teams on a full tie the same rank', () => {
+    const ranking = buildTeamRanking(
+      metrics([
+        { slot: 1, roi: 10, pnl: 100 },
+        { slot: 2, roi: 0, pnl: 0 },
+        { slot: 3, roi: 5, pnl: 50 },
+        { slot: 4, roi: 5, pnl: 50 },
+      ]),
+      teams,
+    );
+
+    expect(ranking.map((t) => t.rank)).toEqual([1, 1]);
+  });
+
+  it('only ranks a team last when every member forfeited', () => {
+    const players = metrics([
+      { slot: 1, roi: 20, pnl: 200 },
+      { slot: 2, roi: 20, pnl: 200 },
+      { slot: 3, roi: 0, pnl: 0 },
+      { slot: 4, roi: 0, pnl: 0 },
+    ]);
+
+    expect(buildTeamRanking(players, teams, [1])[0].team).toBe(1);
+    expect(buildTeamRanking(players, teams, [1, 2])[0].team).toBe(2);
+  });
+});
+
+describe('rankSlots', () => {
+  const players = metrics([
+    { slot: 1, roi: 1, pnl: 10 },
+    { slot: 2, roi: 8, pnl: 80 },
+    { slot: 3, roi: 5, pnl: 50 },
+    { slot: 4, roi: 2, pnl: 20 },
+  ]);
+
+  it('returns the individual ranking in a free-for-all', () => {
+    expect(rankSlots(players)).toEqual(buildRanking(players));
+  });
+
+  it('gives teammates the rank of their team', () => {
+    const ranking = rankSlots(
+      players,
+      [],
+      [
+        { slot: 1, team: 1 },
+        { slot: 2, team: 2 },
+        { slot: 3, team: 1 },
+        { slot: 4, team: 2 },
+      ],
+    );
+
+    expect(ranking).toEqual([
+      { slot: 2, rank: 1 },
+      { slot: 4, rank: 1 },
+      { slot: 3, rank: 2 },
+      { slot: 1, rank: 2 },
+    ]);
+  });
+});
@@ -1,12 +1,112 @@
 import { BattleMetricDto } from '../dto/battle-result.dto';
 
-export function buildRanking(metrics: BattleMetricDto[]) {
+/**
+ * Ranks players by ROI, best first. Tied players (same forfeit, ROI and PnL)
+ * share a rank and the next rank is skipped, e.g. 1, 1, 3.
+ */
+export function buildRanking(
+  metrics: BattleMetricDto[],
+  forfeitedSlots: number[] = [],
+) {
   const roi = metrics.filter((m) => m.metric === 'ROI');
+  const pnl = (slot: number) =>
+    metrics.find((m) => m.metric === 'PNL' && m.playerSlot === slot)?.value ??
+    0;
+  const forfeited = (slot: number) => (forfeitedSlots.includes(slot) ? 1 : 0);
 
-  return roi
-    .sort((a, b) => b.value - a.value)
-    .map((m, i) => ({
-      slot: m.playerSlot,
-      rank: i + 1,
-    }));
+  // players who forfeited rank below everyone else, whatever their ROI
+  // ties on ROI are broken by absolute PnL
+  const compare = (a: BattleMetricDto, b: BattleMetricDto) =>
+    forfeited(a.playerSlot) - forfeited(b.playerSlot) ||
+    b.value - a.value ||
+    pnl(b.playerSlot) - pnl(a.playerSlot);
+
+  return withSharedRanks(roi.sort(compare), compare).map(({ item, rank }) => ({
+    slot: item.playerSlot,
+    rank,
+  }));
+}
+
+export interface SlotTeam {
+  slot: number;
+  team: number;
+}
+
+/**
+ * Ranks the teams of a team battle on the average ROI of their members, ties
+ * broken by total PnL (full ties share a rank). A team only ranks last when
+ * every member forfeited.
+ */
+export function buildTeamRanking(
+  metrics: BattleMetricDto[],
+  teams: SlotTeam[],
+  forfeitedSlots: number[] = [],
+) {
+  const value = (metric: string, slot: number) =>
+    metrics.find((m) => m.metric === metric && m.playerSlot === slot)?.value ??
+    0;
+
+  const aggregated = [...new Set(teams.map((t) => t.team))].map((team) => {
+    const slots = teams.filter((t) => t.team === team).map((t) => t.slot);
+    return {
+      team,
+      slots,
+      roi: slots.reduce((sum, s) => sum + value('ROI', s), 0) / slots.length,
+      pnl: slots.reduce((sum, s) => sum + value('PNL', s), 0),
+      forfeited: slots.every((s) => forfeitedSlots.includes(s)) ? 1 : 0,
+    };
+  });
+
+  const compare = (a: (typeof aggregated)[number], b: typeof a) =>
+    a.forfeited - b.forfeited || b.roi - a.roi || b.pnl - a.pnl;
+
+  return withSharedRanks(aggregated.sort(compare), compare).map(
+    ({ item: t, rank }) => ({
+      team: t.team,
+      slots: t.slots,
+      roi: t.roi,
+      pnl: t.pnl,
+      rank,
+    }),
+  );
+}
+
+/**
+ * Competition ranking of a sorted list: an item comparing equal to the one
+ * before it gets the same rank.
+ */
+function withSharedRanks<T>(sorted: T[], compare: (a: T, b: T) => number) {
+  const ranked: { item: T; rank: number }[] = [];
+  sorted.forEach((item, i) => {
+    const previous = ranked[i - 1];
+    ranked.push({
+      item,
+      rank:
+        previous && compare(previous.item, item) === 0 ? previous.rank : i + 1,
+    });
+  });
+  return ranked;
+}
+
+/**
+ * Rank of every slot, best first: its own in a free-for-all, its team's in a
+ * team battle (teammates share the rank, listed in their individual order).
+ */
+export function rankSlots(
+  metrics: BattleMetricDto[],
+  forfeitedSlots: number[] = [],
+  teams: SlotTeam[] = [],
+) {
+  const ranking = buildRanking(metrics, forfeitedSlots);
+  if (teams.length === 0) return ranking;
+
+  const teamRanking = buildTeamRanking(metrics, teams, forfeitedSlots);
+  return ranking
+    .map(({ slot }) => ({
+      slot,
+      rank:
+        teamRanking.find((t) => t.slots.includes(slot))?.rank ??
+        teamRanking.length + 1,
+    }))
+    .sort((a, b) => a.rank - b.rank);
 }
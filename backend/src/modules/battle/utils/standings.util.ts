@@ -0,0 +1,41 @@
+import { BattleMetricDto } from '../dto/battle-result.dto';
+import { BattleStandingDto } from '../dto/battle-browser.dto';
+import { rankSlots } from './ranking.util';
+
+/**
+ * Turns per-slot battle metrics into standings, best first.
+ * Uses the same ranking as the battle result (ROI, forfeits last, team ROI
+ * when players have a team).
+ */
+export function buildStandings(
+  players: { slot: number; userId: string; team: number | null }[],
+  metrics: BattleMetricDto[],
+  forfeitedSlots: number[] = [],
+): BattleStandingDto[] {
+  const value = (slot: number, metric: BattleMetricDto['metric']) =>
+    metrics.find((m) => m.metric === metric && m.playerSlot === slot)?.value ??
+    0;
+
+  const teams = players.flatMap((p) =>
+    p.team !== null ? [{ slot: p.slot, team: p.team }] : [],
+  );
+
+  return rankSlots(metrics, forfeitedSlots, teams).flatMap(({ slot, rank }) => {
+    const player = players.find((p) => p.slot === slot);
+    if (!player) return [];
+
+    return [
+      {
+        rank,
+        slot,
+        team: player.team,
+        userId: player.userId,
+        pnl: value(slot, 'PNL'),
+        roi: value(slot, 'ROI'),
+        volume: value(slot, 'VOLUME'),
+        winRate: value(slot, 'WIN_RATE'),
+        forfeited: forfeitedSlots.includes(slot),
+      },
+    ];
+  });
+}
@@ -0,0 +1,18 @@
+/**
+ * Orders placed by an agent wallet settle on the account that approved it,
+ * so fills, funding and balances are looked up on the master address when known.
+ */
+export function resolveTradingAddress(user: {
+  evmAddress: string | null;
+  hypercoreWallet: {
+    agentAddress: string;
+    masterAddress: string | null;
+  } | null;
+}): `0x${string}` | null {
+  const address =
+    user.hypercoreWallet?.masterAddress ??
+    user.evmAddress ??
+    user.hypercoreWallet?.agentAddress ??
+    null;
+  return address as `0x${string}` | null;
+}
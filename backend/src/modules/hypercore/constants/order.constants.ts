@@ -0,0 +1,13 @@
+// Max slippage of a market order from mid, in basis points
+export const DEFAULT_MAX_SLIPPAGE_BPS = 500; // 5%
+export const MAX_SLIPPAGE_BPS = 2000; // 20%
+
+// Max number of orders in one batch place/modify request
+export const MAX_BATCH_ORDERS = 20;
+
+// Client-chosen key making an order submission safe to retry
+export const IDEMPOTENCY_KEY_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+// Age after which a PENDING idempotent request is taken as crashed and checked
+// against Hyperliquid before the key can be claimed again
+export const PENDING_ORDER_REQUEST_TTL_MS = 2 * 60 * 1000;
@@ -0,0 +1,22 @@
+import { applyDecorators } from '@nestjs/common';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsOptional, Matches } from 'class-validator';
+import { IDEMPOTENCY_KEY_PATTERN } from '../constants/order.constants';
+
+/**
+ * Optional `idempotencyKey` of an order-placing DTO (see IdempotencyInterceptor).
+ * `cloidNote` tells how the key maps to the cloids of the placed orders.
+ */
+export const IdempotencyKey = (
+  cloidNote = 'Mapped to the Hyperliquid cloid.',
+) =>
+  applyDecorators(
+    ApiPropertyOptional({
+      description: `Retrying with the same key returns the first result instead of placing the order again. ${cloidNote}`,
+      example: '7d1f2c4e-9b0a-4f6e-8c3d-2a5b6e7f8091',
+    }),
+    IsOptional(),
+    Matches(IDEMPOTENCY_KEY_PATTERN, {
+      message: 'idempotencyKey must be 1-64 letters, digits, "-" or "_"',
+    }),
+  );
@@ -0,0 +1,182 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Transform, Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsArray,
+  IsBoolean,
+  IsIn,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Matches,
+  Max,
+  Min,
+  ValidateIf,
+  ValidateNested,
+} from 'class-validator';
+import {
+  DEFAULT_MAX_SLIPPAGE_BPS,
+  MAX_BATCH_ORDERS,
+  MAX_SLIPPAGE_BPS,
+} from '../constants/order.constants';
+import { CLOID_PATTERN } from '../utils/cloid.util';
+import { IdempotencyKey } from '../decorators/idempotency-key.decorator';
+
+// ==================== MODIFY ORDERS ====================
+
+export class ModifyOrderDto {
+  @ApiProperty({ description: 'Trading pair symbol', example: 'BTC' })
+  @IsString()
+  coin: string;
+
+  @ApiPropertyOptional({
+    description: 'Order ID to modify (or use cloid)',
+    example: 39961606288,
+  })
+  @ValidateIf((o) => o.cloid === undefined)
+  @IsNumber()
+  @Min(0)
+  oid?: number;
+
+  @ApiPropertyOptional({
+    description: 'Client order ID to modify (or use oid)',
+    example: '0x1234567890abcdef1234567890abcdef',
+  })
+  @ValidateIf((o) => o.oid === undefined)
+  @Matches(CLOID_PATTERN, {
+    message: 'cloid must be 0x followed by 32 lowercase hex characters',
+  })
+  cloid?: string;
+
+  @ApiPropertyOptional({ description: 'New limit price', example: '64800.00' })
+  @IsOptional()
+  @IsString()
+  price?: string;
+
+  @ApiPropertyOptional({ description: 'New size', example: '0.5' })
+  @IsOptional()
+  @IsString()
+  size?: string;
+
+  @ApiPropertyOptional({
+    description: 'New trigger price (TP/SL orders only)',
+    example: '70000.00',
+  })
+  @IsOptional()
+  @IsString()
+  triggerPrice?: string;
+}
+
+export class BatchModifyOrdersDto {
+  @ApiProperty({ type: [ModifyOrderDto], maxItems: MAX_BATCH_ORDERS })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(MAX_BATCH_ORDERS)
+  @ValidateNested({ each: true })
+  @Type(() => ModifyOrderDto)
+  modifies: ModifyOrderDto[];
+}
+
+// ==================== BATCH PLACE ====================
+
+export type BatchOrderType = 'limit' | 'market' | 'takeProfit' | 'stopLoss';
+
+export class BatchOrderDto {
+  @ApiProperty({ description: 'Trading pair symbol', example: 'BTC' })
+  @IsString()
+  coin: string;
+
+  @ApiProperty({
+    description:
+      'limit, market (IOC priced from the book), or a takeProfit/stopLoss trigger',
+    enum: ['limit', 'market', 'takeProfit', 'stopLoss'],
+    example: 'limit',
+  })
+  @IsIn(['limit', 'market', 'takeProfit', 'stopLoss'])
+  type: BatchOrderType;
+
+  @ApiProperty({
+    description: 'true = buy, false = sell',
+    example: true,
+  })
+  @Transform(({ value }) => {
+    if (typeof value === 'string') return value === 'true';
+    return Boolean(value);
+  })
+  @IsBoolean()
+  isBuy: boolean;
+
+  @ApiProperty({ description: 'Order size', example: '0.5' })
+  @IsString()
+  size: string;
+
+  @ApiPropertyOptional({
+    description: 'Limit or execution price (not used by market orders)',
+    example: '65000.50',
+  })
+  @ValidateIf((o) => o.type !== 'market')
+  @IsString()
+  price?: string;
+
+  @ApiPropertyOptional({
+    description: 'Trigger price (takeProfit/stopLoss only)',
+    example: '70000.00',
+  })
+  @ValidateIf((o) => o.type === 'takeProfit' || o.type === 'stopLoss')
+  @IsString()
+  triggerPrice?: string;
+
+  @ApiPropertyOptional({
+    description: 'Reduce-only; always true for takeProfit/stopLoss',
+    default: false,
+  })
+  @Transform(({ value }) => {
+    if (value === undefined || value === null) return false;
+    if (typeof value === 'string') return value === 'true';
+    return Boolean(value);
+  })
+  @IsOptional()
+  @IsBoolean()
+  reduceOnly?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'true = Add Liquidity Only (ALO), limit orders only',
+    default: false,
+  })
+  @Transform(({ value }) => {
+    if (value === undefined || value === null) return false;
+    if (typeof value === 'string') return value === 'true';
+    return Boolean(value);
+  })
+  @IsOptional()
+  @IsBoolean()
+  postOnly?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Max slippage of a market order from mid, in basis points',
+    default: DEFAULT_MAX_SLIPPAGE_BPS,
+    minimum: 1,
+    maximum: MAX_SLIPPAGE_BPS,
+  })
+  @Type(() => Number)
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(MAX_SLIPPAGE_BPS)
+  maxSlippageBps?: number;
+}
+
+export class BatchPlaceOrdersDto {
+  @ApiProperty({ type: [BatchOrderDto], maxItems: MAX_BATCH_ORDERS })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(MAX_BATCH_ORDERS)
+  @ValidateNested({ each: true })
+  @Type(() => BatchOrderDto)
+  orders: BatchOrderDto[];
+
+  @IdempotencyKey('Mapped to the cloids of the orders.')
+  idempotencyKey?: string;
+}
@@ -2,6 +2,7 @@ export {
   TimeInForce,
   CloseAllType,
   CancelOrderDto,
+  CancelByCloidDto,
   OpenLimitOrderDto,
   OpenMarketOrderDto,
   CloseLimitOrderDto,
@@ -11,6 +12,16 @@ export {
   TwapDto,
   CloseAllPositionsDto,
   SetIsolatedModeDto,
+  BracketOrderDto,
+  CancelBracketOrderDto,
+  ModifyBracketOrderDto,
 } from './order.dto';
 
 export { UpdateLeverageDto } from './update-leverage.dto';
+export { MarketsQueryDto } from './markets-query.dto';
+export {
+  ModifyOrderDto,
+  BatchModifyOrdersDto,
+  BatchOrderDto,
+  BatchPlaceOrdersDto,
+} from './batch-order.dto';
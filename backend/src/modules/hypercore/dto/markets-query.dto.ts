@@ -0,0 +1,14 @@
+import { IsIn, IsOptional } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { MarketType } from '../types/hyperliquid.types';
+
+export class MarketsQueryDto {
+  @ApiProperty({
+    description: 'Only list perp or spot markets',
+    enum: ['perp', 'spot'],
+    required: false,
+  })
+  @IsIn(['perp', 'spot'])
+  @IsOptional()
+  type?: MarketType;
+}
@@ -1,6 +1,9 @@
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 import { Transform, Type } from 'class-transformer';
-import { IsBoolean, IsNumber, IsOptional, IsString, Min, Max, ValidateNested } from 'class-validator';
+import { IsBoolean, IsIn, IsInt, IsNumber, IsOptional, IsString, Matches, Min, Max, ValidateNested } from 'class-validator';
+import { DEFAULT_MAX_SLIPPAGE_BPS, MAX_SLIPPAGE_BPS } from '../constants/order.constants';
+import { BRACKET_ID_PATTERN, CLOID_PATTERN } from '../utils/cloid.util';
+import { IdempotencyKey } from '../decorators/idempotency-key.decorator';
 
 export enum TimeInForce {
   GTC = 'Gtc',
@@ -26,6 +29,16 @@ export class CancelOrderDto {
   oid: number;
 }
 
+export class CancelByCloidDto {
+  @ApiProperty({ description: 'Trading pair symbol (e.g., "BTC", "ETH")', example: 'BTC' })
+  @IsString()
+  coin: string;
+
+  @ApiProperty({ description: 'Client order ID to cancel', example: '0x1234567890abcdef1234567890abcdef' })
+  @Matches(CLOID_PATTERN, { message: 'cloid must be 0x followed by 32 lowercase hex characters' })
+  cloid: string;
+}
+
 // ==================== OPEN POSITION ORDERS ====================
 
 export class OpenLimitOrderDto {
@@ -58,6 +71,9 @@ export class OpenLimitOrderDto {
   @IsOptional()
   @IsBoolean()
   postOnly?: boolean;
+
+  @IdempotencyKey()
+  idempotencyKey?: string;
 }
 
 export class OpenMarketOrderDto {
@@ -76,6 +92,23 @@ export class OpenMarketOrderDto {
   @ApiProperty({ description: 'Position size', example: '0.5' })
   @IsString()
   size: string;
+
+  @ApiPropertyOptional({
+    description: 'Max distance of the average fill price from mid, in basis points',
+    default: DEFAULT_MAX_SLIPPAGE_BPS,
+    minimum: 1,
+    maximum: MAX_SLIPPAGE_BPS,
+    example: 50,
+  })
+  @Type(() => Number)
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(MAX_SLIPPAGE_BPS)
+  maxSlippageBps?: number;
+
+  @IdempotencyKey()
+  idempotencyKey?: string;
 }
 
 // ==================== CLOSE POSITION ORDERS ====================
@@ -102,6 +135,9 @@ export class CloseLimitOrderDto {
   @IsOptional()
   @IsBoolean()
   postOnly?: boolean;
+
+  @IdempotencyKey()
+  idempotencyKey?: string;
 }
 
 export class CloseMarketOrderDto {
@@ -112,6 +148,23 @@ export class CloseMarketOrderDto {
   @ApiProperty({ description: 'Position size to close', example: '0.5' })
   @IsString()
   size: string;
+
+  @ApiPropertyOptional({
+    description: 'Max distance of the average fill price from mid, in basis points',
+    default: DEFAULT_MAX_SLIPPAGE_BPS,
+    minimum: 1,
+    maximum: MAX_SLIPPAGE_BPS,
+    example: 50,
+  })
+  @Type(() => Number)
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(MAX_SLIPPAGE_BPS)
+  maxSlippageBps?: number;
+
+  @IdempotencyKey()
+  idempotencyKey?: string;
 }
 
 // ==================== TP/SL ORDERS ====================
@@ -140,6 +193,9 @@ export class TakeProfitOrderDto {
   @ApiProperty({ description: 'Take profit trigger price', example: '70000.00' })
   @IsString()
   takeProfitTrigger: string;
+
+  @IdempotencyKey()
+  idempotencyKey?: string;
 }
 
 export class StopLossOrderDto {
@@ -166,6 +222,123 @@ export class StopLossOrderDto {
   @ApiProperty({ description: 'Stop loss trigger price', example: '60000.00' })
   @IsString()
   stopLossTrigger: string;
+
+  @IdempotencyKey()
+  idempotencyKey?: string;
+}
+
+// ==================== BRACKET ORDERS ====================
+
+export class BracketOrderDto {
+  @ApiProperty({ description: 'Trading pair symbol', example: 'BTC' })
+  @IsString()
+  coin: string;
+
+  @ApiProperty({ description: 'true = LONG (buy), false = SHORT (sell)', example: true })
+  @Transform(({ value }) => {
+    if (typeof value === 'string') return value === 'true';
+    return Boolean(value);
+  })
+  @IsBoolean()
+  isBuy: boolean;
+
+  @ApiProperty({ description: 'Position size', example: '0.5' })
+  @IsString()
+  size: string;
+
+  @ApiPropertyOptional({ description: 'Entry limit price; omit for a market entry', example: '65000.50' })
+  @IsOptional()
+  @IsString()
+  price?: string;
+
+  @ApiPropertyOptional({ description: 'true = Add Liquidity Only (ALO), limit entry only', example: false })
+  @Transform(({ value }) => {
+    if (value === undefined || value === null) return false;
+    if (typeof value === 'string') return value === 'true';
+    return Boolean(value);
+  })
+  @IsOptional()
+  @IsBoolean()
+  postOnly?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Max slippage of a market entry from mid, in basis points',
+    default: DEFAULT_MAX_SLIPPAGE_BPS,
+    minimum: 1,
+    maximum: MAX_SLIPPAGE_BPS,
+  })
+  @Type(() => Number)
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(MAX_SLIPPAGE_BPS)
+  maxSlippageBps?: number;
+
+  @ApiProperty({ description: 'Take profit execution price', example: '70000.00' })
+  @IsString()
+  takeProfitPrice: string;
+
+  @ApiProperty({ description: 'Take profit trigger price', example: '70000.00' })
+  @IsString()
+  takeProfitTrigger: string;
+
+  @ApiProperty({ description: 'Stop loss execution price', example: '60000.00' })
+  @IsString()
+  stopLossPrice: string;
+
+  @ApiProperty({ description: 'Stop loss trigger price', example: '60000.00' })
+  @IsString()
+  stopLossTrigger: string;
+
+  @ApiPropertyOptional({
+    description: 'normalTpsl = TP/SL sized to this entry, positionTpsl = TP/SL follow the whole position size',
+    enum: ['normalTpsl', 'positionTpsl'],
+    default: 'normalTpsl',
+  })
+  @IsOptional()
+  @IsIn(['normalTpsl', 'positionTpsl'])
+  grouping?: 'normalTpsl' | 'positionTpsl';
+
+  @IdempotencyKey()
+  idempotencyKey?: string;
+}
+
+export class CancelBracketOrderDto {
+  @ApiPropertyOptional({ description: 'Trading pair symbol; the bracket coin is read from its legs, a mismatch is rejected', example: 'BTC' })
+  @IsOptional()
+  @IsString()
+  coin?: string;
+
+  @ApiProperty({ description: 'Bracket id returned when the bracket was placed', example: '0x5f1c0e1bd7e44a6b9a4e0d3f2c8b7a' })
+  @Matches(BRACKET_ID_PATTERN, { message: 'bracketId must be 0x followed by 30 lowercase hex characters' })
+  bracketId: string;
+}
+
+export class ModifyBracketOrderDto extends CancelBracketOrderDto {
+  @ApiPropertyOptional({ description: 'New entry limit price', example: '64800.00' })
+  @IsOptional()
+  @IsString()
+  price?: string;
+
+  @ApiPropertyOptional({ description: 'New take profit execution price', example: '71000.00' })
+  @IsOptional()
+  @IsString()
+  takeProfitPrice?: string;
+
+  @ApiPropertyOptional({ description: 'New take profit trigger price', example: '71000.00' })
+  @IsOptional()
+  @IsString()
+  takeProfitTrigger?: string;
+
+  @ApiPropertyOptional({ description: 'New stop loss execution price', example: '61000.00' })
+  @IsOptional()
+  @IsString()
+  stopLossPrice?: string;
+
+  @ApiPropertyOptional({ description: 'New stop loss trigger price', example: '61000.00' })
+  @IsOptional()
+  @IsString()
+  stopLossTrigger?: string;
 }
 
 // ==================== TWAP ====================
@@ -202,6 +375,9 @@ export class TwapDto {
   @IsOptional()
   @IsBoolean()
   randomize?: boolean;
+
+  @IdempotencyKey('TWAP orders carry no cloid.')
+  idempotencyKey?: string;
 }
 
 // ==================== CLOSE ALL POSITIONS ====================
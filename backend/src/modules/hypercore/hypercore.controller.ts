@@ -5,10 +5,14 @@ import {
   Body,
   UseGuards,
   Param,
+  Query,
+  UseInterceptors,
 } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiBearerAuth } from '@nestjs/swagger';
 import { HypercoreService } from './services/hypercore.service';
-import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { HypercoreMarketService } from './services/hypercore-market.service';
+import { IdempotencyInterceptor } from './interceptors/idempotency.interceptor';
+import { JwtTradingAuthGuard } from '../auth/guards/jwt-trading-auth.guard';
 import { CurrentUser } from '../../common/decorators/current-user.decorator';
 import { Payload } from '../auth/auth.interface';
 import {
@@ -23,14 +27,37 @@ import {
   CloseAllPositionsDto,
   SetIsolatedModeDto,
   UpdateLeverageDto,
+  MarketsQueryDto,
+  BracketOrderDto,
+  CancelBracketOrderDto,
+  ModifyBracketOrderDto,
+  CancelByCloidDto,
+  ModifyOrderDto,
+  BatchModifyOrdersDto,
+  BatchPlaceOrdersDto,
 } from './dto';
 
 @ApiTags('Hypercore Trading')
 @Controller('hypercore')
-@UseGuards(JwtAuthGuard)
+@UseGuards(JwtTradingAuthGuard)
 @ApiBearerAuth()
 export class HypercoreController {
-  constructor(private readonly hypercoreService: HypercoreService) {}
+  constructor(
+    private readonly hypercoreService: HypercoreService,
+    private readonly marketService: HypercoreMarketService,
+  ) {}
+
+  // ==================== MARKETS ====================
+
+  @Get('markets')
+  @ApiOperation({
+    summary: 'List tradable markets',
+    description: 'Perp and spot markets with their order asset id, szDecimals and max price decimals. Cached, refreshed on a TTL.',
+  })
+  async getMarkets(@Query() query: MarketsQueryDto) {
+    const markets = await this.marketService.getMarkets(query.type);
+    return { success: true, markets };
+  }
 
   // ==================== ACCOUNT ====================
 
@@ -58,9 +85,19 @@ export class HypercoreController {
     return this.hypercoreService.getOpenOrders(user.id, user.walletAddress as `0x${string}`);
   }
 
+  @Get('orders/cloid/:cloid')
+  @ApiOperation({
+    summary: 'Get order status by cloid',
+    description: 'Returns the exchange status of the order and the idempotent request that placed it, if any',
+  })
+  async getOrderByCloid(@CurrentUser() user: Payload, @Param('cloid') cloid: string) {
+    return this.hypercoreService.getOrderByCloid(user.id, user.walletAddress as `0x${string}`, cloid);
+  }
+
   // ==================== OPEN POSITION ORDERS ====================
 
   @Post('orders/limit/open')
+  @UseInterceptors(IdempotencyInterceptor)
   @ApiOperation({
     summary: 'Open limit order',
     description: 'Places a limit order to open a new position or increase existing position',
@@ -70,6 +107,7 @@ export class HypercoreController {
   }
 
   @Post('orders/market/open')
+  @UseInterceptors(IdempotencyInterceptor)
   @ApiOperation({
     summary: 'Open market order',
     description: 'Executes a market order to open a new position or increase existing position',
@@ -81,6 +119,7 @@ export class HypercoreController {
   // ==================== CLOSE POSITION ORDERS ====================
 
   @Post('orders/limit/close')
+  @UseInterceptors(IdempotencyInterceptor)
   @ApiOperation({
     summary: 'Close limit order',
     description: 'Places a limit order to close/reduce existing position. Auto-detects position direction.',
@@ -90,6 +129,7 @@ export class HypercoreController {
   }
 
   @Post('orders/market/close')
+  @UseInterceptors(IdempotencyInterceptor)
   @ApiOperation({
     summary: 'Close market order',
     description: 'Executes a market order to close/reduce existing position. Auto-detects position direction.',
@@ -101,6 +141,7 @@ export class HypercoreController {
   // ==================== TP/SL ORDERS ====================
 
   @Post('orders/take-profit')
+  @UseInterceptors(IdempotencyInterceptor)
   @ApiOperation({
     summary: 'Place Take Profit order',
     description: 'Places a TP trigger order. Cancels existing TP orders for the same coin.',
@@ -110,6 +151,7 @@ export class HypercoreController {
   }
 
   @Post('orders/stop-loss')
+  @UseInterceptors(IdempotencyInterceptor)
   @ApiOperation({
     summary: 'Place Stop Loss order',
     description: 'Places a SL trigger order. Cancels existing SL orders for the same coin.',
@@ -118,6 +160,63 @@ export class HypercoreController {
     return this.hypercoreService.placeStopLossOrder(user.id, user.walletAddress as `0x${string}`, dto);
   }
 
+  // ==================== MODIFY & BATCH ORDERS ====================
+
+  @Post('orders/modify')
+  @ApiOperation({
+    summary: 'Modify open order',
+    description: 'Changes the price, size and/or trigger price of an open order (by oid or cloid) without cancelling it.',
+  })
+  async modifyOrder(@CurrentUser() user: Payload, @Body() dto: ModifyOrderDto) {
+    return this.hypercoreService.modifyOrder(user.id, user.walletAddress as `0x${string}`, dto);
+  }
+
+  @Post('orders/batch-modify')
+  @ApiOperation({
+    summary: 'Modify several open orders',
+    description: 'Modifies up to 20 open orders in one signed request. Returns a result per order.',
+  })
+  async batchModifyOrders(@CurrentUser() user: Payload, @Body() dto: BatchModifyOrdersDto) {
+    return this.hypercoreService.batchModifyOrders(user.id, user.walletAddress as `0x${string}`, dto);
+  }
+
+  @Post('orders/batch')
+  @UseInterceptors(IdempotencyInterceptor)
+  @ApiOperation({
+    summary: 'Place several orders',
+    description: 'Places up to 20 limit, market, take profit and stop loss orders in one signed request. Returns a result per order.',
+  })
+  async batchPlaceOrders(@CurrentUser() user: Payload, @Body() dto: BatchPlaceOrdersDto) {
+    return this.hypercoreService.batchPlaceOrders(user.id, dto);
+  }
+
+  // ==================== BRACKET ORDERS ====================
+
+  @Post('orders/bracket')
+  @UseInterceptors(IdempotencyInterceptor)
+  @ApiOperation({
+    summary: 'Place bracket order',
+    description: 'Places an entry (limit, or market when no price is given) with its TP and SL in one request. Returns the bracket id and the oids of the three legs.',
+  })
+  async placeBracket(@CurrentUser() user: Payload, @Body() dto: BracketOrderDto) {
+    return this.hypercoreService.placeBracketOrder(user.id, user.walletAddress as `0x${string}`, dto);
+  }
+
+  @Post('orders/bracket/modify')
+  @ApiOperation({
+    summary: 'Modify bracket order',
+    description: 'Moves the entry, TP and/or SL prices of the still open legs of a bracket.',
+  })
+  async modifyBracket(@CurrentUser() user: Payload, @Body() dto: ModifyBracketOrderDto) {
+    return this.hypercoreService.modifyBracketOrder(user.id, user.walletAddress as `0x${string}`, dto);
+  }
+
+  @Post('orders/bracket/cancel')
+  @ApiOperation({ summary: 'Cancel every open leg of a bracket order' })
+  async cancelBracket(@CurrentUser() user: Payload, @Body() dto: CancelBracketOrderDto) {
+    return this.hypercoreService.cancelBracketOrder(user.id, user.walletAddress as `0x${string}`, dto);
+  }
+
   // ==================== CANCEL ORDERS ====================
 
   @Post('orders/cancel')
@@ -126,6 +225,12 @@ export class HypercoreController {
     return this.hypercoreService.cancelOrder(user.id, dto);
   }
 
+  @Post('orders/cancel-by-cloid')
+  @ApiOperation({ summary: 'Cancel specific order by client order ID' })
+  async cancelOrderByCloid(@CurrentUser() user: Payload, @Body() dto: CancelByCloidDto) {
+    return this.hypercoreService.cancelOrderByCloid(user.id, dto);
+  }
+
   @Post('orders/cancel-all')
   @ApiOperation({ summary: 'Cancel all open orders' })
   async cancelAllOrders(@CurrentUser() user: Payload) {
@@ -166,6 +271,7 @@ export class HypercoreController {
   // ==================== TWAP ====================
 
   @Post('orders/twap')
+  @UseInterceptors(IdempotencyInterceptor)
   @ApiOperation({
     summary: 'Create TWAP plan',
     description: 'Creates a TWAP execution plan (simplified - returns plan only)',
@@ -2,6 +2,9 @@ import { Module } from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
 import { HypercoreController } from './hypercore.controller';
 import { HypercoreService } from './services/hypercore.service';
+import { HypercoreMarketService } from './services/hypercore-market.service';
+import { OrderRequestService } from './services/order-request.service';
+import { IdempotencyInterceptor } from './interceptors/idempotency.interceptor';
 import { HypercoreWalletsModule } from '../hypercore-wallets/hypercore-wallets.module';
 
 @Module({
@@ -10,7 +13,7 @@ import { HypercoreWalletsModule } from '../hypercore-wallets/hypercore-wallets.m
     HypercoreWalletsModule,
   ],
   controllers: [HypercoreController],
-  providers: [HypercoreService],
-  exports: [HypercoreService],
+  providers: [HypercoreService, HypercoreMarketService, OrderRequestService, IdempotencyInterceptor],
+  exports: [HypercoreService, HypercoreMarketService],
 })
 export class HypercoreModule {}
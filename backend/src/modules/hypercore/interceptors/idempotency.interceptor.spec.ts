@@ -0,0 +1,103 @@
+import { CallHandler, ExecutionContext } from '@nestjs/common';
+import { lastValueFrom, of, throwError } from 'rxjs';
+import { OrderRequestService } from '../services/order-request.service';
+import { IdempotencyInterceptor } from './idempotency.interceptor';
+
+// keeps the Hyperliquid SDK (ESM only dependencies) out of the test
+jest.mock('../services/order-request.service', () => ({
+  OrderRequestService: class OrderRequestService {},
+}));
+
+function context(body: Record<string, unknown>) {
+  const request = {
+    method: 'POST',
+    route: { path: '/api/hypercore/orders/open' },
+    user: { id: 'user-1', walletAddress: '0xwallet' },
+    body,
+  };
+  return {
+    switchToHttp: () => ({ getRequest: () => request }),
+  } as unknown as ExecutionContext;
+}
+
+describe('IdempotencyInterceptor', () => {
+  const orderRequests = {
+    claim: jest.fn(),
+    complete: jest.fn(),
+    fail: jest.fn(),
+  };
+  const interceptor = new IdempotencyInterceptor(
+    orderRequests as unknown as OrderRequestService,
+  );
+
+  const handler = (response: unknown): CallHandler => ({
+    handle: jest.fn(() => of(response)),
+  });
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    orderRequests.complete.mockResolvedValue(undefined);
+    orderRequests.fail.mockResolvedValue(undefined);
+  });
+
+  it('leaves requests without a key alone', async () => {
+    const next = handler({ success: true });
+
+    await expect(
+      lastValueFrom(interceptor.intercept(context({}), next)),
+    ).resolves.toEqual({ success: true });
+    expect(orderRequests.claim).not.toHaveBeenCalled();
+  });
+
+  it('records the response of a first submission', async () => {
+    orderRequests.claim.mockResolvedValue({ id: 'request-1' });
+
+    await expect(
+      lastValueFrom(
+        interceptor.intercept(
+          context({ idempotencyKey: 'key-1' }),
+          handler({ success: true }),
+        ),
+      ),
+    ).resolves.toEqual({ success: true });
+    expect(orderRequests.claim).toHaveBeenCalledWith(
+      'user-1',
+      '0xwallet',
+      'key-1',
+      'POST /api/hypercore/orders/open',
+    );
+    expect(orderRequests.complete).toHaveBeenCalledWith('request-1', {
+      success: true,
+    });
+  });
+
+  it('replays a recorded response without placing the orders', async () => {
+    orderRequests.claim.mockResolvedValue({ replay: { success: true } });
+    const next = handler({ success: true });
+
+    await expect(
+      lastValueFrom(
+        interceptor.intercept(context({ idempotencyKey: 'key-1' }), next),
+      ),
+    ).resolves.toEqual({ success: true, replayed: true });
+    expect(next.handle).not.toHaveBeenCalled();
+  });
+
+  it('marks a failed submission and rethrows its error', async () => {
+    orderRequests.claim.mockResolvedValue({ id: 'request-1' });
+    const error = new Error('Order has invalid price.');
+
+    await expect(
+      lastValueFrom(
+        interceptor.intercept(context({ idempotencyKey: 'key-1' }), {
+          handle: () => throwError(() => error),
+        }),
+      ),
+    ).rejects.toBe(error);
+    expect(orderRequests.fail).toHaveBeenCalledWith(
+      'request-1',
+      'Order has invalid price.',
+    );
+    expect(orderRequests.complete).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,64 @@
+import {
+  CallHandler,
+  ExecutionContext,
+  Injectable,
+  NestInterceptor,
+} from '@nestjs/common';
+import { from, Observable, of, throwError } from 'rxjs';
+import { catchError, mergeMap } from 'rxjs/operators';
+import { OrderRequestService } from '../services/order-request.service';
+import { IDEMPOTENCY_KEY_PATTERN } from '../constants/order.constants';
+
+/**
+ * Makes order routes safe to retry: a body carrying an `idempotencyKey` that
+ * already succeeded gets the recorded response (with `replayed: true`) and
+ * nothing is sent to Hyperliquid again.
+ */
+@Injectable()
+export class IdempotencyInterceptor implements NestInterceptor {
+  constructor(private readonly orderRequests: OrderRequestService) {}
+
+  intercept(context: ExecutionContext, next: CallHandler): Observable<any> {
+    const request = context.switchToHttp().getRequest();
+    const key = request.body?.idempotencyKey;
+
+    // malformed keys are rejected by the DTO validation
+    if (typeof key !== 'string' || !IDEMPOTENCY_KEY_PATTERN.test(key)) {
+      return next.handle();
+    }
+
+    const endpoint = `${request.method} ${request.route.path}`;
+
+    const claim$ = from(
+      this.orderRequests.claim(
+        request.user.id,
+        request.user.walletAddress,
+        key,
+        endpoint,
+      ),
+    );
+
+    return claim$.pipe(
+      mergeMap((claim) => {
+        if ('replay' in claim) {
+          return of({ ...(claim.replay as object), replayed: true });
+        }
+
+        // only a failed submission frees the key; if recording the response
+        // fails the request stays PENDING until it expires and is checked
+        // against Hyperliquid, rather than allowing a second order
+        return next.handle().pipe(
+          catchError((error) =>
+            from(this.orderRequests.fail(claim.id, error.message)).pipe(
+              mergeMap(() => throwError(() => error)),
+            ),
+          ),
+          mergeMap(async (response) => {
+            await this.orderRequests.complete(claim.id, response);
+            return response;
+          }),
+        );
+      }),
+    );
+  }
+}
@@ -0,0 +1,178 @@
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as hl from '@nktkas/hyperliquid';
+import { HyperliquidMarket, MarketType } from '../types/hyperliquid.types';
+import {
+  MAX_PERP_PRICE_DECIMALS,
+  MAX_SPOT_PRICE_DECIMALS,
+} from '../utils/order-rounding.util';
+
+/** Spot order asset ids are offset by 10000 from the spot pair index. */
+const SPOT_ASSET_OFFSET = 10000;
+
+/** Backoff between failed refreshes, doubled on every consecutive failure. */
+const RETRY_BASE_MS = 1000;
+const RETRY_MAX_MS = 60000;
+
+/**
+ * Registry of Hyperliquid perp and spot markets.
+ * `meta` and `spotMeta` are cached in-process and refreshed once older than
+ * HYPERLIQUID_META_TTL_MS; if a refresh fails the last known markets keep serving
+ * and the next attempt is delayed with an exponential backoff.
+ */
+@Injectable()
+export class HypercoreMarketService {
+  private readonly logger = new Logger(HypercoreMarketService.name);
+  private readonly infoClient: hl.InfoClient;
+  private readonly ttlMs: number;
+
+  private markets = new Map<string, HyperliquidMarket>();
+  private aliases = new Map<string, string>(); // 'BASE/QUOTE' -> spot coin
+  private loadedAt = 0;
+  private refreshing: Promise<void> | null = null;
+  private failures = 0;
+  private retryAt = 0;
+  private lastError = '';
+
+  constructor(private configService: ConfigService) {
+    const isTestnet =
+      this.configService.get<string>('HYPERLIQUID_NETWORK', 'testnet') ===
+      'testnet';
+    this.infoClient = new hl.InfoClient({
+      transport: new hl.HttpTransport({ isTestnet }),
+    });
+    this.ttlMs = Number(
+      this.configService.get('HYPERLIQUID_META_TTL_MS', 60000),
+    );
+  }
+
+  async getMarkets(type?: MarketType): Promise<HyperliquidMarket[]> {
+    await this.ensureFresh();
+    const markets = [...this.markets.values()];
+    return type ? markets.filter((m) => m.type === type) : markets;
+  }
+
+  /**
+   * Resolves a coin as used by the info endpoints ('BTC', '@107'),
+   * or a spot pair by its token names ('HYPE/USDC').
+   */
+  async getMarket(coin: string): Promise<HyperliquidMarket> {
+    await this.ensureFresh();
+    const market =
+      this.markets.get(coin) ?? this.markets.get(this.aliases.get(coin) ?? '');
+    if (!market) {
+      throw new BadRequestException(`Coin "${coin}" not found`);
+    }
+    return market;
+  }
+
+  /** Drops the cache so the next lookup reloads the markets. */
+  invalidate() {
+    this.loadedAt = 0;
+  }
+
+  private async ensureFresh() {
+    if (Date.now() - this.loadedAt < this.ttlMs) return;
+
+    if (Date.now() < this.retryAt) {
+      // backing off after a failed refresh: no network call
+      if (this.markets.size > 0) return;
+      throw this.unavailable(this.lastError);
+    }
+
+    // concurrent lookups share a single refresh
+    this.refreshing ??= this.refresh()
+      .then(() => {
+        this.failures = 0;
+        this.retryAt = 0;
+      })
+      .catch((error) => {
+        this.failures++;
+        this.lastError = error.message;
+        this.retryAt =
+          Date.now() +
+          Math.min(RETRY_BASE_MS * 2 ** (this.failures - 1), RETRY_MAX_MS);
+        throw error;
+      })
+      .finally(() => {
+        this.refreshing = null;
+      });
+
+    try {
+      await this.refreshing;
+    } catch (error) {
+      if (this.markets.size === 0) {
+        throw this.unavailable(error.message);
+      }
+      this.logger.warn(`Serving stale Hyperliquid markets: ${error.message}`);
+    }
+  }
+
+  private unavailable(reason: string) {
+    return new ServiceUnavailableException(
+      `Failed to load Hyperliquid markets: ${reason}`,
+    );
+  }
+
+  private async refresh() {
+    const [meta, spotMeta] = await Promise.all([
+      this.infoClient.meta(),
+      this.infoClient.spotMeta(),
+    ]);
+
+    const markets = new Map<string, HyperliquidMarket>();
+    const aliases = new Map<string, string>();
+
+    meta.universe.forEach((asset, index) => {
+      markets.set(asset.name, {
+        coin: asset.name,
+        type: 'perp',
+        asset: index,
+        szDecimals: asset.szDecimals,
+        maxPriceDecimals: Math.max(
+          MAX_PERP_PRICE_DECIMALS - asset.szDecimals,
+          0,
+        ),
+        maxLeverage: asset.maxLeverage,
+        onlyIsolated: asset.onlyIsolated ?? false,
+        isDelisted: asset.isDelisted ?? false,
+      });
+    });
+
+    const tokens = new Map(spotMeta.tokens.map((t) => [t.index, t]));
+    for (const pair of spotMeta.universe) {
+      const base = tokens.get(pair.tokens[0]);
+      const quote = tokens.get(pair.tokens[1]);
+      if (!base || !quote) continue;
+
+      markets.set(pair.name, {
+        coin: pair.name,
+        type: 'spot',
+        asset: SPOT_ASSET_OFFSET + pair.index,
+        szDecimals: base.szDecimals,
+        maxPriceDecimals: Math.max(
+          MAX_SPOT_PRICE_DECIMALS - base.szDecimals,
+          0,
+        ),
+        maxLeverage: null,
+        onlyIsolated: false,
+        isDelisted: false,
+        base: base.name,
+        quote: quote.name,
+      });
+      aliases.set(`${base.name}/${quote.name}`, pair.name);
+    }
+
+    this.markets = markets;
+    this.aliases = aliases;
+    this.loadedAt = Date.now();
+    this.logger.debug(
+      `Loaded ${meta.universe.length} perp and ${spotMeta.universe.length} spot markets`,
+    );
+  }
+}
@@ -1,7 +1,9 @@
-import { Injectable, Logger, BadRequestException } from '@nestjs/common';
+import { Injectable, Logger, BadRequestException, ForbiddenException, ServiceUnavailableException } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import * as hl from '@nktkas/hyperliquid';
 import { ethers } from 'ethers';
+import { BattlePlayerStatus, BattleStatus, Prisma, UserStatus } from '@prisma/client';
+import { PrismaService } from '../../../database/prisma.service';
 import { HypercoreWalletsService } from '../../hypercore-wallets/services/hypercore-wallets.service';
 import {
   CancelOrderDto,
@@ -15,7 +17,50 @@ import {
   CloseAllType,
   SetIsolatedModeDto,
   UpdateLeverageDto,
+  BracketOrderDto,
+  CancelBracketOrderDto,
+  ModifyBracketOrderDto,
+  CancelByCloidDto,
+  ModifyOrderDto,
+  BatchModifyOrdersDto,
+  BatchOrderDto,
+  BatchPlaceOrdersDto,
 } from '../dto';
+import { HypercoreMarketService } from './hypercore-market.service';
+import { roundPrice, roundSize } from '../utils/order-rounding.util';
+import { estimateFill } from '../utils/order-book.util';
+import { parseOrderStatus, statusesOfError, toOrderResults } from '../utils/order-response.util';
+import { HyperliquidMarket } from '../types/hyperliquid.types';
+import { DEFAULT_MAX_SLIPPAGE_BPS } from '../constants/order.constants';
+import { BRACKET_LEGS, BracketLeg, CLOID_PATTERN, Cloid, bracketCloid, idempotencyCloidPrefix, isBracketCloid, newBracketId, orderCloid } from '../utils/cloid.util';
+import { OrderRequestService } from './order-request.service';
+
+/** Max number of rows Hyperliquid returns per time-ranged history request. */
+const FILLS_PAGE_LIMIT = 2000;
+const FUNDING_PAGE_LIMIT = 500;
+
+type OrderStatusResponse = Awaited<ReturnType<hl.InfoClient['orderStatus']>>;
+type OpenOrderStatus = Extract<OrderStatusResponse, { status: 'order' }>['order']['order'];
+type OrderWire = Parameters<hl.ExchangeClient['order']>[0]['orders'][number];
+
+/**
+ * Error thrown by a failed call: an unavailable market registry stays a 503,
+ * anything else is reported as a bad request.
+ */
+function requestError(message: string, error: any) {
+  if (error instanceof ServiceUnavailableException || error instanceof ForbiddenException) return error;
+  return new BadRequestException(`${message}: ${error.message}`);
+}
+
+/**
+ * Start of the next history page. Rows sharing the last millisecond may go on
+ * in the next page, so it restarts at that millisecond; a full page that brought
+ * nothing new (all in one millisecond) can only move past it.
+ */
+function nextPageCursor(page: { time: number }[], freshCount: number): number {
+  const last = page[page.length - 1].time;
+  return freshCount > 0 ? last : last + 1;
+}
 
 @Injectable()
 export class HypercoreService {
@@ -26,6 +71,9 @@ export class HypercoreService {
   constructor(
     private configService: ConfigService,
     private walletsService: HypercoreWalletsService,
+    private prisma: PrismaService,
+    private markets: HypercoreMarketService,
+    private orderRequests: OrderRequestService,
   ) {
     this.isTestnet = this.configService.get<string>('HYPERLIQUID_NETWORK', 'testnet') === 'testnet';
     const transport = new hl.HttpTransport({ isTestnet: this.isTestnet });
@@ -41,120 +89,163 @@ export class HypercoreService {
     return new hl.ExchangeClient({ wallet, transport });
   }
 
-  private async getAssetNumberByCoin(coin: string): Promise<number> {
-    const meta = await this.infoClient.meta();
-    const index = meta.universe.findIndex((a) => a.name === coin);
-    if (index === -1) {
-      const available = meta.universe.map((a) => a.name).join(', ');
-      throw new BadRequestException(`Coin "${coin}" not found. Available: ${available}`);
+  /**
+   * While a user is in a battle, only the battle's whitelisted coins may be opened.
+   * Closing orders are always allowed so players can exit positions.
+   */
+  private async assertCoinAllowed(userId: string, coin: string): Promise<void> {
+    const user = await this.prisma.user.findUnique({ where: { id: userId }, select: { status: true } });
+    if (user?.status !== UserStatus.IN_BATTLE) return;
+
+    const player = await this.prisma.battlePlayer.findFirst({
+      where: {
+        userId,
+        status: { not: BattlePlayerStatus.LEFT },
+        battle: { status: { in: [BattleStatus.WAITING, BattleStatus.STARTED] } },
+      },
+      select: { battle: { select: { allowedAssets: true } } },
+    });
+
+    const allowed = player?.battle.allowedAssets ?? [];
+    if (allowed.length > 0 && !allowed.includes(coin)) {
+      throw new ForbiddenException(`Coin "${coin}" is not allowed in this battle. Allowed: ${allowed.join(', ')}`);
     }
-    return index;
   }
 
-  private async getAssetMetadata(asset: number) {
-    const meta = await this.infoClient.meta();
-    const info = meta.universe[asset];
-    if (!info) throw new BadRequestException(`Asset ${asset} not found`);
-    return {
-      name: info.name,
-      szDecimals: info.szDecimals,
-      maxLeverage: info.maxLeverage,
-    };
+  /**
+   * Prices an IOC order from the L2 book. It is rejected up front when the expected
+   * average fill is more than maxSlippageBps away from mid, and the limit price keeps
+   * every fill within that same distance.
+   */
+  private async protectedMarketPrice(market: HyperliquidMarket, isBuy: boolean, size: string, maxSlippageBps = DEFAULT_MAX_SLIPPAGE_BPS) {
+    const book = await this.infoClient.l2Book({ coin: market.coin });
+    if (!book) {
+      throw new BadRequestException(`Could not get order book for ${market.coin}`);
+    }
+
+    const estimate = estimateFill(book.levels, isBuy, size);
+    if (estimate.impactBps.gt(maxSlippageBps)) {
+      throw new BadRequestException(`Expected slippage of ${estimate.impactBps.toFixed(1)} bps exceeds the max of ${maxSlippageBps} bps`);
+    }
+
+    // round towards mid so the limit never exceeds the allowed slippage
+    const slippage = new Prisma.Decimal(maxSlippageBps).div(10000);
+    const limitPrice = isBuy
+      ? roundPrice(market, estimate.midPx.times(slippage.plus(1)), Prisma.Decimal.ROUND_DOWN)
+      : roundPrice(market, estimate.midPx.times(new Prisma.Decimal(1).minus(slippage)), Prisma.Decimal.ROUND_UP);
+
+    this.logger.debug(`Market order: ${isBuy ? 'BUY' : 'SELL'} ${size} ${market.coin}, mid=${estimate.midPx}, expected=${estimate.avgPx}, limit=${limitPrice}`);
+    return { limitPrice, estimate };
   }
 
   /**
-   * Round size to szDecimals (from asset metadata)
+   * Cloid of an order sent with an idempotency key: the same key always maps to
+   * the same cloid, `index` tells apart the orders of one request.
    */
-  private roundToDecimals(value: string | number, decimals: number): string {
-    const num = Number(value);
-    if (isNaN(num)) throw new BadRequestException('Invalid number for rounding');
-    const factor = Math.pow(10, decimals);
-    return (Math.floor(num * factor) / factor).toFixed(decimals);
+  private idempotentCloid(userId: string, idempotencyKey?: string, index = 0): Cloid | undefined {
+    return idempotencyKey ? orderCloid(idempotencyCloidPrefix(userId, idempotencyKey), index) : undefined;
+  }
+
+  private async placeMarketOrder(userId: string, market: HyperliquidMarket, isBuy: boolean, size: string, reduceOnly: boolean, maxSlippageBps?: number, cloid?: Cloid) {
+    const formattedSize = roundSize(market, size);
+    const { limitPrice, estimate } = await this.protectedMarketPrice(market, isBuy, formattedSize, maxSlippageBps);
+
+    const exchange = await this.createExchangeClient(userId);
+    const result = await exchange.order({
+      orders: [{ a: market.asset, b: isBuy, p: limitPrice, s: formattedSize, r: reduceOnly, t: { limit: { tif: 'Ioc' } }, ...(cloid && { c: cloid }) }],
+      grouping: 'na',
+    });
+
+    const fill = parseOrderStatus(result.response.data.statuses[0]);
+    return {
+      data: result.response.data,
+      cloid,
+      size: formattedSize,
+      executionPrice: fill.avgPx,
+      filledSize: fill.filledSize,
+      limitPrice,
+      expectedPrice: estimate.avgPx.toSignificantDigits(8).toFixed(),
+      expectedSlippageBps: estimate.impactBps.toDecimalPlaces(2).toNumber(),
+    };
   }
 
   /**
-   * Detect tick size from orderbook by analyzing price differences
-   * Hyperliquid uses different tick sizes for different price ranges
+   * A modify keeps everything of the open order (side, size, type, cloid) except
+   * the fields that are changed.
    */
-  private async detectTickSize(coin: string): Promise<number> {
-    try {
-      const orderbook = await this.infoClient.l2Book({ coin });
-      if (!orderbook?.levels) {
-        this.logger.warn(`No orderbook data for ${coin}, defaulting to 0.01 tick size`);
-        return 0.01;
-      }
-      
-      const bids = orderbook.levels[0];
-      const asks = orderbook.levels[1];
-      
-      // Get prices from orderbook - work with strings to avoid floating point
-      const priceDiffs: string[] = [];
-      if (bids && bids.length >= 2) {
-        const diff = Math.abs(Number(bids[0].px) - Number(bids[1].px));
-        priceDiffs.push(diff.toString());
-      }
-      if (asks && asks.length >= 2) {
-        const diff = Math.abs(Number(asks[0].px) - Number(asks[1].px));
-        priceDiffs.push(diff.toString());
-      }
-      
-      if (priceDiffs.length === 0) {
-        // Fallback: detect from decimal places
-        const samplePrice = bids?.[0]?.px || asks?.[0]?.px || '1.0';
-        const decimals = samplePrice.includes('.') ? samplePrice.split('.')[1].length : 2;
-        return Math.pow(10, -decimals);
-      }
-      
-      // Parse tick size from string to avoid floating point errors
-      // Take the smallest difference and round to clean decimal
-      const rawTickSize = Math.min(...priceDiffs.map(d => Number(d)).filter(p => p > 0));
-      
-      // Clean up floating point errors by rounding to significant figures
-      const tickSize = this.roundToSignificantFigures(rawTickSize, 2);
-      
-      return tickSize;
-    } catch (error) {
-      this.logger.warn(`Failed to detect tick size for ${coin}, defaulting to 0.01`);
-      return 0.01;
+  private toModify(market: HyperliquidMarket, open: OpenOrderStatus, changes: { price?: string; size?: string; triggerPrice?: string }) {
+    const tpsl: 'tp' | 'sl' = open.orderType.startsWith('Take Profit') ? 'tp' : 'sl';
+    const tif: 'Gtc' | 'Alo' = open.tif === 'Alo' ? 'Alo' : 'Gtc';
+
+    return {
+      oid: open.cloid ?? open.oid,
+      order: {
+        a: market.asset,
+        b: open.side === 'B',
+        p: changes.price ? roundPrice(market, changes.price) : open.limitPx,
+        s: changes.size ? roundSize(market, changes.size) : open.sz,
+        r: open.reduceOnly,
+        t: open.isTrigger
+          ? { trigger: { isMarket: open.orderType.endsWith('Market'), tpsl, triggerPx: changes.triggerPrice ? roundPrice(market, changes.triggerPrice) : open.triggerPx } }
+          : { limit: { tif } },
+        c: open.cloid ?? undefined,
+      },
+    };
+  }
+
+  private async getOpenOrder(walletAddress: `0x${string}`, id: number | Cloid): Promise<OpenOrderStatus> {
+    const status = await this.infoClient.orderStatus({ user: walletAddress, oid: id });
+    if (status.status === 'unknownOid') {
+      throw new BadRequestException(`Order ${id} not found`);
+    }
+    if (status.order.status !== 'open') {
+      throw new BadRequestException(`Order ${id} is no longer open (${status.order.status})`);
     }
+    return status.order.order;
   }
 
-  /**
-   * Round a number to N significant figures to clean up floating point errors
-   */
-  private roundToSignificantFigures(num: number, sigFigs: number): number {
-    if (num === 0) return 0;
-    const magnitude = Math.floor(Math.log10(Math.abs(num)));
-    const scale = Math.pow(10, sigFigs - 1 - magnitude);
-    return Math.round(num * scale) / scale;
+  private async resolveModify(userId: string, walletAddress: `0x${string}`, dto: ModifyOrderDto) {
+    if (!dto.price && !dto.size && !dto.triggerPrice) {
+      throw new BadRequestException('Nothing to modify');
+    }
+
+    const id = (dto.cloid as Cloid | undefined) ?? dto.oid;
+    if (id === undefined) {
+      throw new BadRequestException('oid or cloid is required');
+    }
+
+    const market = await this.markets.getMarket(dto.coin);
+    const open = await this.getOpenOrder(walletAddress, id);
+    if (open.coin !== market.coin) {
+      throw new BadRequestException(`Order ${id} is not a ${dto.coin} order`);
+    }
+    // a modified order may grow, so only reduce-only ones skip the battle whitelist
+    if (!open.reduceOnly) await this.assertCoinAllowed(userId, market.coin);
+
+    return this.toModify(market, open, dto);
   }
 
-  /**
-   * Format price to match orderbook tick size (round to nearest valid tick)
-   * Uses integer arithmetic to avoid floating point precision errors
-   */
-  private async formatPrice(price: number, coin: string): Promise<string> {
-    const tickSize = await this.detectTickSize(coin);
-    
-    // Determine decimal places from tick size
-    const tickDecimals = tickSize.toString().includes('.') 
-      ? tickSize.toString().split('.')[1].length 
-      : 0;
-    
-    // Convert to integer arithmetic to avoid floating point errors
-    const multiplier = Math.pow(10, tickDecimals);
-    const priceInt = Math.round(price * multiplier);
-    const tickInt = Math.round(tickSize * multiplier);
-    
-    // Round to nearest tick in integer space
-    const ticksCount = Math.round(priceInt / tickInt);
-    const roundedInt = ticksCount * tickInt;
-    
-    // Convert back to decimal
-    const rounded = roundedInt / multiplier;
-    const result = rounded.toFixed(tickDecimals);
-    
-    return result;
+  /** Wire format of one order of a batch, priced and sized for its market. */
+  private async toOrderWire(order: BatchOrderDto, cloid?: Cloid): Promise<OrderWire> {
+    const market = await this.markets.getMarket(order.coin);
+    const size = roundSize(market, order.size);
+    const base = { a: market.asset, b: order.isBuy, s: size, r: order.reduceOnly ?? false, ...(cloid && { c: cloid }) };
+
+    switch (order.type) {
+      case 'market': {
+        const { limitPrice } = await this.protectedMarketPrice(market, order.isBuy, size, order.maxSlippageBps);
+        return { ...base, p: limitPrice, t: { limit: { tif: 'Ioc' } } };
+      }
+      case 'limit':
+        return { ...base, p: roundPrice(market, order.price!), t: { limit: { tif: order.postOnly ? 'Alo' : 'Gtc' } } };
+      default:
+        return {
+          ...base,
+          p: roundPrice(market, order.price!),
+          r: true,
+          t: { trigger: { isMarket: true, tpsl: order.type === 'takeProfit' ? 'tp' : 'sl', triggerPx: roundPrice(market, order.triggerPrice!) } },
+        };
+    }
   }
 
   // ==================== ACCOUNT ====================
@@ -165,7 +256,7 @@ export class HypercoreService {
       return { success: true, account: state };
     } catch (error) {
       this.logger.error(`Failed to get account summary:`, error);
-      throw new BadRequestException(`Failed to get account: ${error.message}`);
+      throw requestError('Failed to get account', error);
     }
   }
 
@@ -178,7 +269,7 @@ export class HypercoreService {
       };
     } catch (error) {
       this.logger.error(`Failed to get positions:`, error);
-      throw new BadRequestException(`Failed to get positions: ${error.message}`);
+      throw requestError('Failed to get positions', error);
     }
   }
 
@@ -209,7 +300,7 @@ export class HypercoreService {
       };
     } catch (error) {
       this.logger.error(`Failed to get position for ${coin}:`, error);
-      throw new BadRequestException(`Failed to get position: ${error.message}`);
+      throw requestError('Failed to get position', error);
     }
   }
 
@@ -219,33 +310,137 @@ export class HypercoreService {
       return { success: true, orders: orders || [] };
     } catch (error) {
       this.logger.error(`Failed to get open orders:`, error);
-      throw new BadRequestException(`Failed to get orders: ${error.message}`);
+      throw requestError('Failed to get orders', error);
+    }
+  }
+
+  /**
+   * Status of an order by cloid, with the idempotent request that placed it (if any),
+   * so a client that lost a response can tell whether its order went through.
+   */
+  async getOrderByCloid(userId: string, walletAddress: `0x${string}`, cloid: string) {
+    if (!CLOID_PATTERN.test(cloid)) {
+      throw new BadRequestException('cloid must be 0x followed by 32 lowercase hex characters');
+    }
+
+    const [status, request] = await Promise.all([
+      this.infoClient.orderStatus({ user: walletAddress, oid: cloid as Cloid }).catch((error) => {
+        this.logger.error(`Failed to get order status:`, error);
+        throw requestError('Failed to get order status', error);
+      }),
+      this.orderRequests.findByCloid(userId, cloid),
+    ]);
+
+    return {
+      success: true,
+      cloid,
+      order: status.status === 'order' ? status.order : null,
+      request: request && {
+        idempotencyKey: request.idempotencyKey,
+        endpoint: request.endpoint,
+        status: request.status,
+        error: request.error,
+        createdAt: request.createdAt,
+        updatedAt: request.updatedAt,
+      },
+    };
+  }
+
+  // ==================== HISTORY ====================
+
+  /**
+   * Get all fills of a wallet inside [startTime, endTime] (ms since epoch).
+   * Responses are capped per request, so this pages forward by time; a page
+   * restarts at the last millisecond of the previous one and drops repeated tids.
+   */
+  async getUserFillsByTime(walletAddress: `0x${string}`, startTime: number, endTime: number) {
+    const fills: Awaited<ReturnType<hl.InfoClient['userFillsByTime']>> = [];
+    const seen = new Set<number>();
+    let cursor = startTime;
+
+    while (cursor <= endTime) {
+      const page = await this.infoClient.userFillsByTime({
+        user: walletAddress,
+        startTime: cursor,
+        endTime,
+      });
+      const fresh = page.filter((f) => !seen.has(f.tid));
+      fresh.forEach((f) => seen.add(f.tid));
+      fills.push(...fresh);
+
+      if (page.length < FILLS_PAGE_LIMIT) break;
+      cursor = nextPageCursor(page, fresh.length);
+    }
+
+    return fills;
+  }
+
+  /**
+   * Get all funding payments of a wallet inside [startTime, endTime] (ms since epoch).
+   * Paged the same way as fills.
+   */
+  async getUserFunding(walletAddress: `0x${string}`, startTime: number, endTime: number) {
+    const funding: Awaited<ReturnType<hl.InfoClient['userFunding']>> = [];
+    const seen = new Set<string>();
+    let cursor = startTime;
+
+    while (cursor <= endTime) {
+      const page = await this.infoClient.userFunding({
+        user: walletAddress,
+        startTime: cursor,
+        endTime,
+      });
+      // a funding hash is shared by every coin of the same payment
+      const key = (f: (typeof page)[number]) => `${f.hash}:${f.delta.coin}:${f.time}`;
+      const fresh = page.filter((f) => !seen.has(key(f)));
+      fresh.forEach((f) => seen.add(key(f)));
+      funding.push(...fresh);
+
+      if (page.length < FUNDING_PAGE_LIMIT) break;
+      cursor = nextPageCursor(page, fresh.length);
+    }
+
+    return funding;
+  }
+
+  /**
+   * Last traded price of a coin at `time`: close of the 1m candle containing it.
+   */
+  async getPriceAt(coin: string, time: number): Promise<string> {
+    const candles = await this.infoClient.candleSnapshot({ coin, interval: '1m', startTime: time - 60_000, endTime: time });
+    const candle = candles[candles.length - 1];
+    if (!candle) {
+      throw new Error(`No ${coin} price at ${new Date(time).toISOString()}`);
     }
+    return candle.c;
   }
 
   // ==================== OPEN POSITION ORDERS ====================
 
   async openLimitOrder(userId: string, order: OpenLimitOrderDto) {
+    await this.assertCoinAllowed(userId, order.coin);
+
     try {
       this.logger.log(`Received limit order request: ${JSON.stringify(order)}`);
       
       const exchange = await this.createExchangeClient(userId);
-      const asset = await this.getAssetNumberByCoin(order.coin);
-      const assetInfo = await this.getAssetMetadata(asset);
+      const market = await this.markets.getMarket(order.coin);
+      const asset = market.asset;
       
-      // Format size to szDecimals
-      const formattedSize = this.roundToDecimals(order.size, assetInfo.szDecimals);
+      // Round size down to szDecimals
+      const formattedSize = roundSize(market, order.size);
       
-      // Format price to match orderbook decimals
-      const formattedPrice = await this.formatPrice(Number(order.price), order.coin);
+      // Round price to a valid tick
+      const formattedPrice = roundPrice(market, order.price);
 
       const tif: 'Gtc' | 'Ioc' | 'Alo' = order.postOnly ? 'Alo' : 'Gtc';
+      const cloid = this.idempotentCloid(userId, order.idempotencyKey);
       
       this.logger.log(`Limit order: ${order.isBuy ? 'BUY' : 'SELL'} ${formattedSize} ${order.coin} @ ${formattedPrice}, TIF: ${tif}`);
       this.logger.debug(`Order payload: ${JSON.stringify({ a: asset, b: order.isBuy, p: formattedPrice, s: formattedSize, r: false, t: { limit: { tif } } })}`);
       
       const result = await exchange.order({
-        orders: [{ a: asset, b: order.isBuy, p: formattedPrice, s: formattedSize, r: false, t: { limit: { tif } } }],
+        orders: [{ a: asset, b: order.isBuy, p: formattedPrice, s: formattedSize, r: false, t: { limit: { tif } }, ...(cloid && { c: cloid }) }],
         grouping: 'na',
       });
 
@@ -255,6 +450,7 @@ export class HypercoreService {
           success: true, 
           data: result.response?.data, 
           message: 'Limit order placed',
+          cloid,
         };
       }
       
@@ -262,65 +458,25 @@ export class HypercoreService {
       throw new BadRequestException(`Order failed: ${JSON.stringify(result?.response)}`);
     } catch (error) {
       this.logger.error(`openLimitOrder error:`, error);
-      throw new BadRequestException(`Failed to place limit order: ${error.message}`);
+      throw requestError('Failed to place limit order', error);
     }
   }
 
   async openMarketOrder(userId: string, order: OpenMarketOrderDto) {
-    try {
-      // this.logger.log(`Market order: ${order.isBuy ? 'BUY' : 'SELL'} ${order.size} ${order.coin}`);
-      
-      const exchange = await this.createExchangeClient(userId);
-      const asset = await this.getAssetNumberByCoin(order.coin);
-      const assetInfo = await this.getAssetMetadata(asset);
-      
-      // Format size to szDecimals
-      const formattedSize = this.roundToDecimals(order.size, assetInfo.szDecimals);
-      
-      // Get current market price
-      const mids = await this.infoClient.allMids();
-      const currentPrice = Number(mids[order.coin]);
-      
-      if (!currentPrice) {
-        throw new BadRequestException(`Could not get market price for ${order.coin}`);
-      }
-
-      // Calculate aggressive price (5% slippage)
-      const aggressivePrice = order.isBuy 
-        ? currentPrice * 1.05
-        : currentPrice * 0.95;
-
-      // Format price to match orderbook decimals
-      const formattedPrice = await this.formatPrice(aggressivePrice, order.coin);
-      
-      // this.logger.log(`Market order: current=${currentPrice}, aggressive=${aggressivePrice}, formatted=${formattedPrice}`);
+    await this.assertCoinAllowed(userId, order.coin);
 
-      const result = await exchange.order({
-        orders: [{ 
-          a: asset, 
-          b: order.isBuy, 
-          p: formattedPrice, 
-          s: formattedSize, 
-          r: false, 
-          t: { limit: { tif: 'Ioc' } }
-        }],
-        grouping: 'na',
-      });
+    try {
+      const market = await this.markets.getMarket(order.coin);
+      const execution = await this.placeMarketOrder(userId, market, order.isBuy, order.size, false, order.maxSlippageBps, this.idempotentCloid(userId, order.idempotencyKey));
 
-      if (result?.status === 'ok') {
-        return { 
-          success: true, 
-          data: result.response?.data, 
-          message: 'Market order executed',
-          executionPrice: formattedPrice
-        };
-      }
-      
-      this.logger.error(`Market order failed:`, JSON.stringify(result, null, 2));
-      throw new BadRequestException(`Market order failed: ${JSON.stringify(result?.response || result)}`);
+      return {
+        success: true,
+        message: 'Market order executed',
+        ...execution,
+      };
     } catch (error) {
       this.logger.error(`openMarketOrder error:`, error);
-      throw new BadRequestException(`Failed to place market order: ${error.message}`);
+      throw requestError('Failed to place market order', error);
     }
   }
 
@@ -341,15 +497,16 @@ export class HypercoreService {
 
       const isBuy = position.isShort;
       const exchange = await this.createExchangeClient(userId);
-      const asset = await this.getAssetNumberByCoin(order.coin);
-      const assetInfo = await this.getAssetMetadata(asset);
+      const market = await this.markets.getMarket(order.coin);
+      const asset = market.asset;
       
-      const formattedSize = this.roundToDecimals(order.size, assetInfo.szDecimals);
-      const formattedPrice = await this.formatPrice(Number(order.price), order.coin);
+      const formattedSize = roundSize(market, order.size);
+      const formattedPrice = roundPrice(market, order.price);
 
       const tif: 'Gtc' | 'Ioc' | 'Alo' = order.postOnly ? 'Alo' : 'Gtc';
+      const cloid = this.idempotentCloid(userId, order.idempotencyKey);
       const result = await exchange.order({
-        orders: [{ a: asset, b: isBuy, p: formattedPrice, s: formattedSize, r: true, t: { limit: { tif } } }],
+        orders: [{ a: asset, b: isBuy, p: formattedPrice, s: formattedSize, r: true, t: { limit: { tif } }, ...(cloid && { c: cloid }) }],
         grouping: 'na',
       });
 
@@ -358,6 +515,7 @@ export class HypercoreService {
           success: true,
           data: result.response?.data,
           message: `Limit order placed (closing ${position.side} position)`,
+          cloid,
           positionInfo: { side: position.side, closingSize: formattedSize },
         };
       }
@@ -365,7 +523,7 @@ export class HypercoreService {
       throw new BadRequestException(`Close order failed: ${JSON.stringify(result?.response)}`);
     } catch (error) {
       this.logger.error(`closeLimitOrder error:`, error);
-      throw new BadRequestException(`Failed to close limit order: ${error.message}`);
+      throw requestError('Failed to close limit order', error);
     }
   }
 
@@ -383,91 +541,41 @@ export class HypercoreService {
       }
 
       const isBuy = position.isShort;
-      const exchange = await this.createExchangeClient(userId);
-      const asset = await this.getAssetNumberByCoin(order.coin);
-      const assetInfo = await this.getAssetMetadata(asset);
-      
-      const formattedSize = this.roundToDecimals(order.size, assetInfo.szDecimals);
-
-      // Get current market price
-      const mids = await this.infoClient.allMids();
-      const currentPrice = Number(mids[order.coin]);
-      
-      if (!currentPrice) {
-        throw new BadRequestException(`Could not get market price for ${order.coin}`);
-      }
+      const market = await this.markets.getMarket(order.coin);
+      const execution = await this.placeMarketOrder(userId, market, isBuy, order.size, true, order.maxSlippageBps, this.idempotentCloid(userId, order.idempotencyKey));
 
-      // Calculate aggressive price
-      const aggressivePrice = isBuy 
-        ? currentPrice * 1.05
-        : currentPrice * 0.95;
-
-      const formattedPrice = await this.formatPrice(aggressivePrice, order.coin);
-
-      const result = await exchange.order({
-        orders: [{ 
-          a: asset, 
-          b: isBuy, 
-          p: formattedPrice, 
-          s: formattedSize, 
-          r: true, 
-          t: { limit: { tif: 'Ioc' } }
-        }],
-        grouping: 'na',
-      });
-
-      if (result?.status === 'ok') {
-        return {
-          success: true,
-          data: result.response?.data,
-          message: `Market order executed (closing ${position.side} position)`,
-          positionInfo: { side: position.side, closingSize: formattedSize },
-        };
-      }
-      
-      throw new BadRequestException(`Close order failed: ${JSON.stringify(result?.response)}`);
+      return {
+        success: true,
+        message: `Market order executed (closing ${position.side} position)`,
+        positionInfo: { side: position.side, closingSize: execution.size },
+        ...execution,
+      };
     } catch (error) {
       this.logger.error(`closeMarketOrder error:`, error);
-      throw new BadRequestException(`Failed to close market order: ${error.message}`);
+      throw requestError('Failed to close market order', error);
     }
   }
 
   // ==================== TP/SL ORDERS ====================
 
+  /**
+   * Cancels the standalone TP (or SL) orders of a coin before a new one is placed.
+   * Orders are recognized by their trigger type; bracket legs are left alone,
+   * they are managed through their bracket.
+   */
   private async cancelExistingTpSlOrders(userId: string, walletAddress: `0x${string}`, coin: string, type: 'tp' | 'sl') {
     try {
-      const openOrders = await this.getOpenOrders(userId, walletAddress);
-      if (!openOrders.success || !openOrders.orders.length) return 0;
+      const openOrders = await this.infoClient.frontendOpenOrders({ user: walletAddress });
+      const orderTypes = type === 'tp' ? ['Take Profit Market', 'Take Profit Limit'] : ['Stop Market', 'Stop Limit'];
+      const targets = openOrders.filter(
+        (o) => o.coin === coin && o.isTrigger && o.reduceOnly && orderTypes.includes(o.orderType) && !(o.cloid && isBracketCloid(o.cloid)),
+      );
+      if (targets.length === 0) return 0;
 
       const exchange = await this.createExchangeClient(userId);
-      const asset = await this.getAssetNumberByCoin(coin);
-      const posResult = await this.getPositionForCoin(userId, walletAddress, coin);
-      const mids = await this.infoClient.allMids();
-      const currentPrice = Number(mids[coin] || 0);
-
-      let cancelled = 0;
-      for (const order of openOrders.orders) {
-        if (order.coin !== coin || !order.reduceOnly) continue;
-
-        const orderPrice = Number(order.limitPx);
-        let shouldCancel = false;
-
-        if (posResult.position?.isLong) {
-          shouldCancel = type === 'tp' ? orderPrice > currentPrice : orderPrice < currentPrice;
-        } else if (posResult.position?.isShort) {
-          shouldCancel = type === 'tp' ? orderPrice < currentPrice : orderPrice > currentPrice;
-        }
-
-        if (shouldCancel && order.oid) {
-          try {
-            await exchange.cancel({ cancels: [{ a: asset, o: order.oid }] });
-            cancelled++;
-          } catch (e) {
-            this.logger.warn(`Failed to cancel ${type} order ${order.oid}`);
-          }
-        }
-      }
-      return cancelled;
+      const { asset } = await this.markets.getMarket(coin);
+      await exchange.cancel({ cancels: targets.map((o) => ({ a: asset, o: o.oid })) });
+      return targets.length;
     } catch (e) {
       this.logger.error(`Error cancelling existing ${type} orders:`, e);
       return 0;
@@ -479,14 +587,15 @@ export class HypercoreService {
       const cancelledCount = await this.cancelExistingTpSlOrders(userId, walletAddress, order.coin, 'tp');
 
       const exchange = await this.createExchangeClient(userId);
-      const asset = await this.getAssetNumberByCoin(order.coin);
-      const assetInfo = await this.getAssetMetadata(asset);
+      const market = await this.markets.getMarket(order.coin);
+      const asset = market.asset;
       
-      const formattedSize = this.roundToDecimals(order.size, assetInfo.szDecimals);
+      const formattedSize = roundSize(market, order.size);
       
-      // Format prices to match orderbook
-      const execPrice = await this.formatPrice(Number(order.takeProfitPrice), order.coin);
-      const triggerPrice = await this.formatPrice(Number(order.takeProfitTrigger), order.coin);
+      // Round prices to valid ticks
+      const execPrice = roundPrice(market, order.takeProfitPrice);
+      const triggerPrice = roundPrice(market, order.takeProfitTrigger);
+      const cloid = this.idempotentCloid(userId, order.idempotencyKey);
 
       const result = await exchange.order({
         orders: [{
@@ -496,6 +605,7 @@ export class HypercoreService {
           s: formattedSize,
           r: true,
           t: { trigger: { isMarket: true, tpsl: 'tp', triggerPx: triggerPrice } },
+          ...(cloid && { c: cloid }),
         }],
         grouping: 'na',
       });
@@ -505,13 +615,14 @@ export class HypercoreService {
           success: true,
           message: `Take Profit placed${cancelledCount > 0 ? ` (cancelled ${cancelledCount} existing)` : ''}`,
           data: result.response?.data,
+          cloid,
         };
       }
       
       throw new BadRequestException(`TP order failed: ${JSON.stringify(result?.response)}`);
     } catch (error) {
       this.logger.error(`placeTakeProfitOrder error:`, error);
-      throw new BadRequestException(`Failed to place TP order: ${error.message}`);
+      throw requestError('Failed to place TP order', error);
     }
   }
 
@@ -520,14 +631,15 @@ export class HypercoreService {
       const cancelledCount = await this.cancelExistingTpSlOrders(userId, walletAddress, order.coin, 'sl');
 
       const exchange = await this.createExchangeClient(userId);
-      const asset = await this.getAssetNumberByCoin(order.coin);
-      const assetInfo = await this.getAssetMetadata(asset);
+      const market = await this.markets.getMarket(order.coin);
+      const asset = market.asset;
       
-      const formattedSize = this.roundToDecimals(order.size, assetInfo.szDecimals);
+      const formattedSize = roundSize(market, order.size);
       
-      // Format prices to match orderbook
-      const execPrice = await this.formatPrice(Number(order.stopLossPrice), order.coin);
-      const triggerPrice = await this.formatPrice(Number(order.stopLossTrigger), order.coin);
+      // Round prices to valid ticks
+      const execPrice = roundPrice(market, order.stopLossPrice);
+      const triggerPrice = roundPrice(market, order.stopLossTrigger);
+      const cloid = this.idempotentCloid(userId, order.idempotencyKey);
 
       const result = await exchange.order({
         orders: [{
@@ -537,6 +649,7 @@ export class HypercoreService {
           s: formattedSize,
           r: true,
           t: { trigger: { isMarket: true, tpsl: 'sl', triggerPx: triggerPrice } },
+          ...(cloid && { c: cloid }),
         }],
         grouping: 'na',
       });
@@ -546,13 +659,14 @@ export class HypercoreService {
           success: true,
           message: `Stop Loss placed${cancelledCount > 0 ? ` (cancelled ${cancelledCount} existing)` : ''}`,
           data: result.response?.data,
+          cloid,
         };
       }
       
       throw new BadRequestException(`SL order failed: ${JSON.stringify(result?.response)}`);
     } catch (error) {
       this.logger.error(`placeStopLossOrder error:`, error);
-      throw new BadRequestException(`Failed to place SL order: ${error.message}`);
+      throw requestError('Failed to place SL order', error);
     }
   }
 
@@ -561,7 +675,7 @@ export class HypercoreService {
   async cancelOrder(userId: string, cancel: CancelOrderDto) {
     try {
       const exchange = await this.createExchangeClient(userId);
-      const asset = await this.getAssetNumberByCoin(cancel.coin);
+      const { asset } = await this.markets.getMarket(cancel.coin);
 
       const result = await exchange.cancel({
         cancels: [{ a: asset, o: cancel.oid }],
@@ -574,7 +688,23 @@ export class HypercoreService {
       throw new BadRequestException(`Cancel failed: ${JSON.stringify(result?.response)}`);
     } catch (error) {
       this.logger.error(`cancelOrder error:`, error);
-      throw new BadRequestException(`Failed to cancel order: ${error.message}`);
+      throw requestError('Failed to cancel order', error);
+    }
+  }
+
+  async cancelOrderByCloid(userId: string, cancel: CancelByCloidDto) {
+    try {
+      const exchange = await this.createExchangeClient(userId);
+      const { asset } = await this.markets.getMarket(cancel.coin);
+
+      await exchange.cancelByCloid({
+        cancels: [{ asset, cloid: cancel.cloid as Cloid }],
+      });
+
+      return { success: true, message: 'Order cancelled', cloid: cancel.cloid };
+    } catch (error) {
+      this.logger.error(`cancelOrderByCloid error:`, error);
+      throw requestError('Failed to cancel order', error);
     }
   }
 
@@ -590,7 +720,7 @@ export class HypercoreService {
 
       for (const order of openOrders.orders) {
         if (order.coin && order.oid) {
-          const asset = await this.getAssetNumberByCoin(order.coin);
+          const { asset } = await this.markets.getMarket(order.coin);
           cancels.push({ a: asset, o: order.oid });
         }
       }
@@ -608,7 +738,7 @@ export class HypercoreService {
       throw new BadRequestException(`Cancel all failed: ${JSON.stringify(result?.response)}`);
     } catch (error) {
       this.logger.error(`cancelAllOrders error:`, error);
-      throw new BadRequestException(`Failed to cancel all orders: ${error.message}`);
+      throw requestError('Failed to cancel all orders', error);
     }
   }
 
@@ -667,7 +797,7 @@ export class HypercoreService {
       };
     } catch (error) {
       this.logger.error(`closeAllPositions error:`, error);
-      throw new BadRequestException(`Failed to close all positions: ${error.message}`);
+      throw requestError('Failed to close all positions', error);
     }
   }
 
@@ -676,11 +806,14 @@ export class HypercoreService {
   async updateLeverage(userId: string, dto: UpdateLeverageDto) {
     try {
       const exchange = await this.createExchangeClient(userId);
-      const asset = await this.getAssetNumberByCoin(dto.coin);
-      const assetInfo = await this.getAssetMetadata(asset);
+      const market = await this.markets.getMarket(dto.coin);
+      const asset = market.asset;
+      if (market.maxLeverage === null) {
+        throw new BadRequestException(`${dto.coin} is a spot market and has no leverage`);
+      }
 
-      if (dto.leverage > assetInfo.maxLeverage) {
-        throw new BadRequestException(`Max leverage for ${dto.coin} is ${assetInfo.maxLeverage}x`);
+      if (dto.leverage > market.maxLeverage) {
+        throw new BadRequestException(`Max leverage for ${dto.coin} is ${market.maxLeverage}x`);
       }
 
       const result = await exchange.updateLeverage({
@@ -696,46 +829,316 @@ export class HypercoreService {
       throw new BadRequestException(`Update leverage failed: ${JSON.stringify(result?.response)}`);
     } catch (error) {
       this.logger.error(`updateLeverage error:`, error);
-      throw new BadRequestException(`Failed to update leverage: ${error.message}`);
+      throw requestError('Failed to update leverage', error);
     }
   }
 
   async setIsolatedMode(userId: string, dto: SetIsolatedModeDto) {
     try {
       const exchange = await this.createExchangeClient(userId);
-      const asset = await this.getAssetNumberByCoin(dto.coin);
-      const assetInfo = await this.getAssetMetadata(asset);
+      const market = await this.markets.getMarket(dto.coin);
+      const asset = market.asset;
+      if (market.maxLeverage === null) {
+        throw new BadRequestException(`${dto.coin} is a spot market and has no leverage`);
+      }
 
       const result = await exchange.updateLeverage({
         asset,
         isCross: false,
-        leverage: assetInfo.maxLeverage,
+        leverage: market.maxLeverage,
       });
 
       if (result?.status === 'ok') {
         return {
           success: true,
-          message: `${dto.coin} set to isolated margin (${assetInfo.maxLeverage}x)`,
+          message: `${dto.coin} set to isolated margin (${market.maxLeverage}x)`,
         };
       }
       
       throw new BadRequestException(`Set isolated mode failed: ${JSON.stringify(result?.response)}`);
     } catch (error) {
       this.logger.error(`setIsolatedMode error:`, error);
-      throw new BadRequestException(`Failed to set isolated mode: ${error.message}`);
+      throw requestError('Failed to set isolated mode', error);
+    }
+  }
+
+  // ==================== MODIFY & BATCH ORDERS ====================
+
+  /** Changes price, size or trigger of an open order atomically, with no window between a cancel and a re-place. */
+  async modifyOrder(userId: string, walletAddress: `0x${string}`, dto: ModifyOrderDto) {
+    try {
+      const modify = await this.resolveModify(userId, walletAddress, dto);
+      const exchange = await this.createExchangeClient(userId);
+      await exchange.modify(modify);
+
+      return { success: true, message: 'Order modified', oid: dto.oid, cloid: dto.cloid, order: modify.order };
+    } catch (error) {
+      this.logger.error(`modifyOrder error:`, error);
+      throw requestError('Failed to modify order', error);
+    }
+  }
+
+  async batchModifyOrders(userId: string, walletAddress: `0x${string}`, dto: BatchModifyOrdersDto) {
+    try {
+      const modifies = await Promise.all(
+        dto.modifies.map((m, i) =>
+          this.resolveModify(userId, walletAddress, m).catch((error) => {
+            throw requestError(`Modify ${i}`, error);
+          }),
+        ),
+      );
+
+      const exchange = await this.createExchangeClient(userId);
+      const statuses = await exchange.batchModify({ modifies }).then(
+        (result) => result.response.data.statuses,
+        (error) => statusesOfError(error) ?? Promise.reject(error),
+      );
+
+      const results = toOrderResults(statuses).map((r, i) => ({ coin: dto.modifies[i].coin, oid: dto.modifies[i].oid, cloid: dto.modifies[i].cloid, ...r }));
+      const failed = results.filter((r) => !r.success).length;
+      return {
+        success: failed === 0,
+        message: `Modified ${results.length - failed} orders${failed > 0 ? `, ${failed} failed` : ''}`,
+        results,
+      };
+    } catch (error) {
+      this.logger.error(`batchModifyOrders error:`, error);
+      throw requestError('Failed to modify orders', error);
+    }
+  }
+
+  /**
+   * Places up to MAX_BATCH_ORDERS orders of any type in one signed action.
+   * Each order succeeds or fails on its own; the results keep the request order.
+   */
+  async batchPlaceOrders(userId: string, dto: BatchPlaceOrdersDto) {
+    for (const order of dto.orders) {
+      if (order.type === 'limit' || order.type === 'market') {
+        if (!order.reduceOnly) await this.assertCoinAllowed(userId, order.coin);
+      }
+    }
+
+    try {
+      const orders = await Promise.all(
+        dto.orders.map((order, i) =>
+          this.toOrderWire(order, this.idempotentCloid(userId, dto.idempotencyKey, i + 1)).catch((error) => {
+            throw requestError(`Order ${i}`, error);
+          }),
+        ),
+      );
+
+      const exchange = await this.createExchangeClient(userId);
+      const statuses = await exchange.order({ orders, grouping: 'na' }).then(
+        (result) => result.response.data.statuses,
+        (error) => statusesOfError(error) ?? Promise.reject(error),
+      );
+
+      const results = toOrderResults(statuses).map((r, i) => ({ coin: dto.orders[i].coin, type: dto.orders[i].type, cloid: orders[i].c, ...r }));
+      const failed = results.filter((r) => !r.success).length;
+      return {
+        success: failed === 0,
+        message: `Placed ${results.length - failed} orders${failed > 0 ? `, ${failed} failed` : ''}`,
+        results,
+      };
+    } catch (error) {
+      this.logger.error(`batchPlaceOrders error:`, error);
+      throw requestError('Failed to place orders', error);
+    }
+  }
+
+  // ==================== BRACKET ORDERS ====================
+
+  /**
+   * Entry, take profit and stop loss sent in a single `order` action, so the
+   * position is never open without its protection. The three legs carry cloids
+   * derived from one bracket id, which is all that is needed to manage them later.
+   */
+  async placeBracketOrder(userId: string, walletAddress: `0x${string}`, order: BracketOrderDto) {
+    await this.assertCoinAllowed(userId, order.coin);
+
+    try {
+      const market = await this.markets.getMarket(order.coin);
+      const formattedSize = roundSize(market, order.size);
+
+      const takeProfitTrigger = roundPrice(market, order.takeProfitTrigger);
+      const stopLossTrigger = roundPrice(market, order.stopLossTrigger);
+      const tpAboveSl = new Prisma.Decimal(takeProfitTrigger).gt(stopLossTrigger);
+      if (tpAboveSl !== order.isBuy) {
+        throw new BadRequestException(`Take profit trigger must be ${order.isBuy ? 'above' : 'below'} the stop loss trigger for a ${order.isBuy ? 'long' : 'short'}`);
+      }
+
+      let entryPrice: string;
+      let tif: 'Gtc' | 'Ioc' | 'Alo';
+      if (order.price) {
+        entryPrice = roundPrice(market, order.price);
+        tif = order.postOnly ? 'Alo' : 'Gtc';
+      } else {
+        ({ limitPrice: entryPrice } = await this.protectedMarketPrice(market, order.isBuy, formattedSize, order.maxSlippageBps));
+        tif = 'Ioc';
+      }
+
+      const bracketId = order.idempotencyKey ? idempotencyCloidPrefix(userId, order.idempotencyKey) : newBracketId();
+      const exchange = await this.createExchangeClient(userId);
+      const statuses = await exchange.order({
+        orders: [
+          { a: market.asset, b: order.isBuy, p: entryPrice, s: formattedSize, r: false, t: { limit: { tif } }, c: bracketCloid(bracketId, 'entry') },
+          { a: market.asset, b: !order.isBuy, p: roundPrice(market, order.takeProfitPrice), s: formattedSize, r: true, t: { trigger: { isMarket: true, tpsl: 'tp', triggerPx: takeProfitTrigger } }, c: bracketCloid(bracketId, 'takeProfit') },
+          { a: market.asset, b: !order.isBuy, p: roundPrice(market, order.stopLossPrice), s: formattedSize, r: true, t: { trigger: { isMarket: true, tpsl: 'sl', triggerPx: stopLossTrigger } }, c: bracketCloid(bracketId, 'stopLoss') },
+        ],
+        grouping: order.grouping ?? 'normalTpsl',
+      }).then(
+        (result) => result.response.data.statuses,
+        // one rejected leg makes the SDK throw, the other legs may still be live
+        (error) => statusesOfError(error) ?? Promise.reject(error),
+      );
+
+      // TP/SL children report no oid while they wait for the entry, look them up by cloid
+      const results = toOrderResults(BRACKET_LEGS.map((_, i) => statuses[i]));
+      const [entry, takeProfit, stopLoss] = await Promise.all(
+        BRACKET_LEGS.map(async (leg, i) => {
+          const cloid = bracketCloid(bracketId, leg);
+          const result = results[i];
+          if (result.success && result.oid === null) {
+            const status = await this.infoClient.orderStatus({ user: walletAddress, oid: cloid }).catch(() => null);
+            if (status?.status === 'order') result.oid = status.order.order.oid;
+          }
+          return { cloid, ...result };
+        }),
+      );
+
+      if (!entry.success && !takeProfit.success && !stopLoss.success) {
+        throw new BadRequestException(entry.error);
+      }
+
+      // the entry is live (resting or filled) without all of its protection
+      const rejected = [takeProfit.success ? null : 'take profit', stopLoss.success ? null : 'stop loss'].filter(Boolean);
+      const unprotected = entry.success && rejected.length > 0;
+
+      let message = 'Bracket order placed';
+      if (!entry.success) message = `Bracket entry rejected: ${entry.error}`;
+      else if (unprotected) message = `Bracket entry ${entry.status} but its ${rejected.join(' and ')} ${rejected.length > 1 ? 'were' : 'was'} rejected: the position is not fully protected`;
+
+      return {
+        success: entry.success && !unprotected,
+        message,
+        unprotected,
+        bracketId,
+        entry,
+        takeProfit,
+        stopLoss,
+      };
+    } catch (error) {
+      this.logger.error(`placeBracketOrder error:`, error);
+      throw requestError('Failed to place bracket order', error);
     }
   }
 
+  /**
+   * Moves the prices of the still open legs of a bracket in one `batchModify`.
+   * Legs keep their side, remaining size and cloid.
+   */
+  async modifyBracketOrder(userId: string, walletAddress: `0x${string}`, dto: ModifyBracketOrderDto) {
+    try {
+      const changes: Record<BracketLeg, { price?: string; triggerPrice?: string }> = {
+        entry: { price: dto.price },
+        takeProfit: { price: dto.takeProfitPrice, triggerPrice: dto.takeProfitTrigger },
+        stopLoss: { price: dto.stopLossPrice, triggerPrice: dto.stopLossTrigger },
+      };
+
+      const { coin, open: openLegs } = await this.getOpenBracketLegs(walletAddress, dto);
+      const market = await this.markets.getMarket(coin);
+      const modifies = [];
+      for (const leg of BRACKET_LEGS) {
+        if (!changes[leg].price && !changes[leg].triggerPrice) continue;
+
+        const open = openLegs[leg];
+        if (!open) {
+          throw new BadRequestException(`The ${leg} leg of bracket ${dto.bracketId} is no longer open`);
+        }
+
+        modifies.push(this.toModify(market, open, changes[leg]));
+      }
+
+      if (modifies.length === 0) {
+        throw new BadRequestException('Nothing to modify');
+      }
+
+      const exchange = await this.createExchangeClient(userId);
+      const result = await exchange.batchModify({ modifies });
+
+      return {
+        success: true,
+        message: `Modified ${modifies.length} bracket leg(s)`,
+        bracketId: dto.bracketId,
+        data: result.response?.data,
+      };
+    } catch (error) {
+      this.logger.error(`modifyBracketOrder error:`, error);
+      throw requestError('Failed to modify bracket order', error);
+    }
+  }
+
+  /** Cancels every leg of a bracket that is still open. */
+  async cancelBracketOrder(userId: string, walletAddress: `0x${string}`, dto: CancelBracketOrderDto) {
+    try {
+      const { coin, open: openLegs } = await this.getOpenBracketLegs(walletAddress, dto);
+      const legs = BRACKET_LEGS.filter((leg) => openLegs[leg]);
+
+      if (legs.length === 0) {
+        return { success: true, message: 'No open bracket legs to cancel', bracketId: dto.bracketId, cancelled: [] };
+      }
+
+      const market = await this.markets.getMarket(coin);
+      const exchange = await this.createExchangeClient(userId);
+      await exchange.cancelByCloid({
+        cancels: legs.map((leg) => ({ asset: market.asset, cloid: bracketCloid(dto.bracketId, leg) })),
+      });
+
+      return { success: true, message: `Cancelled ${legs.length} bracket leg(s)`, bracketId: dto.bracketId, cancelled: legs };
+    } catch (error) {
+      this.logger.error(`cancelBracketOrder error:`, error);
+      throw requestError('Failed to cancel bracket order', error);
+    }
+  }
+
+  /**
+   * Open legs of a bracket, and its coin as reported by the exchange: the legs'
+   * asset never comes from the request. A `coin` sent along must match it.
+   */
+  private async getOpenBracketLegs(walletAddress: `0x${string}`, { bracketId, coin }: CancelBracketOrderDto) {
+    const statuses = await Promise.all(
+      BRACKET_LEGS.map((leg) => this.infoClient.orderStatus({ user: walletAddress, oid: bracketCloid(bracketId, leg) })),
+    );
+
+    const known = statuses.find((s) => s.status === 'order');
+    if (known?.status !== 'order') {
+      throw new BadRequestException(`Bracket ${bracketId} not found`);
+    }
+    const market = await this.markets.getMarket(known.order.order.coin);
+    if (coin && (await this.markets.getMarket(coin)).coin !== market.coin) {
+      throw new BadRequestException(`Bracket ${bracketId} is a ${market.coin} bracket, not ${coin}`);
+    }
+
+    const open: Partial<Record<BracketLeg, OpenOrderStatus>> = {};
+    BRACKET_LEGS.forEach((leg, i) => {
+      const s = statuses[i];
+      if (s.status === 'order' && s.order.status === 'open') open[leg] = s.order.order;
+    });
+    return { coin: market.coin, open };
+  }
+
   // ==================== TWAP (Native Hyperliquid) ====================
 
   async twap(userId: string, twap: TwapDto) {
+    await this.assertCoinAllowed(userId, twap.coin);
+
     try {
       const exchange = await this.createExchangeClient(userId);
-      const asset = await this.getAssetNumberByCoin(twap.coin);
-      const assetInfo = await this.getAssetMetadata(asset);
+      const market = await this.markets.getMarket(twap.coin);
+      const asset = market.asset;
       
-      // Format size to szDecimals
-      const formattedSize = this.roundToDecimals(twap.size, assetInfo.szDecimals);
+      // Round size down to szDecimals
+      const formattedSize = roundSize(market, twap.size);
       
       // Use native Hyperliquid TWAP
       const result = await exchange.twapOrder({
@@ -762,7 +1165,7 @@ export class HypercoreService {
       throw new BadRequestException(`TWAP order failed: ${JSON.stringify(result)}`);
     } catch (error) {
       this.logger.error(`twap error:`, error);
-      throw new BadRequestException(`Failed to place TWAP: ${error.message}`);
+      throw requestError('Failed to place TWAP', error);
     }
   }
 }
@@ -1 +1,3 @@
 export { HypercoreService } from './hypercore.service';
+export { HypercoreMarketService } from './hypercore-market.service';
+export { OrderRequestService } from './order-request.service';
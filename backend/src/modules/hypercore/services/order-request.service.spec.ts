@@ -0,0 +1,196 @@
+import { ConflictException, ServiceUnavailableException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Test } from '@nestjs/testing';
+import { OrderRequestStatus } from '@prisma/client';
+import { PrismaService } from '@/database/prisma.service';
+import { PENDING_ORDER_REQUEST_TTL_MS } from '../constants/order.constants';
+import { cloidPrefixOf, idempotencyCloidPrefix } from '../utils/cloid.util';
+import { OrderRequestService } from './order-request.service';
+
+const mockInfoClient = { orderStatus: jest.fn() };
+
+// keeps the Hyperliquid SDK (ESM only dependencies) out of the test
+jest.mock('@nktkas/hyperliquid', () => ({
+  InfoClient: function InfoClient() {
+    return mockInfoClient;
+  },
+  HttpTransport: function HttpTransport() {},
+}));
+
+const ORDER_ENDPOINT = 'POST /api/hypercore/orders/open';
+const TWAP_ENDPOINT = 'POST /api/hypercore/orders/twap';
+const prefix = idempotencyCloidPrefix('user-1', 'key-1');
+
+describe('OrderRequestService', () => {
+  let orderRequests: OrderRequestService;
+
+  const prisma = {
+    orderRequest: {
+      createMany: jest.fn(),
+      findUniqueOrThrow: jest.fn(),
+      updateMany: jest.fn(),
+    },
+  };
+
+  function existing(
+    status: OrderRequestStatus,
+    overrides: Record<string, unknown> = {},
+  ) {
+    prisma.orderRequest.createMany.mockResolvedValue({ count: 0 });
+    prisma.orderRequest.findUniqueOrThrow.mockResolvedValue({
+      id: 'request-1',
+      endpoint: ORDER_ENDPOINT,
+      cloid: `${prefix}00`,
+      status,
+      response: null,
+      updatedAt: new Date(Date.now() - PENDING_ORDER_REQUEST_TTL_MS - 1),
+      ...overrides,
+    });
+  }
+
+  const claim = (endpoint = ORDER_ENDPOINT) =>
+    orderRequests.claim('user-1', '0xwallet', 'key-1', endpoint);
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+
+    mockInfoClient.orderStatus.mockResolvedValue({ status: 'unknownOid' });
+    prisma.orderRequest.updateMany.mockResolvedValue({ count: 1 });
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        OrderRequestService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: ConfigService, useValue: { get: jest.fn() } },
+      ],
+    }).compile();
+
+    orderRequests = moduleRef.get(OrderRequestService);
+  });
+
+  describe('claim', () => {
+    it('claims a new key with the cloid derived from it', async () => {
+      prisma.orderRequest.createMany.mockResolvedValue({ count: 1 });
+      prisma.orderRequest.findUniqueOrThrow.mockResolvedValue({
+        id: 'request-1',
+      });
+
+      await expect(claim()).resolves.toEqual({ id: 'request-1' });
+      expect(prisma.orderRequest.createMany).toHaveBeenCalledWith({
+        data: [
+          {
+            userId: 'user-1',
+            idempotencyKey: 'key-1',
+            endpoint: ORDER_ENDPOINT,
+            cloid: `${prefix}00`,
+          },
+        ],
+        skipDuplicates: true,
+      });
+    });
+
+    it('replays the response of a completed request', async () => {
+      existing(OrderRequestStatus.COMPLETED, { response: { success: true } });
+
+      await expect(claim()).resolves.toEqual({ replay: { success: true } });
+    });
+
+    it('rejects a key reused on another route', async () => {
+      existing(OrderRequestStatus.COMPLETED);
+
+      await expect(claim('POST /api/hypercore/orders/close')).rejects.toThrow(
+        `Idempotency key already used for ${ORDER_ENDPOINT}`,
+      );
+    });
+
+    it('rejects a key still in flight', async () => {
+      existing(OrderRequestStatus.PENDING, { updatedAt: new Date() });
+
+      await expect(claim()).rejects.toThrow(ConflictException);
+      expect(mockInfoClient.orderStatus).not.toHaveBeenCalled();
+    });
+
+    it('claims a failed key again when none of its orders was placed', async () => {
+      existing(OrderRequestStatus.FAILED);
+
+      await expect(claim()).resolves.toEqual({ id: 'request-1' });
+      expect(prisma.orderRequest.updateMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: { status: OrderRequestStatus.PENDING, error: null },
+        }),
+      );
+    });
+
+    it('replays the orders a crashed request already placed', async () => {
+      existing(OrderRequestStatus.PENDING);
+      mockInfoClient.orderStatus.mockImplementation(async ({ oid }) =>
+        oid === `${prefix}00`
+          ? {
+              status: 'order',
+              order: { order: { oid: 42, coin: 'BTC' }, status: 'filled' },
+            }
+          : { status: 'unknownOid' },
+      );
+
+      const recovered = {
+        success: true,
+        message: 'Orders were already placed by an earlier attempt',
+        recovered: true,
+        orders: [
+          { cloid: `${prefix}00`, oid: 42, coin: 'BTC', status: 'filled' },
+        ],
+      };
+      await expect(claim()).resolves.toEqual({ replay: recovered });
+      expect(prisma.orderRequest.updateMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: {
+            status: OrderRequestStatus.COMPLETED,
+            response: recovered,
+            error: null,
+          },
+        }),
+      );
+    });
+
+    it('looks up every cloid of the prefix', async () => {
+      existing(OrderRequestStatus.FAILED);
+
+      await claim();
+
+      const cloids = mockInfoClient.orderStatus.mock.calls.map(([p]) => p.oid);
+      expect(cloids).toContain(`${prefix}00`);
+      expect(cloids).toContain(`${prefix}b3`);
+      expect(cloids.every((c) => cloidPrefixOf(c) === prefix)).toBe(true);
+    });
+
+    it('lets only one of concurrent retries take a failed key', async () => {
+      existing(OrderRequestStatus.FAILED);
+      prisma.orderRequest.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(claim()).rejects.toThrow(
+        'A request with this idempotency key is still in progress',
+      );
+    });
+
+    it('keeps a failed key when Hyperliquid cannot be checked', async () => {
+      existing(OrderRequestStatus.FAILED);
+      mockInfoClient.orderStatus.mockRejectedValue(new Error('timeout'));
+
+      await expect(claim()).rejects.toThrow(ServiceUnavailableException);
+      expect(prisma.orderRequest.updateMany).not.toHaveBeenCalled();
+    });
+
+    it.each([OrderRequestStatus.FAILED, OrderRequestStatus.PENDING])(
+      'never claims a %s TWAP key again',
+      async (status) => {
+        existing(status, { endpoint: TWAP_ENDPOINT });
+
+        await expect(claim(TWAP_ENDPOINT)).rejects.toThrow(
+          'retry with a new idempotency key',
+        );
+        expect(mockInfoClient.orderStatus).not.toHaveBeenCalled();
+        expect(prisma.orderRequest.updateMany).not.toHaveBeenCalled();
+      },
+    );
+  });
+});
@@ -0,0 +1,200 @@
+import {
+  ConflictException,
+  Injectable,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { OrderRequest, OrderRequestStatus, Prisma } from '@prisma/client';
+import * as hl from '@nktkas/hyperliquid';
+import { PrismaService } from '@/database/prisma.service';
+import {
+  MAX_BATCH_ORDERS,
+  PENDING_ORDER_REQUEST_TTL_MS,
+} from '../constants/order.constants';
+import {
+  cloidPrefixOf,
+  idempotencyCloidPrefix,
+  orderCloid,
+  prefixCloids,
+} from '../utils/cloid.util';
+
+export type OrderRequestClaim = { id: string } | { replay: unknown };
+
+// TWAP orders carry no cloid, so an earlier attempt cannot be looked up on Hyperliquid
+const isTwapEndpoint = (endpoint: string) => endpoint.endsWith('/orders/twap');
+
+/**
+ * Server-side record of order submissions made with an idempotency key.
+ * The first submission claims the key; retries get its recorded response
+ * back instead of placing the orders again.
+ */
+@Injectable()
+export class OrderRequestService {
+  private readonly infoClient: hl.InfoClient;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly configService: ConfigService,
+  ) {
+    const isTestnet =
+      this.configService.get<string>('HYPERLIQUID_NETWORK', 'testnet') ===
+      'testnet';
+    this.infoClient = new hl.InfoClient({
+      transport: new hl.HttpTransport({ isTestnet }),
+    });
+  }
+
+  async claim(
+    userId: string,
+    walletAddress: string,
+    idempotencyKey: string,
+    endpoint: string,
+  ): Promise<OrderRequestClaim> {
+    const where = { userId_idempotencyKey: { userId, idempotencyKey } };
+
+    // skipDuplicates makes the claim atomic against concurrent retries
+    const { count } = await this.prisma.orderRequest.createMany({
+      data: [
+        {
+          userId,
+          idempotencyKey,
+          endpoint,
+          cloid: orderCloid(idempotencyCloidPrefix(userId, idempotencyKey)),
+        },
+      ],
+      skipDuplicates: true,
+    });
+    const request = await this.prisma.orderRequest.findUniqueOrThrow({
+      where,
+    });
+    if (count === 1) return { id: request.id };
+
+    if (request.endpoint !== endpoint) {
+      throw new ConflictException(
+        `Idempotency key already used for ${request.endpoint}`,
+      );
+    }
+
+    switch (request.status) {
+      case OrderRequestStatus.COMPLETED:
+        return { replay: request.response };
+      case OrderRequestStatus.PENDING:
+        // a pending request this old has crashed without recording an outcome
+        if (
+          Date.now() - request.updatedAt.getTime() <
+          PENDING_ORDER_REQUEST_TTL_MS
+        ) {
+          throw new ConflictException(
+            'A request with this idempotency key is still in progress',
+          );
+        }
+        return this.reclaim(request, walletAddress);
+      case OrderRequestStatus.FAILED:
+        return this.reclaim(request, walletAddress);
+    }
+  }
+
+  /**
+   * Claims a failed or crashed request again. Its orders may still have
+   * reached Hyperliquid (e.g. the response was lost), so the cloids are
+   * looked up first and any order found is recorded and replayed instead of
+   * being sent a second time. A TWAP cannot be looked up and is never
+   * claimed again: the client retries with a new key once it checked its TWAPs.
+   */
+  private async reclaim(
+    request: OrderRequest,
+    walletAddress: string,
+  ): Promise<OrderRequestClaim> {
+    if (isTwapEndpoint(request.endpoint)) {
+      throw new ConflictException(
+        'This TWAP may have started in an earlier attempt, check your TWAPs and retry with a new idempotency key',
+      );
+    }
+
+    const orders = await this.placedOrders(
+      walletAddress,
+      cloidPrefixOf(request.cloid),
+    );
+    const response = orders.length
+      ? {
+          success: true,
+          message: 'Orders were already placed by an earlier attempt',
+          recovered: true,
+          orders,
+        }
+      : null;
+
+    // compare-and-set, so of concurrent retries only one takes the request
+    const { count } = await this.prisma.orderRequest.updateMany({
+      where: {
+        id: request.id,
+        status: request.status,
+        updatedAt: request.updatedAt,
+      },
+      data: response
+        ? {
+            status: OrderRequestStatus.COMPLETED,
+            response: response as Prisma.InputJsonValue,
+            error: null,
+          }
+        : { status: OrderRequestStatus.PENDING, error: null },
+    });
+    if (count === 0) {
+      throw new ConflictException(
+        'A request with this idempotency key is still in progress',
+      );
+    }
+    return response ? { replay: response } : { id: request.id };
+  }
+
+  /** Orders Hyperliquid knows under any cloid of the prefix. */
+  private async placedOrders(walletAddress: string, prefix: string) {
+    const cloids = prefixCloids(prefix, MAX_BATCH_ORDERS);
+    const statuses = await Promise.all(
+      cloids.map((cloid) =>
+        this.infoClient.orderStatus({ user: walletAddress, oid: cloid }),
+      ),
+    ).catch((error) => {
+      throw new ServiceUnavailableException(
+        `Could not check the earlier attempt on Hyperliquid: ${error.message}`,
+      );
+    });
+
+    return statuses.flatMap((status, i) =>
+      status.status === 'order'
+        ? [
+            {
+              cloid: cloids[i],
+              oid: status.order.order.oid,
+              coin: status.order.order.coin,
+              status: status.order.status,
+            },
+          ]
+        : [],
+    );
+  }
+
+  async complete(id: string, response: unknown) {
+    await this.prisma.orderRequest.update({
+      where: { id },
+      data: {
+        status: OrderRequestStatus.COMPLETED,
+        response: JSON.parse(JSON.stringify(response)) as Prisma.InputJsonValue,
+      },
+    });
+  }
+
+  async fail(id: string, error: string) {
+    await this.prisma.orderRequest.update({
+      where: { id },
+      data: { status: OrderRequestStatus.FAILED, error },
+    });
+  }
+
+  /** The request an order belongs to, from any of its cloids. */
+  async findByCloid(userId: string, cloid: string) {
+    return this.prisma.orderRequest.findFirst({
+      where: { userId, cloid: orderCloid(cloidPrefixOf(cloid)) },
+    });
+  }
+}
@@ -69,3 +69,18 @@ export interface MarketInfo {
   name: string;
   szDecimals: number;
 }
+
+export type MarketType = 'perp' | 'spot';
+
+export interface HyperliquidMarket {
+  coin: string; // e.g. 'BTC' for perps, 'PURR/USDC' or '@107' for spot pairs
+  type: MarketType;
+  asset: number; // Order asset id: perp index, or 10000 + spot pair index
+  szDecimals: number;
+  maxPriceDecimals: number; // (6 for perps, 8 for spot) - szDecimals
+  maxLeverage: number | null; // null for spot
+  onlyIsolated: boolean;
+  isDelisted: boolean;
+  base?: string; // Spot base/quote token names
+  quote?: string;
+}
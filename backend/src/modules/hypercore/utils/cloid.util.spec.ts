@@ -0,0 +1,79 @@
+import {
+  bracketCloid,
+  BRACKET_ID_PATTERN,
+  CLOID_PATTERN,
+  cloidPrefixOf,
+  idempotencyCloidPrefix,
+  isBracketCloid,
+  newBracketId,
+  orderCloid,
+  prefixCloids,
+} from './cloid.util';
+
+const prefix = `0x${'ab'.repeat(15)}`;
+
+describe('orderCloid', () => {
+  it('appends the order index as the last byte', () => {
+    expect(orderCloid(prefix)).toBe(`${prefix}00`);
+    expect(orderCloid(prefix, 1)).toBe(`${prefix}01`);
+    expect(orderCloid(prefix, 20)).toBe(`${prefix}14`);
+    expect(orderCloid(prefix, 255)).toBe(`${prefix}ff`);
+  });
+
+  it('builds valid cloids that share their prefix', () => {
+    const cloid = orderCloid(prefix, 7);
+
+    expect(cloid).toMatch(CLOID_PATTERN);
+    expect(cloidPrefixOf(cloid)).toBe(prefix);
+  });
+});
+
+describe('idempotencyCloidPrefix', () => {
+  it('derives the same prefix from the same user and key', () => {
+    expect(idempotencyCloidPrefix('user-1', 'key')).toBe(
+      idempotencyCloidPrefix('user-1', 'key'),
+    );
+    expect(orderCloid(idempotencyCloidPrefix('user-1', 'key'))).toMatch(
+      CLOID_PATTERN,
+    );
+  });
+
+  it('keeps the keys of different users apart', () => {
+    expect(idempotencyCloidPrefix('user-1', 'key')).not.toBe(
+      idempotencyCloidPrefix('user-2', 'key'),
+    );
+  });
+});
+
+describe('brackets', () => {
+  it('gives every leg its own cloid under the bracket id', () => {
+    const bracketId = newBracketId();
+
+    expect(bracketId).toMatch(BRACKET_ID_PATTERN);
+    expect(bracketCloid(bracketId, 'entry')).toBe(`${bracketId}b1`);
+    expect(bracketCloid(bracketId, 'takeProfit')).toBe(`${bracketId}b2`);
+    expect(bracketCloid(bracketId, 'stopLoss')).toBe(`${bracketId}b3`);
+  });
+
+  it('tells bracket legs apart from single and batch orders', () => {
+    expect(isBracketCloid(`${prefix}b1`)).toBe(true);
+    expect(isBracketCloid(`${prefix}b3`)).toBe(true);
+    expect(isBracketCloid(`${prefix}b0`)).toBe(false);
+    expect(isBracketCloid(`${prefix}b4`)).toBe(false);
+    expect(isBracketCloid(orderCloid(prefix))).toBe(false);
+    expect(isBracketCloid(orderCloid(prefix, 20))).toBe(false);
+  });
+});
+
+describe('prefixCloids', () => {
+  it('lists the single order, the batch orders and the bracket legs', () => {
+    expect(prefixCloids(prefix, 2)).toEqual([
+      `${prefix}00`,
+      `${prefix}01`,
+      `${prefix}02`,
+      `${prefix}b1`,
+      `${prefix}b2`,
+      `${prefix}b3`,
+    ]);
+  });
+});
@@ -0,0 +1,72 @@
+import { createHash, randomBytes } from 'crypto';
+
+/** Hyperliquid client order id: 16 bytes as 0x-prefixed hex. */
+export type Cloid = `0x${string}`;
+
+export const CLOID_PATTERN = /^0x[0-9a-f]{32}$/;
+
+/**
+ * Orders submitted together share a 15-byte cloid prefix; the last byte tells
+ * them apart (0 for a single order, 1.. for batch orders, b1-b3 for bracket legs).
+ */
+export const CLOID_PREFIX_PATTERN = /^0x[0-9a-f]{30}$/;
+
+export function cloidPrefixOf(cloid: string): string {
+  return cloid.slice(0, 32);
+}
+
+export function orderCloid(prefix: string, index = 0): Cloid {
+  return `${prefix}${index.toString(16).padStart(2, '0')}` as Cloid;
+}
+
+/**
+ * Prefix derived from an idempotency key, so a retried request reuses the
+ * cloids of the original submission.
+ */
+export function idempotencyCloidPrefix(userId: string, key: string): string {
+  const hash = createHash('sha256').update(`${userId}:${key}`).digest('hex');
+  return `0x${hash.slice(0, 30)}`;
+}
+
+export type BracketLeg = 'entry' | 'takeProfit' | 'stopLoss';
+
+export const BRACKET_LEGS: BracketLeg[] = ['entry', 'takeProfit', 'stopLoss'];
+
+/** A bracket id is the cloid prefix of its three legs. */
+export const BRACKET_ID_PATTERN = CLOID_PREFIX_PATTERN;
+
+/** Last cloid byte of the entry leg, out of the range of batch order indexes. */
+const BRACKET_LEG_INDEX = 0xb1;
+
+export function newBracketId(): string {
+  return `0x${randomBytes(15).toString('hex')}`;
+}
+
+/**
+ * Cloid of one leg of a bracket, so the three orders can be found, modified
+ * and cancelled from the bracket id alone.
+ */
+export function bracketCloid(bracketId: string, leg: BracketLeg): Cloid {
+  return orderCloid(bracketId, BRACKET_LEG_INDEX + BRACKET_LEGS.indexOf(leg));
+}
+
+/** Whether a cloid is one of the legs of a bracket. */
+export function isBracketCloid(cloid: string): boolean {
+  const index = parseInt(cloid.slice(32), 16);
+  return (
+    index >= BRACKET_LEG_INDEX &&
+    index < BRACKET_LEG_INDEX + BRACKET_LEGS.length
+  );
+}
+
+/**
+ * Every cloid a submission under one prefix may have used: the single order,
+ * up to `batchSize` batch orders and the bracket legs.
+ */
+export function prefixCloids(prefix: string, batchSize: number): Cloid[] {
+  return [
+    orderCloid(prefix),
+    ...Array.from({ length: batchSize }, (_, i) => orderCloid(prefix, i + 1)),
+    ...BRACKET_LEGS.map((_, i) => orderCloid(prefix, BRACKET_LEG_INDEX + i)),
+  ];
+}
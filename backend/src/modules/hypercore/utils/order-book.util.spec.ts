@@ -0,0 +1,60 @@
+import { BookLevel, estimateFill } from './order-book.util';
+
+const bids: BookLevel[] = [
+  { px: '99', sz: '1' },
+  { px: '98', sz: '2' },
+];
+const asks: BookLevel[] = [
+  { px: '101', sz: '1' },
+  { px: '102', sz: '2' },
+];
+
+describe('estimateFill', () => {
+  it('fills within the best level at its price', () => {
+    const fill = estimateFill([bids, asks], true, '0.5');
+
+    expect(fill.midPx.toFixed()).toBe('100');
+    expect(fill.avgPx.toFixed()).toBe('101');
+    expect(fill.worstPx.toFixed()).toBe('101');
+    expect(fill.impactBps.toFixed()).toBe('100');
+  });
+
+  it('walks the asks for a buy', () => {
+    const fill = estimateFill([bids, asks], true, '2');
+
+    // 1 @ 101 + 1 @ 102
+    expect(fill.avgPx.toFixed()).toBe('101.5');
+    expect(fill.worstPx.toFixed()).toBe('102');
+    expect(fill.impactBps.toFixed()).toBe('150');
+  });
+
+  it('walks the bids for a sell', () => {
+    const fill = estimateFill([bids, asks], false, '3');
+
+    // 1 @ 99 + 2 @ 98
+    expect(fill.avgPx.toFixed(4)).toBe('98.3333');
+    expect(fill.worstPx.toFixed()).toBe('98');
+    expect(fill.impactBps.toFixed(2)).toBe('166.67');
+  });
+
+  it('fills a size that exactly empties the visible book', () => {
+    const fill = estimateFill([bids, asks], true, '3');
+
+    expect(fill.worstPx.toFixed()).toBe('102');
+  });
+
+  it('rejects a size the visible book cannot absorb', () => {
+    expect(() => estimateFill([bids, asks], true, '3.5')).toThrow(
+      'Not enough liquidity in the book to fill 3.5 (0.5 left)',
+    );
+  });
+
+  it('rejects a book missing either side', () => {
+    expect(() => estimateFill([[], asks], true, '1')).toThrow(
+      'Order book is empty',
+    );
+    expect(() => estimateFill([bids, []], false, '1')).toThrow(
+      'Order book is empty',
+    );
+  });
+});
@@ -0,0 +1,59 @@
+import { BadRequestException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+
+export interface BookLevel {
+  px: string;
+  sz: string;
+}
+
+export interface FillEstimate {
+  midPx: Prisma.Decimal;
+  avgPx: Prisma.Decimal;
+  worstPx: Prisma.Decimal;
+  /** Distance of the average fill price from mid, in basis points. */
+  impactBps: Prisma.Decimal;
+}
+
+/**
+ * Estimates the fill of a market order of `size` by walking the opposite side
+ * of an L2 book (`levels` = [bids, asks], best first).
+ * Fails when the visible book cannot absorb the whole size.
+ */
+export function estimateFill(
+  levels: [BookLevel[], BookLevel[]],
+  isBuy: boolean,
+  size: Prisma.Decimal.Value,
+): FillEstimate {
+  const [bids, asks] = levels;
+  if (!bids.length || !asks.length) {
+    throw new BadRequestException('Order book is empty');
+  }
+
+  const midPx = new Prisma.Decimal(bids[0].px).plus(asks[0].px).div(2);
+  let remaining = new Prisma.Decimal(size);
+  let notional = new Prisma.Decimal(0);
+  let worstPx = midPx;
+
+  for (const level of isBuy ? asks : bids) {
+    if (remaining.lte(0)) break;
+
+    const take = Prisma.Decimal.min(remaining, level.sz);
+    notional = notional.plus(take.times(level.px));
+    remaining = remaining.minus(take);
+    worstPx = new Prisma.Decimal(level.px);
+  }
+
+  if (remaining.gt(0)) {
+    throw new BadRequestException(
+      `Not enough liquidity in the book to fill ${size} (${remaining} left)`,
+    );
+  }
+
+  const avgPx = notional.div(size);
+  return {
+    midPx,
+    avgPx,
+    worstPx,
+    impactBps: avgPx.minus(midPx).abs().div(midPx).times(10000),
+  };
+}
@@ -0,0 +1,92 @@
+import { BadRequestException } from '@nestjs/common';
+import {
+  parseOrderStatus,
+  statusesOfError,
+  toOrderResults,
+} from './order-response.util';
+
+const resting = { resting: { oid: 1 } };
+const filled = { filled: { oid: 2, totalSz: '0.5', avgPx: '100.5' } };
+// the SDK types leave error statuses out, the exchange still returns them
+const rejected = { error: 'Order has invalid price.' } as unknown as Parameters<
+  typeof parseOrderStatus
+>[0];
+
+describe('parseOrderStatus', () => {
+  it('reads a resting order', () => {
+    expect(parseOrderStatus(resting)).toEqual({
+      oid: 1,
+      status: 'resting',
+      filledSize: '0',
+      avgPx: null,
+    });
+  });
+
+  it('reads a filled order', () => {
+    expect(parseOrderStatus(filled)).toEqual({
+      oid: 2,
+      status: 'filled',
+      filledSize: '0.5',
+      avgPx: '100.5',
+    });
+  });
+
+  it('reads a trigger order waiting for its trigger', () => {
+    expect(parseOrderStatus('waitingForTrigger')).toEqual({
+      oid: null,
+      status: 'waitingForTrigger',
+      filledSize: '0',
+      avgPx: null,
+    });
+  });
+
+  it('throws the exchange error', () => {
+    expect(() => parseOrderStatus(rejected)).toThrow(
+      new BadRequestException('Order has invalid price.'),
+    );
+  });
+
+  it('throws without a status', () => {
+    expect(() => parseOrderStatus(undefined)).toThrow(
+      'Exchange returned no order status',
+    );
+  });
+});
+
+describe('toOrderResults', () => {
+  it('keeps the outcome of every order, errors included', () => {
+    expect(toOrderResults([resting, rejected, undefined])).toEqual([
+      {
+        success: true,
+        oid: 1,
+        status: 'resting',
+        filledSize: '0',
+        avgPx: null,
+      },
+      { success: false, error: 'Order has invalid price.' },
+      { success: false, error: 'Exchange returned no order status' },
+    ]);
+  });
+
+  it('returns nothing for no statuses', () => {
+    expect(toOrderResults([])).toEqual([]);
+  });
+});
+
+describe('statusesOfError', () => {
+  it('reads the statuses of a partially rejected action', () => {
+    const error = {
+      response: { response: { data: { statuses: [filled, rejected] } } },
+    };
+
+    expect(statusesOfError(error)).toEqual([filled, rejected]);
+  });
+
+  it('returns null for errors without statuses', () => {
+    expect(statusesOfError(new Error('timeout'))).toBeNull();
+    expect(statusesOfError(undefined)).toBeNull();
+    expect(
+      statusesOfError({ response: { response: { data: 'failed' } } }),
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,69 @@
+import { BadRequestException } from '@nestjs/common';
+import * as hl from '@nktkas/hyperliquid';
+
+type OrderStatus = Awaited<
+  ReturnType<hl.ExchangeClient['order']>
+>['response']['data']['statuses'][number];
+
+export interface OrderFill {
+  oid: number | null;
+  status: 'filled' | 'resting' | 'waitingForFill' | 'waitingForTrigger';
+  filledSize: string;
+  avgPx: string | null;
+}
+
+/**
+ * Normalizes the status the exchange returns for one placed order.
+ * Error statuses are thrown as BadRequestException.
+ */
+export function parseOrderStatus(status: OrderStatus | undefined): OrderFill {
+  if (status === undefined) {
+    throw new BadRequestException('Exchange returned no order status');
+  }
+  if (typeof status === 'string') {
+    return { oid: null, status, filledSize: '0', avgPx: null };
+  }
+  if ('error' in status) {
+    throw new BadRequestException(status.error);
+  }
+  if ('filled' in status) {
+    return {
+      oid: status.filled.oid,
+      status: 'filled',
+      filledSize: status.filled.totalSz,
+      avgPx: status.filled.avgPx,
+    };
+  }
+  return {
+    oid: status.resting.oid,
+    status: 'resting',
+    filledSize: '0',
+    avgPx: null,
+  };
+}
+
+export type OrderResult =
+  | ({ success: true } & OrderFill)
+  | { success: false; error: string };
+
+/** Per-order outcome of a multi-order action, errors included. */
+export function toOrderResults(statuses: unknown[]): OrderResult[] {
+  return statuses.map((status): OrderResult => {
+    try {
+      return { success: true, ...parseOrderStatus(status as OrderStatus) };
+    } catch (error) {
+      return { success: false, error: error.message };
+    }
+  });
+}
+
+/**
+ * The SDK throws as soon as one order of an action fails; the statuses of the
+ * other orders are still on the error's response.
+ */
+export function statusesOfError(error: unknown): unknown[] | null {
+  const statuses = (
+    error as { response?: { response?: { data?: { statuses?: unknown } } } }
+  )?.response?.response?.data?.statuses;
+  return Array.isArray(statuses) ? statuses : null;
+}
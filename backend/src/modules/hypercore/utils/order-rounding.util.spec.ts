@@ -0,0 +1,85 @@
+import { BadRequestException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { HyperliquidMarket } from '../types/hyperliquid.types';
+import { roundPrice, roundSize } from './order-rounding.util';
+
+function market(overrides: Partial<HyperliquidMarket>): HyperliquidMarket {
+  return {
+    coin: 'BTC',
+    type: 'perp',
+    asset: 0,
+    szDecimals: 5,
+    maxPriceDecimals: 1,
+    maxLeverage: 40,
+    onlyIsolated: false,
+    isDelisted: false,
+    ...overrides,
+  };
+}
+
+const btc = market({});
+const small = market({ coin: 'kPEPE', szDecimals: 0, maxPriceDecimals: 6 });
+
+describe('roundPrice', () => {
+  it('keeps integer prices whatever their number of digits', () => {
+    expect(roundPrice(btc, '123456')).toBe('123456');
+  });
+
+  it('rounds to 5 significant figures', () => {
+    expect(roundPrice(btc, '12345.67')).toBe('12346');
+    expect(roundPrice(small, '1.234567')).toBe('1.2346');
+  });
+
+  it('rounds to the max price decimals of the market', () => {
+    expect(roundPrice(btc, '1234.56')).toBe('1234.6');
+    expect(roundPrice(small, '0.0001234567')).toBe('0.000123');
+  });
+
+  it('rounds a half tick up by default', () => {
+    expect(roundPrice(small, '1.23455')).toBe('1.2346');
+    expect(roundPrice(small, '1.234549')).toBe('1.2345');
+  });
+
+  it('follows the requested rounding direction', () => {
+    expect(roundPrice(small, '1.23459', Prisma.Decimal.ROUND_DOWN)).toBe(
+      '1.2345',
+    );
+    expect(roundPrice(small, '1.23451', Prisma.Decimal.ROUND_UP)).toBe(
+      '1.2346',
+    );
+  });
+
+  it('rejects a price below the tick size', () => {
+    expect(() => roundPrice(small, '0.0000004')).toThrow(
+      'Price 0.0000004 is below the tick size of kPEPE',
+    );
+  });
+
+  it('rejects non-positive and non-finite prices', () => {
+    for (const price of ['0', '-1', Infinity]) {
+      expect(() => roundPrice(btc, price)).toThrow(BadRequestException);
+    }
+  });
+});
+
+describe('roundSize', () => {
+  it('rounds down to the lot size', () => {
+    expect(roundSize(market({ szDecimals: 3 }), '1.23499')).toBe('1.234');
+    expect(roundSize(small, '2.9')).toBe('2');
+  });
+
+  it('keeps a size already on the lot size', () => {
+    expect(roundSize(market({ szDecimals: 3 }), '1.234')).toBe('1.234');
+  });
+
+  it('rejects a size below the lot size', () => {
+    expect(() => roundSize(market({ szDecimals: 3 }), '0.0009')).toThrow(
+      'Size 0.0009 is below the lot size of BTC (3 decimals)',
+    );
+  });
+
+  it('rejects non-positive sizes', () => {
+    expect(() => roundSize(btc, '0')).toThrow(BadRequestException);
+    expect(() => roundSize(btc, '-1')).toThrow(BadRequestException);
+  });
+});
@@ -0,0 +1,63 @@
+import { BadRequestException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { HyperliquidMarket } from '../types/hyperliquid.types';
+
+/** Hyperliquid accepts at most 5 significant figures in a non-integer price. */
+export const MAX_PRICE_SIG_FIGS = 5;
+
+/** Max decimals of a price before szDecimals are subtracted. */
+export const MAX_PERP_PRICE_DECIMALS = 6;
+export const MAX_SPOT_PRICE_DECIMALS = 8;
+
+/**
+ * Rounds a price to the closest valid tick of a market:
+ * at most 5 significant figures and at most (6 or 8) - szDecimals decimals.
+ * Integer prices are always valid, whatever their number of digits.
+ */
+export function roundPrice(
+  market: HyperliquidMarket,
+  price: Prisma.Decimal.Value,
+  rounding: Prisma.Decimal.Rounding = Prisma.Decimal.ROUND_HALF_UP,
+): string {
+  const px = new Prisma.Decimal(price);
+  if (!px.isFinite() || px.lte(0)) {
+    throw new BadRequestException(`Invalid price ${price}`);
+  }
+  if (px.isInteger()) return px.toFixed();
+
+  const rounded = px
+    .toSignificantDigits(MAX_PRICE_SIG_FIGS, rounding)
+    .toDecimalPlaces(market.maxPriceDecimals, rounding);
+
+  if (rounded.isZero()) {
+    throw new BadRequestException(
+      `Price ${price} is below the tick size of ${market.coin}`,
+    );
+  }
+  return rounded.toFixed();
+}
+
+/**
+ * Rounds a size down to the lot size (szDecimals) of a market, so an order
+ * never asks for more than the user entered.
+ */
+export function roundSize(
+  market: HyperliquidMarket,
+  size: Prisma.Decimal.Value,
+): string {
+  const sz = new Prisma.Decimal(size);
+  if (!sz.isFinite() || sz.lte(0)) {
+    throw new BadRequestException(`Invalid size ${size}`);
+  }
+
+  const rounded = sz.toDecimalPlaces(
+    market.szDecimals,
+    Prisma.Decimal.ROUND_DOWN,
+  );
+  if (rounded.isZero()) {
+    throw new BadRequestException(
+      `Size ${size} is below the lot size of ${market.coin} (${market.szDecimals} decimals)`,
+    );
+  }
+  return rounded.toFixed();
+}
@@ -1,10 +1,13 @@
 import { Processor, WorkerHost } from '@nestjs/bullmq';
 import { Job } from 'bullmq';
+import { EventEmitter2 } from '@nestjs/event-emitter';
 import { Prisma } from '@prisma/client';
 import { PrismaService } from '@/database/prisma.service';
 import { LoggerService } from '@shared/logger/logger.service';
 import { CacheService } from '@shared/cache/cache.service';
 import { PredictionContractService } from '@/modules/prediction-market/services/prediction-contract.service';
+import { PREDICTION_MARKET_EVENTS } from '@/modules/prediction-market/constants/events.constants';
+import { MarketUpdatedEvent } from '@/modules/prediction-market/types/prediction-market.type';
 import { INDEXER_QUEUE_PREDICTION_MARKET } from '../constants/indexer-queue.constants';
 import {
   CACHE_KEY_MARKET_ADDRESSES,
@@ -34,6 +37,7 @@ export class PredictionIndexerProcessor extends WorkerHost {
     private readonly logger: LoggerService,
     private readonly cacheService: CacheService,
     private readonly contractService: PredictionContractService,
+    private readonly eventEmitter: EventEmitter2,
   ) {
     super();
   }
@@ -72,18 +76,18 @@ export class PredictionIndexerProcessor extends WorkerHost {
         `outcome=${outcome}, isBuy=${isBuy}, block=${blockNumber}`,
     );
 
-    // Resolve battleId from Redis market→battle mapping
-    const battleId = await this.cacheService.getRedis<string>(
+    // Resolve battleId (tournamentId for a champion market) from Redis market→battle mapping
+    const matchId = await this.cacheService.getRedis<string>(
       cacheKeyMarketBattleId(marketAddress),
     );
-    if (!battleId) {
+    if (!matchId) {
       this.logger.warn(
         `No battleId cached for market ${marketAddress} — skipping trade tx=${txHash}`,
       );
       return;
     }
 
-    await this.prisma.$transaction(async (trx) => {
+    const question = await this.prisma.$transaction(async (trx) => {
       // USD tokens has 6 decimals — convert raw cost to decimal USD
       const USD_DECIMALS = new Prisma.Decimal(1_000_000);
       const WAD = new Prisma.Decimal(1e18);
@@ -114,6 +118,17 @@ export class PredictionIndexerProcessor extends WorkerHost {
         throw new Error('BattlePredictionQuestion not found for trade event');
       }
 
+      // rows belong to the owner of the question, a battle or a tournament
+      const { battleId, tournamentId } = question;
+
+      // battle total, the battle browser sorts by it
+      if (battleId) {
+        await trx.battle.update({
+          where: { id: battleId },
+          data: { predictionVolume: { increment: costDecimal } },
+        });
+      }
+
       await trx.battlePredictionTrade.create({
         data: {
           txHash,
@@ -124,6 +139,7 @@ export class PredictionIndexerProcessor extends WorkerHost {
           costUsd: costDecimal,
           userAddress: trader,
           battleId,
+          tournamentId,
           battlePredictionQuestionId: question.id,
           marketAddress,
         },
@@ -131,14 +147,14 @@ export class PredictionIndexerProcessor extends WorkerHost {
 
       await trx.battlePredictionChoice.upsert({
         where: {
-          battleId_battlePredictionQuestionId_outcome: {
-            battleId: battleId,
+          battlePredictionQuestionId_outcome: {
             battlePredictionQuestionId: question.id,
             outcome,
           },
         },
         create: {
           battleId,
+          tournamentId,
           battlePredictionQuestionId: question.id,
           outcome,
           price: latestPriceDecimal,
@@ -157,10 +173,19 @@ export class PredictionIndexerProcessor extends WorkerHost {
       });
 
       this.logger.log(
-        `Persisted Trade: battleId=${battleId}, outcome=${outcome}, ` +
+        `Persisted Trade: battleId=${battleId}, tournamentId=${tournamentId}, outcome=${outcome}, ` +
           `${isBuy ? 'BUY' : 'SELL'} ${shares} shares @ ${latestPriceDecimal.toFixed(6)} USDC`,
       );
+
+      return question;
     });
+
+    // lets the battle (or tournament) rooms push the new prices to their sockets
+    this.eventEmitter.emit(PREDICTION_MARKET_EVENTS.MARKET_UPDATED, {
+      battleId: question.battleId,
+      tournamentId: question.tournamentId,
+      questionId: question.id,
+    } satisfies MarketUpdatedEvent);
   }
 
   private async handleMarketCreated(job: Job<MarketCreatedJob>): Promise<void> {
@@ -194,11 +219,10 @@ export class PredictionIndexerProcessor extends WorkerHost {
       matchId,
     );
 
+    // questions are created (battle or tournament owned) before their market,
+    // the create branch only covers battle markets created out of band
     await this.prisma.battlePredictionQuestion.upsert({
-      where: {
-        id: questionId,
-        battleId: matchId,
-      },
+      where: { id: questionId },
       create: {
         id: questionId,
         battleId: matchId,
@@ -0,0 +1,20 @@
+/** Seconds a leaderboard page (or a user's own rank) stays cached. */
+export const LEADERBOARD_CACHE_TTL = 60;
+
+/** Players need this many battles in the window to be ranked by win rate. */
+export const MIN_BATTLES_FOR_WIN_RATE = 5;
+
+/** Cache key of one leaderboard page. */
+export const cacheKeyLeaderboardPage = (
+  metric: string,
+  window: string,
+  page: number,
+  limit: number,
+) => `leaderboard:${metric}:${window}:page:${page}:${limit}`;
+
+/** Cache key of a user's own leaderboard entry. */
+export const cacheKeyLeaderboardUser = (
+  metric: string,
+  window: string,
+  userId: string,
+) => `leaderboard:${metric}:${window}:user:${userId}`;
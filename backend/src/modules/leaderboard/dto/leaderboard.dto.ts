@@ -0,0 +1,92 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsEnum, IsInt, IsOptional, Max, Min } from 'class-validator';
+
+export enum LeaderboardMetric {
+  ELO = 'ELO',
+  RANK_POINTS = 'RANK_POINTS',
+  PNL = 'PNL',
+  WIN_RATE = 'WIN_RATE',
+  VOLUME = 'VOLUME',
+}
+
+export enum LeaderboardWindow {
+  ALL_TIME = 'ALL_TIME',
+  /** Since the active season started */
+  SEASON = 'SEASON',
+  /** Last 7 days */
+  WEEK = 'WEEK',
+  /** Last 24 hours */
+  DAY = 'DAY',
+}
+
+export class LeaderboardQueryDto {
+  @ApiPropertyOptional({
+    enum: LeaderboardMetric,
+    default: LeaderboardMetric.ELO,
+  })
+  @IsOptional()
+  @IsEnum(LeaderboardMetric)
+  metric: LeaderboardMetric = LeaderboardMetric.ELO;
+
+  @ApiPropertyOptional({
+    enum: LeaderboardWindow,
+    default: LeaderboardWindow.ALL_TIME,
+  })
+  @IsOptional()
+  @IsEnum(LeaderboardWindow)
+  window: LeaderboardWindow = LeaderboardWindow.ALL_TIME;
+
+  @ApiPropertyOptional({ minimum: 1, default: 1 })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  page: number = 1;
+
+  @ApiPropertyOptional({ minimum: 1, maximum: 100, default: 20 })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit: number = 20;
+}
+
+/**
+ * One ranked player. Stats are aggregated over the battles finished in the window,
+ * except `elo` which is the current rating.
+ */
+export class LeaderboardEntryDto {
+  @ApiProperty({
+    description: 'Position for the requested metric (ties share a rank)',
+  })
+  rank: number;
+
+  @ApiProperty()
+  userId: string;
+
+  @ApiProperty({ nullable: true })
+  name: string | null;
+
+  @ApiProperty({ nullable: true })
+  avatar: string | null;
+
+  @ApiProperty()
+  elo: number;
+
+  @ApiProperty()
+  rankPoints: number;
+
+  @ApiProperty({ description: 'Net PnL in USD (realized - fees + funding)' })
+  pnl: number;
+
+  @ApiProperty({ description: 'Traded notional in USD' })
+  volume: number;
+
+  @ApiProperty({ description: 'Battles won, in %' })
+  winRate: number;
+
+  @ApiProperty()
+  battles: number;
+
+  @ApiProperty()
+  wins: number;
+}
@@ -0,0 +1,33 @@
+import { Controller, Get, Query, UseGuards } from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { ApiPaginatedResponse } from '../../common/decorators/api-paginated-response.decorator';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { OptionalJwtAuthGuard } from '../../common/guards/optional-jwt-auth.guard';
+import { IAuthUser } from '../../common/interfaces';
+import { LeaderboardService } from './services/leaderboard.service';
+import {
+  LeaderboardEntryDto,
+  LeaderboardQueryDto,
+} from './dto/leaderboard.dto';
+
+@ApiTags('Leaderboard')
+@Controller('leaderboard')
+export class LeaderboardController {
+  constructor(private readonly leaderboardService: LeaderboardService) {}
+
+  @Get()
+  @UseGuards(OptionalJwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Rank players by ELO, rank points, PnL, win rate or volume',
+    description:
+      'When called with an access token, `me` holds the caller entry (null if unranked).',
+  })
+  @ApiPaginatedResponse(LeaderboardEntryDto)
+  getLeaderboard(
+    @Query() query: LeaderboardQueryDto,
+    @CurrentUser() user?: IAuthUser,
+  ) {
+    return this.leaderboardService.getLeaderboard(query, user?.id);
+  }
+}
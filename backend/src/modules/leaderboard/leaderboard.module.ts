@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { SeasonModule } from '@/modules/season/season.module';
+import { LeaderboardService } from './services/leaderboard.service';
+import { LeaderboardController } from './leaderboard.controller';
+
+@Module({
+  imports: [SeasonModule],
+  providers: [LeaderboardService],
+  controllers: [LeaderboardController],
+  exports: [LeaderboardService],
+})
+export class LeaderboardModule {}
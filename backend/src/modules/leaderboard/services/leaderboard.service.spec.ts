@@ -0,0 +1,129 @@
+import { Test } from '@nestjs/testing';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '@/database/prisma.service';
+import { CacheService } from '@shared/cache/cache.service';
+import { SeasonService } from '@/modules/season/services/season.service';
+import {
+  LeaderboardMetric,
+  LeaderboardQueryDto,
+  LeaderboardWindow,
+} from '../dto/leaderboard.dto';
+import { LeaderboardService } from './leaderboard.service';
+
+const row = (userId: string, rank: number) => ({
+  rank: BigInt(rank),
+  userId,
+  name: userId,
+  avatar: null,
+  elo: 1000,
+  rankPoints: 10,
+  pnl: new Prisma.Decimal('12.5'),
+  volume: new Prisma.Decimal(1000),
+  battles: 4,
+  wins: 1,
+});
+
+const sqlOf = (strings: TemplateStringsArray) => strings.join('?');
+
+describe('LeaderboardService', () => {
+  let leaderboard: LeaderboardService;
+  let memory: Map<string, unknown>;
+
+  const prisma = { $queryRaw: jest.fn() };
+  const cacheService = {
+    hasRedis: false,
+    getMemory: jest.fn(),
+    setMemory: jest.fn(),
+  };
+  const season = { getActiveSeason: jest.fn() };
+
+  const query = (page = 1): LeaderboardQueryDto => ({
+    metric: LeaderboardMetric.ELO,
+    window: LeaderboardWindow.ALL_TIME,
+    page,
+    limit: 2,
+  });
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    memory = new Map();
+
+    cacheService.getMemory.mockImplementation(async (key) => memory.get(key));
+    cacheService.setMemory.mockImplementation(async (key, value) => {
+      memory.set(key, value);
+    });
+    prisma.$queryRaw.mockImplementation(async (strings) => {
+      const sql = sqlOf(strings);
+      if (sql.includes('COUNT(*)')) return [{ total: 3 }];
+      if (sql.includes('WHERE "userId"')) return [row('me', 3)];
+      return [row('a', 1), row('b', 1)];
+    });
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        LeaderboardService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: CacheService, useValue: cacheService },
+        { provide: SeasonService, useValue: season },
+      ],
+    }).compile();
+
+    leaderboard = moduleRef.get(LeaderboardService);
+  });
+
+  describe('getLeaderboard', () => {
+    it('returns the page with its pagination meta', async () => {
+      const { data, meta } = await leaderboard.getLeaderboard(query());
+
+      expect(data.map((e) => [e.userId, e.rank])).toEqual([
+        ['a', 1],
+        ['b', 1],
+      ]);
+      expect(data[0]).toMatchObject({ pnl: 12.5, volume: 1000, winRate: 25 });
+      expect(meta).toEqual({
+        page: 1,
+        limit: 2,
+        totalItems: 3,
+        totalPages: 2,
+        hasNextPage: true,
+        hasPreviousPage: false,
+      });
+    });
+
+    it('leaves `me` empty for anonymous callers', async () => {
+      const { me } = await leaderboard.getLeaderboard(query());
+
+      expect(me).toBeNull();
+      expect(
+        prisma.$queryRaw.mock.calls.some(([strings]) =>
+          sqlOf(strings).includes('WHERE "userId"'),
+        ),
+      ).toBe(false);
+    });
+
+    it('adds the entry of the caller', async () => {
+      const { me } = await leaderboard.getLeaderboard(query(), 'me');
+
+      expect(me).toMatchObject({ userId: 'me', rank: 3 });
+    });
+
+    it('serves a page from the cache', async () => {
+      await leaderboard.getLeaderboard(query());
+      prisma.$queryRaw.mockClear();
+
+      const { data } = await leaderboard.getLeaderboard(query());
+
+      expect(data).toHaveLength(2);
+      expect(prisma.$queryRaw).not.toHaveBeenCalled();
+    });
+
+    it('caches the entry of each caller separately', async () => {
+      await leaderboard.getLeaderboard(query(), 'me');
+
+      expect(memory.has('leaderboard:ELO:ALL_TIME:user:me')).toBe(true);
+      expect(
+        memory.get('leaderboard:ELO:ALL_TIME:page:1:2'),
+      ).not.toHaveProperty('me');
+    });
+  });
+});
@@ -0,0 +1,232 @@
+import { Injectable } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '@/database/prisma.service';
+import { CacheService } from '@shared/cache/cache.service';
+import { IPaginationMeta } from '@/common/interfaces';
+import { SeasonService } from '@/modules/season/services/season.service';
+import {
+  LeaderboardEntryDto,
+  LeaderboardMetric,
+  LeaderboardQueryDto,
+  LeaderboardWindow,
+} from '../dto/leaderboard.dto';
+import {
+  cacheKeyLeaderboardPage,
+  cacheKeyLeaderboardUser,
+  LEADERBOARD_CACHE_TTL,
+  MIN_BATTLES_FOR_WIN_RATE,
+} from '../constants/leaderboard.constants';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// column each metric is ranked by, always descending
+const ORDER_BY: Record<LeaderboardMetric, Prisma.Sql> = {
+  [LeaderboardMetric.ELO]: Prisma.sql`u."elo"`,
+  [LeaderboardMetric.RANK_POINTS]: Prisma.sql`s."rankPoints"`,
+  [LeaderboardMetric.PNL]: Prisma.sql`s."pnl"`,
+  [LeaderboardMetric.WIN_RATE]: Prisma.sql`s."wins"::float / s."battles"`,
+  [LeaderboardMetric.VOLUME]: Prisma.sql`s."volume"`,
+};
+
+interface LeaderboardRow {
+  rank: bigint;
+  userId: string;
+  name: string | null;
+  avatar: string | null;
+  elo: number;
+  rankPoints: number;
+  pnl: Prisma.Decimal;
+  volume: Prisma.Decimal;
+  battles: number;
+  wins: number;
+}
+
+export interface LeaderboardPage {
+  data: LeaderboardEntryDto[];
+  meta: IPaginationMeta;
+  me: LeaderboardEntryDto | null;
+}
+
+/**
+ * Ranks players from finished battles (`BattleResult` + `BattleResultData`).
+ * Only players with at least one finished battle in the window are ranked.
+ */
+@Injectable()
+export class LeaderboardService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly cacheService: CacheService,
+    private readonly season: SeasonService,
+  ) {}
+
+  async getLeaderboard(
+    query: LeaderboardQueryDto,
+    userId?: string,
+  ): Promise<LeaderboardPage> {
+    const { metric, window, page, limit } = query;
+
+    const cached = await this.cached(
+      cacheKeyLeaderboardPage(metric, window, page, limit),
+      async () => {
+        const ranked = await this.rankedQuery(metric, window);
+        const [rows, [{ total }]] = await Promise.all([
+          this.prisma.$queryRaw<LeaderboardRow[]>`
+            ${ranked}
+            SELECT * FROM ranked
+            ORDER BY "rank", "userId"
+            LIMIT ${limit} OFFSET ${(page - 1) * limit}
+          `,
+          this.prisma.$queryRaw<{ total: number }[]>`
+            ${ranked}
+            SELECT COUNT(*)::int AS "total" FROM ranked
+          `,
+        ]);
+
+        const totalPages = Math.ceil(total / limit);
+        return {
+          data: rows.map((r) => this.toEntry(r)),
+          meta: {
+            page,
+            limit,
+            totalItems: total,
+            totalPages,
+            hasNextPage: page < totalPages,
+            hasPreviousPage: page > 1,
+          },
+        };
+      },
+    );
+
+    const me = userId ? await this.getUserEntry(metric, window, userId) : null;
+
+    return { ...cached, me };
+  }
+
+  /**
+   * The entry of one user, null if they are not ranked in the window.
+   */
+  async getUserEntry(
+    metric: LeaderboardMetric,
+    window: LeaderboardWindow,
+    userId: string,
+  ) {
+    return this.cached(
+      cacheKeyLeaderboardUser(metric, window, userId),
+      async () => {
+        const ranked = await this.rankedQuery(metric, window);
+        const [row] = await this.prisma.$queryRaw<LeaderboardRow[]>`
+          ${ranked}
+          SELECT * FROM ranked WHERE "userId" = ${userId}
+        `;
+        return row ? this.toEntry(row) : null;
+      },
+    );
+  }
+
+  /**
+   * `WITH ... ranked AS (...)`: one row per player with their stats and rank.
+   */
+  private async rankedQuery(
+    metric: LeaderboardMetric,
+    window: LeaderboardWindow,
+  ) {
+    const since = await this.windowStart(window);
+    const inWindow = since
+      ? Prisma.sql`b."endedAt" >= ${since}`
+      : Prisma.sql`TRUE`;
+    const eligible =
+      metric === LeaderboardMetric.WIN_RATE
+        ? Prisma.sql`s."battles" >= ${MIN_BATTLES_FOR_WIN_RATE}`
+        : Prisma.sql`TRUE`;
+
+    return Prisma.sql`
+      WITH results AS (
+        SELECT bp."userId", bp."slot", bp."rankPoints", r."id" AS "resultId",
+               -- the outcome of a team battle is the winning team's index
+               r."outcome" = CASE WHEN b."teamSize" IS NOT NULL
+                                  THEN bp."team" - 1
+                                  ELSE bp."slot" - 1 END AS "won"
+        FROM "BattleResult" r
+        JOIN "Battle" b ON b."id" = r."battleId"
+        JOIN "BattlePlayer" bp ON bp."battleId" = r."battleId"
+        WHERE ${inWindow}
+      ),
+      stats AS (
+        SELECT res."userId",
+               COUNT(*)::int AS "battles",
+               (COUNT(*) FILTER (WHERE res."won"))::int AS "wins",
+               COALESCE(SUM(res."rankPoints"), 0)::int AS "rankPoints",
+               COALESCE(SUM(pnl."value"), 0) AS "pnl",
+               COALESCE(SUM(vol."value"), 0) AS "volume"
+        FROM results res
+        LEFT JOIN "BattleResultData" pnl
+          ON pnl."battleResultId" = res."resultId" AND pnl."playerSlot" = res."slot"
+         AND pnl."metric" = 'PNL'
+        LEFT JOIN "BattleResultData" vol
+          ON vol."battleResultId" = res."resultId" AND vol."playerSlot" = res."slot"
+         AND vol."metric" = 'VOLUME'
+        GROUP BY res."userId"
+      ),
+      ranked AS (
+        SELECT RANK() OVER (ORDER BY ${ORDER_BY[metric]} DESC) AS "rank",
+               s."userId", u."name", u."avatar", u."elo",
+               s."rankPoints", s."pnl", s."volume", s."battles", s."wins"
+        FROM stats s
+        JOIN "User" u ON u."id" = s."userId"
+        WHERE ${eligible}
+      )
+    `;
+  }
+
+  private async windowStart(window: LeaderboardWindow) {
+    switch (window) {
+      case LeaderboardWindow.DAY:
+        return new Date(Date.now() - DAY_MS);
+      case LeaderboardWindow.WEEK:
+        return new Date(Date.now() - 7 * DAY_MS);
+      case LeaderboardWindow.SEASON: {
+        // without an active season nothing is ranked
+        const season = await this.season.getActiveSeason();
+        return season?.startsAt ?? new Date();
+      }
+      default:
+        return null;
+    }
+  }
+
+  private toEntry(row: LeaderboardRow): LeaderboardEntryDto {
+    return {
+      rank: Number(row.rank),
+      userId: row.userId,
+      name: row.name,
+      avatar: row.avatar,
+      elo: row.elo,
+      rankPoints: row.rankPoints,
+      pnl: Number(row.pnl),
+      volume: Number(row.volume),
+      winRate: row.battles ? (row.wins / row.battles) * 100 : 0,
+      battles: row.battles,
+      wins: row.wins,
+    };
+  }
+
+  /**
+   * Read-through cache: Redis when configured (shared by replicas), memory otherwise.
+   */
+  private async cached<T>(key: string, load: () => Promise<T>): Promise<T> {
+    const hit = this.cacheService.hasRedis
+      ? await this.cacheService.getRedis<T>(key)
+      : await this.cacheService.getMemory<T>(key);
+    if (hit !== undefined) return hit;
+
+    const value = await load();
+
+    if (this.cacheService.hasRedis) {
+      await this.cacheService.setRedis(key, value, LEADERBOARD_CACHE_TTL);
+    } else {
+      await this.cacheService.setMemory(key, value, LEADERBOARD_CACHE_TTL);
+    }
+
+    return value;
+  }
+}
@@ -0,0 +1,7 @@
+/**
+ * In-process events (EventEmitter) published by the prediction market side.
+ */
+export const PREDICTION_MARKET_EVENTS = {
+  // a trade was indexed: prices, shares and volume of the market changed
+  MARKET_UPDATED: 'market.updated',
+};
@@ -6,8 +6,10 @@ import { Logger } from '@nestjs/common';
 import { CONTRACT_CALL_QUEUE } from '../constants/queues.constants';
 import {
   CreateMarketJob,
+  CreateTournamentMarketJob,
   PREDICTION_MARKET_JOBS,
   ProposeOutcomeJob,
+  ProposeTournamentOutcomeJob,
 } from '../types/prediction-job.type';
 import { PredictionContractService } from '../services/prediction-contract.service';
 
@@ -21,7 +23,14 @@ export class PredictionContractProcessor extends WorkerHost {
     super();
   }
 
-  async process(job: Job<CreateMarketJob | ProposeOutcomeJob>) {
+  async process(
+    job: Job<
+      | CreateMarketJob
+      | ProposeOutcomeJob
+      | CreateTournamentMarketJob
+      | ProposeTournamentOutcomeJob
+    >,
+  ) {
     switch (job.name) {
       case PREDICTION_MARKET_JOBS.CREATE_MARKET:
         await this.handleCreateMarket(job as Job<CreateMarketJob>);
@@ -29,6 +38,16 @@ export class PredictionContractProcessor extends WorkerHost {
       case PREDICTION_MARKET_JOBS.PROPOSE_OUTCOME:
         await this.handleProposeOutcome(job as Job<ProposeOutcomeJob>);
         return;
+      case PREDICTION_MARKET_JOBS.CREATE_TOURNAMENT_MARKET:
+        await this.handleCreateTournamentMarket(
+          job as Job<CreateTournamentMarketJob>,
+        );
+        return;
+      case PREDICTION_MARKET_JOBS.PROPOSE_TOURNAMENT_OUTCOME:
+        await this.handleProposeTournamentOutcome(
+          job as Job<ProposeTournamentOutcomeJob>,
+        );
+        return;
       default:
         this.logger.warn(
           `Unhandled prediction market job: ${job.name} (job ${job.id})`,
@@ -77,6 +96,84 @@ export class PredictionContractProcessor extends WorkerHost {
     this.logger.log(`Onchain outcome proposed for ${matchId} (job ${job.id})`);
   }
 
+  private async handleCreateTournamentMarket(
+    job: Job<CreateTournamentMarketJob>,
+  ) {
+    const { tournamentId, questionId, outcomesCount } = job.data;
+    const result = await this.contractService.createMarket({
+      matchId: tournamentId,
+      questionId,
+      outcomesCount,
+    });
+    this.logger.log(`CreateMarket result: ${JSON.stringify(result)}`);
+
+    await this.prisma.$transaction(async (tx) => {
+      await this.mergeTournamentOnchain(tournamentId, tx, {
+        marketAddress: result.marketAddress,
+        marketTxHash: result.txHash,
+      });
+      if (result.marketAddress) {
+        await tx.battlePredictionQuestion.update({
+          where: { tournamentId, id: questionId },
+          data: { marketAddress: result.marketAddress },
+        });
+      }
+    });
+
+    this.logger.log(
+      `Onchain champion market created for tournament ${tournamentId} (job ${job.id})`,
+    );
+  }
+
+  private async handleProposeTournamentOutcome(
+    job: Job<ProposeTournamentOutcomeJob>,
+  ) {
+    const { tournamentId, outcome, dataHash, codeCommitHash } = job.data;
+    const result = await this.contractService.proposeOutcome({
+      matchId: tournamentId,
+      outcome,
+      dataHash,
+      codeCommitHash,
+    });
+
+    await this.mergeTournamentOnchain(tournamentId, this.prisma, {
+      outcomeTxHash: result.txHash,
+    });
+
+    this.logger.log(
+      `Onchain champion proposed for tournament ${tournamentId} (job ${job.id})`,
+    );
+  }
+
+  /**
+   * Same `metadata.onchain` bookkeeping as battles, on the tournament.
+   */
+  private async mergeTournamentOnchain(
+    tournamentId: string,
+    tx: Prisma.TransactionClient,
+    onchain: Prisma.InputJsonObject,
+  ) {
+    const current = await tx.tournament.findUnique({
+      where: { id: tournamentId },
+      select: { metadata: true },
+    });
+
+    const metadata = (current?.metadata as Prisma.JsonObject | null) ?? {};
+
+    await tx.tournament.update({
+      where: { id: tournamentId },
+      data: {
+        metadata: {
+          ...(metadata as Prisma.InputJsonObject),
+          onchain: {
+            ...((metadata.onchain as Prisma.InputJsonObject | undefined) ?? {}),
+            ...onchain,
+          },
+        },
+      },
+    });
+  }
+
   private async updateMetadata(
     battleId: string,
     questionId: string,
@@ -2,10 +2,13 @@ import { Injectable } from '@nestjs/common';
 import { InjectQueue } from '@nestjs/bullmq';
 import {
   CreateMarketJob,
+  CreateTournamentMarketJob,
   PREDICTION_MARKET_JOBS,
   ProposeOutcomeJob,
+  ProposeTournamentOutcomeJob,
 } from '../types/prediction-job.type';
 import { Queue } from 'bullmq';
+import { Prisma } from '@prisma/client';
 import { CONTRACT_CALL_QUEUE } from '../constants/queues.constants';
 import { PrismaService } from '@/database/prisma.service';
 import { ConfigService } from '@nestjs/config';
@@ -54,6 +57,32 @@ export class PredictionMarketService {
     );
   }
 
+  async enqueueCreateTournamentMarket(
+    params: CreateTournamentMarketJob,
+  ): Promise<void> {
+    const jobId = `prediction-market:create:${params.tournamentId}`;
+    await this.contractCallQueue.add(
+      PREDICTION_MARKET_JOBS.CREATE_TOURNAMENT_MARKET,
+      params,
+      {
+        jobId,
+      },
+    );
+  }
+
+  async enqueueProposeTournamentOutcome(
+    params: ProposeTournamentOutcomeJob,
+  ): Promise<void> {
+    const jobId = `prediction-market:propose:${params.tournamentId}`;
+    await this.contractCallQueue.add(
+      PREDICTION_MARKET_JOBS.PROPOSE_TOURNAMENT_OUTCOME,
+      params,
+      {
+        jobId,
+      },
+    );
+  }
+
   // LMSR Synthetic Orderbook
 
   /**
@@ -168,53 +197,37 @@ export class PredictionMarketService {
       orderBy: { createdAt: 'asc' },
     });
 
-    const markets: MarketStateDto[] = questions.map((q) => {
-      const b = Number(q.bScore) / 1e18;
-      const outcomesCount = Math.max(
-        q.choices.reduce((max, c) => Math.max(max, c.outcome + 1), 0),
-        2,
-      );
-
-      // Build share vector indexed by outcome
-      const shareVec: number[] = Array(outcomesCount).fill(0);
-      for (const c of q.choices) {
-        if (c.outcome >= 0 && c.outcome < outcomesCount) {
-          shareVec[c.outcome] = Number(c.shares) / 1e18;
-        }
-      }
-
-      const resolvedOutcome = q.results[0]?.outcome ?? null;
-      const status: MarketStatus =
-        resolvedOutcome !== null
-          ? MarketStatus.RESOLVED
-          : q.marketAddress
-            ? MarketStatus.ACTIVE
-            : MarketStatus.PENDING;
-
-      const choices: ChoiceStateDto[] = q.choices.map((c) => ({
-        outcome: c.outcome,
-        spotPrice: this.lmsrSpotPrice(shareVec, b, c.outcome).toFixed(6),
-        shares: c.shares.toString(),
-        volume: c.volume.toString(),
-      }));
-
-      return {
-        id: q.id,
-        questionText: q.questionText,
-        description: q.description ?? null,
-        marketAddress: q.marketAddress ?? null,
-        bScore: q.bScore.toString(),
-        status,
-        outcomesCount,
-        totalVolume: q.volume.toString(),
-        choices,
-        resolvedOutcome,
-      };
-    });
+    const markets: MarketStateDto[] = questions.map((q) =>
+      this.toMarketState(q, q.results[0]?.outcome ?? null),
+    );
 
     return { battleId, markets };
   }
 
+  /**
+   * Returns the champion market(s) of a tournament with live LMSR spot prices.
+   * They resolve to the champion's outcome (seed - 1) once the tournament finished.
+   */
+  async getMarketsByTournament(
+    tournamentId: string,
+  ): Promise<MarketStateDto[]> {
+    const [questions, champion] = await Promise.all([
+      this.prisma.battlePredictionQuestion.findMany({
+        where: { tournamentId },
+        include: { choices: true },
+        orderBy: { createdAt: 'asc' },
+      }),
+      this.prisma.tournamentEntrant.findFirst({
+        where: { tournamentId, finalRank: 1 },
+        select: { seed: true },
+      }),
+    ]);
+
+    const resolvedOutcome = champion?.seed ? champion.seed - 1 : null;
+
+    return questions.map((q) => this.toMarketState(q, resolvedOutcome));
+  }
+
   /**
    * Returns the aggregate prediction position of a wallet for one question.
    * Per-outcome breakdown will be available once BattlePredictionTrade gains
@@ -267,6 +280,54 @@ export class PredictionMarketService {
     };
   }
 
+  private toMarketState(
+    q: Prisma.BattlePredictionQuestionGetPayload<{
+      include: { choices: true };
+    }>,
+    resolvedOutcome: number | null,
+  ): MarketStateDto {
+    const b = Number(q.bScore) / 1e18;
+    const outcomesCount = Math.max(
+      q.choices.reduce((max, c) => Math.max(max, c.outcome + 1), 0),
+      2,
+    );
+
+    // Build share vector indexed by outcome
+    const shareVec: number[] = Array(outcomesCount).fill(0);
+    for (const c of q.choices) {
+      if (c.outcome >= 0 && c.outcome < outcomesCount) {
+        shareVec[c.outcome] = Number(c.shares) / 1e18;
+      }
+    }
+
+    const status: MarketStatus =
+      resolvedOutcome !== null
+        ? MarketStatus.RESOLVED
+        : q.marketAddress
+          ? MarketStatus.ACTIVE
+          : MarketStatus.PENDING;
+
+    const choices: ChoiceStateDto[] = q.choices.map((c) => ({
+      outcome: c.outcome,
+      spotPrice: this.lmsrSpotPrice(shareVec, b, c.outcome).toFixed(6),
+      shares: c.shares.toString(),
+      volume: c.volume.toString(),
+    }));
+
+    return {
+      id: q.id,
+      questionText: q.questionText,
+      description: q.description ?? null,
+      marketAddress: q.marketAddress ?? null,
+      bScore: q.bScore.toString(),
+      status,
+      outcomesCount,
+      totalVolume: q.volume.toString(),
+      choices,
+      resolvedOutcome,
+    };
+  }
+
   // LMSR Helpers
 
   /** Spot price for outcome i given current share vector q and liquidity b. */
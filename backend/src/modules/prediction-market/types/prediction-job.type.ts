@@ -4,6 +4,8 @@
 export const PREDICTION_MARKET_JOBS = {
   CREATE_MARKET: 'prediction-market.create-market',
   PROPOSE_OUTCOME: 'prediction-market.propose-outcome',
+  CREATE_TOURNAMENT_MARKET: 'prediction-market.create-tournament-market',
+  PROPOSE_TOURNAMENT_OUTCOME: 'prediction-market.propose-tournament-outcome',
 } as const;
 
 /**
@@ -26,3 +28,24 @@ export interface ProposeOutcomeJob {
   dataHash: string;
   codeCommitHash: string;
 }
+
+/**
+ * Payload for the job to create the champion market of a tournament.
+ * The tournament id is used as the onchain matchId.
+ */
+export interface CreateTournamentMarketJob {
+  tournamentId: string;
+  questionId: string;
+  outcomesCount: number;
+}
+
+/**
+ * Payload for the job to propose the champion of a tournament (outcome = seed - 1).
+ */
+export interface ProposeTournamentOutcomeJob {
+  tournamentId: string;
+  questionId: string;
+  outcome: number;
+  dataHash: string;
+  codeCommitHash: string;
+}
@@ -23,3 +23,10 @@ export interface OrderbookResponse {
   outcomesCount: number;
   outcomes: OutcomeOrderbook[];
 }
+
+/** Payload of `PREDICTION_MARKET_EVENTS.MARKET_UPDATED`, one of the owners is set */
+export interface MarketUpdatedEvent {
+  battleId: string | null;
+  tournamentId: string | null;
+  questionId: string;
+}
@@ -0,0 +1,4 @@
+/**
+ * The name of the Bull queue running the end-of-season job.
+ */
+export const SEASON_QUEUE = 'season-queue';
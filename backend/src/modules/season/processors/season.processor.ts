@@ -0,0 +1,27 @@
+import { Processor, WorkerHost } from '@nestjs/bullmq';
+import { Job } from 'bullmq';
+import { LoggerService } from '@/shared/logger/logger.service';
+import { SEASON_QUEUE } from '../constants/season-queue.constants';
+import { EndSeasonJob, SEASON_JOBS } from '../types/season-job.type';
+import { SeasonService } from '../services/season.service';
+
+@Processor(SEASON_QUEUE)
+export class SeasonProcessor extends WorkerHost {
+  constructor(
+    private readonly season: SeasonService,
+    private readonly logger: LoggerService,
+  ) {
+    super();
+  }
+
+  async process(job: Job<EndSeasonJob>) {
+    switch (job.name) {
+      case SEASON_JOBS.END:
+        this.logger.log(`Season ${job.data.seasonId} ended (job ${job.id})`);
+        await this.season.endSeason(job.data.seasonId);
+        return;
+      default:
+        this.logger.warn(`Unhandled season job: ${job.name} (job ${job.id})`);
+    }
+  }
+}
@@ -0,0 +1,28 @@
+import { Controller, Get, NotFoundException } from '@nestjs/common';
+import { ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { SeasonService } from './services/season.service';
+
+@ApiTags('Seasons')
+@Controller('seasons')
+export class SeasonController {
+  constructor(private readonly seasonService: SeasonService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List seasons, most recent first' })
+  @ApiResponse({ status: 200, description: 'Seasons retrieved' })
+  listSeasons() {
+    return this.seasonService.listSeasons();
+  }
+
+  @Get('current')
+  @ApiOperation({ summary: 'Get the active season and its tier thresholds' })
+  @ApiResponse({ status: 200, description: 'Active season retrieved' })
+  @ApiResponse({ status: 404, description: 'No active season' })
+  async getCurrentSeason() {
+    const season = await this.seasonService.getActiveSeason();
+    if (!season) {
+      throw new NotFoundException('No active season');
+    }
+    return { ...season, tiers: this.seasonService.getTiers() };
+  }
+}
@@ -0,0 +1,24 @@
+import { Module } from '@nestjs/common';
+import { BullModule } from '@nestjs/bullmq';
+import { SEASON_QUEUE } from './constants/season-queue.constants';
+import { SeasonService } from './services/season.service';
+import { SeasonProcessor } from './processors/season.processor';
+import { SeasonController } from './season.controller';
+
+@Module({
+  imports: [
+    BullModule.registerQueue({
+      name: SEASON_QUEUE,
+      defaultJobOptions: {
+        attempts: 5,
+        backoff: { type: 'exponential', delay: 5000 },
+        removeOnComplete: true,
+        removeOnFail: false,
+      },
+    }),
+  ],
+  providers: [SeasonService, SeasonProcessor],
+  controllers: [SeasonController],
+  exports: [SeasonService],
+})
+export class SeasonModule {}
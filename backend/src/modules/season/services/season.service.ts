@@ -0,0 +1,244 @@
+import { Injectable, OnApplicationBootstrap } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectQueue } from '@nestjs/bullmq';
+import { Queue } from 'bullmq';
+import { Prisma, RankTier, Season, SeasonStatus } from '@prisma/client';
+import { PrismaService } from '@/database/prisma.service';
+import { LoggerService } from '@/shared/logger/logger.service';
+import { SEASON_QUEUE } from '../constants/season-queue.constants';
+import { EndSeasonJob, SEASON_JOBS } from '../types/season-job.type';
+import { SeasonConfig, SeasonPlacement } from '../types/season.types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Ranked seasons: seasonal rank points (separate from skill ELO), tiers,
+ * and the end-of-season archive + ELO soft reset.
+ */
+@Injectable()
+export class SeasonService implements OnApplicationBootstrap {
+  constructor(
+    @InjectQueue(SEASON_QUEUE)
+    private readonly seasonQueue: Queue,
+    private readonly prisma: PrismaService,
+    private readonly logger: LoggerService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  private get config() {
+    return this.configService.getOrThrow<SeasonConfig>('season');
+  }
+
+  /**
+   * Makes sure a season is running and its end job is scheduled.
+   */
+  async onApplicationBootstrap() {
+    try {
+      const season =
+        (await this.getActiveSeason()) ?? (await this.startSeason(new Date()));
+
+      await this.scheduleEnd(season);
+    } catch (error) {
+      this.logger.error(
+        'Failed to reconcile the active season',
+        error instanceof Error ? error.stack : String(error),
+      );
+    }
+  }
+
+  // ==================== SEASONS ====================
+
+  async getActiveSeason(tx: Prisma.TransactionClient = this.prisma) {
+    return tx.season.findFirst({
+      where: { status: SeasonStatus.ACTIVE },
+      orderBy: { number: 'desc' },
+    });
+  }
+
+  async listSeasons() {
+    return this.prisma.season.findMany({ orderBy: { number: 'desc' } });
+  }
+
+  getTiers() {
+    return this.config.tiers;
+  }
+
+  /**
+   * Opens the next season at `startsAt`, lasting `durationDays`.
+   */
+  async startSeason(startsAt: Date) {
+    const last = await this.prisma.season.findFirst({
+      orderBy: { number: 'desc' },
+    });
+    const number = (last?.number ?? 0) + 1;
+
+    const season = await this.prisma.season.create({
+      data: {
+        number,
+        name: `Season ${number}`,
+        startsAt,
+        endsAt: new Date(
+          startsAt.getTime() + this.config.durationDays * DAY_MS,
+        ),
+      },
+    });
+
+    this.logger.log(`Season ${number} started, ends at ${season.endsAt}`);
+
+    return season;
+  }
+
+  /**
+   * Schedules the end-of-season job. Overdue seasons end right away.
+   */
+  async scheduleEnd(season: Season) {
+    await this.seasonQueue.add(
+      SEASON_JOBS.END,
+      { seasonId: season.id } satisfies EndSeasonJob,
+      {
+        jobId: `season:end:${season.id}`,
+        delay: Math.max(0, season.endsAt.getTime() - Date.now()),
+      },
+    );
+  }
+
+  /**
+   * Closes a season:
+   * - archives every standing with its final leaderboard rank and ELO
+   * - soft-resets ELO towards `eloResetBase` and clears current rank points
+   * - opens the next season
+   */
+  async endSeason(seasonId: string) {
+    const { eloResetBase, eloResetFactor } = this.config;
+
+    const ended = await this.prisma.$transaction(async (tx) => {
+      const transitioned = await tx.season.updateMany({
+        where: { id: seasonId, status: SeasonStatus.ACTIVE },
+        data: { status: SeasonStatus.ENDED, endedAt: new Date() },
+      });
+
+      if (transitioned.count === 0) return null;
+
+      const standings = await tx.seasonStanding.findMany({
+        where: { seasonId },
+        include: { user: { select: { elo: true } } },
+        orderBy: [
+          { rankPoints: 'desc' },
+          { wins: 'desc' },
+          { createdAt: 'asc' },
+        ],
+      });
+
+      for (const [i, s] of standings.entries()) {
+        await tx.seasonStanding.update({
+          where: { id: s.id },
+          data: { finalRank: i + 1, finalElo: s.user.elo },
+        });
+      }
+
+      await tx.$executeRaw`
+        UPDATE "User"
+        SET "elo" = ROUND(${eloResetBase} + ("elo" - ${eloResetBase}) * ${eloResetFactor}),
+            "rankPoints" = 0
+      `;
+
+      return tx.season.findUniqueOrThrow({ where: { id: seasonId } });
+    });
+
+    if (!ended) return;
+
+    this.logger.log(`Season ${ended.number} ended`);
+
+    const next = await this.startSeason(ended.endsAt);
+    await this.scheduleEnd(next);
+  }
+
+  // ==================== RANK POINTS ====================
+
+  /**
+   * Awards the active season's rank points for a finished battle:
+   * placement (winner gets `placementPoints`, scaled down to 0 for the last place),
+   * participation (unless forfeited) and a bonus for consecutive wins.
+   * In a team battle the places are the teams', not the players'.
+   */
+  async awardBattlePoints(
+    battleId: string,
+    placements: SeasonPlacement[],
+    tx: Prisma.TransactionClient = this.prisma,
+  ) {
+    const season = await this.getActiveSeason(tx);
+    if (!season || placements.length === 0) return;
+
+    const teams = new Set(placements.flatMap((p) => p.team ?? []));
+    const places = teams.size > 0 ? teams.size : placements.length;
+
+    for (const p of placements) {
+      const standing = await tx.seasonStanding.upsert({
+        where: { seasonId_userId: { seasonId: season.id, userId: p.userId } },
+        create: { seasonId: season.id, userId: p.userId },
+        update: {},
+      });
+
+      const win = p.rank === 1;
+      const winStreak = win ? standing.winStreak + 1 : 0;
+      const points = this.battlePoints(p, places, winStreak);
+      const rankPoints = standing.rankPoints + points;
+
+      await tx.seasonStanding.update({
+        where: { id: standing.id },
+        data: {
+          rankPoints,
+          tier: this.tierFor(rankPoints),
+          battlesPlayed: { increment: 1 },
+          wins: { increment: win ? 1 : 0 },
+          winStreak,
+          bestWinStreak: Math.max(standing.bestWinStreak, winStreak),
+        },
+      });
+
+      await tx.user.update({
+        where: { id: p.userId },
+        data: { rankPoints: { increment: points } },
+      });
+
+      // kept per battle so leaderboards can sum points over any window
+      await tx.battlePlayer.updateMany({
+        where: { battleId, userId: p.userId },
+        data: { rankPoints: points },
+      });
+    }
+  }
+
+  tierFor(rankPoints: number): RankTier {
+    let tier = this.config.tiers[0].tier;
+    for (const t of this.config.tiers) {
+      if (rankPoints >= t.minPoints) tier = t.tier;
+    }
+    return tier;
+  }
+
+  private battlePoints(
+    placement: SeasonPlacement,
+    total: number,
+    winStreak: number,
+  ) {
+    const {
+      placementPoints,
+      participationPoints,
+      streakBonusPoints,
+      maxStreakBonusPoints,
+    } = this.config;
+
+    const placementShare =
+      total > 1 ? (total - placement.rank) / (total - 1) : 1;
+    const participation = placement.forfeited ? 0 : participationPoints;
+    const streakBonus = Math.min(
+      maxStreakBonusPoints,
+      Math.max(0, winStreak - 1) * streakBonusPoints,
+    );
+
+    return (
+      Math.round(placementPoints * placementShare) + participation + streakBonus
+    );
+  }
+}
@@ -0,0 +1,13 @@
+/**
+ * Define the job types and their payloads for the season queue.
+ */
+export const SEASON_JOBS = {
+  END: 'season.end',
+} as const;
+
+/**
+ * Payload for the delayed job closing a season once its end date is reached.
+ */
+export interface EndSeasonJob {
+  seasonId: string;
+}
@@ -0,0 +1,27 @@
+import { RankTier } from '@prisma/client';
+
+export interface TierThreshold {
+  tier: RankTier;
+  minPoints: number;
+}
+
+export interface SeasonConfig {
+  durationDays: number;
+  eloResetBase: number;
+  eloResetFactor: number;
+  placementPoints: number;
+  participationPoints: number;
+  streakBonusPoints: number;
+  maxStreakBonusPoints: number;
+  tiers: TierThreshold[];
+}
+
+/**
+ * Final placement of a player in a finished battle, input of rank points.
+ */
+export interface SeasonPlacement {
+  userId: string;
+  rank: number; // 1 = winner, shared by tied players and by teammates
+  forfeited: boolean;
+  team?: number; // team battles only
+}
@@ -0,0 +1,4 @@
+/**
+ * The name of the Bull queue running the tournament start jobs.
+ */
+export const TOURNAMENT_QUEUE = 'tournament-queue';
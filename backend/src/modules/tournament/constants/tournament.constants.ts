@@ -0,0 +1,8 @@
+// Entrant bounds; the champion market has one outcome per entrant (uint8 onchain)
+export const MIN_TOURNAMENT_PLAYERS = 2;
+export const MAX_TOURNAMENT_PLAYERS = 64;
+
+// Upper bound of the rounds of a Swiss tournament
+export const MAX_SWISS_ROUNDS = 10;
+
+export const MAX_TOURNAMENT_NAME_LENGTH = 80;
@@ -0,0 +1,204 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  TournamentFormat,
+  TournamentMatchStatus,
+  TournamentStatus,
+} from '@prisma/client';
+import {
+  ArrayMaxSize,
+  ArrayNotEmpty,
+  ArrayUnique,
+  IsArray,
+  IsDateString,
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsPositive,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { MarketStateDto } from '@/modules/battle/dto/battle-prediction.dto';
+import {
+  MAX_BATTLE_ASSETS,
+  MAX_BATTLE_DURATION_MS,
+  MIN_BATTLE_DURATION_MS,
+} from '@/modules/battle/constants/battle.constants';
+import {
+  MAX_SWISS_ROUNDS,
+  MAX_TOURNAMENT_NAME_LENGTH,
+  MAX_TOURNAMENT_PLAYERS,
+  MIN_TOURNAMENT_PLAYERS,
+} from '../constants/tournament.constants';
+
+/**
+ * Body of POST /tournaments
+ */
+export class CreateTournamentDto {
+  @ApiProperty({ example: 'Weekly BTC Cup' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(MAX_TOURNAMENT_NAME_LENGTH)
+  name: string;
+
+  @ApiProperty({ enum: TournamentFormat })
+  @IsIn(Object.values(TournamentFormat))
+  format: TournamentFormat;
+
+  /** USD amount each player stakes in every battle of the tournament */
+  @ApiProperty({ example: 10 })
+  @IsNumber({ allowNaN: false, allowInfinity: false, maxDecimalPlaces: 6 })
+  @IsPositive()
+  stake: number;
+
+  /** Duration of every battle */
+  @ApiProperty({
+    minimum: MIN_BATTLE_DURATION_MS,
+    maximum: MAX_BATTLE_DURATION_MS,
+    example: 900000,
+  })
+  @IsInt()
+  @Min(MIN_BATTLE_DURATION_MS)
+  @Max(MAX_BATTLE_DURATION_MS)
+  durationMs: number;
+
+  /** Coins tradable in every battle, any coin when omitted */
+  @ApiPropertyOptional({ type: [String], example: ['BTC', 'ETH'] })
+  @IsOptional()
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayMaxSize(MAX_BATTLE_ASSETS)
+  @ArrayUnique()
+  @IsString({ each: true })
+  assets?: string[];
+
+  /** The tournament is cancelled when fewer players registered at `startsAt` */
+  @ApiPropertyOptional({
+    minimum: MIN_TOURNAMENT_PLAYERS,
+    maximum: MAX_TOURNAMENT_PLAYERS,
+    default: MIN_TOURNAMENT_PLAYERS,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(MIN_TOURNAMENT_PLAYERS)
+  @Max(MAX_TOURNAMENT_PLAYERS)
+  minPlayers?: number;
+
+  @ApiProperty({
+    minimum: MIN_TOURNAMENT_PLAYERS,
+    maximum: MAX_TOURNAMENT_PLAYERS,
+    example: 16,
+  })
+  @IsInt()
+  @Min(MIN_TOURNAMENT_PLAYERS)
+  @Max(MAX_TOURNAMENT_PLAYERS)
+  maxPlayers: number;
+
+  /** Swiss only, defaults to ceil(log2(entrants)) */
+  @ApiPropertyOptional({ minimum: 1, maximum: MAX_SWISS_ROUNDS })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(MAX_SWISS_ROUNDS)
+  rounds?: number;
+
+  /** Registration opens now when omitted */
+  @ApiPropertyOptional({ example: '2026-01-01T18:00:00Z' })
+  @IsOptional()
+  @IsDateString()
+  registrationOpensAt?: string;
+
+  /** Registration closes and round 1 starts */
+  @ApiProperty({ example: '2026-01-02T18:00:00Z' })
+  @IsDateString()
+  startsAt: string;
+}
+
+/**
+ * Query of GET /tournaments
+ */
+export class ListTournamentsQueryDto {
+  @ApiPropertyOptional({ enum: TournamentStatus })
+  @IsOptional()
+  @IsIn(Object.values(TournamentStatus))
+  status?: TournamentStatus;
+}
+
+export class TournamentDto {
+  id: string;
+  name: string;
+  format: TournamentFormat;
+  status: TournamentStatus;
+  /** USD stake of each player in every battle, decimal string */
+  stake: string;
+  durationMs: number;
+  allowedAssets: string[];
+  minPlayers: number;
+  maxPlayers: number;
+  /** Known once started (Swiss: as requested, when set) */
+  rounds: number | null;
+  currentRound: number;
+  registrationOpensAt: Date;
+  startsAt: Date;
+  startedAt: Date | null;
+  endedAt: Date | null;
+  championId: string | null;
+  entrantCount: number;
+}
+
+export class TournamentEntrantDto {
+  userId: string;
+  name: string | null;
+  avatar: string | null;
+  /** 1 = highest ELO at start; champion market outcome is seed - 1 */
+  seed: number | null;
+  eloSnapshot: number | null;
+  /** Swiss score */
+  points: number;
+  eliminatedInRound: number | null;
+  finalRank: number | null;
+  registeredAt: Date;
+}
+
+export class TournamentMatchDto {
+  id: string;
+  round: number;
+  /** Order in the round; single elimination winners of 2k and 2k + 1 meet next */
+  position: number;
+  status: TournamentMatchStatus;
+  playerOneId: string;
+  /** null for a bye */
+  playerTwoId: string | null;
+  winnerId: string | null;
+  battleId: string | null;
+}
+
+/**
+ * Bracket state, also the payload of the `tournament.updated` socket event
+ */
+export class TournamentBracketDto extends TournamentDto {
+  entrants: TournamentEntrantDto[];
+  matches: TournamentMatchDto[];
+}
+
+export class TournamentDetailDto extends TournamentBracketDto {
+  /** Champion market */
+  markets: MarketStateDto[];
+}
+
+/**
+ * Payload of the `tournament.walkover` socket event, sent to both players of a
+ * match decided without playing
+ */
+export class TournamentWalkoverDto {
+  tournamentId: string;
+  matchId: string;
+  round: number;
+  winnerId: string;
+  /** Players who could not play the match, empty when nobody was at fault */
+  forfeitedBy: string[];
+  reason: string;
+}
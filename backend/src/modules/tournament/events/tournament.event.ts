@@ -0,0 +1,38 @@
+import { Injectable } from '@nestjs/common';
+import { OnEvent } from '@nestjs/event-emitter';
+import { PredictionMarketService } from '@/modules/prediction-market/services/prediction-market.service';
+import { PREDICTION_MARKET_EVENTS } from '@/modules/prediction-market/constants/events.constants';
+import { MarketUpdatedEvent } from '@/modules/prediction-market/types/prediction-market.type';
+import { EVENTS } from '@/modules/battle/gateway/events.constant';
+import { BattleClosedEvent } from '@/modules/battle/types/match-types';
+import { BattleRealtimeService } from '@/modules/battle/services/battle-realtime.service';
+import { TournamentBracketService } from '../services/tournament-bracket.service';
+
+@Injectable()
+export class TournamentEvents {
+  constructor(
+    private readonly bracket: TournamentBracketService,
+    private readonly predictionMarket: PredictionMarketService,
+    private readonly realtime: BattleRealtimeService,
+  ) {}
+
+  @OnEvent(EVENTS.BATTLE_CLOSED)
+  async onBattleClosed(event: BattleClosedEvent) {
+    await this.bracket.handleBattleClosed(event.battleId, event.status);
+  }
+
+  @OnEvent(PREDICTION_MARKET_EVENTS.MARKET_UPDATED)
+  async onMarketUpdated(event: MarketUpdatedEvent) {
+    if (!event.tournamentId) return; // battle market
+
+    const markets = await this.predictionMarket.getMarketsByTournament(
+      event.tournamentId,
+    );
+
+    this.realtime.emitToTournament(
+      event.tournamentId,
+      EVENTS.TOURNAMENT_MARKETS,
+      { tournamentId: event.tournamentId, markets },
+    );
+  }
+}
@@ -0,0 +1,34 @@
+import { Processor, WorkerHost } from '@nestjs/bullmq';
+import { Job } from 'bullmq';
+import { LoggerService } from '@/shared/logger/logger.service';
+import { TOURNAMENT_QUEUE } from '../constants/tournament-queue.constants';
+import {
+  StartTournamentJob,
+  TOURNAMENT_JOBS,
+} from '../types/tournament-job.type';
+import { TournamentBracketService } from '../services/tournament-bracket.service';
+
+@Processor(TOURNAMENT_QUEUE)
+export class TournamentProcessor extends WorkerHost {
+  constructor(
+    private readonly bracket: TournamentBracketService,
+    private readonly logger: LoggerService,
+  ) {
+    super();
+  }
+
+  async process(job: Job<StartTournamentJob>) {
+    switch (job.name) {
+      case TOURNAMENT_JOBS.START:
+        this.logger.log(
+          `Tournament ${job.data.tournamentId} registration closed (job ${job.id})`,
+        );
+        await this.bracket.start(job.data.tournamentId);
+        return;
+      default:
+        this.logger.warn(
+          `Unhandled tournament job: ${job.name} (job ${job.id})`,
+        );
+    }
+  }
+}
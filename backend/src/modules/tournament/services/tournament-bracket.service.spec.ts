@@ -0,0 +1,215 @@
+import { ConfigService } from '@nestjs/config';
+import { Test } from '@nestjs/testing';
+import {
+  Prisma,
+  Tournament,
+  TournamentFormat,
+  TournamentMatch,
+  TournamentMatchStatus,
+  UserStatus,
+} from '@prisma/client';
+import { PrismaService } from '@/database/prisma.service';
+import { LoggerService } from '@/shared/logger/logger.service';
+import { PredictionMarketService } from '@modules/prediction-market/services/prediction-market.service';
+import { BattleLifecycleService } from '@modules/battle/services/battle-lifecylce.service';
+import { BattleEscrowService } from '@modules/battle/services/battle-escrow.service';
+import { BattleRealtimeService } from '@modules/battle/services/battle-realtime.service';
+import { MatchmakingService } from '@modules/battle/matchmaking/matchmaking.service';
+import { EVENTS } from '@modules/battle/gateway/events.constant';
+import { TournamentBracketService } from './tournament-bracket.service';
+import { TournamentService } from './tournament.service';
+
+// keeps the Hyperliquid SDK (ESM only dependencies) out of the test
+jest.mock('@modules/battle/services/battle-lifecylce.service', () => ({
+  BattleLifecycleService: class BattleLifecycleService {},
+}));
+jest.mock('@modules/battle/services/battle-escrow.service', () => ({
+  BattleEscrowService: class BattleEscrowService {},
+}));
+jest.mock('@modules/battle/services/battle-realtime.service', () => ({
+  BattleRealtimeService: class BattleRealtimeService {},
+}));
+jest.mock('@modules/battle/matchmaking/matchmaking.service', () => ({
+  MatchmakingService: class MatchmakingService {},
+}));
+jest.mock('./tournament.service', () => ({
+  TournamentService: class TournamentService {},
+}));
+jest.mock(
+  '@modules/prediction-market/services/prediction-market.service',
+  () => ({ PredictionMarketService: class PredictionMarketService {} }),
+);
+
+const tournament = {
+  id: 'tournament-1',
+  format: TournamentFormat.SINGLE_ELIMINATION,
+  stake: new Prisma.Decimal(10),
+  allowedAssets: [],
+  durationMs: 3600000,
+} as unknown as Tournament;
+
+// seed 1 plays seed 2
+const match = {
+  id: 'match-1',
+  tournamentId: 'tournament-1',
+  round: 1,
+  position: 0,
+  playerOneId: 'seed-1',
+  playerTwoId: 'seed-2',
+  status: TournamentMatchStatus.PENDING,
+} as TournamentMatch;
+
+describe('TournamentBracketService', () => {
+  let bracket: TournamentBracketService;
+
+  const prisma = {
+    $transaction: jest.fn(),
+    user: { updateMany: jest.fn() },
+    tournament: { findUniqueOrThrow: jest.fn() },
+    tournamentEntrant: { findMany: jest.fn(), update: jest.fn() },
+    tournamentMatch: { update: jest.fn(), updateMany: jest.fn() },
+  };
+  const lifecycle = { handleMatch: jest.fn() };
+  const matchmaking = { reserveDirectMatch: jest.fn() };
+  const escrow = { findUncoveredUsers: jest.fn() };
+  const realtime = { emitToUser: jest.fn() };
+
+  const playMatch = () => bracket['playMatch'](tournament, match);
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+
+    prisma.$transaction.mockImplementation((fn) => fn(prisma));
+    prisma.tournament.findUniqueOrThrow.mockResolvedValue(tournament);
+    prisma.tournamentEntrant.findMany.mockResolvedValue([
+      { userId: 'seed-1', seed: 1 },
+      { userId: 'seed-2', seed: 2 },
+    ]);
+    prisma.tournamentMatch.updateMany.mockResolvedValue({ count: 1 });
+    escrow.findUncoveredUsers.mockResolvedValue([]);
+    matchmaking.reserveDirectMatch.mockResolvedValue({
+      match: { matchId: 'match-1' },
+    });
+    lifecycle.handleMatch.mockResolvedValue({ id: 'battle-1' });
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        TournamentBracketService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: ConfigService, useValue: { get: jest.fn() } },
+        { provide: TournamentService, useValue: {} },
+        { provide: BattleLifecycleService, useValue: lifecycle },
+        { provide: MatchmakingService, useValue: matchmaking },
+        { provide: BattleEscrowService, useValue: escrow },
+        { provide: BattleRealtimeService, useValue: realtime },
+        { provide: PredictionMarketService, useValue: {} },
+        {
+          provide: LoggerService,
+          useValue: { log: jest.fn(), warn: jest.fn(), error: jest.fn() },
+        },
+      ],
+    }).compile();
+
+    bracket = moduleRef.get(TournamentBracketService);
+  });
+
+  const expectWinner = (winnerId: string) =>
+    expect(prisma.tournamentMatch.updateMany).toHaveBeenCalledWith({
+      where: {
+        id: 'match-1',
+        status: {
+          in: [TournamentMatchStatus.PENDING, TournamentMatchStatus.LIVE],
+        },
+      },
+      data: { status: TournamentMatchStatus.FINISHED, winnerId },
+    });
+
+  describe('playMatch', () => {
+    it('plays the match as a battle', async () => {
+      await playMatch();
+
+      expect(matchmaking.reserveDirectMatch).toHaveBeenCalledWith({
+        matchId: 'match-1',
+        userIds: ['seed-1', 'seed-2'],
+        stake: 10,
+        assets: [],
+        durationMs: 3600000,
+        tournamentId: 'tournament-1',
+      });
+      expect(prisma.tournamentMatch.update).toHaveBeenCalledWith({
+        where: { id: 'match-1' },
+        data: { status: TournamentMatchStatus.LIVE, battleId: 'battle-1' },
+      });
+      expect(realtime.emitToUser).not.toHaveBeenCalled();
+    });
+
+    it('gives the match to the opponent of a player who cannot cover the stake', async () => {
+      escrow.findUncoveredUsers.mockResolvedValue(['seed-1']);
+
+      await playMatch();
+
+      expect(matchmaking.reserveDirectMatch).not.toHaveBeenCalled();
+      expectWinner('seed-2');
+    });
+
+    it('gives the match to the opponent of a busy player', async () => {
+      matchmaking.reserveDirectMatch.mockResolvedValue({
+        unavailable: ['seed-1'],
+      });
+
+      await playMatch();
+
+      expect(lifecycle.handleMatch).not.toHaveBeenCalled();
+      expectWinner('seed-2');
+    });
+
+    it('tells both players why the match was decided without playing', async () => {
+      matchmaking.reserveDirectMatch.mockResolvedValue({
+        unavailable: ['seed-1'],
+      });
+
+      await playMatch();
+
+      for (const userId of ['seed-1', 'seed-2']) {
+        expect(realtime.emitToUser).toHaveBeenCalledWith(
+          userId,
+          EVENTS.TOURNAMENT_WALKOVER,
+          {
+            tournamentId: 'tournament-1',
+            matchId: 'match-1',
+            round: 1,
+            winnerId: 'seed-2',
+            forfeitedBy: ['seed-1'],
+            reason: 'seed-1 was queued or in another battle',
+          },
+        );
+      }
+    });
+
+    it('blames the player whose stake failed the battle creation', async () => {
+      lifecycle.handleMatch.mockRejectedValue(new Error('stake not covered'));
+      escrow.findUncoveredUsers
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce(['seed-1']);
+
+      await playMatch();
+
+      expect(prisma.user.updateMany).toHaveBeenCalledWith({
+        where: {
+          id: { in: ['seed-1', 'seed-2'] },
+          status: UserStatus.PENDING,
+        },
+        data: { status: UserStatus.ACTIVE },
+      });
+      expectWinner('seed-2');
+    });
+
+    it('advances the higher seed when nobody is at fault', async () => {
+      lifecycle.handleMatch.mockRejectedValue(new Error('db down'));
+
+      await playMatch();
+
+      expectWinner('seed-1');
+    });
+  });
+});
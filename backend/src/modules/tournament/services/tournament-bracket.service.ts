@@ -0,0 +1,700 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { keccak256, toBytes } from 'viem';
+import {
+  Battle,
+  BattlePlayerStatus,
+  BattleStatus,
+  Prisma,
+  Tournament,
+  TournamentFormat,
+  TournamentMatch,
+  TournamentMatchStatus,
+  TournamentStatus,
+  UserStatus,
+} from '@prisma/client';
+import { PrismaService } from '@/database/prisma.service';
+import { LoggerService } from '@/shared/logger/logger.service';
+import { PredictionMarketService } from '@modules/prediction-market/services/prediction-market.service';
+import { BattleLifecycleService } from '@modules/battle/services/battle-lifecylce.service';
+import { MatchmakingService } from '@modules/battle/matchmaking/matchmaking.service';
+import { BattleEscrowService } from '@modules/battle/services/battle-escrow.service';
+import { BattleRealtimeService } from '@modules/battle/services/battle-realtime.service';
+import { EVENTS } from '@modules/battle/gateway/events.constant';
+import { toBytes16 } from '@modules/battle/utils/build-battle-result';
+import { TournamentService } from './tournament.service';
+import { TournamentWalkoverDto } from '../dto/tournament.dto';
+import {
+  bracketOrder,
+  eliminationRank,
+  eliminationRounds,
+  pairSwiss,
+  rankSwiss,
+  SwissPlayer,
+} from '../utils/bracket.util';
+
+const OPEN_MATCH_STATUSES = [
+  TournamentMatchStatus.PENDING,
+  TournamentMatchStatus.LIVE,
+];
+
+type TournamentWithBracket = Prisma.TournamentGetPayload<{
+  include: { entrants: true; matches: true };
+}>;
+
+// a pairing of a round, no second player for a bye
+type Pairing = [string, string | null];
+
+/**
+ * Runs tournaments: seeding, rounds played as battles, advancement from battle
+ * results and the champion prediction market.
+ */
+@Injectable()
+export class TournamentBracketService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly logger: LoggerService,
+    private readonly configService: ConfigService,
+    private readonly tournaments: TournamentService,
+    private readonly lifecycle: BattleLifecycleService,
+    private readonly matchmaking: MatchmakingService,
+    private readonly escrow: BattleEscrowService,
+    private readonly realtime: BattleRealtimeService,
+    private readonly predictionMarket: PredictionMarketService,
+  ) {}
+
+  // ==================== START ====================
+
+  /**
+   * Closes registration: seeds entrants by ELO, opens the champion market and
+   * plays round 1. Cancelled when fewer than `minPlayers` registered.
+   */
+  async start(tournamentId: string) {
+    const started = await this.prisma.$transaction(async (tx) => {
+      const transitioned = await tx.tournament.updateMany({
+        where: { id: tournamentId, status: TournamentStatus.REGISTRATION },
+        data: { status: TournamentStatus.RUNNING, startedAt: new Date() },
+      });
+
+      if (transitioned.count === 0) return null;
+
+      const tournament = await tx.tournament.findUniqueOrThrow({
+        where: { id: tournamentId },
+        include: { entrants: { include: { user: { select: { elo: true } } } } },
+      });
+      const { entrants } = tournament;
+
+      if (entrants.length < tournament.minPlayers) {
+        await tx.tournament.update({
+          where: { id: tournamentId },
+          data: { status: TournamentStatus.CANCELLED, endedAt: new Date() },
+        });
+        return { question: null, entrants: entrants.length };
+      }
+
+      // highest ELO first, earliest registration breaks ties
+      const seeded = [...entrants].sort(
+        (a, b) =>
+          b.user.elo - a.user.elo ||
+          a.createdAt.getTime() - b.createdAt.getTime(),
+      );
+
+      for (const [i, e] of seeded.entries()) {
+        await tx.tournamentEntrant.update({
+          where: { id: e.id },
+          data: { seed: i + 1, eloSnapshot: e.user.elo },
+        });
+      }
+
+      // Swiss never needs more rounds than opponents
+      const rounds =
+        tournament.format === TournamentFormat.SWISS
+          ? Math.min(
+              tournament.rounds ?? eliminationRounds(seeded.length),
+              seeded.length - 1,
+            )
+          : eliminationRounds(seeded.length);
+
+      await tx.tournament.update({
+        where: { id: tournamentId },
+        data: { rounds },
+      });
+
+      // champion market: outcome i is the player seeded i + 1
+      const question = await tx.battlePredictionQuestion.create({
+        data: {
+          tournamentId,
+          questionText: `Who will win ${tournament.name}?`,
+          description:
+            'Predict the champion of the tournament. Outcome N is the player seeded N + 1.',
+        },
+      });
+
+      await tx.battlePredictionChoice.createMany({
+        data: seeded.map((_, outcome) => ({
+          tournamentId,
+          battlePredictionQuestionId: question.id,
+          outcome,
+        })),
+      });
+
+      return { question, entrants: seeded.length };
+    });
+
+    if (!started) return;
+
+    if (!started.question) {
+      this.logger.log(
+        `Tournament ${tournamentId} cancelled: only ${started.entrants} entrants`,
+      );
+      await this.tournaments.publish(tournamentId);
+      return;
+    }
+
+    this.logger.log(
+      `Tournament ${tournamentId} started with ${started.entrants} entrants`,
+    );
+
+    // Deploy onchain champion market (async op in message queue)
+    try {
+      await this.predictionMarket.enqueueCreateTournamentMarket({
+        tournamentId,
+        questionId: started.question.id,
+        outcomesCount: started.entrants,
+      });
+    } catch (error) {
+      this.logger.error(
+        `Failed to enqueue champion market creation for tournament ${tournamentId}`,
+        error instanceof Error ? error.stack : String(error),
+      );
+    }
+
+    await this.startRound(tournamentId, 1);
+  }
+
+  // ==================== ROUNDS ====================
+
+  /**
+   * Pairs a round and creates the battle of each match. Byes advance right away
+   * (and score a point in Swiss).
+   */
+  private async startRound(tournamentId: string, round: number) {
+    const opened = await this.prisma.$transaction(async (tx) => {
+      // only one caller opens a round
+      const transitioned = await tx.tournament.updateMany({
+        where: {
+          id: tournamentId,
+          status: TournamentStatus.RUNNING,
+          currentRound: round - 1,
+        },
+        data: { currentRound: round },
+      });
+
+      if (transitioned.count === 0) return null;
+
+      const tournament = await tx.tournament.findUniqueOrThrow({
+        where: { id: tournamentId },
+        include: { entrants: true, matches: true },
+      });
+
+      const pairings = this.pair(tournament, round);
+
+      await tx.tournamentMatch.createMany({
+        data: pairings.map(([playerOneId, playerTwoId], position) => ({
+          tournamentId,
+          round,
+          position,
+          playerOneId,
+          playerTwoId,
+          ...(playerTwoId === null && {
+            status: TournamentMatchStatus.BYE,
+            winnerId: playerOneId,
+          }),
+        })),
+      });
+
+      const byes = pairings
+        .filter(([, playerTwoId]) => playerTwoId === null)
+        .map(([playerOneId]) => playerOneId);
+
+      if (byes.length > 0 && tournament.format === TournamentFormat.SWISS) {
+        await tx.tournamentEntrant.updateMany({
+          where: { tournamentId, userId: { in: byes } },
+          data: { points: { increment: 1 } },
+        });
+      }
+
+      const matches = await tx.tournamentMatch.findMany({
+        where: { tournamentId, round, status: TournamentMatchStatus.PENDING },
+        orderBy: { position: 'asc' },
+      });
+
+      return { tournament, matches };
+    });
+
+    if (!opened) return;
+
+    this.logger.log(
+      `Tournament ${tournamentId} round ${round}: ${opened.matches.length} matches`,
+    );
+
+    await this.tournaments.publish(tournamentId);
+
+    for (const match of opened.matches) {
+      await this.playMatch(opened.tournament, match);
+    }
+
+    // matches decided without a battle may already close the round
+    await this.advance(tournamentId);
+  }
+
+  private pair(tournament: TournamentWithBracket, round: number): Pairing[] {
+    if (tournament.format === TournamentFormat.SWISS) {
+      const { pairs, bye } = pairSwiss(this.toSwissPlayers(tournament));
+      return bye ? [...pairs, [bye, null]] : pairs;
+    }
+
+    if (round === 1) {
+      const bySeed = new Map(
+        tournament.entrants.map((e) => [e.seed, e.userId]),
+      );
+      const order = bracketOrder(2 ** (tournament.rounds ?? 1));
+      const pairings: Pairing[] = [];
+
+      // the better seed always comes first, missing seeds are byes
+      for (let i = 0; i < order.length; i += 2) {
+        const playerOneId = bySeed.get(order[i]);
+        if (playerOneId) {
+          pairings.push([playerOneId, bySeed.get(order[i + 1]) ?? null]);
+        }
+      }
+      return pairings;
+    }
+
+    // winners of positions 2k and 2k + 1 meet
+    const winners = tournament.matches
+      .filter((m) => m.round === round - 1)
+      .sort((a, b) => a.position - b.position)
+      .map((m) => m.winnerId)
+      .filter((id): id is string => id !== null);
+
+    const pairings: Pairing[] = [];
+    for (let i = 0; i < winners.length; i += 2) {
+      pairings.push([winners[i], winners[i + 1] ?? null]);
+    }
+    return pairings;
+  }
+
+  /**
+   * Creates the battle of a match. Both players must cover the stake and be
+   * free (not queued nor in another battle), otherwise the match is decided
+   * without playing against the player who could not.
+   */
+  private async playMatch(tournament: Tournament, match: TournamentMatch) {
+    const playerIds = this.playersOf(match);
+    const stake = tournament.stake.toNumber();
+
+    const uncovered = await this.findUncovered(playerIds, stake);
+    if (uncovered.length > 0) {
+      await this.walkover(match, uncovered, 'could not cover the stake');
+      return;
+    }
+
+    const reserve = () =>
+      this.matchmaking.reserveDirectMatch({
+        matchId: match.id,
+        userIds: playerIds,
+        stake,
+        assets: tournament.allowedAssets,
+        durationMs: tournament.durationMs,
+        tournamentId: tournament.id,
+      });
+
+    // a conflict means a player got busy meanwhile, the second attempt names them
+    const reservation = await reserve()
+      .catch(() => reserve())
+      .catch((error) => {
+        this.logger.error(
+          `Failed to reserve the players of tournament match ${match.id}`,
+          error instanceof Error ? error.stack : String(error),
+        );
+        return null;
+      });
+    if (!reservation) {
+      await this.walkover(match, [], 'its players could not be reserved');
+      return;
+    }
+    if (reservation.unavailable) {
+      await this.walkover(
+        match,
+        reservation.unavailable,
+        'was queued or in another battle',
+      );
+      return;
+    }
+
+    let battle: Battle;
+    try {
+      battle = await this.lifecycle.handleMatch(reservation.match);
+    } catch (error) {
+      await this.prisma.user.updateMany({
+        where: { id: { in: playerIds }, status: UserStatus.PENDING },
+        data: { status: UserStatus.ACTIVE },
+      });
+
+      this.logger.error(
+        `Failed to create the battle of tournament match ${match.id}`,
+        error instanceof Error ? error.stack : String(error),
+      );
+
+      // stakes are the usual reason, balances may have moved since the check
+      await this.walkover(
+        match,
+        await this.findUncovered(playerIds, stake),
+        'its battle could not be created',
+      );
+      return;
+    }
+
+    await this.prisma.tournamentMatch.update({
+      where: { id: match.id },
+      data: { status: TournamentMatchStatus.LIVE, battleId: battle.id },
+    });
+  }
+
+  // a failed balance read blames nobody
+  private async findUncovered(playerIds: string[], stake: number) {
+    return this.escrow.findUncoveredUsers(playerIds, stake).catch((error) => {
+      this.logger.error(
+        `Failed to check the stakes of ${playerIds.join(', ')}`,
+        error instanceof Error ? error.stack : String(error),
+      );
+      return [];
+    });
+  }
+
+  /**
+   * Decides a match that could not be played against the players who could
+   * not play it; the higher seed advances when both (or neither) were at
+   * fault. Both players are told why.
+   */
+  private async walkover(
+    match: TournamentMatch,
+    forfeitedBy: string[],
+    reason: string,
+  ) {
+    const winnerId = await this.higherSeed(
+      match,
+      this.playersOf(match).filter((id) => !forfeitedBy.includes(id)),
+    );
+
+    const detail = forfeitedBy.length
+      ? `${forfeitedBy.join(', ')} ${reason}`
+      : reason;
+
+    this.logger.warn(
+      `Tournament match ${match.id} decided without playing (${detail}), ${winnerId} advances`,
+    );
+
+    if (!(await this.resolveMatch(match, winnerId))) return;
+
+    for (const userId of this.playersOf(match)) {
+      this.realtime.emitToUser(userId, EVENTS.TOURNAMENT_WALKOVER, {
+        tournamentId: match.tournamentId,
+        matchId: match.id,
+        round: match.round,
+        winnerId,
+        forfeitedBy,
+        reason: detail,
+      } satisfies TournamentWalkoverDto);
+    }
+  }
+
+  // ==================== ADVANCEMENT ====================
+
+  /**
+   * Records the winner of a tournament battle: the winner of its `BattleResult`,
+   * or for a cancelled battle a player who readied up (who did not leave
+   * otherwise), then the higher seed.
+   */
+  async handleBattleClosed(battleId: string, status: BattleStatus) {
+    const match = await this.prisma.tournamentMatch.findUnique({
+      where: { battleId },
+      include: {
+        battle: {
+          include: {
+            players: true,
+            results: { orderBy: { createdAt: 'desc' }, take: 1 },
+          },
+        },
+      },
+    });
+
+    if (!match?.battle || match.status !== TournamentMatchStatus.LIVE) return;
+
+    const { players, results } = match.battle;
+    const [result] = results;
+
+    let winnerId =
+      status === BattleStatus.FINISHED && result
+        ? players.find((p) => p.slot === result.outcome + 1)?.userId
+        : undefined;
+
+    if (!winnerId) {
+      const ready = players
+        .filter((p) => p.status === BattlePlayerStatus.READY)
+        .map((p) => p.userId);
+      const stayed = players
+        .filter((p) => p.status !== BattlePlayerStatus.LEFT)
+        .map((p) => p.userId);
+
+      winnerId = await this.higherSeed(
+        match,
+        ready.length > 0 ? ready : stayed,
+      );
+    }
+
+    if (await this.resolveMatch(match, winnerId)) {
+      await this.advance(match.tournamentId);
+    }
+  }
+
+  /**
+   * Stores the winner of an open match. Returns false when it was already decided.
+   */
+  private async resolveMatch(match: TournamentMatch, winnerId: string) {
+    const { tournamentId } = match;
+    const loserId =
+      winnerId === match.playerOneId ? match.playerTwoId : match.playerOneId;
+
+    return this.prisma.$transaction(async (tx) => {
+      const resolved = await tx.tournamentMatch.updateMany({
+        where: { id: match.id, status: { in: OPEN_MATCH_STATUSES } },
+        data: { status: TournamentMatchStatus.FINISHED, winnerId },
+      });
+
+      if (resolved.count === 0) return false;
+
+      const { format } = await tx.tournament.findUniqueOrThrow({
+        where: { id: tournamentId },
+        select: { format: true },
+      });
+
+      if (format === TournamentFormat.SWISS) {
+        await tx.tournamentEntrant.update({
+          where: { tournamentId_userId: { tournamentId, userId: winnerId } },
+          data: { points: { increment: 1 } },
+        });
+      } else if (loserId) {
+        await tx.tournamentEntrant.update({
+          where: { tournamentId_userId: { tournamentId, userId: loserId } },
+          data: { eliminatedInRound: match.round },
+        });
+      }
+
+      return true;
+    });
+  }
+
+  /**
+   * Opens the next round once every match of the current one is decided,
+   * finishes the tournament after the last round.
+   */
+  private async advance(tournamentId: string) {
+    const tournament = await this.prisma.tournament.findUnique({
+      where: { id: tournamentId },
+    });
+
+    if (!tournament || tournament.status !== TournamentStatus.RUNNING) return;
+
+    const open = await this.prisma.tournamentMatch.count({
+      where: {
+        tournamentId,
+        round: tournament.currentRound,
+        status: { in: OPEN_MATCH_STATUSES },
+      },
+    });
+
+    if (open > 0) {
+      await this.tournaments.publish(tournamentId);
+    } else if (tournament.currentRound < (tournament.rounds ?? 0)) {
+      await this.startRound(tournamentId, tournament.currentRound + 1);
+    } else {
+      await this.finish(tournamentId);
+    }
+  }
+
+  // ==================== FINISH ====================
+
+  /**
+   * Stores final ranks and the champion, then proposes the champion market outcome.
+   */
+  private async finish(tournamentId: string) {
+    const championId = await this.prisma.$transaction(async (tx) => {
+      const tournament = await tx.tournament.findUniqueOrThrow({
+        where: { id: tournamentId },
+        include: { entrants: true, matches: true },
+      });
+
+      const ranks = this.finalRanks(tournament);
+      const champion = [...ranks].find(([, rank]) => rank === 1)?.[0] ?? null;
+
+      const transitioned = await tx.tournament.updateMany({
+        where: { id: tournamentId, status: TournamentStatus.RUNNING },
+        data: {
+          status: TournamentStatus.FINISHED,
+          endedAt: new Date(),
+          championId: champion,
+        },
+      });
+
+      if (transitioned.count === 0) return undefined;
+
+      for (const [userId, finalRank] of ranks) {
+        await tx.tournamentEntrant.update({
+          where: { tournamentId_userId: { tournamentId, userId } },
+          data: { finalRank },
+        });
+      }
+
+      return champion;
+    });
+
+    if (championId === undefined) return;
+
+    this.logger.log(
+      `Tournament ${tournamentId} finished, champion ${championId}`,
+    );
+
+    await this.tournaments.publish(tournamentId);
+
+    void this.proposeChampion(tournamentId).catch((error) => {
+      this.logger.error(
+        `Failed to propose the champion of tournament ${tournamentId}`,
+        error instanceof Error ? error.stack : String(error),
+      );
+    });
+  }
+
+  /**
+   * Single elimination: champion 1st, final loser 2nd, then by round of
+   * elimination (shared). Swiss: points, Buchholz, seed.
+   */
+  private finalRanks(tournament: TournamentWithBracket): Map<string, number> {
+    if (tournament.format === TournamentFormat.SWISS) {
+      return new Map(
+        rankSwiss(this.toSwissPlayers(tournament)).map((p, i) => [
+          p.userId,
+          i + 1,
+        ]),
+      );
+    }
+
+    const rounds = tournament.rounds ?? 1;
+    const final = tournament.matches.find((m) => m.round === rounds);
+
+    return new Map(
+      tournament.entrants.map((e) => [
+        e.userId,
+        e.userId === final?.winnerId
+          ? 1
+          : eliminationRank(rounds, e.eliminatedInRound ?? rounds),
+      ]),
+    );
+  }
+
+  private async proposeChampion(tournamentId: string) {
+    const [question, champion, matches] = await Promise.all([
+      this.prisma.battlePredictionQuestion.findFirst({
+        where: { tournamentId },
+        orderBy: { createdAt: 'asc' },
+      }),
+      this.prisma.tournamentEntrant.findFirst({
+        where: { tournamentId, finalRank: 1 },
+      }),
+      this.prisma.tournamentMatch.findMany({
+        where: { tournamentId },
+        include: {
+          battle: {
+            select: {
+              results: {
+                select: { dataHash: true },
+                orderBy: { createdAt: 'desc' },
+                take: 1,
+              },
+            },
+          },
+        },
+        orderBy: [{ round: 'asc' }, { position: 'asc' }],
+      }),
+    ]);
+
+    if (!question || !champion?.seed) {
+      this.logger.warn(`Tournament ${tournamentId} has no market to resolve`);
+      return;
+    }
+
+    // every decision of the bracket, with the data hash of the battles behind it
+    const canonical = JSON.stringify(
+      matches.map((m) => [
+        m.round,
+        m.position,
+        m.playerOneId,
+        m.playerTwoId,
+        m.winnerId,
+        m.battle?.results[0]?.dataHash ?? null,
+      ]),
+    );
+
+    await this.predictionMarket.enqueueProposeTournamentOutcome({
+      tournamentId,
+      questionId: question.id,
+      outcome: champion.seed - 1,
+      dataHash: toBytes16(keccak256(toBytes(canonical))),
+      codeCommitHash: this.configService.get<string>('app.commitHash', ''),
+    });
+  }
+
+  // ==================== UTILS ====================
+
+  private playersOf(match: TournamentMatch) {
+    return [match.playerOneId, match.playerTwoId].filter(
+      (id): id is string => id !== null,
+    );
+  }
+
+  // the best seed among the preferred players of the match (among both when none is)
+  private async higherSeed(match: TournamentMatch, preferred: string[]) {
+    const entrants = await this.prisma.tournamentEntrant.findMany({
+      where: {
+        tournamentId: match.tournamentId,
+        userId: { in: this.playersOf(match) },
+      },
+      orderBy: { seed: 'asc' },
+    });
+
+    const pool = entrants.filter((e) => preferred.includes(e.userId));
+
+    return (pool[0] ?? entrants[0]).userId;
+  }
+
+  private toSwissPlayers(tournament: TournamentWithBracket): SwissPlayer[] {
+    return tournament.entrants.map((e) => {
+      const own = tournament.matches.filter(
+        (m) => m.playerOneId === e.userId || m.playerTwoId === e.userId,
+      );
+
+      return {
+        userId: e.userId,
+        seed: e.seed ?? tournament.entrants.length,
+        points: e.points,
+        opponents: own.flatMap((m) => {
+          const opponent =
+            m.playerOneId === e.userId ? m.playerTwoId : m.playerOneId;
+          return opponent ? [opponent] : [];
+        }),
+        hadBye: own.some((m) => m.playerTwoId === null),
+      };
+    });
+  }
+}
@@ -0,0 +1,132 @@
+import { ConflictException, NotFoundException } from '@nestjs/common';
+import { getQueueToken } from '@nestjs/bullmq';
+import { Test } from '@nestjs/testing';
+import { Prisma, TournamentStatus } from '@prisma/client';
+import { PrismaService } from '@/database/prisma.service';
+import { LoggerService } from '@/shared/logger/logger.service';
+import { PredictionMarketService } from '@modules/prediction-market/services/prediction-market.service';
+import { BattleRealtimeService } from '@modules/battle/services/battle-realtime.service';
+import { TOURNAMENT_QUEUE } from '../constants/tournament-queue.constants';
+import { TournamentService } from './tournament.service';
+
+// keeps the Hyperliquid SDK (ESM only dependencies) out of the test
+jest.mock('@modules/battle/services/battle-realtime.service', () => ({
+  BattleRealtimeService: class BattleRealtimeService {},
+}));
+jest.mock(
+  '@modules/prediction-market/services/prediction-market.service',
+  () => ({ PredictionMarketService: class PredictionMarketService {} }),
+);
+
+const HOUR = 60 * 60 * 1000;
+
+describe('TournamentService', () => {
+  let tournaments: TournamentService;
+
+  const prisma = {
+    $transaction: jest.fn(),
+    $queryRaw: jest.fn(),
+    tournament: { findUnique: jest.fn() },
+    tournamentEntrant: {
+      count: jest.fn(),
+      findUnique: jest.fn(),
+      create: jest.fn(),
+    },
+  };
+  const realtime = { emitToTournament: jest.fn() };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+
+    prisma.$transaction.mockImplementation((fn) => fn(prisma));
+    prisma.$queryRaw.mockResolvedValue([
+      {
+        id: 'tournament-1',
+        status: TournamentStatus.REGISTRATION,
+        registrationOpensAt: new Date(Date.now() - HOUR),
+        startsAt: new Date(Date.now() + HOUR),
+        maxPlayers: 2,
+      },
+    ]);
+    prisma.tournamentEntrant.count.mockResolvedValue(1);
+    // the bracket published after registering
+    prisma.tournament.findUnique.mockResolvedValue({
+      id: 'tournament-1',
+      stake: new Prisma.Decimal(10),
+      entrants: [],
+      matches: [],
+    });
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        TournamentService,
+        { provide: getQueueToken(TOURNAMENT_QUEUE), useValue: {} },
+        { provide: PrismaService, useValue: prisma },
+        { provide: PredictionMarketService, useValue: {} },
+        { provide: BattleRealtimeService, useValue: realtime },
+        {
+          provide: LoggerService,
+          useValue: { log: jest.fn(), error: jest.fn() },
+        },
+      ],
+    }).compile();
+
+    tournaments = moduleRef.get(TournamentService);
+  });
+
+  describe('register', () => {
+    it('locks the tournament row before counting entrants', async () => {
+      await tournaments.register('tournament-1', 'user-1');
+
+      const [sql] = prisma.$queryRaw.mock.calls[0];
+      expect(sql.join('?')).toContain('FOR UPDATE');
+      expect(prisma.$queryRaw.mock.invocationCallOrder[0]).toBeLessThan(
+        prisma.tournamentEntrant.count.mock.invocationCallOrder[0],
+      );
+      expect(prisma.tournamentEntrant.create).toHaveBeenCalledWith({
+        data: { tournamentId: 'tournament-1', userId: 'user-1' },
+      });
+    });
+
+    it('refuses the entrant over maxPlayers', async () => {
+      prisma.tournamentEntrant.count.mockResolvedValue(2);
+
+      await expect(
+        tournaments.register('tournament-1', 'user-1'),
+      ).rejects.toThrow(new ConflictException('Tournament is full'));
+      expect(prisma.tournamentEntrant.create).not.toHaveBeenCalled();
+    });
+
+    it('refuses a user already registered', async () => {
+      prisma.tournamentEntrant.findUnique.mockResolvedValue({ id: 'e-1' });
+
+      await expect(
+        tournaments.register('tournament-1', 'user-1'),
+      ).rejects.toThrow(new ConflictException('Already registered'));
+    });
+
+    it('refuses once registration closed', async () => {
+      prisma.$queryRaw.mockResolvedValue([
+        {
+          id: 'tournament-1',
+          status: TournamentStatus.RUNNING,
+          registrationOpensAt: new Date(Date.now() - HOUR),
+          startsAt: new Date(Date.now() - 1),
+          maxPlayers: 2,
+        },
+      ]);
+
+      await expect(
+        tournaments.register('tournament-1', 'user-1'),
+      ).rejects.toThrow(new ConflictException('Registration is closed'));
+    });
+
+    it('throws for an unknown tournament', async () => {
+      prisma.$queryRaw.mockResolvedValue([]);
+
+      await expect(
+        tournaments.register('tournament-1', 'user-1'),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+});
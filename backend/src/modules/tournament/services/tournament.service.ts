@@ -0,0 +1,327 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  NotFoundException,
+  OnApplicationBootstrap,
+} from '@nestjs/common';
+import { InjectQueue } from '@nestjs/bullmq';
+import { Queue } from 'bullmq';
+import { Prisma, Tournament, TournamentStatus } from '@prisma/client';
+import { PrismaService } from '@/database/prisma.service';
+import { LoggerService } from '@/shared/logger/logger.service';
+import { PredictionMarketService } from '@modules/prediction-market/services/prediction-market.service';
+import { BattleRealtimeService } from '@modules/battle/services/battle-realtime.service';
+import { EVENTS } from '@modules/battle/gateway/events.constant';
+import { TOURNAMENT_QUEUE } from '../constants/tournament-queue.constants';
+import { MIN_TOURNAMENT_PLAYERS } from '../constants/tournament.constants';
+import {
+  StartTournamentJob,
+  TOURNAMENT_JOBS,
+} from '../types/tournament-job.type';
+import {
+  CreateTournamentDto,
+  ListTournamentsQueryDto,
+  TournamentBracketDto,
+  TournamentDetailDto,
+  TournamentDto,
+} from '../dto/tournament.dto';
+
+const bracketInclude = {
+  entrants: {
+    include: { user: { select: { name: true, avatar: true } } },
+    orderBy: [{ seed: 'asc' }, { createdAt: 'asc' }],
+  },
+  matches: { orderBy: [{ round: 'asc' }, { position: 'asc' }] },
+} satisfies Prisma.TournamentInclude;
+
+type TournamentWithBracket = Prisma.TournamentGetPayload<{
+  include: typeof bracketInclude;
+}>;
+
+/**
+ * Tournaments: creation, registration window and bracket reads.
+ * Rounds are run by `TournamentBracketService`.
+ */
+@Injectable()
+export class TournamentService implements OnApplicationBootstrap {
+  constructor(
+    @InjectQueue(TOURNAMENT_QUEUE)
+    private readonly tournamentQueue: Queue,
+    private readonly prisma: PrismaService,
+    private readonly logger: LoggerService,
+    private readonly predictionMarket: PredictionMarketService,
+    private readonly realtime: BattleRealtimeService,
+  ) {}
+
+  /**
+   * Makes sure every tournament still in registration has its start job.
+   */
+  async onApplicationBootstrap() {
+    try {
+      const pending = await this.prisma.tournament.findMany({
+        where: { status: TournamentStatus.REGISTRATION },
+      });
+
+      for (const tournament of pending) {
+        await this.scheduleStart(tournament);
+      }
+    } catch (error) {
+      this.logger.error(
+        'Failed to reschedule tournament starts',
+        error instanceof Error ? error.stack : String(error),
+      );
+    }
+  }
+
+  // ==================== TOURNAMENTS ====================
+
+  async create(dto: CreateTournamentDto): Promise<TournamentDto> {
+    const registrationOpensAt = dto.registrationOpensAt
+      ? new Date(dto.registrationOpensAt)
+      : new Date();
+    const startsAt = new Date(dto.startsAt);
+    const minPlayers = dto.minPlayers ?? MIN_TOURNAMENT_PLAYERS;
+
+    if (startsAt <= new Date() || startsAt <= registrationOpensAt) {
+      throw new BadRequestException(
+        'startsAt must be in the future and after registrationOpensAt',
+      );
+    }
+
+    if (minPlayers > dto.maxPlayers) {
+      throw new BadRequestException('minPlayers cannot exceed maxPlayers');
+    }
+
+    const tournament = await this.prisma.tournament.create({
+      data: {
+        name: dto.name,
+        format: dto.format,
+        stake: dto.stake,
+        durationMs: dto.durationMs,
+        allowedAssets: dto.assets ?? [],
+        minPlayers,
+        maxPlayers: dto.maxPlayers,
+        rounds: dto.rounds,
+        registrationOpensAt,
+        startsAt,
+      },
+    });
+
+    await this.scheduleStart(tournament);
+
+    this.logger.log(
+      `Tournament ${tournament.id} (${tournament.format}) created, starts at ${startsAt.toISOString()}`,
+    );
+
+    return this.toDto(tournament, 0);
+  }
+
+  /**
+   * Tournaments open for registration first (soonest start), then the others
+   * (most recent start).
+   */
+  async list(query: ListTournamentsQueryDto): Promise<TournamentDto[]> {
+    const tournaments = await this.prisma.tournament.findMany({
+      where: query.status ? { status: query.status } : undefined,
+      include: { _count: { select: { entrants: true } } },
+      orderBy: { startsAt: 'desc' },
+      take: 100,
+    });
+
+    const open = tournaments
+      .filter((t) => t.status === TournamentStatus.REGISTRATION)
+      .reverse();
+    const others = tournaments.filter(
+      (t) => t.status !== TournamentStatus.REGISTRATION,
+    );
+
+    return [...open, ...others].map((t) => this.toDto(t, t._count.entrants));
+  }
+
+  /**
+   * Bracket state with the champion market.
+   */
+  async getDetail(tournamentId: string): Promise<TournamentDetailDto> {
+    const [bracket, markets] = await Promise.all([
+      this.getBracket(tournamentId),
+      this.predictionMarket.getMarketsByTournament(tournamentId),
+    ]);
+
+    return { ...bracket, markets };
+  }
+
+  async getBracket(tournamentId: string): Promise<TournamentBracketDto> {
+    const tournament = await this.prisma.tournament.findUnique({
+      where: { id: tournamentId },
+      include: bracketInclude,
+    });
+
+    if (!tournament) {
+      throw new NotFoundException(`Tournament ${tournamentId} not found`);
+    }
+
+    return this.toBracketDto(tournament);
+  }
+
+  // ==================== REGISTRATION ====================
+
+  /**
+   * Registers a user while registration is open and seats are left.
+   */
+  async register(
+    tournamentId: string,
+    userId: string,
+  ): Promise<TournamentBracketDto> {
+    await this.prisma.$transaction(async (tx) => {
+      // row lock: concurrent registrations wait here, so the entrant count
+      // below cannot go stale before the insert
+      const [tournament] = await tx.$queryRaw<Tournament[]>`
+        SELECT * FROM "Tournament" WHERE id = ${tournamentId} FOR UPDATE
+      `;
+
+      if (!tournament) {
+        throw new NotFoundException(`Tournament ${tournamentId} not found`);
+      }
+
+      this.assertRegistrationOpen(tournament);
+
+      const entrants = await tx.tournamentEntrant.count({
+        where: { tournamentId },
+      });
+
+      if (entrants >= tournament.maxPlayers) {
+        throw new ConflictException('Tournament is full');
+      }
+
+      const entrant = await tx.tournamentEntrant.findUnique({
+        where: { tournamentId_userId: { tournamentId, userId } },
+      });
+      if (entrant) {
+        throw new ConflictException('Already registered');
+      }
+
+      await tx.tournamentEntrant.create({ data: { tournamentId, userId } });
+    });
+
+    this.logger.log(`User ${userId} registered to tournament ${tournamentId}`);
+
+    return this.publish(tournamentId);
+  }
+
+  async unregister(
+    tournamentId: string,
+    userId: string,
+  ): Promise<TournamentBracketDto> {
+    const tournament = await this.prisma.tournament.findUnique({
+      where: { id: tournamentId },
+    });
+
+    if (!tournament) {
+      throw new NotFoundException(`Tournament ${tournamentId} not found`);
+    }
+
+    this.assertRegistrationOpen(tournament);
+
+    const removed = await this.prisma.tournamentEntrant.deleteMany({
+      where: { tournamentId, userId },
+    });
+    if (removed.count === 0) {
+      throw new NotFoundException('Not registered to this tournament');
+    }
+
+    return this.publish(tournamentId);
+  }
+
+  /**
+   * Schedules the job closing registration and starting round 1.
+   * Overdue tournaments start right away.
+   */
+  async scheduleStart(tournament: Tournament) {
+    await this.tournamentQueue.add(
+      TOURNAMENT_JOBS.START,
+      { tournamentId: tournament.id } satisfies StartTournamentJob,
+      {
+        jobId: `tournament:start:${tournament.id}`,
+        delay: Math.max(0, tournament.startsAt.getTime() - Date.now()),
+      },
+    );
+  }
+
+  /**
+   * Broadcasts the current bracket to the `tournament:<id>` room and returns it.
+   */
+  async publish(tournamentId: string): Promise<TournamentBracketDto> {
+    const bracket = await this.getBracket(tournamentId);
+
+    this.realtime.emitToTournament(
+      tournamentId,
+      EVENTS.TOURNAMENT_UPDATED,
+      bracket,
+    );
+
+    return bracket;
+  }
+
+  private assertRegistrationOpen(tournament: Tournament) {
+    const now = new Date();
+    if (
+      tournament.status !== TournamentStatus.REGISTRATION ||
+      tournament.registrationOpensAt > now ||
+      tournament.startsAt <= now
+    ) {
+      throw new ConflictException('Registration is closed');
+    }
+  }
+
+  private toDto(tournament: Tournament, entrantCount: number): TournamentDto {
+    return {
+      id: tournament.id,
+      name: tournament.name,
+      format: tournament.format,
+      status: tournament.status,
+      stake: tournament.stake.toString(),
+      durationMs: tournament.durationMs,
+      allowedAssets: tournament.allowedAssets,
+      minPlayers: tournament.minPlayers,
+      maxPlayers: tournament.maxPlayers,
+      rounds: tournament.rounds,
+      currentRound: tournament.currentRound,
+      registrationOpensAt: tournament.registrationOpensAt,
+      startsAt: tournament.startsAt,
+      startedAt: tournament.startedAt,
+      endedAt: tournament.endedAt,
+      championId: tournament.championId,
+      entrantCount,
+    };
+  }
+
+  private toBracketDto(
+    tournament: TournamentWithBracket,
+  ): TournamentBracketDto {
+    return {
+      ...this.toDto(tournament, tournament.entrants.length),
+      entrants: tournament.entrants.map((e) => ({
+        userId: e.userId,
+        name: e.user.name,
+        avatar: e.user.avatar,
+        seed: e.seed,
+        eloSnapshot: e.eloSnapshot,
+        points: e.points,
+        eliminatedInRound: e.eliminatedInRound,
+        finalRank: e.finalRank,
+        registeredAt: e.createdAt,
+      })),
+      matches: tournament.matches.map((m) => ({
+        id: m.id,
+        round: m.round,
+        position: m.position,
+        status: m.status,
+        playerOneId: m.playerOneId,
+        playerTwoId: m.playerTwoId,
+        winnerId: m.winnerId,
+        battleId: m.battleId,
+      })),
+    };
+  }
+}
@@ -0,0 +1,98 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { JwtAuthGuard } from '@/common/guards/jwt-auth.guard';
+import { RolesGuard } from '@/common/guards/roles.guard';
+import { Roles } from '@/common/decorators/roles.decorator';
+import { CurrentUser } from '@/common/decorators/current-user.decorator';
+import { Public } from '@/common/decorators/public.decorator';
+import { UserRole } from '@/common/enums';
+import { IAuthUser } from '@/common/interfaces';
+import { TournamentService } from './services/tournament.service';
+import {
+  CreateTournamentDto,
+  ListTournamentsQueryDto,
+  TournamentBracketDto,
+  TournamentDetailDto,
+  TournamentDto,
+} from './dto/tournament.dto';
+
+/**
+ * Tournaments. Live bracket updates are pushed to the `tournament:<id>` room of
+ * the battle socket (`tournament.watch`).
+ */
+@ApiTags('Tournaments')
+@Controller('tournaments')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@ApiBearerAuth()
+export class TournamentController {
+  constructor(private readonly tournaments: TournamentService) {}
+
+  @Post()
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({ summary: 'Create a tournament (admin)' })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid schedule or player limits',
+  })
+  async create(@Body() dto: CreateTournamentDto): Promise<TournamentDto> {
+    return this.tournaments.create(dto);
+  }
+
+  @Get()
+  @Public()
+  @ApiOperation({
+    summary: 'List tournaments, open registrations first',
+  })
+  async list(
+    @Query() query: ListTournamentsQueryDto,
+  ): Promise<TournamentDto[]> {
+    return this.tournaments.list(query);
+  }
+
+  @Get(':tournamentId')
+  @Public()
+  @ApiOperation({ summary: 'Get a tournament bracket and its champion market' })
+  @ApiResponse({ status: 404, description: 'Tournament not found' })
+  async get(
+    @Param('tournamentId', ParseUUIDPipe) tournamentId: string,
+  ): Promise<TournamentDetailDto> {
+    return this.tournaments.getDetail(tournamentId);
+  }
+
+  @Post(':tournamentId/register')
+  @ApiOperation({ summary: 'Register to a tournament' })
+  @ApiResponse({
+    status: 409,
+    description: 'Registration closed, tournament full or already registered',
+  })
+  async register(
+    @CurrentUser() user: IAuthUser,
+    @Param('tournamentId', ParseUUIDPipe) tournamentId: string,
+  ): Promise<TournamentBracketDto> {
+    return this.tournaments.register(tournamentId, user.id);
+  }
+
+  @Delete(':tournamentId/register')
+  @ApiOperation({ summary: 'Withdraw before registration closes' })
+  async unregister(
+    @CurrentUser() user: IAuthUser,
+    @Param('tournamentId', ParseUUIDPipe) tournamentId: string,
+  ): Promise<TournamentBracketDto> {
+    return this.tournaments.unregister(tournamentId, user.id);
+  }
+}
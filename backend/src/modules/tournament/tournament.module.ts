@@ -0,0 +1,35 @@
+import { Module } from '@nestjs/common';
+import { BullModule } from '@nestjs/bullmq';
+import { BattleModule } from '@/modules/battle/battle.module';
+import { PredictionMarketModule } from '@/modules/prediction-market/prediction-market.module';
+import { TOURNAMENT_QUEUE } from './constants/tournament-queue.constants';
+import { TournamentService } from './services/tournament.service';
+import { TournamentBracketService } from './services/tournament-bracket.service';
+import { TournamentProcessor } from './processors/tournament.processor';
+import { TournamentEvents } from './events/tournament.event';
+import { TournamentController } from './tournament.controller';
+
+@Module({
+  imports: [
+    BattleModule,
+    PredictionMarketModule,
+    BullModule.registerQueue({
+      name: TOURNAMENT_QUEUE,
+      defaultJobOptions: {
+        attempts: 5,
+        backoff: { type: 'exponential', delay: 5000 },
+        removeOnComplete: true,
+        removeOnFail: false,
+      },
+    }),
+  ],
+  providers: [
+    TournamentService,
+    TournamentBracketService,
+    TournamentProcessor,
+    TournamentEvents,
+  ],
+  controllers: [TournamentController],
+  exports: [TournamentService],
+})
+export class TournamentModule {}
@@ -0,0 +1,13 @@
+/**
+ * Define the job types and their payloads for the tournament queue.
+ */
+export const TOURNAMENT_JOBS = {
+  START: 'tournament.start',
+} as const;
+
+/**
+ * Payload for the delayed job closing registration and starting round 1.
+ */
+export interface StartTournamentJob {
+  tournamentId: string;
+}
@@ -0,0 +1,143 @@
+import {
+  bracketOrder,
+  eliminationRank,
+  eliminationRounds,
+  pairSwiss,
+  rankSwiss,
+  SwissPlayer,
+} from './bracket.util';
+
+function swiss(
+  userId: string,
+  seed: number,
+  overrides: Partial<SwissPlayer> = {},
+): SwissPlayer {
+  return {
+    userId,
+    seed,
+    points: 0,
+    opponents: [],
+    hadBye: false,
+    ...overrides,
+  };
+}
+
+describe('eliminationRounds', () => {
+  it('plays enough rounds to leave one player', () => {
+    expect(eliminationRounds(2)).toBe(1);
+    expect(eliminationRounds(3)).toBe(2);
+    expect(eliminationRounds(8)).toBe(3);
+    expect(eliminationRounds(9)).toBe(4);
+  });
+
+  it('plays at least one round', () => {
+    expect(eliminationRounds(1)).toBe(1);
+  });
+});
+
+describe('bracketOrder', () => {
+  it('keeps the top seeds apart until the last rounds', () => {
+    expect(bracketOrder(1)).toEqual([1]);
+    expect(bracketOrder(2)).toEqual([1, 2]);
+    expect(bracketOrder(4)).toEqual([1, 4, 2, 3]);
+    expect(bracketOrder(8)).toEqual([1, 8, 4, 5, 2, 7, 3, 6]);
+  });
+});
+
+describe('eliminationRank', () => {
+  it('shares the placement of the players knocked out in a round', () => {
+    expect(eliminationRank(3, 3)).toBe(2);
+    expect(eliminationRank(3, 2)).toBe(3);
+    expect(eliminationRank(3, 1)).toBe(5);
+  });
+});
+
+describe('pairSwiss', () => {
+  it('pairs neighbours of the standings', () => {
+    const pairing = pairSwiss([
+      swiss('d', 4),
+      swiss('c', 3, { points: 1 }),
+      swiss('b', 2),
+      swiss('a', 1, { points: 1 }),
+    ]);
+
+    expect(pairing).toEqual({
+      pairs: [
+        ['a', 'c'],
+        ['b', 'd'],
+      ],
+      bye: null,
+    });
+  });
+
+  it('skips an opponent already played', () => {
+    const pairing = pairSwiss([
+      swiss('a', 1, { opponents: ['b'] }),
+      swiss('b', 2, { opponents: ['a'] }),
+      swiss('c', 3),
+      swiss('d', 4),
+    ]);
+
+    expect(pairing.pairs).toEqual([
+      ['a', 'c'],
+      ['b', 'd'],
+    ]);
+  });
+
+  it('allows a rematch when nobody else is left', () => {
+    const pairing = pairSwiss([
+      swiss('a', 1, { opponents: ['b'] }),
+      swiss('b', 2, { opponents: ['a'] }),
+    ]);
+
+    expect(pairing.pairs).toEqual([['a', 'b']]);
+  });
+
+  it('gives the bye to the lowest ranked player without one', () => {
+    const pairing = pairSwiss([
+      swiss('a', 1, { points: 1 }),
+      swiss('b', 2),
+      swiss('c', 3, { hadBye: true }),
+    ]);
+
+    expect(pairing).toEqual({ pairs: [['a', 'c']], bye: 'b' });
+  });
+
+  it('gives the bye to the last player when everybody had one', () => {
+    const pairing = pairSwiss([
+      swiss('a', 1, { hadBye: true }),
+      swiss('b', 2, { hadBye: true }),
+      swiss('c', 3, { hadBye: true }),
+    ]);
+
+    expect(pairing.bye).toBe('c');
+  });
+});
+
+describe('rankSwiss', () => {
+  it('ranks on points first', () => {
+    const ranking = rankSwiss([swiss('a', 1), swiss('b', 2, { points: 2 })]);
+
+    expect(ranking.map((p) => p.userId)).toEqual(['b', 'a']);
+  });
+
+  it('breaks point ties on the points of the opponents', () => {
+    const ranking = rankSwiss([
+      swiss('a', 1, { points: 1, opponents: ['d'] }),
+      swiss('b', 2, { points: 1, opponents: ['c'] }),
+      swiss('c', 3, { points: 2, opponents: ['b'] }),
+      swiss('d', 4, { points: 0, opponents: ['a'] }),
+    ]);
+
+    expect(ranking.map((p) => p.userId)).toEqual(['c', 'b', 'a', 'd']);
+  });
+
+  it('falls back to the seed on a full tie', () => {
+    const ranking = rankSwiss([
+      swiss('b', 2, { points: 1 }),
+      swiss('a', 1, { points: 1 }),
+    ]);
+
+    expect(ranking.map((p) => p.userId)).toEqual(['a', 'b']);
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * Standing of a Swiss player, input of pairings and final ranking.
+ */
+export interface SwissPlayer {
+  userId: string;
+  seed: number;
+  points: number;
+  opponents: string[]; // users already played, byes excluded
+  hadBye: boolean;
+}
+
+export interface SwissPairing {
+  pairs: [string, string][];
+  bye: string | null; // sits the round out and scores a point
+}
+
+/**
+ * Rounds of a single elimination bracket, the last one being the final.
+ */
+export function eliminationRounds(players: number): number {
+  return Math.max(1, Math.ceil(Math.log2(players)));
+}
+
+/**
+ * Seeds in bracket order for a bracket of `size` (power of 2): neighbours meet
+ * in round 1 and the top seeds can only meet late, e.g. 8 → [1, 8, 4, 5, 2, 7, 3, 6].
+ */
+export function bracketOrder(size: number): number[] {
+  let order = [1];
+  while (order.length < size) {
+    const sum = order.length * 2 + 1;
+    order = order.flatMap((seed) => [seed, sum - seed]);
+  }
+  return order;
+}
+
+/**
+ * Shared placement of the players knocked out in `round` (the final's loser is 2nd,
+ * semi-final losers 3rd, quarter-final losers 5th...).
+ */
+export function eliminationRank(rounds: number, round: number): number {
+  return 2 ** (rounds - round) + 1;
+}
+
+/**
+ * Pairs the next Swiss round. Players sorted by points (then seed) meet the next
+ * player of the standings they have not played yet; a rematch only happens when
+ * nobody else is left. With an odd count, the lowest ranked player without a bye
+ * sits out.
+ */
+export function pairSwiss(players: SwissPlayer[]): SwissPairing {
+  const ranked = [...players].sort(
+    (a, b) => b.points - a.points || a.seed - b.seed,
+  );
+
+  let bye: string | null = null;
+  if (ranked.length % 2 === 1) {
+    const sitter =
+      [...ranked].reverse().find((p) => !p.hadBye) ?? ranked[ranked.length - 1];
+    bye = sitter.userId;
+    ranked.splice(ranked.indexOf(sitter), 1);
+  }
+
+  const pairs: [string, string][] = [];
+  while (ranked.length > 1) {
+    const [player] = ranked.splice(0, 1);
+    const fresh = ranked.findIndex((p) => !player.opponents.includes(p.userId));
+    const [opponent] = ranked.splice(Math.max(fresh, 0), 1);
+    pairs.push([player.userId, opponent.userId]);
+  }
+
+  return { pairs, bye };
+}
+
+/**
+ * Final Swiss standings: points, then Buchholz (sum of the opponents' points), then seed.
+ */
+export function rankSwiss(players: SwissPlayer[]): SwissPlayer[] {
+  const points = new Map(players.map((p) => [p.userId, p.points]));
+  const buchholz = (p: SwissPlayer) =>
+    p.opponents.reduce((sum, id) => sum + (points.get(id) ?? 0), 0);
+
+  return [...players].sort(
+    (a, b) =>
+      b.points - a.points || buchholz(b) - buchholz(a) || a.seed - b.seed,
+  );
+}
@@ -4,8 +4,11 @@ import {
   Body,
   Patch,
   Param,
+  Query,
   UseGuards,
   ParseUUIDPipe,
+  ParseIntPipe,
+  DefaultValuePipe,
 } from '@nestjs/common';
 import {
   ApiTags,
@@ -13,6 +16,7 @@ import {
   ApiResponse,
   ApiBearerAuth,
   ApiParam,
+  ApiQuery,
 } from '@nestjs/swagger';
 import { UsersService } from './users.service';
 import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
@@ -45,6 +49,27 @@ export class UsersController {
     return this.usersService.findById(id);
   }
 
+  @Get(':id/rating-history')
+  @ApiOperation({ summary: 'Get how each battle moved a user rating' })
+  @ApiParam({ name: 'id', description: 'User UUID' })
+  @ApiQuery({
+    name: 'limit',
+    required: false,
+    description: 'Max rows (default 50)',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Rating changes, most recent first',
+  })
+  @ApiResponse({ status: 404, description: 'User not found' })
+  getRatingHistory(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query('limit', new DefaultValuePipe(50), ParseIntPipe) limit: number,
+  ) {
+    const take = Math.min(Math.max(limit, 1), 200);
+    return this.usersService.getRatingHistory(id, take);
+  }
+
   @Patch(':id')
   @ApiOperation({ summary: 'Update a user' })
   @ApiParam({ name: 'id', description: 'User UUID' })
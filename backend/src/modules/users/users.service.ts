@@ -1,7 +1,7 @@
 import { Injectable, NotFoundException, BadRequestException } from '@nestjs/common';
 import { isAddress } from 'viem';
 import { PrismaService } from '../../database/prisma.service';
-import { User } from '@prisma/client';
+import { RatingChange, User } from '@prisma/client';
 
 @Injectable()
 export class UsersService {
@@ -89,6 +89,18 @@ export class UsersService {
     });
   }
 
+  /**
+   * Rating changes of a user, most recent battle first
+   */
+  async getRatingHistory(id: string, limit = 50): Promise<RatingChange[]> {
+    await this.findById(id); // Verify user exists
+    return this.prisma.ratingChange.findMany({
+      where: { userId: id },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+    });
+  }
+
   async update(id: string, data: Partial<User>): Promise<User> {
     await this.findById(id); // Verify user exists
     return this.prisma.user.update({
@@ -0,0 +1,116 @@
+"use client";
+
+import React, { useState } from "react";
+import { useParams, useRouter } from "next/navigation";
+import { useQuery } from "@tanstack/react-query";
+
+import { GlassPanel } from "@/components/ui/GlassPanel";
+import { LaserBackground } from "@/components/ui/effects/LaserBackground";
+import { PageHeader } from "@/components/layout/PageHeader";
+import { ConnectWalletButton } from "@/components/wallet/ConnectWalletButton";
+import { acceptChallenge, fetchChallenge } from "@/lib/api/challenges";
+
+export default function ChallengePage() {
+  const params = useParams();
+  const router = useRouter();
+  const code = params?.code as string;
+
+  const { data: challenge, error, isLoading } = useQuery({
+    queryKey: ["challenge", code],
+    queryFn: () => fetchChallenge(code),
+    enabled: !!code,
+    retry: false,
+  });
+
+  const [accepting, setAccepting] = useState(false);
+  const [acceptError, setAcceptError] = useState<string | null>(null);
+
+  const handleAccept = async () => {
+    setAccepting(true);
+    setAcceptError(null);
+    try {
+      const accepted = await acceptChallenge(code);
+      if (accepted.battleId) router.push(`/match/${accepted.battleId}`);
+    } catch (e) {
+      setAcceptError(e instanceof Error ? e.message : "Could not accept the challenge");
+    } finally {
+      setAccepting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-black text-white">
+      <LaserBackground intensity={0.4} />
+      <div className="fixed inset-0 bg-[radial-gradient(circle_at_center,transparent_0%,#000000_90%)] z-0 pointer-events-none" />
+
+      <PageHeader
+        title="Private Challenge"
+        backUrl="/"
+        showNetworkStatus
+        rightContent={<ConnectWalletButton variant="page" />}
+      />
+
+      <div className="flex flex-col max-w-[600px] mx-auto gap-6 p-6">
+        <GlassPanel className="rounded-3xl p-6 border-white/20 shadow-[0_0_50px_rgba(0,0,0,0.5)]">
+          {isLoading && <p className="text-xs font-mono text-gray-500 text-center">Loading challenge...</p>}
+
+          {error && (
+            <p className="text-xs font-mono text-red-400 text-center">
+              {error instanceof Error ? error.message : "Challenge not found"}
+            </p>
+          )}
+
+          {challenge && (
+            <div className="flex flex-col gap-4 font-mono">
+              <h1 className="text-2xl mx-auto uppercase italic font-bold tracking-widest">
+                {challenge.creatorName ?? "A trader"} challenges you
+              </h1>
+
+              <div className="grid grid-cols-3 gap-3 text-center">
+                <div className="border border-white/10 rounded-2xl p-3">
+                  <div className="text-[9px] text-gray-500 font-bold uppercase">Stake</div>
+                  <div className="text-sm">${Number(challenge.stake).toLocaleString("en-US")}</div>
+                </div>
+                <div className="border border-white/10 rounded-2xl p-3">
+                  <div className="text-[9px] text-gray-500 font-bold uppercase">Duration</div>
+                  <div className="text-sm">{Math.round(challenge.durationMs / 60_000)} min</div>
+                </div>
+                <div className="border border-white/10 rounded-2xl p-3">
+                  <div className="text-[9px] text-gray-500 font-bold uppercase">Assets</div>
+                  <div className="text-sm">{challenge.allowedAssets.length ? challenge.allowedAssets.join(", ") : "Any"}</div>
+                </div>
+              </div>
+
+              <p className="text-xs text-gray-400 text-center">
+                {challenge.status === "PENDING"
+                  ? `Expires at ${new Date(challenge.expiresAt).toLocaleTimeString()}`
+                  : `This challenge is ${challenge.status.toLowerCase()}`}
+              </p>
+
+              {challenge.status === "PENDING" && (
+                <button
+                  disabled={accepting}
+                  onClick={handleAccept}
+                  className="w-full px-8 py-3 bg-neon border-neon/50 text-white hover:text-black font-black text-xs uppercase tracking-[0.2em] skew-x-[-15deg] transition-all disabled:opacity-50 disabled:cursor-not-allowed cursor-pointer"
+                >
+                  <span className="skew-x-[15deg] inline-block">{accepting ? "Accepting..." : "Accept Challenge"}</span>
+                </button>
+              )}
+
+              {challenge.status === "ACCEPTED" && challenge.battleId && (
+                <button
+                  onClick={() => router.push(`/match/${challenge.battleId}`)}
+                  className="w-full px-8 py-3 border border-white/20 text-white font-black text-xs uppercase tracking-[0.2em] cursor-pointer"
+                >
+                  Watch the battle
+                </button>
+              )}
+
+              {acceptError && <p className="text-xs text-red-400 text-center">{acceptError}</p>}
+            </div>
+          )}
+        </GlassPanel>
+      </div>
+    </div>
+  );
+}
@@ -7,8 +7,15 @@ import { PageHeader } from "@/components/layout/PageHeader";
 import { GlassPanel } from "@/components/ui/GlassPanel";
 import { Podium } from "@/components/leaderboard/Podium";
 import { LeaderboardTable } from "@/components/leaderboard/LeaderboardTable";
+import { formatPnl, formatVolume, formatWinRate } from "@/components/leaderboard/format";
+import { useLeaderboard } from "@/hooks/useLeaderboard";
 
 export default function LeaderboardPage() {
+  const { data, fetchNextPage, hasNextPage, isFetchingNextPage } = useLeaderboard({ metric: "RANK_POINTS", window: "SEASON" });
+
+  const entries = data?.pages.flatMap((page) => page.data) ?? [];
+  const me = data?.pages[0]?.me ?? null;
+
   return (
     <div className="min-h-screen bg-[#050505] text-white font-rajdhani selection:bg-magenta-500/50 overflow-x-hidden flex flex-col">
       {/* BACKGROUND */}
@@ -27,7 +34,7 @@ export default function LeaderboardPage() {
           <p className="text-gray-400 font-mono text-xs uppercase tracking-[0.3em]">The Liquidity Wars</p>
         </div>
 
-        <Podium />
+        <Podium leaders={entries.slice(0, 3)} />
 
         {/* USER STATS BAR */}
         <div className="mb-12 sticky top-24 z-30">
@@ -39,22 +46,22 @@ export default function LeaderboardPage() {
                 </div>
                 <div>
                   <div className="text-[10px] text-gray-500 font-bold uppercase tracking-widest">Your Rank</div>
-                  <div className="text-xl font-black italic text-white">#420</div>
+                  <div className="text-xl font-black italic text-white">{me ? `#${me.rank}` : "-"}</div>
                 </div>
               </div>
 
               <div className="flex gap-8 md:gap-16">
                 <div className="text-center md:text-left">
                   <div className="text-[9px] text-gray-500 font-bold uppercase">Net PnL</div>
-                  <div className="text-lg font-mono font-bold text-green-400">+$12,450</div>
+                  <div className={`text-lg font-mono font-bold ${!me || me.pnl >= 0 ? "text-green-400" : "text-red-400"}`}>{me ? formatPnl(me.pnl) : "-"}</div>
                 </div>
                 <div className="text-center md:text-left">
                   <div className="text-[9px] text-gray-500 font-bold uppercase">Win Rate</div>
-                  <div className="text-lg font-mono font-bold text-white">54.2%</div>
+                  <div className="text-lg font-mono font-bold text-white">{me ? formatWinRate(me.winRate) : "-"}</div>
                 </div>
                 <div className="text-center md:text-left hidden sm:block">
                   <div className="text-[9px] text-gray-500 font-bold uppercase">Volume</div>
-                  <div className="text-lg font-mono font-bold text-gray-300">$1.2M</div>
+                  <div className="text-lg font-mono font-bold text-gray-300">{me ? formatVolume(me.volume) : "-"}</div>
                 </div>
               </div>
 
@@ -67,7 +74,7 @@ export default function LeaderboardPage() {
           </GlassPanel>
         </div>
 
-        <LeaderboardTable />
+        <LeaderboardTable entries={entries.slice(3)} hasMore={!!hasNextPage} loadingMore={isFetchingNextPage} onLoadMore={() => fetchNextPage()} />
       </div>
     </div>
   );
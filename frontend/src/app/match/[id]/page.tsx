@@ -11,10 +11,14 @@ import { BettingPanel } from "@/components/match/BettingPanel";
 import { ChatPanel } from "@/components/match/ChatPanel";
 import { PageHeader } from "@/components/layout/PageHeader";
 import { ConnectWalletButton } from "@/components/wallet/ConnectWalletButton";
+import { useBattleStandings } from "@/hooks/useBattleStandings";
+import { useSpectate } from "@/hooks/useSpectate";
 
 export default function MatchPage() {
   const params = useParams();
   const battleId = params?.id as string;
+  const { series } = useBattleStandings(battleId);
+  const { spectators } = useSpectate(battleId);
 
   const [rightPanelWidth, setRightPanelWidth] = useState(30); // %
   const [chatHeight, setChatHeight] = useState(40); // % height of chat relative to right col
@@ -77,7 +81,7 @@ export default function MatchPage() {
             <div className="flex items-center gap-2 px-3 py-1.5 bg-white/5 rounded border border-white/10">
               <Users size={14} className="text-gray-400" />
               <span className="text-[10px] font-mono font-bold">
-                14,204 Spec
+                {spectators?.toLocaleString() ?? "-"} Spec
               </span>
             </div>
             <ConnectWalletButton variant="page" />
@@ -100,6 +104,7 @@ export default function MatchPage() {
               <DuelChart
                 focusedPlayer={focusedPlayer}
                 setFocusedPlayer={setFocusedPlayer}
+                series={series}
               />
             </GlassPanel>
             {/* Stats Row */}
@@ -169,7 +174,7 @@ export default function MatchPage() {
               className="rounded-br-2xl"
               style={{ height: `${chatHeight}%` }}
             >
-              <ChatPanel />
+              <ChatPanel battleId={battleId} online={spectators} />
             </GlassPanel>
           </div>
         </div>
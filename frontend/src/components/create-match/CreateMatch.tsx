@@ -34,10 +34,11 @@ export const CreateMatch = () => {
     const [selectedTokens, setSelectedTokens] = useState<string[]>([]);
 
     // use Battle hook for matchmaking logic
-    const { joinQueue, leaveQueue, status } = useBattle(
-        "user-id-placeholder",
-        current,
-    ); // Replace with actual user ID from authentication
+    const { joinQueue, leaveQueue, status } = useBattle("user-id-placeholder", {
+        stake: current,
+        assets: selectedTokens,
+        durationMs: Number(duration) * 60_000,
+    }); // Replace with actual user ID from authentication
     const matching = status === "matching";
 
     const filteredTokens = availableTokens.filter(
@@ -183,7 +184,7 @@ export const CreateMatch = () => {
                                         value={Number(duration)}
                                         min={15}
                                         max={180}
-                                        step={1}
+                                        step={15}
                                         className={`
                                             custom-slider w-full h-2 rounded-full appearance-none bg-gradient-to-r from-green-400 to-orange-500 ${
                                                 matching
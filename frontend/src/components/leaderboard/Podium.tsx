@@ -1,14 +1,18 @@
 import React from "react";
 import { Crown, Trophy, Flame, Star, Hexagon, Shield, Zap } from "lucide-react";
 import { GlassPanel } from "@/components/ui/GlassPanel";
+import type { LeaderboardEntry } from "@/lib/api/leaderboard";
+import { displayName, formatPnl, formatWinRate } from "./format";
 
-export const Podium = () => {
-  const topTraders = [
+interface PodiumProps {
+  /** Top 3 entries of the leaderboard */
+  leaders: LeaderboardEntry[];
+}
+
+export const Podium = ({ leaders }: PodiumProps) => {
+  const podiumStyles = [
     {
       rank: 2,
-      name: "Void_Walker",
-      pnl: "+$482,000",
-      winRate: "72%",
       avatar: "😈",
       color: "cyan",
       borderColor: "border-cyan-500",
@@ -18,9 +22,6 @@ export const Podium = () => {
     },
     {
       rank: 1,
-      name: "Satoshi_Ghost",
-      pnl: "+$892,420",
-      winRate: "88%",
       avatar: "👑",
       color: "yellow",
       borderColor: "border-yellow-500",
@@ -30,9 +31,6 @@ export const Podium = () => {
     },
     {
       rank: 3,
-      name: "Neon_Sniper",
-      pnl: "+$310,500",
-      winRate: "65%",
       avatar: "🤖",
       color: "magenta",
       borderColor: "border-magenta-500",
@@ -42,6 +40,13 @@ export const Podium = () => {
     },
   ];
 
+  // podium seats are positional (ties share a rank, not a seat)
+  const topTraders = podiumStyles.flatMap((style) => {
+    const entry = leaders[style.rank - 1];
+    if (!entry) return [];
+    return [{ ...style, name: displayName(entry), pnl: formatPnl(entry.pnl), winRate: formatWinRate(entry.winRate) }];
+  });
+
   return (
     <div className="flex flex-col md:flex-row justify-center items-end gap-8 mb-24 px-4">
       {topTraders.map((trader) => {
@@ -0,0 +1,13 @@
+import type { LeaderboardEntry } from "@/lib/api/leaderboard";
+
+/** +$12,450 / -$310 */
+export const formatPnl = (pnl: number) => `${pnl >= 0 ? "+" : "-"}$${Math.abs(Math.round(pnl)).toLocaleString()}`;
+
+/** $1.2M / $12.4K / $950 */
+export const formatVolume = (volume: number) =>
+  volume >= 1e6 ? `$${(volume / 1e6).toFixed(1)}M` : volume >= 1e3 ? `$${(volume / 1e3).toFixed(1)}K` : `$${Math.round(volume)}`;
+
+export const formatWinRate = (winRate: number) => `${winRate.toFixed(1)}%`;
+
+/** Users without a profile name are shown by a short id */
+export const displayName = (entry: LeaderboardEntry) => entry.name ?? `Anon_${entry.userId.slice(0, 6)}`;
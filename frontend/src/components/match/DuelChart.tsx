@@ -1,12 +1,30 @@
 import React, { useEffect, useRef } from "react";
 import { User } from "lucide-react";
+import type { StandingsSnapshot } from "@/lib/api/battles";
 
 interface DuelChartProps {
   focusedPlayer: "p1" | "p2" | null;
   setFocusedPlayer: (player: "p1" | "p2" | null) => void;
+  /** Live PnL samples, oldest first; mock curves are drawn until there are two */
+  series?: StandingsSnapshot[];
 }
 
-export const DuelChart = ({ focusedPlayer, setFocusedPlayer }: DuelChartProps) => {
+// ROI (%) of a slot in a sample, carried over from the previous sample when missing
+const roiSeries = (series: StandingsSnapshot[], slot: number) => {
+  let last = 0;
+  return series.map((s) => {
+    last = s.standings.find((p) => p.slot === slot)?.roi ?? last;
+    return last;
+  });
+};
+
+const formatRoi = (roi: number) => `${roi >= 0 ? "+" : ""}${roi.toFixed(1)}%`;
+
+export const DuelChart = ({ focusedPlayer, setFocusedPlayer, series = [] }: DuelChartProps) => {
+  const live = series.length >= 2;
+  const p1Roi = roiSeries(series, 1);
+  const p2Roi = roiSeries(series, 2);
+
   const canvasRef = useRef<HTMLCanvasElement>(null);
 
   useEffect(() => {
@@ -22,9 +40,9 @@ export const DuelChart = ({ focusedPlayer, setFocusedPlayer }: DuelChartProps) =
     canvas.height = height;
 
     // Generate Mock Data for 2 Players
-    const points = 100;
-    const p1Data: number[] = []; // Cyan
-    const p2Data: number[] = []; // Magenta
+    let points = 100;
+    let p1Data: number[] = []; // Cyan
+    let p2Data: number[] = []; // Magenta
     let y1 = height / 2;
     let y2 = height / 2;
 
@@ -45,6 +63,17 @@ export const DuelChart = ({ focusedPlayer, setFocusedPlayer }: DuelChartProps) =
       p2Data.push(y2);
     }
 
+    // Live ROI curves, scaled to fit with the 0% line in range
+    if (live) {
+      const max = Math.max(0, ...p1Roi, ...p2Roi);
+      const min = Math.min(0, ...p1Roi, ...p2Roi);
+      const span = max - min || 1;
+      const toY = (roi: number) => 20 + ((max - roi) / span) * (height - 40);
+      points = series.length;
+      p1Data = p1Roi.map(toY);
+      p2Data = p2Roi.map(toY);
+    }
+
     const drawLine = (data: number[], color: string, isFocused: boolean, isDimmed: boolean) => {
       ctx.beginPath();
       ctx.strokeStyle = color;
@@ -87,7 +116,7 @@ export const DuelChart = ({ focusedPlayer, setFocusedPlayer }: DuelChartProps) =
 
     drawLine(p1Data, "#22d3ee", focusedPlayer === "p1", p1Dimmed); // Cyan
     drawLine(p2Data, "#e879f9", focusedPlayer === "p2", p2Dimmed); // Magenta
-  }, [focusedPlayer]); // Re-render when focus changes
+  }, [focusedPlayer, series]); // Re-render when focus or data changes
 
   return (
     <div className="h-full flex flex-col relative group">
@@ -108,7 +137,7 @@ export const DuelChart = ({ focusedPlayer, setFocusedPlayer }: DuelChartProps) =
             </div>
             <div className="text-center bg-black/60 px-3 py-1 rounded-full border border-white/10 backdrop-blur-md">
               <div className="text-xs font-black italic text-white">TRADER_JOE</div>
-              <div className="text-[10px] font-mono text-cyan-400 font-bold">+142.5%</div>
+              <div className="text-[10px] font-mono text-cyan-400 font-bold">{live ? formatRoi(p1Roi[p1Roi.length - 1]) : "+142.5%"}</div>
             </div>
           </div>
         </div>
@@ -133,7 +162,7 @@ export const DuelChart = ({ focusedPlayer, setFocusedPlayer }: DuelChartProps) =
             </div>
             <div className="text-center bg-black/60 px-3 py-1 rounded-full border border-white/10 backdrop-blur-md">
               <div className="text-xs font-black italic text-white">VOID_WALKER</div>
-              <div className="text-[10px] font-mono text-magenta-400 font-bold">-12.8%</div>
+              <div className="text-[10px] font-mono text-magenta-400 font-bold">{live ? formatRoi(p2Roi[p2Roi.length - 1]) : "-12.8%"}</div>
             </div>
           </div>
         </div>
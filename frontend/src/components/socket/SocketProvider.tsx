@@ -17,11 +17,9 @@ export const SocketProvider = ({
 
         socket.connect();
 
+        // the socket is authenticated by the access token sent in the handshake
         socket.on("connect", () => {
             setConnected(true);
-
-            // Authenticate the socket connection with the user ID
-            socket.emit("auth", { userId });
         });
 
         socket.on("disconnect", () => {
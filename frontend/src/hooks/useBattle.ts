@@ -13,6 +13,29 @@ export interface BattlePlayer {
 export interface BattleRoom {
     battleId: string;
     players: BattlePlayer[];
+    allowedAssets: string[];
+    intendedDurationMs: number;
+    readyDeadline: string | null;
+}
+
+export interface BattleCancelled {
+    battleId: string;
+    reason?: "READY_TIMEOUT";
+    noShows?: string[];
+}
+
+export interface BattleError {
+    event: string;
+    code: string;
+    message: string;
+    errors?: Record<string, string[]>;
+}
+
+export interface QueueOptions {
+    stake: number;
+    assets?: string[]; // coins tradable in the battle
+    durationMs?: number;
+    teamSize?: 2 | 3; // team battle (2v2, 3v3); a party is queued by its leader
 }
 
 export type BattleStatus =
@@ -23,8 +46,8 @@ export type BattleStatus =
     | "finished"
     | "cancelled";
 
-export function useBattle(userId: string, stake?: number) {
-    const socket = getSocket(userId);
+export function useBattle(userId: string, queue?: QueueOptions) {
+    const socket = getSocket();
 
     useEffect(() => {
         socket.connect();
@@ -33,21 +56,23 @@ export function useBattle(userId: string, stake?: number) {
     const [battleId, setBattleId] = useState<string | null>(null);
     const [players, setPlayers] = useState<BattlePlayer[]>([]);
     const [status, setStatus] = useState<BattleStatus>("idle");
+    const [readyDeadline, setReadyDeadline] = useState<string | null>(null);
+    const [error, setError] = useState<BattleError | null>(null);
 
     // ========================
     // ACTIONS
     // ========================
 
     const joinQueue = useCallback(() => {
-        console.log("Joining queue with stake:", stake);
+        setError(null);
         setStatus("matching");
-        socket.emit(EVENTS.BATTLE_QUEUE, { userId, stake });
-    }, [socket, stake, userId]);
+        socket.emit(EVENTS.BATTLE_QUEUE, queue);
+    }, [socket, queue]);
 
     const leaveQueue = useCallback(() => {
         setStatus("idle");
-        socket.emit(EVENTS.BATTLE_DEQUEUE, { userId });
-    }, [socket, userId]);
+        socket.emit(EVENTS.BATTLE_DEQUEUE);
+    }, [socket]);
 
     const ready = useCallback(() => {
         if (!battleId) return;
@@ -76,6 +101,7 @@ export function useBattle(userId: string, stake?: number) {
         const handleCreated = (data: BattleRoom) => {
             setBattleId(data.battleId);
             setPlayers(data.players);
+            setReadyDeadline(data.readyDeadline);
             setStatus("matched");
         };
 
@@ -86,21 +112,46 @@ export function useBattle(userId: string, stake?: number) {
             console.log("Finished battle:", battleId);
         };
 
-        const handleCancelled = () => {
-            setStatus("cancelled");
+        const handleCancelled = (data: BattleCancelled) => {
+            // players who readied up are put back in the queue by the server
+            const requeued =
+                data.reason === "READY_TIMEOUT" &&
+                !data.noShows?.includes(userId);
+
+            setStatus(requeued ? "matching" : "cancelled");
             setBattleId(null);
             setPlayers([]);
+            setReadyDeadline(null);
         };
 
-        const handlePlayerLeft = (userId: string) => {
-            setPlayers((prev) => prev.filter((p) => p.userId !== userId));
+        const handlePlayerLeft = (data: { userId: string }) => {
+            setPlayers((prev) => prev.filter((p) => p.userId !== data.userId));
+        };
+
+        // the server puts us back into our ongoing battle after a reconnect
+        const handleReconnected = (data: {
+            battleId: string;
+            userId: string;
+            status: "WAITING" | "STARTED";
+        }) => {
+            if (data.userId !== userId) return;
+            setBattleId(data.battleId);
+            setStatus(data.status === "STARTED" ? "running" : "matched");
         };
 
         socket.on(EVENTS.BATTLE_CREATED, handleCreated);
         socket.on(EVENTS.BATTLE_STARTED, handleStarted);
         socket.on(EVENTS.BATTLE_FINISHED, handleFinished);
         socket.on(EVENTS.BATTLE_CANCELLED, handleCancelled);
+        // a rejected message: a failed queue attempt puts us back to idle
+        const handleError = (data: BattleError) => {
+            setError(data);
+            if (data.event === EVENTS.BATTLE_QUEUE) setStatus("idle");
+        };
+
         socket.on(EVENTS.PLAYER_LEFT, handlePlayerLeft);
+        socket.on(EVENTS.BATTLE_ERROR, handleError);
+        socket.on(EVENTS.PLAYER_RECONNECTED, handleReconnected);
 
         return () => {
             socket.off(EVENTS.BATTLE_CREATED, handleCreated);
@@ -108,13 +159,17 @@ export function useBattle(userId: string, stake?: number) {
             socket.off(EVENTS.BATTLE_FINISHED, handleFinished);
             socket.off(EVENTS.BATTLE_CANCELLED, handleCancelled);
             socket.off(EVENTS.PLAYER_LEFT, handlePlayerLeft);
+            socket.off(EVENTS.BATTLE_ERROR, handleError);
+            socket.off(EVENTS.PLAYER_RECONNECTED, handleReconnected);
         };
-    }, [socket]);
+    }, [socket, userId]);
 
     return {
         battleId,
         players,
         status,
+        readyDeadline,
+        error,
         joinQueue,
         leaveQueue,
         ready,
@@ -0,0 +1,80 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useInfiniteQuery } from "@tanstack/react-query";
+import { fetchBattleChat, type ChatMessage } from "@/lib/api/battles";
+import { getSocket } from "@/lib/socket";
+import { EVENTS } from "@/types/events.constants";
+import type { BattleError } from "./useBattle";
+
+/**
+ * Chat of a battle room: history pages from the API ("load older") plus the
+ * messages pushed on the socket. The socket must be in the battle room
+ * (player) or watching it (`useSpectate`) to send and receive.
+ */
+export function useBattleChat(battleId: string | undefined) {
+    const [live, setLive] = useState<ChatMessage[]>([]);
+    const [deleted, setDeleted] = useState<Set<string>>(new Set());
+    const [error, setError] = useState<BattleError | null>(null);
+
+    const history = useInfiniteQuery({
+        queryKey: ["battle-chat", battleId],
+        queryFn: ({ pageParam }) => fetchBattleChat(battleId!, pageParam),
+        initialPageParam: undefined as string | undefined,
+        getNextPageParam: (last) => last.nextCursor ?? undefined,
+        enabled: !!battleId,
+        staleTime: Infinity,
+    });
+
+    useEffect(() => {
+        if (!battleId) return;
+        const socket = getSocket();
+
+        const handleMessage = (message: ChatMessage) => {
+            if (message.battleId === battleId) setLive((prev) => [...prev, message]);
+        };
+
+        const handleDeleted = (data: { battleId: string; messageId: string }) => {
+            if (data.battleId === battleId) setDeleted((prev) => new Set(prev).add(data.messageId));
+        };
+
+        socket.on(EVENTS.CHAT_MESSAGE, handleMessage);
+        socket.on(EVENTS.CHAT_DELETED, handleDeleted);
+        return () => {
+            socket.off(EVENTS.CHAT_MESSAGE, handleMessage);
+            socket.off(EVENTS.CHAT_DELETED, handleDeleted);
+        };
+    }, [battleId]);
+
+    // older pages first, then live messages (a message may be in both)
+    const messages = useMemo(() => {
+        const pages = [...(history.data?.pages ?? [])].reverse();
+        const seen = new Set<string>();
+        return [...pages.flatMap((p) => p.items), ...live].filter((m) => {
+            if (seen.has(m.id) || deleted.has(m.id)) return false;
+            seen.add(m.id);
+            return true;
+        });
+    }, [history.data, live, deleted]);
+
+    const send = useCallback(
+        (content: string) => {
+            if (!battleId) return;
+            setError(null);
+            getSocket().emit(
+                EVENTS.CHAT_SEND,
+                { battleId, content },
+                (ack: { ok: boolean; error?: BattleError }) => {
+                    if (!ack.ok && ack.error) setError(ack.error);
+                },
+            );
+        },
+        [battleId],
+    );
+
+    return {
+        messages,
+        send,
+        error,
+        loadOlder: history.fetchNextPage,
+        hasOlder: history.hasNextPage,
+    };
+}
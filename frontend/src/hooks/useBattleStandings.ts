@@ -0,0 +1,40 @@
+import { useEffect } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { fetchBattleStandings, type StandingsSnapshot } from "@/lib/api/battles";
+import { getSocket } from "@/lib/socket";
+import { EVENTS } from "@/types/events.constants";
+
+/**
+ * Live PnL curve of a battle: the stored series first, then every
+ * `battle.standings` snapshot pushed to the battle room is appended.
+ */
+export function useBattleStandings(battleId: string | undefined) {
+  const queryClient = useQueryClient();
+
+  const query = useQuery({
+    queryKey: ["battle-standings", battleId],
+    queryFn: () => fetchBattleStandings(battleId!),
+    enabled: !!battleId,
+    staleTime: Infinity,
+  });
+
+  useEffect(() => {
+    if (!battleId) return;
+    const socket = getSocket();
+
+    const handleStandings = (snapshot: StandingsSnapshot) => {
+      if (snapshot.battleId !== battleId) return;
+      queryClient.setQueryData<StandingsSnapshot[]>(["battle-standings", battleId], (prev = []) => [
+        ...prev,
+        snapshot,
+      ]);
+    };
+
+    socket.on(EVENTS.BATTLE_STANDINGS, handleStandings);
+    return () => {
+      socket.off(EVENTS.BATTLE_STANDINGS, handleStandings);
+    };
+  }, [battleId, queryClient]);
+
+  return { ...query, series: query.data ?? [] };
+}
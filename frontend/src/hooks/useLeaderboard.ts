@@ -0,0 +1,20 @@
+import { useInfiniteQuery } from "@tanstack/react-query";
+import { fetchLeaderboard, type LeaderboardQuery } from "@/lib/api/leaderboard";
+import { useAuth } from "./useAuth";
+
+/**
+ * Fetches the leaderboard page by page ("Load More").
+ * Rankings are cached server-side for a minute, so no need to poll faster.
+ * Keyed by the signed-in user too, since `me` depends on who asks.
+ */
+export function useLeaderboard(query: Omit<LeaderboardQuery, "page"> = {}) {
+  const { user } = useAuth();
+
+  return useInfiniteQuery({
+    queryKey: ["leaderboard", query.metric, query.window, query.limit, user?.id ?? null],
+    queryFn: ({ pageParam }) => fetchLeaderboard({ ...query, page: pageParam }),
+    initialPageParam: 1,
+    getNextPageParam: (last) => (last.meta.hasNextPage ? last.meta.page + 1 : undefined),
+    staleTime: 60_000,
+  });
+}
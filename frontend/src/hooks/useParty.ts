@@ -0,0 +1,53 @@
+import { useCallback, useEffect, useState } from "react";
+import { getSocket } from "@/lib/socket";
+import { EVENTS } from "@/types/events.constants";
+
+export interface Party {
+    partyId: string;
+    leaderId: string;
+    members: string[]; // userIds, leader first
+}
+
+interface PartyUpdated {
+    id: string;
+    leaderId: string;
+    members: string[];
+    disbanded: boolean;
+}
+
+/**
+ * Party of friends queuing together for a team battle. Share `party.partyId`
+ * with them; the leader then queues with `useBattle` and a `teamSize`.
+ */
+export function useParty(userId: string | undefined) {
+    const [party, setParty] = useState<Party | null>(null);
+
+    useEffect(() => {
+        if (!userId) return;
+        const socket = getSocket();
+
+        const handleUpdated = (data: PartyUpdated) => {
+            if (data.disbanded || !data.members.includes(userId)) setParty(null);
+            else setParty({ partyId: data.id, leaderId: data.leaderId, members: data.members });
+        };
+
+        socket.on(EVENTS.PARTY_UPDATED, handleUpdated);
+        return () => {
+            socket.off(EVENTS.PARTY_UPDATED, handleUpdated);
+        };
+    }, [userId]);
+
+    const create = useCallback(() => {
+        getSocket().emit(EVENTS.PARTY_CREATE);
+    }, []);
+
+    const join = useCallback((partyId: string) => {
+        getSocket().emit(EVENTS.PARTY_JOIN, { partyId });
+    }, []);
+
+    const leave = useCallback(() => {
+        getSocket().emit(EVENTS.PARTY_LEAVE);
+    }, []);
+
+    return { party, create, join, leave, isLeader: !!party && party.leaderId === userId };
+}
@@ -0,0 +1,50 @@
+import { useEffect, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import type { BattleMarketsResponse } from "@/lib/api/prediction-market";
+import { getSocket } from "@/lib/socket";
+import { EVENTS } from "@/types/events.constants";
+
+/**
+ * Watches a battle as a spectator: joins its read-only room so lifecycle events,
+ * `battle.standings` and market prices are pushed to this page.
+ * Returns the live spectator count.
+ */
+export function useSpectate(battleId: string | undefined) {
+    const queryClient = useQueryClient();
+    const [spectators, setSpectators] = useState<number | null>(null);
+
+    useEffect(() => {
+        if (!battleId) return;
+        const socket = getSocket();
+
+        // rooms do not survive a reconnect, so watch again on every connect
+        const watch = () => {
+            socket.emit(EVENTS.BATTLE_WATCH, { battleId });
+        };
+
+        const handleSpectators = (data: { battleId: string; count: number }) => {
+            if (data.battleId === battleId) setSpectators(data.count);
+        };
+
+        const handleMarkets = (data: BattleMarketsResponse) => {
+            if (data.battleId !== battleId) return;
+            queryClient.setQueryData(["prediction-markets", battleId], data);
+        };
+
+        socket.on("connect", watch);
+        socket.on(EVENTS.BATTLE_SPECTATORS, handleSpectators);
+        socket.on(EVENTS.BATTLE_MARKETS, handleMarkets);
+
+        if (socket.connected) watch();
+        else socket.connect();
+
+        return () => {
+            socket.emit(EVENTS.BATTLE_UNWATCH, { battleId });
+            socket.off("connect", watch);
+            socket.off(EVENTS.BATTLE_SPECTATORS, handleSpectators);
+            socket.off(EVENTS.BATTLE_MARKETS, handleMarkets);
+        };
+    }, [battleId, queryClient]);
+
+    return { spectators };
+}
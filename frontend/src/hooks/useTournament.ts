@@ -0,0 +1,65 @@
+import { useEffect } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+    fetchTournament,
+    type TournamentBracket,
+    type TournamentDetail,
+    type TournamentMarketsResponse,
+} from "@/lib/api/tournaments";
+import { getSocket } from "@/lib/socket";
+import { EVENTS } from "@/types/events.constants";
+
+/**
+ * Loads a tournament and keeps its bracket and champion market live through
+ * the `tournament:<id>` socket room.
+ */
+export function useTournament(tournamentId: string | undefined) {
+    const queryClient = useQueryClient();
+
+    const query = useQuery({
+        queryKey: ["tournament", tournamentId],
+        queryFn: () => fetchTournament(tournamentId as string),
+        enabled: !!tournamentId,
+    });
+
+    useEffect(() => {
+        if (!tournamentId) return;
+        const socket = getSocket();
+
+        // rooms do not survive a reconnect, so watch again on every connect
+        const watch = () => {
+            socket.emit(EVENTS.TOURNAMENT_WATCH, { tournamentId });
+        };
+
+        const handleUpdated = (bracket: TournamentBracket) => {
+            if (bracket.id !== tournamentId) return;
+            queryClient.setQueryData<TournamentDetail>(["tournament", tournamentId], (prev) => ({
+                ...bracket,
+                markets: prev?.markets ?? [],
+            }));
+        };
+
+        const handleMarkets = (data: TournamentMarketsResponse) => {
+            if (data.tournamentId !== tournamentId) return;
+            queryClient.setQueryData<TournamentDetail>(["tournament", tournamentId], (prev) =>
+                prev ? { ...prev, markets: data.markets } : prev,
+            );
+        };
+
+        socket.on("connect", watch);
+        socket.on(EVENTS.TOURNAMENT_UPDATED, handleUpdated);
+        socket.on(EVENTS.TOURNAMENT_MARKETS, handleMarkets);
+
+        if (socket.connected) watch();
+        else socket.connect();
+
+        return () => {
+            socket.emit(EVENTS.TOURNAMENT_UNWATCH, { tournamentId });
+            socket.off("connect", watch);
+            socket.off(EVENTS.TOURNAMENT_UPDATED, handleUpdated);
+            socket.off(EVENTS.TOURNAMENT_MARKETS, handleMarkets);
+        };
+    }, [tournamentId, queryClient]);
+
+    return query;
+}
@@ -0,0 +1,72 @@
+const API_BASE = process.env.NEXT_PUBLIC_API_URL ?? "http://localhost:3002/api/v1";
+
+// ── Shared types mirroring backend DTOs ──────────────────────────────────────
+
+export interface LiveStanding {
+  /** Team rank in a team battle, shared by teammates */
+  rank: number;
+  slot: number;
+  /** 1 or 2 in a team battle, null in a free-for-all */
+  team: number | null;
+  userId: string;
+  /** USD */
+  accountValue: number;
+  /** USD, change of account value since the battle started */
+  pnl: number;
+  /** % of stake */
+  roi: number;
+  forfeited: boolean;
+}
+
+/** One live PnL sample, also the payload of the `battle.standings` socket event */
+export interface StandingsSnapshot {
+  battleId: string;
+  sampledAt: string;
+  standings: LiveStanding[];
+}
+
+export type ChatMessageType = "USER" | "SYSTEM";
+
+/** A chat message, also the payload of `battle.chat.message` */
+export interface ChatMessage {
+  id: string;
+  battleId: string;
+  type: ChatMessageType;
+  /** Author, or the player a SYSTEM message is about */
+  userId: string | null;
+  name: string | null;
+  content: string;
+  createdAt: string;
+}
+
+export interface ChatHistoryResponse {
+  /** Oldest first */
+  items: ChatMessage[];
+  /** Cursor of the next (older) page */
+  nextCursor: string | null;
+}
+
+// ── Fetch helpers ─────────────────────────────────────────────────────────────
+
+/**
+ * GET /battles/:battleId/standings
+ * Every sample stored so far, oldest first.
+ */
+export async function fetchBattleStandings(battleId: string): Promise<StandingsSnapshot[]> {
+  const res = await fetch(`${API_BASE}/battles/${battleId}/standings`);
+  if (!res.ok) throw new Error(`API ${res.status}: /battles/${battleId}/standings`);
+  const body = (await res.json()) as { data: StandingsSnapshot[] };
+  return body.data;
+}
+
+/**
+ * GET /battles/:battleId/chat?cursor=&limit=
+ * Latest messages first; pass `nextCursor` to load older ones.
+ */
+export async function fetchBattleChat(battleId: string, cursor?: string): Promise<ChatHistoryResponse> {
+  const params = new URLSearchParams(cursor ? { cursor } : {});
+  const res = await fetch(`${API_BASE}/battles/${battleId}/chat?${params}`);
+  if (!res.ok) throw new Error(`API ${res.status}: /battles/${battleId}/chat`);
+  const body = (await res.json()) as { data: ChatHistoryResponse };
+  return body.data;
+}
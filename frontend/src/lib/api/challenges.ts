@@ -0,0 +1,76 @@
+const API_BASE = process.env.NEXT_PUBLIC_API_URL ?? "http://localhost:3002/api/v1";
+
+// ── Shared types mirroring backend DTOs ──────────────────────────────────────
+
+export type ChallengeStatus = "PENDING" | "ACCEPTED" | "CANCELLED" | "EXPIRED";
+
+export interface Challenge {
+  id: string;
+  /** Shareable code, the invite link is /challenge/:code */
+  code: string;
+  status: ChallengeStatus;
+  creatorId: string;
+  creatorName: string | null;
+  /** Only this user may accept; null when anyone with the code can */
+  inviteeId: string | null;
+  /** USD */
+  stake: string;
+  durationMs: number;
+  allowedAssets: string[];
+  expiresAt: string;
+  createdAt: string;
+  /** Set once accepted */
+  battleId: string | null;
+}
+
+export interface CreateChallengeInput {
+  stake: number;
+  durationMs: number;
+  assets?: string[];
+  inviteeId?: string;
+}
+
+// ── Fetch helpers ─────────────────────────────────────────────────────────────
+
+async function request<T>(path: string, init: RequestInit = {}): Promise<T> {
+  const token = typeof window !== "undefined" ? localStorage.getItem("tradeclub_token") : null;
+
+  const res = await fetch(`${API_BASE}${path}`, {
+    ...init,
+    headers: {
+      "Content-Type": "application/json",
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    },
+  });
+  const body = await res.json().catch(() => null);
+  if (!res.ok) throw new Error(body?.message ?? `API ${res.status}: ${path}`);
+  return (body as { data: T }).data;
+}
+
+/** Shareable link of a challenge */
+export function challengeLink(code: string): string {
+  return `${window.location.origin}/challenge/${code}`;
+}
+
+/** POST /challenges */
+export function createChallenge(input: CreateChallengeInput): Promise<Challenge> {
+  return request<Challenge>("/challenges", { method: "POST", body: JSON.stringify(input) });
+}
+
+/** GET /challenges/:code (public) */
+export function fetchChallenge(code: string): Promise<Challenge> {
+  return request<Challenge>(`/challenges/${code}`);
+}
+
+/**
+ * POST /challenges/:code/accept
+ * Creates the battle right away; the returned challenge carries its `battleId`.
+ */
+export function acceptChallenge(code: string): Promise<Challenge> {
+  return request<Challenge>(`/challenges/${code}/accept`, { method: "POST" });
+}
+
+/** DELETE /challenges/:code (creator only) */
+export function cancelChallenge(code: string): Promise<Challenge> {
+  return request<Challenge>(`/challenges/${code}`, { method: "DELETE" });
+}
@@ -0,0 +1,67 @@
+const API_BASE = process.env.NEXT_PUBLIC_API_URL ?? "http://localhost:3002/api/v1";
+
+// ── Shared types mirroring backend DTOs ──────────────────────────────────────
+
+export type LeaderboardMetric = "ELO" | "RANK_POINTS" | "PNL" | "WIN_RATE" | "VOLUME";
+
+export type LeaderboardWindow = "ALL_TIME" | "SEASON" | "WEEK" | "DAY";
+
+export interface LeaderboardEntry {
+  /** Position for the requested metric (ties share a rank) */
+  rank: number;
+  userId: string;
+  name: string | null;
+  avatar: string | null;
+  elo: number;
+  rankPoints: number;
+  /** Net PnL in USD over the window */
+  pnl: number;
+  /** Traded notional in USD over the window */
+  volume: number;
+  /** Battles won, in % */
+  winRate: number;
+  battles: number;
+  wins: number;
+}
+
+export interface LeaderboardResponse {
+  data: LeaderboardEntry[];
+  meta: {
+    page: number;
+    limit: number;
+    totalItems: number;
+    totalPages: number;
+    hasNextPage: boolean;
+    hasPreviousPage: boolean;
+  };
+  /** The caller's own entry, null when anonymous or unranked */
+  me: LeaderboardEntry | null;
+}
+
+export interface LeaderboardQuery {
+  metric?: LeaderboardMetric;
+  window?: LeaderboardWindow;
+  page?: number;
+  limit?: number;
+}
+
+// ── Fetch helpers ─────────────────────────────────────────────────────────────
+
+/**
+ * GET /leaderboard?metric=&window=&page=&limit=
+ * Sends the access token when logged in so the response includes `me`.
+ */
+export async function fetchLeaderboard(query: LeaderboardQuery = {}): Promise<LeaderboardResponse> {
+  const params = new URLSearchParams(
+    Object.entries(query)
+      .filter(([, v]) => v !== undefined)
+      .map(([k, v]) => [k, String(v)]),
+  );
+  const token = typeof window !== "undefined" ? localStorage.getItem("tradeclub_token") : null;
+
+  const res = await fetch(`${API_BASE}/leaderboard?${params}`, {
+    headers: token ? { Authorization: `Bearer ${token}` } : undefined,
+  });
+  if (!res.ok) throw new Error(`API ${res.status}: /leaderboard`);
+  return res.json() as Promise<LeaderboardResponse>;
+}
@@ -0,0 +1,120 @@
+import type { MarketState } from "./prediction-market";
+
+const API_BASE = process.env.NEXT_PUBLIC_API_URL ?? "http://localhost:3002/api/v1";
+
+// ── Shared types mirroring backend DTOs ──────────────────────────────────────
+
+export type TournamentFormat = "SINGLE_ELIMINATION" | "SWISS";
+export type TournamentStatus = "REGISTRATION" | "RUNNING" | "FINISHED" | "CANCELLED";
+export type TournamentMatchStatus = "PENDING" | "LIVE" | "FINISHED" | "BYE";
+
+export interface Tournament {
+  id: string;
+  name: string;
+  format: TournamentFormat;
+  status: TournamentStatus;
+  /** USD stake of each player in every battle */
+  stake: string;
+  durationMs: number;
+  allowedAssets: string[];
+  minPlayers: number;
+  maxPlayers: number;
+  rounds: number | null;
+  currentRound: number;
+  registrationOpensAt: string;
+  startsAt: string;
+  startedAt: string | null;
+  endedAt: string | null;
+  championId: string | null;
+  entrantCount: number;
+}
+
+export interface TournamentEntrant {
+  userId: string;
+  name: string | null;
+  avatar: string | null;
+  /** 1 = highest ELO at start; champion market outcome is seed - 1 */
+  seed: number | null;
+  eloSnapshot: number | null;
+  /** Swiss score */
+  points: number;
+  eliminatedInRound: number | null;
+  finalRank: number | null;
+  registeredAt: string;
+}
+
+export interface TournamentMatch {
+  id: string;
+  round: number;
+  position: number;
+  status: TournamentMatchStatus;
+  playerOneId: string;
+  /** null for a bye */
+  playerTwoId: string | null;
+  winnerId: string | null;
+  battleId: string | null;
+}
+
+/** Also the payload of the `tournament.updated` socket event */
+export interface TournamentBracket extends Tournament {
+  entrants: TournamentEntrant[];
+  matches: TournamentMatch[];
+}
+
+export interface TournamentDetail extends TournamentBracket {
+  /** Champion market */
+  markets: MarketState[];
+}
+
+export interface TournamentMarketsResponse {
+  tournamentId: string;
+  markets: MarketState[];
+}
+
+/** Payload of the `tournament.walkover` socket event, sent to both players */
+export interface TournamentWalkover {
+  tournamentId: string;
+  matchId: string;
+  round: number;
+  winnerId: string;
+  /** Players who could not play the match, empty when nobody was at fault */
+  forfeitedBy: string[];
+  reason: string;
+}
+
+// ── Fetch helpers ─────────────────────────────────────────────────────────────
+
+async function request<T>(path: string, init: RequestInit = {}): Promise<T> {
+  const token = typeof window !== "undefined" ? localStorage.getItem("tradeclub_token") : null;
+
+  const res = await fetch(`${API_BASE}${path}`, {
+    ...init,
+    headers: {
+      "Content-Type": "application/json",
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    },
+  });
+  const body = await res.json().catch(() => null);
+  if (!res.ok) throw new Error(body?.message ?? `API ${res.status}: ${path}`);
+  return (body as { data: T }).data;
+}
+
+/** GET /tournaments (public) */
+export function fetchTournaments(status?: TournamentStatus): Promise<Tournament[]> {
+  return request<Tournament[]>(`/tournaments${status ? `?status=${status}` : ""}`);
+}
+
+/** GET /tournaments/:tournamentId (public) */
+export function fetchTournament(tournamentId: string): Promise<TournamentDetail> {
+  return request<TournamentDetail>(`/tournaments/${tournamentId}`);
+}
+
+/** POST /tournaments/:tournamentId/register */
+export function registerToTournament(tournamentId: string): Promise<TournamentBracket> {
+  return request<TournamentBracket>(`/tournaments/${tournamentId}/register`, { method: "POST" });
+}
+
+/** DELETE /tournaments/:tournamentId/register */
+export function unregisterFromTournament(tournamentId: string): Promise<TournamentBracket> {
+  return request<TournamentBracket>(`/tournaments/${tournamentId}/register`, { method: "DELETE" });
+}
@@ -2,11 +2,12 @@ import { Socket, io } from "socket.io-client";
 
 let socket: Socket | null = null;
 
-export function getSocket(userId: string) {
+export function getSocket() {
     if (!socket) {
         socket = io(`${process.env.NEXT_PUBLIC_WS_URL!}/battle`, {
             transports: ["websocket"],
-            auth: { userId },
+            // read on every (re)connect so a fresh login token is picked up
+            auth: (cb) => cb({ token: localStorage.getItem("tradeclub_token") }),
             autoConnect: false,
         });
     }
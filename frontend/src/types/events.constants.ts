@@ -10,11 +10,42 @@ export const EVENTS = {
     BATTLE_STARTED: "battle.started",
     BATTLE_FINISHED: "battle.finished",
     BATTLE_CANCELLED: "battle.cancelled",
+    BATTLE_ERROR: "battle.error",
+    BATTLE_STANDINGS: "battle.standings",
+    BATTLE_MARKETS: "battle.markets",
+
+    // Spectator events
+    BATTLE_WATCH: "battle.watch",
+    BATTLE_UNWATCH: "battle.unwatch",
+    BATTLE_SPECTATORS: "battle.spectators",
+
+    // Party events (team battles)
+    PARTY_CREATE: "party.create",
+    PARTY_JOIN: "party.join",
+    PARTY_LEAVE: "party.leave",
+    PARTY_UPDATED: "party.updated",
+
+    // Tournament events
+    TOURNAMENT_WATCH: "tournament.watch",
+    TOURNAMENT_UNWATCH: "tournament.unwatch",
+    TOURNAMENT_UPDATED: "tournament.updated",
+    TOURNAMENT_MARKETS: "tournament.markets",
+    TOURNAMENT_WALKOVER: "tournament.walkover",
+
+    // Chat events
+    CHAT_SEND: "battle.chat.send",
+    CHAT_MESSAGE: "battle.chat.message",
+    CHAT_DELETE: "battle.chat.delete",
+    CHAT_DELETED: "battle.chat.deleted",
+    CHAT_MUTE: "battle.chat.mute",
+    CHAT_MUTED: "battle.chat.muted",
 
     // Player events
     PLAYER_QUEUE: "player.queue",
     PLAYER_DEQUEUE: "player.dequeue",
     PLAYER_READY: "player.ready",
     PLAYER_LEFT: "player.left",
+    PLAYER_DISCONNECTED: "player.disconnected",
+    PLAYER_RECONNECTED: "player.reconnected",
     PLAYER_FINISHED: "player.finished",
 };